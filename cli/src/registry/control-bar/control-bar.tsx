@@ -8,6 +8,10 @@ import type { VariantProps } from "class-variance-authority";
 import type { messageVariants } from "@/components/ui/message";
 import {
   MessageInput,
+  MessageInputAttachments,
+  MessageInputFileButton,
+  MessageInputMcpPrompts,
+  MessageInputMcpSamplingRequests,
   MessageInputTextarea,
   MessageInputToolbar,
   MessageInputSubmitButton,
@@ -98,8 +102,12 @@ export const ControlBar = React.forwardRef<HTMLDivElement, ControlBarProps>(
               <div className="bg-background border rounded-lg p-3 flex items-center justify-between gap-4">
                 <div className="flex-1">
                   <MessageInput contextKey={contextKey}>
+                    <MessageInputAttachments />
+                    <MessageInputMcpPrompts />
+                    <MessageInputMcpSamplingRequests />
                     <MessageInputTextarea />
                     <MessageInputToolbar>
+                      <MessageInputFileButton />
                       {/* Uncomment this to enable client-side MCP config modal button */}
                       {/* <MessageInputMcpConfigButton /> */}
                       <MessageInputSubmitButton />
@@ -1,6 +1,10 @@
 export {
   MessageInput,
+  MessageInputAttachments,
   MessageInputError,
+  MessageInputFileButton,
+  MessageInputMcpPrompts,
+  MessageInputMcpSamplingRequests,
   MessageInputSubmitButton,
   MessageInputTextarea,
   MessageInputToolbar,
@@ -1,7 +1,12 @@
 "use client";
 
-import { type McpServerInfo, MCPTransport } from "@tambo-ai/react/mcp";
-import { ChevronDown, X, Trash2 } from "lucide-react";
+import {
+  type McpConnectionStatus,
+  type McpServerInfo,
+  MCPTransport,
+  useTamboMcpServers,
+} from "@tambo-ai/react/mcp";
+import { ChevronDown, LogIn, RefreshCw, X, Trash2 } from "lucide-react";
 import React from "react";
 import { createPortal } from "react-dom";
 import { motion } from "framer-motion";
@@ -15,6 +20,22 @@ import { createMarkdownComponents } from "@/components/ui/markdown-components";
 import { Streamdown } from "streamdown";
 import { cn } from "@/lib/utils";
 
+const statusLabels: Record<McpConnectionStatus, string> = {
+  connecting: "Connecting…",
+  connected: "Connected",
+  reconnecting: "Reconnecting…",
+  error: "Not connected",
+  unauthorized: "Sign in required",
+};
+
+const statusColors: Record<McpConnectionStatus, string> = {
+  connecting: "bg-yellow-500",
+  connected: "bg-green-500",
+  reconnecting: "bg-yellow-500",
+  error: "bg-destructive",
+  unauthorized: "bg-yellow-500",
+};
+
 /**
  * Modal component for configuring client-side MCP (Model Context Protocol) servers.
  *
@@ -25,16 +46,19 @@ import { cn } from "@/lib/utils";
  * @param props - Component props
  * @param props.isOpen - Whether the modal is currently open/visible
  * @param props.onClose - Callback function called when the modal should be closed
+ * @param props.oauthRedirectUrl - The page that calls `handleMcpOAuthCallback`, for servers that require signing in
  * @returns The modal component or null if not open
  */
 export const McpConfigModal = ({
   isOpen,
   onClose,
   className,
+  oauthRedirectUrl = "/mcp/oauth/callback",
 }: {
   isOpen: boolean;
   onClose: () => void;
   className?: string;
+  oauthRedirectUrl?: string;
 }) => {
   // Initialize from localStorage directly to avoid conflicts
   const [mcpServers, setMcpServers] = React.useState<McpServerInfo[]>(() => {
@@ -50,8 +74,11 @@ export const McpConfigModal = ({
   const [transportType, setTransportType] = React.useState<MCPTransport>(
     MCPTransport.HTTP,
   );
+  const [useOAuth, setUseOAuth] = React.useState(false);
   const [savedSuccess, setSavedSuccess] = React.useState(false);
   const [showInstructions, setShowInstructions] = React.useState(false);
+  // Connection status of the servers of the surrounding TamboMcpProvider
+  const serverStatuses = useTamboMcpServers();
 
   // Handle Escape key to close modal
   React.useEffect(() => {
@@ -97,6 +124,7 @@ export const McpConfigModal = ({
         url: serverUrl.trim(),
         transport: transportType,
         ...(serverName.trim() ? { name: serverName.trim() } : {}),
+        ...(useOAuth ? { oauth: { redirectUrl: oauthRedirectUrl } } : {}),
       };
       setMcpServers((prev) => [...prev, serverConfig]);
 
@@ -104,6 +132,7 @@ export const McpConfigModal = ({
       setServerUrl("");
       setServerName("");
       setTransportType(MCPTransport.HTTP);
+      setUseOAuth(false);
     }
   };
 
@@ -114,12 +143,18 @@ export const McpConfigModal = ({
   // Helper function to get server display information
   const getServerInfo = (server: McpServerInfo) => {
     if (typeof server === "string") {
-      return { url: server, transport: "SSE (default)", name: null };
+      return {
+        url: server,
+        transport: "SSE (default)",
+        name: null,
+        usesOAuth: false,
+      };
     } else {
       return {
         url: server.url,
         transport: server.transport ?? "SSE (default)",
         name: server.name ?? null,
+        usesOAuth: Boolean(server.oauth),
       };
     }
   };
@@ -155,7 +190,22 @@ import { TamboMcpProvider } from "@tambo-ai/react/mcp";
 const mcpServers = useMcpServers();
 \`\`\`
 
-#### 3. Example implementation:
+#### 3. Handle sign-in for servers that require OAuth
+
+Add a page at \`${oauthRedirectUrl}\` that finishes signing in:
+
+\`\`\`tsx
+import { handleMcpOAuthCallback } from "@tambo-ai/react/mcp";
+
+export default function McpOAuthCallback() {
+  useEffect(() => {
+    handleMcpOAuthCallback();
+  }, []);
+  return <p>Signing in…</p>;
+}
+\`\`\`
+
+#### 4. Example implementation:
 
 \`\`\`tsx
 function MyApp() {
@@ -319,6 +369,20 @@ function MyApp() {
                   </DropdownMenuContent>
                 </DropdownMenu>
               </div>
+
+              {/* OAuth */}
+              <label className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={useOAuth}
+                  onChange={(e) => setUseOAuth(e.target.checked)}
+                  className="accent-primary"
+                />
+                <span className="font-semibold">Sign in with OAuth</span>
+                <span className="text-secondary">
+                  (for servers that require authorization)
+                </span>
+              </label>
             </div>
 
             <button
@@ -343,11 +407,14 @@ function MyApp() {
           {mcpServers.length > 0 ? (
             <div>
               <h4 className="font-medium mb-3 text-foreground">
-                Connected Servers ({mcpServers.length})
+                Servers ({mcpServers.length})
               </h4>
               <div className="space-y-2">
                 {mcpServers.map((server, index) => {
                   const serverInfo = getServerInfo(server);
+                  const serverStatus = serverStatuses.find(
+                    ({ url }) => url === serverInfo.url,
+                  );
                   return (
                     <div
                       key={index}
@@ -355,7 +422,14 @@ function MyApp() {
                     >
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center mb-1">
-                          <div className="w-2 h-2 bg-green-500 rounded-full mr-3 flex-shrink-0"></div>
+                          <div
+                            className={cn(
+                              "w-2 h-2 rounded-full mr-3 flex-shrink-0",
+                              serverStatus
+                                ? statusColors[serverStatus.status]
+                                : "bg-muted-foreground",
+                            )}
+                          ></div>
                           <span className="text-foreground font-medium truncate">
                             {serverInfo.url}
                           </span>
@@ -371,8 +445,48 @@ function MyApp() {
                             <span className="font-medium">Transport:</span>{" "}
                             {serverInfo.transport}
                           </div>
+                          {serverInfo.usesOAuth && (
+                            <div className="text-sm text-secondary">
+                              <span className="font-medium">Auth:</span> OAuth
+                            </div>
+                          )}
+                          {serverStatus && (
+                            <div className="text-sm text-secondary">
+                              <span className="font-medium">Status:</span>{" "}
+                              {statusLabels[serverStatus.status]}
+                              {serverStatus.status === "connected" &&
+                                ` (${serverStatus.toolCount} tools, ${serverStatus.promptCount} prompts)`}
+                            </div>
+                          )}
+                          {serverStatus?.error &&
+                            serverStatus.status !== "connected" && (
+                              <div className="text-sm text-destructive">
+                                {serverStatus.error}
+                              </div>
+                            )}
                         </div>
                       </div>
+                      {serverStatus?.status === "unauthorized" && (
+                        <button
+                          // The login popup has to open from the click
+                          onClick={() => void serverStatus.authorize()}
+                          className="ml-4 px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-1 transition-colors duration-150 flex-shrink-0 flex items-center gap-1"
+                        >
+                          <LogIn className="w-4 h-4" />
+                          Sign in
+                        </button>
+                      )}
+                      {serverStatus &&
+                        (serverStatus.status === "error" ||
+                          serverStatus.status === "reconnecting") && (
+                          <button
+                            onClick={serverStatus.reconnect}
+                            className="ml-4 px-3 py-1.5 text-sm bg-muted text-foreground rounded-md hover:bg-muted/80 focus:outline-none focus:ring-2 focus:ring-muted-foreground focus:ring-offset-1 transition-colors duration-150 flex-shrink-0"
+                            aria-label="Reconnect"
+                          >
+                            <RefreshCw className="w-4 h-4" />
+                          </button>
+                        )}
                       <button
                         onClick={() => removeServer(index)}
                         className="ml-4 px-3 py-1.5 text-sm bg-destructive/20 text-destructive rounded-md hover:bg-destructive/30 focus:outline-none focus:ring-2 focus:ring-destructive focus:ring-offset-1 transition-colors duration-150 flex-shrink-0"
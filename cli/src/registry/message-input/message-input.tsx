@@ -4,12 +4,19 @@ import { McpConfigModal } from "@/components/ui/mcp-config-modal";
 import { Tooltip, TooltipProvider } from "@/components/ui/suggestions-tooltip";
 import { cn } from "@/lib/utils";
 import {
+  DEFAULT_ATTACHMENT_TYPES,
+  formatFileSize,
   useIsTamboTokenUpdating,
   useTamboThread,
   useTamboThreadInput,
 } from "@tambo-ai/react";
+import {
+  type TamboMcpPrompt,
+  useTamboMcpPrompts,
+  useTamboMcpSamplingRequests,
+} from "@tambo-ai/react/mcp";
 import { cva, type VariantProps } from "class-variance-authority";
-import { ArrowUp, Square } from "lucide-react";
+import { ArrowUp, FileText, Paperclip, Square, X } from "lucide-react";
 import * as React from "react";
 
 /**
@@ -57,6 +64,7 @@ const messageInputVariants = cva("w-full", {
  * @property {HTMLTextAreaElement|null} textareaRef - Reference to the textarea element
  * @property {string | null} submitError - Error from the submission
  * @property {function} setSubmitError - Function to set the submission error
+ * @property {function} addAttachments - Function to attach files to the message
  */
 interface MessageInputContextValue {
   value: string;
@@ -72,6 +80,7 @@ interface MessageInputContextValue {
   textareaRef: React.RefObject<HTMLTextAreaElement>;
   submitError: string | null;
   setSubmitError: React.Dispatch<React.SetStateAction<string | null>>;
+  addAttachments: (files: File[] | FileList) => Promise<void>;
 }
 
 /**
@@ -127,12 +136,23 @@ export interface MessageInputProps
  */
 const MessageInput = React.forwardRef<HTMLFormElement, MessageInputProps>(
   ({ children, className, contextKey, variant, ...props }, ref) => {
-    const { value, setValue, submit, isPending, error } = useTamboThreadInput();
+    const {
+      value,
+      setValue,
+      submit,
+      isPending,
+      error,
+      attachments,
+      addAttachments,
+    } = useTamboThreadInput();
     const { cancel } = useTamboThread();
+    const { prompts, getPrompt } = useTamboMcpPrompts();
     const [displayValue, setDisplayValue] = React.useState("");
     const [submitError, setSubmitError] = React.useState<string | null>(null);
     const [isSubmitting, setIsSubmitting] = React.useState(false);
     const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+    const [isDraggingFiles, setIsDraggingFiles] = React.useState(false);
+    const hasAttachments = attachments.length > 0;
 
     React.useEffect(() => {
       setDisplayValue(value);
@@ -144,7 +164,21 @@ const MessageInput = React.forwardRef<HTMLFormElement, MessageInputProps>(
     const handleSubmit = React.useCallback(
       async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!value.trim() || isSubmitting) return;
+        if ((!value.trim() && !hasAttachments) || isSubmitting) return;
+
+        // Fill in the prompt of a slash command instead of sending it
+        const slashCommand = findSlashCommand(value, prompts);
+        if (slashCommand) {
+          setSubmitError(null);
+          try {
+            setValue(await getPrompt(slashCommand.prompt, slashCommand.args));
+          } catch (error) {
+            setSubmitError(
+              error instanceof Error ? error.message : "Failed to load prompt.",
+            );
+          }
+          return;
+        }
 
         setSubmitError(null);
         setDisplayValue("");
@@ -183,9 +217,27 @@ const MessageInput = React.forwardRef<HTMLFormElement, MessageInputProps>(
         setSubmitError,
         cancel,
         isSubmitting,
+        hasAttachments,
+        prompts,
+        getPrompt,
       ],
     );
 
+    const handleDragOver = (e: React.DragEvent<HTMLFormElement>) => {
+      if (e.dataTransfer.types.includes("Files")) {
+        e.preventDefault();
+        setIsDraggingFiles(true);
+      }
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLFormElement>) => {
+      setIsDraggingFiles(false);
+      if (e.dataTransfer.files.length > 0) {
+        e.preventDefault();
+        void addAttachments(e.dataTransfer.files);
+      }
+    };
+
     const contextValue = React.useMemo(
       () => ({
         value: displayValue,
@@ -201,6 +253,7 @@ const MessageInput = React.forwardRef<HTMLFormElement, MessageInputProps>(
         textareaRef,
         submitError,
         setSubmitError,
+        addAttachments,
       }),
       [
         displayValue,
@@ -212,6 +265,7 @@ const MessageInput = React.forwardRef<HTMLFormElement, MessageInputProps>(
         error,
         contextKey,
         submitError,
+        addAttachments,
       ],
     );
     return (
@@ -221,11 +275,19 @@ const MessageInput = React.forwardRef<HTMLFormElement, MessageInputProps>(
         <form
           ref={ref}
           onSubmit={handleSubmit}
+          onDragOver={handleDragOver}
+          onDragLeave={() => setIsDraggingFiles(false)}
+          onDrop={handleDrop}
           className={cn(messageInputVariants({ variant }), className)}
           data-slot="message-input-form"
           {...props}
         >
-          <div className="flex flex-col border border-gray-200 rounded-xl bg-background shadow-md p-2 px-3">
+          <div
+            className={cn(
+              "flex flex-col border border-gray-200 rounded-xl bg-background shadow-md p-2 px-3",
+              isDraggingFiles && "border-dashed border-primary",
+            )}
+          >
             {children}
           </div>
         </form>
@@ -261,8 +323,9 @@ const MessageInputTextarea = ({
   placeholder = "What do you want to do?",
   ...props
 }: MessageInputTextareaProps) => {
-  const { value, setValue, textareaRef, handleSubmit } =
+  const { value, setValue, textareaRef, handleSubmit, addAttachments } =
     useMessageInputContext();
+  const { attachments } = useTamboThreadInput();
   const { isIdle } = useTamboThread();
   const isUpdatingToken = useIsTamboTokenUpdating();
   const isPending = !isIdle;
@@ -274,18 +337,27 @@ const MessageInputTextarea = ({
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
-      if (value.trim()) {
+      if (value.trim() || attachments.length > 0) {
         handleSubmit(e as unknown as React.FormEvent);
       }
     }
   };
 
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    // Attach pasted images and files, and paste text as usual
+    if (e.clipboardData.files.length > 0) {
+      e.preventDefault();
+      void addAttachments(e.clipboardData.files);
+    }
+  };
+
   return (
     <textarea
       ref={textareaRef}
       value={value}
       onChange={handleChange}
       onKeyDown={handleKeyDown}
+      onPaste={handlePaste}
       className={cn(
         "flex-1 p-3 rounded-t-lg bg-background text-foreground resize-none text-sm min-h-[82px] max-h-[40vh] focus:outline-none placeholder:text-muted-foreground/50",
         className,
@@ -365,6 +437,353 @@ const MessageInputSubmitButton = React.forwardRef<
 });
 MessageInputSubmitButton.displayName = "MessageInput.SubmitButton";
 
+/**
+ * Find the MCP prompt that a message input value runs as a slash command,
+ * e.g. `/review typescript`. The words after the command are the values of
+ * the prompt's arguments, in order, and the last argument gets the rest.
+ * @param value - The message input value
+ * @param prompts - The prompts of the connected MCP servers
+ * @returns The prompt and its arguments, or undefined if the value is not a slash command
+ */
+function findSlashCommand(value: string, prompts: TamboMcpPrompt[]) {
+  const match = /^\/(\S+)(?:\s+([\s\S]*))?$/.exec(value.trim());
+  const prompt = match && prompts.find(({ name }) => name === match[1]);
+  if (!match || !prompt) return undefined;
+
+  const words = match[2] ? match[2].split(/\s+/) : [];
+  const promptArguments = prompt.arguments ?? [];
+  const args: Record<string, string> = {};
+  promptArguments.forEach(({ name }, index) => {
+    const argValue =
+      index === promptArguments.length - 1
+        ? words.slice(index).join(" ")
+        : words[index];
+    if (argValue) args[name] = argValue;
+  });
+  return { prompt, args };
+}
+
+/**
+ * Lists the prompts of the connected MCP servers while a slash command is
+ * typed, e.g. `/rev`. Picking a prompt without arguments fills it in, and
+ * picking one with arguments completes the command so the arguments can be
+ * typed after it. Renders nothing outside a `TamboMcpProvider`.
+ * @component MessageInput.McpPrompts
+ * @example
+ * ```tsx
+ * <MessageInput>
+ *   <MessageInput.McpPrompts />
+ *   <MessageInput.Textarea />
+ * </MessageInput>
+ * ```
+ */
+const MessageInputMcpPrompts = React.forwardRef<
+  HTMLDivElement,
+  React.HTMLAttributes<HTMLDivElement>
+>(({ className, ...props }, ref) => {
+  const { value, setValue, textareaRef, setSubmitError } =
+    useMessageInputContext();
+  const { prompts, getPrompt } = useTamboMcpPrompts();
+
+  const query = /^\/(\S*)$/.exec(value)?.[1];
+  const matchingPrompts =
+    query === undefined
+      ? []
+      : prompts.filter(({ name }) => name.startsWith(query));
+  if (matchingPrompts.length === 0) {
+    return null;
+  }
+
+  const handleSelect = async (prompt: TamboMcpPrompt) => {
+    textareaRef.current?.focus();
+    if (prompt.arguments?.length) {
+      setValue(`/${prompt.name} `);
+      return;
+    }
+    setSubmitError(null);
+    try {
+      setValue(await getPrompt(prompt));
+    } catch (error) {
+      setSubmitError(
+        error instanceof Error ? error.message : "Failed to load prompt.",
+      );
+    }
+  };
+
+  return (
+    <div
+      ref={ref}
+      role="listbox"
+      className={cn(
+        "flex flex-col max-h-48 overflow-y-auto border-b border-gray-200 pb-1 mb-1",
+        className,
+      )}
+      data-slot="message-input-mcp-prompts"
+      {...props}
+    >
+      {matchingPrompts.map((prompt) => (
+        <button
+          key={`${prompt.serverUrl}-${prompt.name}`}
+          type="button"
+          role="option"
+          aria-selected={false}
+          onClick={() => void handleSelect(prompt)}
+          className="flex flex-col items-start rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted cursor-pointer"
+        >
+          <span className="font-medium">
+            /{prompt.name}
+            {prompt.arguments?.map(({ name }) => (
+              <span
+                key={name}
+                className="ml-1 font-normal text-muted-foreground"
+              >
+                &lt;{name}&gt;
+              </span>
+            ))}
+          </span>
+          {prompt.description && (
+            <span className="text-xs text-muted-foreground">
+              {prompt.description}
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+});
+MessageInputMcpPrompts.displayName = "MessageInput.McpPrompts";
+
+/**
+ * Asks the user to approve the requests of MCP servers to generate a message
+ * with the AI, showing the last message of each request. Renders nothing
+ * when no request is waiting.
+ * @component MessageInput.McpSamplingRequests
+ * @example
+ * ```tsx
+ * <MessageInput>
+ *   <MessageInput.McpSamplingRequests />
+ *   <MessageInput.Textarea />
+ * </MessageInput>
+ * ```
+ */
+const MessageInputMcpSamplingRequests = React.forwardRef<
+  HTMLDivElement,
+  React.HTMLAttributes<HTMLDivElement>
+>(({ className, ...props }, ref) => {
+  const { samplingRequests, approve, deny } = useTamboMcpSamplingRequests();
+  if (samplingRequests.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      ref={ref}
+      className={cn(
+        "flex flex-col gap-2 border-b border-gray-200 pb-2 mb-1",
+        className,
+      )}
+      data-slot="message-input-mcp-sampling-requests"
+      {...props}
+    >
+      {samplingRequests.map((request) => (
+        <div
+          key={request.id}
+          className="flex items-start justify-between gap-2 rounded-md bg-muted px-2 py-1.5 text-sm"
+        >
+          <div className="min-w-0">
+            <p className="font-medium">
+              {request.serverName ?? request.serverUrl} wants to generate a
+              message with the AI
+            </p>
+            {request.messages.length > 0 && (
+              <p className="truncate text-xs text-muted-foreground">
+                {request.messages[request.messages.length - 1].text}
+              </p>
+            )}
+          </div>
+          <div className="flex flex-shrink-0 gap-1">
+            <button
+              type="button"
+              onClick={() => deny(request.id)}
+              className="rounded-md px-2 py-1 text-xs hover:bg-background cursor-pointer"
+            >
+              Deny
+            </button>
+            <button
+              type="button"
+              onClick={() => approve(request.id)}
+              className="rounded-md bg-primary px-2 py-1 text-xs text-primary-foreground hover:bg-primary/90 cursor-pointer"
+            >
+              Allow
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+});
+MessageInputMcpSamplingRequests.displayName =
+  "MessageInput.McpSamplingRequests";
+
+/**
+ * Props for the MessageInputFileButton component.
+ * Extends standard ButtonHTMLAttributes.
+ */
+export interface MessageInputFileButtonProps
+  extends React.ButtonHTMLAttributes<HTMLButtonElement> {
+  /** The MIME types the file picker offers. Should match the `accept` attachment option. */
+  accept?: string[];
+}
+
+/**
+ * Button that opens a file picker to attach files to the message.
+ * Files can also be pasted into the textarea or dropped on the input.
+ * @component MessageInput.FileButton
+ * @example
+ * ```tsx
+ * <MessageInput>
+ *   <MessageInput.Attachments />
+ *   <MessageInput.Textarea />
+ *   <MessageInput.Toolbar>
+ *     <MessageInput.FileButton />
+ *     <MessageInput.SubmitButton />
+ *   </MessageInput.Toolbar>
+ * </MessageInput>
+ * ```
+ */
+const MessageInputFileButton = React.forwardRef<
+  HTMLButtonElement,
+  MessageInputFileButtonProps
+>(({ className, accept = DEFAULT_ATTACHMENT_TYPES, ...props }, ref) => {
+  const { addAttachments } = useMessageInputContext();
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      void addAttachments(Array.from(e.target.files));
+    }
+    // Allow picking the same file again
+    e.target.value = "";
+  };
+
+  return (
+    <>
+      <button
+        ref={ref}
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        className={cn(
+          "w-10 h-10 bg-muted text-primary rounded-lg hover:bg-muted/80 disabled:opacity-50 flex items-center justify-center cursor-pointer",
+          className,
+        )}
+        aria-label="Attach files"
+        data-slot="message-input-file-button"
+        {...props}
+      >
+        <Paperclip className="w-4 h-4" />
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={accept.join(",")}
+        onChange={handleChange}
+        className="hidden"
+        data-slot="message-input-file-input"
+      />
+    </>
+  );
+});
+MessageInputFileButton.displayName = "MessageInput.FileButton";
+
+/**
+ * Shows the files attached to the message, with their upload progress.
+ * Renders nothing when there are no attachments.
+ * @component MessageInput.Attachments
+ * @example
+ * ```tsx
+ * <MessageInput>
+ *   <MessageInput.Attachments />
+ *   <MessageInput.Textarea />
+ * </MessageInput>
+ * ```
+ */
+const MessageInputAttachments = React.forwardRef<
+  HTMLDivElement,
+  React.HTMLAttributes<HTMLDivElement>
+>(({ className, ...props }, ref) => {
+  const { attachments, removeAttachment } = useTamboThreadInput();
+
+  if (attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      ref={ref}
+      className={cn("flex flex-wrap gap-2 px-1 pt-1", className)}
+      data-slot="message-input-attachments"
+      {...props}
+    >
+      {attachments.map(({ id, file, status, progress, attachment, error }) => {
+        const imageUrl = attachment?.mimeType.startsWith("image/")
+          ? attachment.url
+          : undefined;
+        return (
+          <div
+            key={id}
+            className={cn(
+              "relative flex items-center gap-2 rounded-lg border border-gray-200 bg-muted/50 p-1.5 pr-7 text-xs max-w-[220px]",
+              status === "error" && "border-destructive text-destructive",
+            )}
+            title={error ?? file.name}
+            data-slot="message-input-attachment"
+          >
+            {imageUrl ? (
+              <img
+                src={imageUrl}
+                alt={file.name}
+                className="w-8 h-8 rounded object-cover"
+              />
+            ) : (
+              <FileText className="w-4 h-4 shrink-0" />
+            )}
+            <div className="min-w-0">
+              <div className="truncate font-medium">{file.name}</div>
+              <div className="truncate text-muted-foreground">
+                {error ?? formatFileSize(file.size)}
+              </div>
+              {status === "loading" && (
+                <div
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(progress * 100)}
+                  className="mt-1 h-1 w-full overflow-hidden rounded-full bg-muted"
+                >
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${Math.round(progress * 100)}%` }}
+                  />
+                </div>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={() => removeAttachment(id)}
+              className="absolute top-1 right-1 rounded p-0.5 hover:bg-muted"
+              aria-label={`Remove ${file.name}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+});
+MessageInputAttachments.displayName = "MessageInput.Attachments";
+
 /**
  * MCP Config Button component for opening the MCP configuration modal.
  * @component MessageInput.McpConfigButton
@@ -548,8 +967,12 @@ MessageInputToolbar.displayName = "MessageInput.Toolbar";
 // --- Exports ---
 export {
   MessageInput,
+  MessageInputAttachments,
   MessageInputError,
+  MessageInputFileButton,
   MessageInputMcpConfigButton,
+  MessageInputMcpPrompts,
+  MessageInputMcpSamplingRequests,
   MessageInputSubmitButton,
   MessageInputTextarea,
   MessageInputToolbar,
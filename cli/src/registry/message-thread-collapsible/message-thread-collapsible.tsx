@@ -2,6 +2,10 @@
 
 import {
   MessageInput,
+  MessageInputAttachments,
+  MessageInputFileButton,
+  MessageInputMcpPrompts,
+  MessageInputMcpSamplingRequests,
   MessageInputTextarea,
   MessageInputToolbar,
   MessageInputSubmitButton,
@@ -266,8 +270,12 @@ export const MessageThreadCollapsible = React.forwardRef<
           {/* Message input */}
           <div className="p-4">
             <MessageInput contextKey={contextKey}>
+              <MessageInputAttachments />
+              <MessageInputMcpPrompts />
+              <MessageInputMcpSamplingRequests />
               <MessageInputTextarea />
               <MessageInputToolbar>
+                <MessageInputFileButton />
                 {/* Uncomment this to enable client-side MCP config modal button */}
                 {/* <MessageInputMcpConfigButton /> */}
                 <MessageInputSubmitButton />
@@ -2,6 +2,10 @@
 
 import {
   MessageInput,
+  MessageInputAttachments,
+  MessageInputFileButton,
+  MessageInputMcpPrompts,
+  MessageInputMcpSamplingRequests,
   MessageInputTextarea,
   MessageInputToolbar,
   MessageInputSubmitButton,
@@ -263,8 +267,12 @@ export const MessageThreadPanel = React.forwardRef<
           {/* Message input */}
           <div className="p-4">
             <MessageInput contextKey={contextKey}>
+              <MessageInputAttachments />
+              <MessageInputMcpPrompts />
+              <MessageInputMcpSamplingRequests />
               <MessageInputTextarea />
               <MessageInputToolbar>
+                <MessageInputFileButton />
                 {/* Uncomment this to enable client-side MCP config modal button */}
                 {/* <MessageInputMcpConfigButton /> */}
                 <MessageInputSubmitButton />
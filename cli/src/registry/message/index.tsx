@@ -1,5 +1,6 @@
 export {
   Message,
+  MessageAttachments,
   MessageContent,
   MessageRenderedComponentArea,
   messageVariants,
@@ -3,11 +3,23 @@
 import { checkHasContent, getSafeContent } from "@/lib/thread-hooks";
 import { cn } from "@/lib/utils";
 import type { TamboThreadMessage } from "@tambo-ai/react";
-import { useTambo } from "@tambo-ai/react";
+import {
+  formatFileSize,
+  getContentWithoutAttachments,
+  getMessageAttachments,
+  useTambo,
+} from "@tambo-ai/react";
 import type TamboAI from "@tambo-ai/typescript-sdk";
 import { cva, type VariantProps } from "class-variance-authority";
 import stringify from "json-stringify-pretty-compact";
-import { Check, ChevronDown, ExternalLink, Loader2, X } from "lucide-react";
+import {
+  Check,
+  ChevronDown,
+  ExternalLink,
+  FileText,
+  Loader2,
+  X,
+} from "lucide-react";
 import * as React from "react";
 import { useState } from "react";
 import { Streamdown } from "streamdown";
@@ -183,7 +195,9 @@ const MessageContent = React.forwardRef<HTMLDivElement, MessageContentProps>(
     ref,
   ) => {
     const { message, isLoading } = useMessageContext();
-    const contentToRender = children ?? contentProp ?? message.content;
+    // Attachments are shown by MessageAttachments
+    const contentToRender =
+      children ?? contentProp ?? getContentWithoutAttachments(message);
 
     const safeContent = React.useMemo(
       () => getSafeContent(contentToRender as TamboThreadMessage["content"]),
@@ -242,6 +256,73 @@ const MessageContent = React.forwardRef<HTMLDivElement, MessageContentProps>(
 );
 MessageContent.displayName = "MessageContent";
 
+/**
+ * Displays the images and files attached to a message.
+ * Renders nothing when the message has no attachments.
+ * @component Message.Attachments
+ * @example
+ * ```tsx
+ * <Message role="user" message={message}>
+ *   <MessageAttachments />
+ *   <MessageContent />
+ * </Message>
+ * ```
+ */
+const MessageAttachments = React.forwardRef<
+  HTMLDivElement,
+  React.HTMLAttributes<HTMLDivElement>
+>(({ className, ...props }, ref) => {
+  const { message } = useMessageContext();
+  const imageUrls = Array.isArray(message.content)
+    ? message.content.flatMap((part) =>
+        part.type === "image_url" && part.image_url?.url
+          ? [part.image_url.url]
+          : [],
+      )
+    : [];
+  // Images are shown from the message content, other files by name
+  const files = getMessageAttachments(message).filter(
+    (attachment) => !attachment.mimeType.startsWith("image/"),
+  );
+
+  if (imageUrls.length === 0 && files.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      ref={ref}
+      className={cn("flex flex-wrap justify-end gap-2 mb-2", className)}
+      data-slot="message-attachments"
+      {...props}
+    >
+      {imageUrls.map((url, index) => (
+        <img
+          key={`image-${index}`}
+          src={url}
+          alt={`Attached image ${index + 1}`}
+          className="max-h-48 max-w-xs rounded-xl object-cover"
+        />
+      ))}
+      {files.map((file, index) => (
+        <div
+          key={`file-${index}`}
+          className="flex items-center gap-2 rounded-lg border border-gray-200 bg-muted/50 px-3 py-2 text-xs"
+        >
+          <FileText className="w-4 h-4 shrink-0" />
+          <span className="truncate max-w-[180px] font-medium">
+            {file.name}
+          </span>
+          <span className="text-muted-foreground">
+            {formatFileSize(file.size)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+});
+MessageAttachments.displayName = "Message.Attachments";
+
 /**
  * Props for the ToolcallInfo component.
  * Extends standard HTMLDivElement attributes.
@@ -259,6 +340,13 @@ function getToolStatusMessage(
   const isToolCall = message.actionType === "tool_call";
   if (!isToolCall) return null;
 
+  if (
+    message.toolCallStatus?.state === "running" &&
+    message.toolCallStatus.progressMessage
+  ) {
+    return message.toolCallStatus.progressMessage;
+  }
+
   const toolCallMessage = isLoading
     ? `Calling ${message.toolCallRequest?.toolName ?? "tool"}`
     : `Called ${message.toolCallRequest?.toolName ?? "tool"}`;
@@ -305,6 +393,10 @@ const ToolcallInfo = React.forwardRef<HTMLDivElement, ToolcallInfoProps>(
     const toolCallRequest: TamboAI.ToolCallRequest | undefined =
       message.toolCallRequest ?? message.component?.toolCallRequest;
     const hasToolError = message.error;
+    const isToolRunning = message.toolCallStatus?.state === "running";
+    const toolProgress = isToolRunning
+      ? message.toolCallStatus?.progress
+      : undefined;
 
     const toolStatusMessage = getToolStatusMessage(message, isLoading);
 
@@ -330,7 +422,7 @@ const ToolcallInfo = React.forwardRef<HTMLDivElement, ToolcallInfoProps>(
           >
             {hasToolError ? (
               <X className="w-3 h-3 text-bold text-red-500" />
-            ) : isLoading ? (
+            ) : isLoading || isToolRunning ? (
               <Loader2 className="w-3 h-3 text-muted-foreground text-bold animate-spin" />
             ) : (
               <Check className="w-3 h-3 text-bold text-green-500" />
@@ -343,6 +435,20 @@ const ToolcallInfo = React.forwardRef<HTMLDivElement, ToolcallInfoProps>(
               )}
             />
           </button>
+          {toolProgress !== undefined && (
+            <div
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(toolProgress * 100)}
+              className="h-1 w-32 mx-1 rounded-full bg-muted overflow-hidden"
+            >
+              <div
+                className="h-full bg-primary transition-[width] duration-300"
+                style={{ width: `${Math.round(toolProgress * 100)}%` }}
+              />
+            </div>
+          )}
           <div
             id={toolDetailsId}
             className={cn(
@@ -390,7 +496,8 @@ function keyifyParameters(
 }
 
 /**
- * Helper function to detect if content is JSON and format it nicely
+ * Helper function to detect if content is JSON and format it nicely, and to
+ * show the images a tool returned below its text
  * @param content - The content to check and format
  * @returns Formatted content or original content if not JSON
  */
@@ -399,7 +506,35 @@ function formatToolResult(
 ): React.ReactNode {
   if (!content) return content;
 
-  const safeContent = getSafeContent(content);
+  // Tools can return images, e.g. screenshots from MCP servers
+  const imageUrls = Array.isArray(content)
+    ? content.flatMap((part) =>
+        part.type === "image_url" && part.image_url?.url
+          ? [part.image_url.url]
+          : [],
+      )
+    : [];
+  const formattedText = formatToolResultText(getSafeContent(content));
+  if (imageUrls.length === 0) return formattedText;
+
+  return (
+    <div className="flex flex-col gap-2">
+      {formattedText}
+      {imageUrls.map((url, index) => (
+        <img
+          key={index}
+          src={url}
+          alt={`Tool result image ${index + 1}`}
+          className="max-w-full max-h-64 rounded-md border border-border object-contain"
+        />
+      ))}
+    </div>
+  );
+}
+
+function formatToolResultText(
+  safeContent: string | React.ReactElement,
+): React.ReactNode {
   if (typeof safeContent !== "string") return safeContent;
 
   // Try to parse as JSON
@@ -506,6 +641,7 @@ MessageRenderedComponentArea.displayName = "Message.RenderedComponentArea";
 export {
   LoadingIndicator,
   Message,
+  MessageAttachments,
   MessageContent,
   MessageRenderedComponentArea,
   messageVariants,
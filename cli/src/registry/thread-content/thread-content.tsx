@@ -2,6 +2,7 @@
 
 import {
   Message,
+  MessageAttachments,
   MessageContent,
   MessageRenderedComponentArea,
   ToolcallInfo,
@@ -160,6 +161,7 @@ const ThreadContentMessages = React.forwardRef<
                   message.role === "assistant" ? "w-full" : "max-w-3xl",
                 )}
               >
+                <MessageAttachments />
                 <MessageContent
                   className={
                     message.role === "assistant"
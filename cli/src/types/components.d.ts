@@ -56,6 +56,10 @@ declare module "@/components/ui/message" {
     MessageContentProps & React.RefAttributes<HTMLDivElement>
   >;
 
+  export const MessageAttachments: React.ForwardRefExoticComponent<
+    React.HTMLAttributes<HTMLDivElement> & React.RefAttributes<HTMLDivElement>
+  >;
+
   export const ToolcallInfo: React.ForwardRefExoticComponent<
     ToolcallInfoProps & React.RefAttributes<HTMLDivElement>
   >;
@@ -127,6 +131,11 @@ declare module "@/components/ui/message-input" {
     children?: React.ReactNode;
   }
 
+  export interface MessageInputFileButtonProps
+    extends React.ButtonHTMLAttributes<HTMLButtonElement> {
+    accept?: string[];
+  }
+
   export type MessageInputErrorProps =
     React.HTMLAttributes<HTMLParagraphElement>;
 
@@ -151,6 +160,22 @@ declare module "@/components/ui/message-input" {
     MessageInputSubmitButtonProps & React.RefAttributes<HTMLButtonElement>
   >;
 
+  export const MessageInputFileButton: React.ForwardRefExoticComponent<
+    MessageInputFileButtonProps & React.RefAttributes<HTMLButtonElement>
+  >;
+
+  export const MessageInputAttachments: React.ForwardRefExoticComponent<
+    React.HTMLAttributes<HTMLDivElement> & React.RefAttributes<HTMLDivElement>
+  >;
+
+  export const MessageInputMcpPrompts: React.ForwardRefExoticComponent<
+    React.HTMLAttributes<HTMLDivElement> & React.RefAttributes<HTMLDivElement>
+  >;
+
+  export const MessageInputMcpSamplingRequests: React.ForwardRefExoticComponent<
+    React.HTMLAttributes<HTMLDivElement> & React.RefAttributes<HTMLDivElement>
+  >;
+
   export const MessageInputToolbar: React.ForwardRefExoticComponent<
     React.HTMLAttributes<HTMLDivElement> & React.RefAttributes<HTMLDivElement>
   >;
@@ -374,5 +399,6 @@ declare module "@/components/ui/mcp-config-modal" {
   export const McpConfigModal: React.FC<{
     isOpen: boolean;
     onClose: () => void;
+    oauthRedirectUrl?: string;
   }>;
 }
@@ -0,0 +1,307 @@
+import TamboAI from "@tambo-ai/typescript-sdk";
+import { act, render, screen } from "@testing-library/react";
+import React from "react";
+import { z } from "zod";
+import { TamboComponentErrorProps } from "../../model/component-error";
+import { ComponentRegistry } from "../../model/component-metadata";
+import {
+  recordComponentVersion,
+  renderComponentIntoMessage,
+} from "../../util/generate-component";
+import { createLazyComponent } from "../../util/lazy-component";
+
+const createMessage = (
+  componentName: string,
+  props: Record<string, unknown>,
+): TamboAI.Beta.Threads.ThreadMessage => ({
+  id: "message-1",
+  threadId: "thread-1",
+  role: "assistant",
+  content: [],
+  componentState: {},
+  createdAt: "2024-01-01T00:00:00Z",
+  component: {
+    componentName,
+    props,
+    message: "",
+    reasoning: "",
+    componentState: {},
+  },
+});
+
+describe("renderComponentIntoMessage", () => {
+  const WeatherCard: React.FC<{ city: string }> = ({ city }) => {
+    if (city === "Atlantis") {
+      throw new Error("Unknown city");
+    }
+    return <div>Weather in {city}</div>;
+  };
+  const WeatherError: React.FC<TamboComponentErrorProps> = ({ error }) => (
+    <div>
+      {error.reason}: {error.componentName}
+    </div>
+  );
+  const componentList: ComponentRegistry = {
+    WeatherCard: {
+      name: "WeatherCard",
+      description: "Shows the weather in a city",
+      component: WeatherCard,
+      errorComponent: WeatherError,
+      props: {},
+      propsSchema: z.object({ city: z.string() }),
+      contextTools: [],
+    },
+  };
+
+  it("should render valid props", () => {
+    const message = renderComponentIntoMessage(
+      createMessage("WeatherCard", { city: "Paris" }),
+      componentList,
+    );
+
+    render(message.renderedComponent!);
+
+    expect(screen.getByText("Weather in Paris")).toBeInTheDocument();
+    expect(message.componentError).toBeUndefined();
+  });
+
+  it("should attach the issues of invalid props and render the error component", () => {
+    const message = renderComponentIntoMessage(
+      createMessage("WeatherCard", { city: 42 }),
+      componentList,
+    );
+
+    render(message.renderedComponent!);
+
+    expect(screen.getByText("invalid_props: WeatherCard")).toBeInTheDocument();
+    expect(message.componentError).toEqual({
+      reason: "invalid_props",
+      componentName: "WeatherCard",
+      message:
+        "Invalid props for component WeatherCard: city: Expected string, received number",
+      issues: [{ path: "city", message: "Expected string, received number" }],
+    });
+  });
+
+  it("should not validate props that are still streaming", () => {
+    const message = renderComponentIntoMessage(
+      createMessage("WeatherCard", {}),
+      componentList,
+      true,
+    );
+
+    expect(message.componentError).toBeUndefined();
+  });
+
+  it("should not throw for unknown components", () => {
+    const message = renderComponentIntoMessage(
+      createMessage("MapCard", {}),
+      componentList,
+    );
+
+    expect(message.renderedComponent).toBeNull();
+    expect(message.componentError).toMatchObject({
+      reason: "unknown_component",
+      componentName: "MapCard",
+    });
+  });
+
+  it("should render the error component when the component throws", () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const message = renderComponentIntoMessage(
+      createMessage("WeatherCard", { city: "Atlantis" }),
+      componentList,
+    );
+
+    render(message.renderedComponent!);
+
+    expect(screen.getByText("render_error: WeatherCard")).toBeInTheDocument();
+  });
+
+  it("should report the errors the component throws with complete props", () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const onRenderError = jest.fn();
+    const partialMessage = renderComponentIntoMessage(
+      createMessage("WeatherCard", { city: "Atlantis" }),
+      componentList,
+      true,
+      { onRenderError },
+    );
+    const { unmount } = render(partialMessage.renderedComponent!);
+    unmount();
+    expect(onRenderError).not.toHaveBeenCalled();
+
+    const message = renderComponentIntoMessage(
+      createMessage("WeatherCard", { city: "Atlantis" }),
+      componentList,
+      false,
+      { onRenderError },
+    );
+    render(message.renderedComponent!);
+
+    expect(onRenderError).toHaveBeenCalledWith({
+      reason: "render_error",
+      componentName: "WeatherCard",
+      message: "Unknown city",
+      issues: [],
+    });
+  });
+
+  it("should render the default error component for components without one", () => {
+    const DefaultError: React.FC<TamboComponentErrorProps> = ({ error }) => (
+      <div>Default {error.reason}</div>
+    );
+    const message = renderComponentIntoMessage(
+      createMessage("WeatherCard", { city: 42 }),
+      {
+        WeatherCard: {
+          ...componentList.WeatherCard,
+          errorComponent: undefined,
+        },
+      },
+      false,
+      { errorComponent: DefaultError },
+    );
+
+    render(message.renderedComponent!);
+
+    expect(screen.getByText("Default invalid_props")).toBeInTheDocument();
+  });
+
+  describe("versions", () => {
+    const versionedList: ComponentRegistry = {
+      WeatherCard: {
+        ...componentList.WeatherCard,
+        version: 3,
+        migrations: {
+          2: ({ town, ...props }) => ({ ...props, city: town }),
+          3: ({ city }) => ({ city: city.toUpperCase() }),
+        },
+      },
+    };
+
+    it("should migrate the props of older versions before validation", () => {
+      const message = renderComponentIntoMessage(
+        createMessage("WeatherCard", { town: "Paris" }),
+        versionedList,
+      );
+
+      expect(message.componentError).toBeUndefined();
+      expect(message.component?.props).toEqual({ city: "PARIS" });
+      expect(message.componentState).toEqual({ _tamboComponentVersion: 3 });
+    });
+
+    it("should only run the migrations after the recorded version", () => {
+      const message = renderComponentIntoMessage(
+        {
+          ...createMessage("WeatherCard", { city: "Paris" }),
+          componentState: { _tamboComponentVersion: 2 },
+        },
+        versionedList,
+      );
+
+      expect(message.component?.props).toEqual({ city: "PARIS" });
+    });
+
+    it("should not migrate generated messages", () => {
+      const message = renderComponentIntoMessage(
+        recordComponentVersion(
+          createMessage("WeatherCard", { city: "Paris" }),
+          versionedList,
+        ),
+        versionedList,
+      );
+
+      expect(message.component?.props).toEqual({ city: "Paris" });
+    });
+
+    it("should render the error component when a migration fails", () => {
+      const message = renderComponentIntoMessage(
+        createMessage("WeatherCard", {}),
+        versionedList,
+      );
+
+      expect(message.componentError).toMatchObject({
+        reason: "invalid_props",
+        issues: [
+          {
+            path: "props",
+            message: expect.stringContaining(
+              "The migration to version 3 failed",
+            ),
+          },
+        ],
+      });
+    });
+  });
+
+  it("should render the loading component while a lazy component loads", async () => {
+    let resolveModule!: (module: { default: typeof WeatherCard }) => void;
+    const load = jest.fn(
+      async () =>
+        await new Promise<{ default: typeof WeatherCard }>((resolve) => {
+          resolveModule = resolve;
+        }),
+    );
+    const lazyList: ComponentRegistry = {
+      WeatherCard: {
+        ...componentList.WeatherCard,
+        ...createLazyComponent(load),
+        loadingComponent: ({ city }: { city: string }) => (
+          <div>Loading {city}</div>
+        ),
+      },
+    };
+    const message = renderComponentIntoMessage(
+      createMessage("WeatherCard", { city: "Paris" }),
+      lazyList,
+    );
+
+    render(message.renderedComponent!);
+    expect(screen.getByText("Loading Paris")).toBeInTheDocument();
+
+    await act(async () => {
+      resolveModule({ default: WeatherCard });
+    });
+    expect(screen.getByText("Weather in Paris")).toBeInTheDocument();
+    await lazyList.WeatherCard.preload?.();
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("should load a lazy component again when it is preloaded after a failure", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const load = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("Chunk failed to load"))
+      .mockResolvedValue({ default: WeatherCard });
+    const lazyList: ComponentRegistry = {
+      WeatherCard: {
+        ...componentList.WeatherCard,
+        ...createLazyComponent(load),
+      },
+    };
+
+    render(
+      renderComponentIntoMessage(
+        createMessage("WeatherCard", { city: "Paris" }),
+        lazyList,
+      ).renderedComponent!,
+    );
+    expect(
+      await screen.findByText("render_error: WeatherCard"),
+    ).toBeInTheDocument();
+
+    await act(async () => {
+      await lazyList.WeatherCard.preload?.();
+    });
+    render(
+      renderComponentIntoMessage(
+        createMessage("WeatherCard", { city: "Rome" }),
+        lazyList,
+      ).renderedComponent!,
+    );
+
+    expect(await screen.findByText("Weather in Rome")).toBeInTheDocument();
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { TamboObjectTool, TamboTool } from "../../model/component-metadata";
+import { mapTamboToolToContextTool } from "../../util/registry";
+
+describe("mapTamboToolToContextTool", () => {
+  it("should name the parameters of positional tools by position", () => {
+    const tool: TamboTool = {
+      name: "get_weather",
+      description: "Get the weather",
+      tool: jest.fn(),
+      toolSchema: z
+        .function()
+        .args(z.string().describe("The city"))
+        .returns(z.string()),
+    };
+
+    expect(mapTamboToolToContextTool(tool).parameters).toEqual([
+      expect.objectContaining({
+        name: "param1",
+        type: "string",
+        description: "The city",
+        isRequired: true,
+      }),
+    ]);
+  });
+
+  it("should name the parameters of object tools by key", () => {
+    const tool: TamboObjectTool = {
+      name: "get_weather",
+      description: "Get the weather",
+      tool: jest.fn(),
+      inputSchema: z.object({
+        city: z.string().describe("The city"),
+        units: z.enum(["metric", "imperial"]).optional(),
+      }),
+    };
+
+    expect(mapTamboToolToContextTool(tool).parameters).toEqual([
+      expect.objectContaining({
+        name: "city",
+        type: "string",
+        description: "The city",
+        isRequired: true,
+      }),
+      expect.objectContaining({
+        name: "units",
+        type: "enum",
+        isRequired: false,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { TamboThread } from "../../model/tambo-thread";
+import {
+  getBranchRootThreadId,
+  getMessageBranches,
+  getThreadBranch,
+} from "../../util/thread-branches";
+
+const createThread = (
+  id: string,
+  createdAt: string,
+  branch?: { sourceThreadId: string; messageIndex: number },
+): TamboThread => ({
+  id,
+  messages: [],
+  createdAt,
+  projectId: "project-1",
+  updatedAt: createdAt,
+  metadata: branch ? { tamboBranch: branch } : {},
+});
+
+describe("thread branches", () => {
+  // root: forked at message 2 into fork-a and fork-b, and fork-a forked
+  // again at message 4 into fork-c
+  const threadMap: Record<string, TamboThread> = {
+    root: createThread("root", "2024-01-01T00:00:00Z"),
+    "fork-b": createThread("fork-b", "2024-01-03T00:00:00Z", {
+      sourceThreadId: "root",
+      messageIndex: 2,
+    }),
+    "fork-a": createThread("fork-a", "2024-01-02T00:00:00Z", {
+      sourceThreadId: "root",
+      messageIndex: 2,
+    }),
+    "fork-c": createThread("fork-c", "2024-01-04T00:00:00Z", {
+      sourceThreadId: "fork-a",
+      messageIndex: 4,
+    }),
+    other: createThread("other", "2024-01-05T00:00:00Z"),
+  };
+
+  it("should read the branch from the thread metadata", () => {
+    expect(getThreadBranch(threadMap["fork-a"])).toEqual({
+      sourceThreadId: "root",
+      messageIndex: 2,
+    });
+    expect(getThreadBranch(threadMap.root)).toBeUndefined();
+    expect(
+      getThreadBranch({
+        ...threadMap.root,
+        metadata: { tamboBranch: "invalid" },
+      }),
+    ).toBeUndefined();
+  });
+
+  it("should follow forks back to the thread that owns a message", () => {
+    expect(getBranchRootThreadId(threadMap, "fork-c", 5)).toBe("fork-c");
+    expect(getBranchRootThreadId(threadMap, "fork-c", 4)).toBe("fork-a");
+    expect(getBranchRootThreadId(threadMap, "fork-c", 3)).toBe("fork-a");
+    expect(getBranchRootThreadId(threadMap, "fork-c", 2)).toBe("root");
+    expect(getBranchRootThreadId(threadMap, "fork-c", 0)).toBe("root");
+  });
+
+  it("should list sibling branches oldest first", () => {
+    expect(getMessageBranches(threadMap, "fork-b", 2)).toEqual({
+      threadIds: ["root", "fork-a", "fork-b"],
+      currentIndex: 2,
+    });
+    expect(getMessageBranches(threadMap, "root", 2)).toEqual({
+      threadIds: ["root", "fork-a", "fork-b"],
+      currentIndex: 0,
+    });
+  });
+
+  it("should find the shown branch through nested forks", () => {
+    expect(getMessageBranches(threadMap, "fork-c", 2)).toEqual({
+      threadIds: ["root", "fork-a", "fork-b"],
+      currentIndex: 1,
+    });
+    expect(getMessageBranches(threadMap, "fork-c", 4)).toEqual({
+      threadIds: ["fork-a", "fork-c"],
+      currentIndex: 1,
+    });
+  });
+
+  it("should return a single branch for messages that were never forked", () => {
+    expect(getMessageBranches(threadMap, "other", 1)).toEqual({
+      threadIds: ["other"],
+      currentIndex: 0,
+    });
+    expect(getMessageBranches(threadMap, "fork-b", 1)).toEqual({
+      threadIds: ["root"],
+      currentIndex: 0,
+    });
+  });
+});
@@ -0,0 +1,565 @@
+import TamboAI from "@tambo-ai/typescript-sdk";
+import { z } from "zod";
+import {
+  TamboObjectTool,
+  TamboTool,
+  TamboToolCallContext,
+} from "../../model/component-metadata";
+import { TamboTracer } from "../../model/tambo-tracer";
+import {
+  handleToolCall,
+  handleToolCalls,
+  toolCallRequiresApproval,
+} from "../../util/tool-caller";
+
+const createToolCallMessage = (
+  toolName: string,
+  value: string,
+): TamboAI.Beta.Threads.ThreadMessage => ({
+  id: `message-${value}`,
+  threadId: "thread-1",
+  role: "assistant",
+  content: [],
+  componentState: {},
+  createdAt: new Date().toISOString(),
+  toolCallRequest: {
+    toolName,
+    parameters: [{ parameterName: "param1", parameterValue: value }],
+  },
+});
+
+const createTool = (
+  name: string,
+  impl: (value: string, context: TamboToolCallContext) => Promise<string>,
+  options: Pick<TamboTool, "timeoutMs" | "retry"> = {},
+): TamboTool => ({
+  name,
+  description: name,
+  tool: impl as TamboTool["tool"],
+  toolSchema: z.function().args(z.string()).returns(z.string()),
+  ...options,
+});
+
+// Rejects once the tool's signal is aborted
+const waitForAbort = async (signal: AbortSignal) =>
+  await new Promise<string>((_, reject) => {
+    signal.addEventListener("abort", () => reject(signal.reason));
+  });
+
+describe("handleToolCalls", () => {
+  it("should return results in the same order as the messages", async () => {
+    const delays: Record<string, number> = { a: 30, b: 10, c: 20 };
+    const tool = createTool(
+      "lookup",
+      async (value) =>
+        await new Promise((resolve) =>
+          setTimeout(() => resolve(`result-${value}`), delays[value]),
+        ),
+    );
+
+    const results = await handleToolCalls(
+      ["a", "b", "c"].map((value) => createToolCallMessage("lookup", value)),
+      { lookup: tool },
+    );
+
+    expect(results.map((result) => result.result)).toEqual([
+      "result-a",
+      "result-b",
+      "result-c",
+    ]);
+  });
+
+  it("should not run more tools at once than the concurrency limit", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const tool = createTool("lookup", async (value) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return value;
+    });
+
+    await handleToolCalls(
+      ["a", "b", "c", "d", "e"].map((value) =>
+        createToolCallMessage("lookup", value),
+      ),
+      { lookup: tool },
+      2,
+    );
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it("should report a failing tool without failing the batch", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const okTool = createTool("ok", async (value) => value);
+    const failingTool = createTool("fails", async () => {
+      throw new Error("boom");
+    });
+
+    const results = await handleToolCalls(
+      [createToolCallMessage("fails", "a"), createToolCallMessage("ok", "b")],
+      { ok: okTool, fails: failingTool },
+    );
+
+    expect(results[0].error).toBe("boom");
+    expect(results[1]).toEqual({ result: "b" });
+  });
+
+  it("should report a tool call without a tool name without failing the batch", async () => {
+    const tool = createTool("lookup", async (value) => value);
+
+    const results = await handleToolCalls(
+      [createToolCallMessage("", "a"), createToolCallMessage("lookup", "b")],
+      { lookup: tool },
+    );
+
+    expect(results[0].error).toBe("Tool name is required");
+    expect(results[1]).toEqual({ result: "b" });
+  });
+});
+
+describe("handleToolCall", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("should pass an abort signal to the tool after its arguments", async () => {
+    const impl = jest.fn().mockResolvedValue("ok");
+    const tool = createTool("lookup", impl);
+
+    await handleToolCall(createToolCallMessage("lookup", "a"), {
+      lookup: tool,
+    });
+
+    expect(impl).toHaveBeenCalledWith("a", {
+      signal: expect.any(AbortSignal),
+      reportProgress: expect.any(Function),
+    });
+  });
+
+  it("should fail the tool call and abort the tool when it times out", async () => {
+    let toolSignal: AbortSignal | undefined;
+    const tool = createTool(
+      "slow",
+      async (_value, { signal }) => {
+        toolSignal = signal;
+        return await new Promise(() => {});
+      },
+      { timeoutMs: 10 },
+    );
+
+    const result = await handleToolCall(createToolCallMessage("slow", "a"), {
+      slow: tool,
+    });
+
+    expect(result.error).toBe("Tool slow timed out after 10ms");
+    expect(toolSignal?.aborted).toBe(true);
+  });
+
+  it("should retry a failing tool according to its retry policy", async () => {
+    const impl = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("flaky"))
+      .mockRejectedValueOnce(new Error("flaky"))
+      .mockResolvedValue("ok");
+    const tool = createTool("flaky", impl, {
+      retry: { maxRetries: 2, delayMs: 1 },
+    });
+
+    const result = await handleToolCall(createToolCallMessage("flaky", "a"), {
+      flaky: tool,
+    });
+
+    expect(result).toEqual({ result: "ok" });
+    expect(impl).toHaveBeenCalledTimes(3);
+  });
+
+  it("should abort each failed attempt before it is retried", async () => {
+    const signals: AbortSignal[] = [];
+    const previousAttemptsAborted: boolean[] = [];
+    const impl = jest.fn(
+      async (_value: string, { signal }: TamboToolCallContext) => {
+        previousAttemptsAborted.push(signals.every(({ aborted }) => aborted));
+        signals.push(signal);
+        if (signals.length === 1) {
+          // Times out
+          return await new Promise<string>(() => {});
+        }
+        if (signals.length === 2) {
+          throw new Error("flaky");
+        }
+        return "ok";
+      },
+    );
+    const tool = createTool("flaky", impl, {
+      timeoutMs: 10,
+      retry: { maxRetries: 2, delayMs: 1 },
+    });
+
+    const result = await handleToolCall(createToolCallMessage("flaky", "a"), {
+      flaky: tool,
+    });
+
+    expect(result).toEqual({ result: "ok" });
+    expect(previousAttemptsAborted).toEqual([true, true, true]);
+    expect(new Set(signals).size).toBe(3);
+    expect(signals[2].aborted).toBe(false);
+  });
+
+  it("should stop the tool and not retry when the call is cancelled", async () => {
+    const impl = jest.fn(
+      async (_value: string, { signal }: TamboToolCallContext) =>
+        await waitForAbort(signal),
+    );
+    const tool = createTool("hangs", impl, { retry: { maxRetries: 3 } });
+    const controller = new AbortController();
+
+    const resultPromise = handleToolCall(
+      createToolCallMessage("hangs", "a"),
+      { hangs: tool },
+      controller.signal,
+    );
+    controller.abort();
+    const result = await resultPromise;
+
+    expect(result.error).toBe("Tool call hangs was cancelled");
+    expect(impl).toHaveBeenCalledTimes(1);
+  });
+
+  it("should convert the result to content with transformToContent", async () => {
+    const tool: TamboTool = {
+      ...createTool("screenshot", async (value) => value),
+      transformToContent: async (result: string) => [
+        {
+          type: "image_url",
+          image_url: { url: `data:image/png;base64,${result}` },
+        },
+      ],
+    };
+
+    const result = await handleToolCall(
+      createToolCallMessage("screenshot", "abc"),
+      { screenshot: tool },
+    );
+
+    expect(result).toEqual({
+      result: "abc",
+      content: [
+        { type: "image_url", image_url: { url: "data:image/png;base64,abc" } },
+      ],
+    });
+  });
+});
+
+describe("tool argument validation", () => {
+  const createMessage = (
+    toolName: string,
+    values: unknown[],
+  ): TamboAI.Beta.Threads.ThreadMessage => ({
+    ...createToolCallMessage(toolName, "a"),
+    toolCallRequest: {
+      toolName,
+      parameters: values.map((parameterValue, index) => ({
+        parameterName: `param${index + 1}`,
+        parameterValue,
+      })),
+    },
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("should coerce arguments the model sent as strings", async () => {
+    const impl = jest.fn().mockResolvedValue("ok");
+    const tool: TamboTool = {
+      name: "forecast",
+      description: "forecast",
+      tool: impl,
+      toolSchema: z
+        .function()
+        .args(z.number(), z.boolean().optional())
+        .returns(z.string()),
+    };
+
+    const result = await handleToolCall(
+      createMessage("forecast", ["3", "true"]),
+      { forecast: tool },
+    );
+
+    expect(result).toEqual({ result: "ok" });
+    expect(impl).toHaveBeenCalledWith(3, true, expect.anything());
+  });
+
+  it("should send the issues back to the model instead of running the tool", async () => {
+    const impl = jest.fn();
+    const tool: TamboTool = {
+      name: "book",
+      description: "book",
+      tool: impl,
+      toolSchema: z
+        .function()
+        .args(z.object({ city: z.string() }), z.number())
+        .returns(z.string()),
+    };
+
+    const result = await handleToolCall(
+      createMessage("book", [{ city: 42 }, "soon"]),
+      { book: tool },
+    );
+
+    expect(impl).not.toHaveBeenCalled();
+    expect(result.error).toBe(
+      "Invalid arguments for tool book: param1.city: Expected string, received number; param2: Expected number, received string",
+    );
+    expect(JSON.parse(result.result)).toMatchObject({
+      error: "invalid_arguments",
+      toolName: "book",
+      issues: [
+        { path: "param1.city", message: "Expected string, received number" },
+        { path: "param2", message: "Expected number, received string" },
+      ],
+    });
+  });
+
+  it("should validate tools that use a JSON Schema", async () => {
+    const impl = jest.fn().mockResolvedValue("ok");
+    const tool: TamboTool = {
+      name: "search",
+      description: "search",
+      tool: impl,
+      toolSchema: {
+        type: "object",
+        properties: { query: { type: "string" }, limit: { type: "number" } },
+        required: ["query"],
+      },
+    };
+
+    const valid = await handleToolCall(
+      createMessage("search", [{ query: "tambo", limit: "5" }]),
+      { search: tool },
+    );
+    const invalid = await handleToolCall(
+      createMessage("search", [{ limit: 5 }]),
+      { search: tool },
+    );
+
+    expect(valid).toEqual({ result: "ok" });
+    expect(impl).toHaveBeenCalledTimes(1);
+    expect(impl).toHaveBeenCalledWith(
+      { query: "tambo", limit: 5 },
+      expect.anything(),
+    );
+    expect(invalid.error).toBe(
+      "Invalid arguments for tool search: args: should have required property 'query'",
+    );
+  });
+});
+
+describe("object tools", () => {
+  const createObjectToolMessage = (
+    parameters: Record<string, unknown>,
+  ): TamboAI.Beta.Threads.ThreadMessage => ({
+    ...createToolCallMessage("book_flight", "a"),
+    toolCallRequest: {
+      toolName: "book_flight",
+      parameters: Object.entries(parameters).map(
+        ([parameterName, parameterValue]) => ({
+          parameterName,
+          parameterValue,
+        }),
+      ),
+    },
+  });
+
+  const createObjectTool = (impl: jest.Mock): TamboObjectTool => ({
+    name: "book_flight",
+    description: "Book a flight",
+    tool: impl,
+    inputSchema: z.object({
+      destination: z.string(),
+      passengers: z.number().optional(),
+    }),
+  });
+
+  it("should call the tool with a single object keyed by parameter name", async () => {
+    const impl = jest.fn().mockResolvedValue("booked");
+
+    const result = await handleToolCall(
+      createObjectToolMessage({ passengers: "2", destination: "Lisbon" }),
+      { book_flight: createObjectTool(impl) },
+    );
+
+    expect(result).toEqual({ result: "booked" });
+    expect(impl).toHaveBeenCalledWith(
+      { destination: "Lisbon", passengers: 2 },
+      {
+        signal: expect.any(AbortSignal),
+        reportProgress: expect.any(Function),
+      },
+    );
+  });
+
+  it("should report invalid input by parameter name", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    const impl = jest.fn();
+
+    const result = await handleToolCall(
+      createObjectToolMessage({ passengers: 2 }),
+      { book_flight: createObjectTool(impl) },
+    );
+
+    expect(impl).not.toHaveBeenCalled();
+    expect(result.error).toBe(
+      "Invalid arguments for tool book_flight: destination: Required",
+    );
+  });
+});
+
+describe("tool progress", () => {
+  it("should forward progress reported through the context", async () => {
+    const onProgress = jest.fn();
+    const tool = createTool("report", async (value, { reportProgress }) => {
+      reportProgress("Halfway", 0.5);
+      return value;
+    });
+
+    const result = await handleToolCall(
+      createToolCallMessage("report", "a"),
+      { report: tool },
+      undefined,
+      onProgress,
+    );
+
+    expect(result).toEqual({ result: "a" });
+    expect(onProgress).toHaveBeenCalledWith({
+      message: "Halfway",
+      fraction: 0.5,
+    });
+  });
+
+  it("should report yielded values and return the result of a generator tool", async () => {
+    const onProgress = jest.fn();
+    const tool: TamboTool = {
+      name: "report",
+      description: "report",
+      tool: async function* (value: string) {
+        yield { message: "Collecting data", fraction: 0.25 };
+        yield { message: "Writing report", fraction: 0.75 };
+        return `report-${value}`;
+      },
+      toolSchema: z.function().args(z.string()).returns(z.string()),
+    };
+
+    const messages = [createToolCallMessage("report", "a")];
+    const results = await handleToolCalls(
+      messages,
+      { report: tool },
+      undefined,
+      undefined,
+      onProgress,
+    );
+
+    expect(results).toEqual([{ result: "report-a" }]);
+    expect(onProgress.mock.calls).toEqual([
+      [messages[0], { message: "Collecting data", fraction: 0.25 }],
+      [messages[0], { message: "Writing report", fraction: 0.75 }],
+    ]);
+  });
+});
+
+describe("tracing", () => {
+  const createTracer = () => {
+    const span = { setAttributes: jest.fn(), setError: jest.fn() };
+    const tracer: TamboTracer = {
+      startSpan: jest.fn(async (_name, _attributes, fn) => await fn(span)),
+      getTraceHeaders: () => ({}),
+    };
+    return { tracer, span };
+  };
+
+  it("should run each tool call in a span", async () => {
+    const { tracer, span } = createTracer();
+    const tool = createTool("lookup", async (value) => `result-${value}`);
+
+    await handleToolCalls(
+      ["a", "b"].map((value) => createToolCallMessage("lookup", value)),
+      { lookup: tool },
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      tracer,
+    );
+
+    expect(tracer.startSpan).toHaveBeenCalledTimes(2);
+    expect(tracer.startSpan).toHaveBeenCalledWith(
+      "tambo.tool_call",
+      { "tambo.thread_id": "thread-1", "tambo.tool_name": "lookup" },
+      expect.any(Function),
+    );
+    expect(span.setError).not.toHaveBeenCalled();
+  });
+
+  it("should mark the span of a failed tool call as an error", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const { tracer, span } = createTracer();
+    const tool = createTool("lookup", async () => {
+      throw new Error("Lookup failed");
+    });
+
+    const result = await handleToolCall(
+      createToolCallMessage("lookup", "a"),
+      { lookup: tool },
+      undefined,
+      undefined,
+      tracer,
+    );
+
+    expect(result.error).toBe("Lookup failed");
+    expect(span.setError).toHaveBeenCalledWith("Lookup failed");
+  });
+});
+
+describe("toolCallRequiresApproval", () => {
+  const createTransferTool = (requiresApproval: jest.Mock): TamboTool => ({
+    name: "transfer",
+    description: "transfer",
+    tool: jest.fn(),
+    toolSchema: z.function().args(z.number()).returns(z.string()),
+    requiresApproval,
+  });
+
+  it("should pass the validated arguments to the predicate", async () => {
+    const requiresApproval = jest.fn().mockReturnValue(true);
+
+    const result = await toolCallRequiresApproval(
+      {
+        ...createToolCallMessage("transfer", "a"),
+        toolCallRequest: {
+          toolName: "transfer",
+          parameters: [{ parameterName: "param1", parameterValue: "500" }],
+        },
+      },
+      { transfer: createTransferTool(requiresApproval) },
+    );
+
+    expect(result).toBe(true);
+    expect(requiresApproval).toHaveBeenCalledWith(500);
+  });
+
+  it("should not call the predicate with invalid arguments", async () => {
+    const requiresApproval = jest.fn().mockReturnValue(true);
+
+    const result = await toolCallRequiresApproval(
+      createToolCallMessage("transfer", "lots"),
+      { transfer: createTransferTool(requiresApproval) },
+    );
+
+    // The tool is not run, and the issues are sent back to the model
+    expect(result).toBe(false);
+    expect(requiresApproval).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,37 @@
+import { createTracingFetch, TRACE_HEADERS_META_KEY } from "../../util/tracing";
+
+describe("createTracingFetch", () => {
+  const traceparent = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+  it("should send the trace headers of the request's span", async () => {
+    const fetchFn = jest.fn().mockResolvedValue({} as Response);
+    const body = JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/call",
+      params: {
+        name: "search",
+        _meta: { [TRACE_HEADERS_META_KEY]: { traceparent } },
+      },
+    });
+
+    await createTracingFetch(fetchFn)("https://mcp.example.com", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body,
+    });
+
+    const headers: Headers = fetchFn.mock.calls[0][1].headers;
+    expect(headers.get("traceparent")).toBe(traceparent);
+    expect(headers.get("content-type")).toBe("application/json");
+  });
+
+  it("should send requests without trace headers as they are", async () => {
+    const fetchFn = jest.fn().mockResolvedValue({} as Response);
+    const init = { method: "POST", body: '{"method":"tools/list"}' };
+
+    await createTracingFetch(fetchFn)("https://mcp.example.com", init);
+
+    expect(fetchFn).toHaveBeenCalledWith("https://mcp.example.com", init);
+  });
+});
@@ -3,6 +3,9 @@
  * Consumers can add/remove helpers and resolve additional context anywhere.
  */
 
+import { TamboTracer } from "../model/tambo-tracer";
+import { traceSpan } from "../util/tracing";
+
 export type HelperFn = () =>
   | any
   | null
@@ -11,26 +14,41 @@ export type HelperFn = () =>
 
 /**
  * Resolve all helpers to AdditionalContext entries, skipping null/undefined and errors.
+ * @param helpers - The context helpers, by name
+ * @param tracer - Creates a span for resolving the helpers
  * @returns The resolved additional context.
  */
 export async function resolveAdditionalContext(
   helpers: Record<string, HelperFn>,
+  tracer?: TamboTracer,
 ): Promise<{ name: string; context: any }[]> {
   const entries = Object.entries(helpers);
   if (entries.length === 0) return [];
 
-  const results = await Promise.all(
-    entries.map(async ([name, fn]) => {
-      try {
-        const value = await fn();
-        if (value == null) return null;
-        return { name, context: value };
-      } catch (error) {
-        console.error(`Error running context helper ${name}:`, error);
-        return null;
+  return await traceSpan(
+    tracer,
+    "tambo.resolve_additional_context",
+    { "tambo.context_helper_count": entries.length },
+    async (span) => {
+      const failedHelpers: string[] = [];
+      const results = await Promise.all(
+        entries.map(async ([name, fn]) => {
+          try {
+            const value = await fn();
+            if (value == null) return null;
+            return { name, context: value };
+          } catch (error) {
+            console.error(`Error running context helper ${name}:`, error);
+            failedHelpers.push(name);
+            return null;
+          }
+        }),
+      );
+      if (failedHelpers.length > 0) {
+        span.setError(`Context helpers failed: ${failedHelpers.join(", ")}`);
       }
-    }),
-  );
 
-  return results.filter(Boolean) as { name: string; context: any }[];
+      return results.filter(Boolean) as { name: string; context: any }[];
+    },
+  );
 }
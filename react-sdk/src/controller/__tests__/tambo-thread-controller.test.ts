@@ -0,0 +1,485 @@
+import TamboAI, { advanceStream } from "@tambo-ai/typescript-sdk";
+import { render, waitFor } from "@testing-library/react";
+import { z } from "zod";
+import { TamboTool } from "../../model/component-metadata";
+import { GenerationStage } from "../../model/generate-component-response";
+import { TamboTracer } from "../../model/tambo-tracer";
+import {
+  PLACEHOLDER_THREAD,
+  TamboThreadController,
+} from "../tambo-thread-controller";
+
+jest.mock("@tambo-ai/typescript-sdk", () => ({
+  advanceStream: jest.fn(),
+}));
+
+const createResponse = (
+  overrides: Partial<TamboAI.Beta.Threads.ThreadMessage> = {},
+): TamboAI.Beta.Threads.ThreadAdvanceResponse => ({
+  responseMessageDto: {
+    id: "response-1",
+    threadId: "thread-1",
+    role: "assistant",
+    content: [{ type: "text", text: "It is sunny" }],
+    componentState: {},
+    createdAt: "2024-01-01T00:00:00Z",
+    ...overrides,
+  },
+  generationStage: GenerationStage.COMPLETE,
+  mcpAccessToken: "",
+});
+
+describe("TamboThreadController", () => {
+  const mockThreadsApi = {
+    messages: { create: jest.fn(), updateComponentState: jest.fn() },
+    retrieve: jest.fn(),
+    advance: jest.fn(),
+    advanceById: jest.fn(),
+    cancel: jest.fn(),
+  };
+  const client = { beta: { threads: mockThreadsApi } } as unknown as TamboAI;
+  const weatherTool: TamboTool = {
+    name: "getWeather",
+    description: "Get the weather in a city",
+    tool: jest.fn().mockResolvedValue("sunny"),
+    toolSchema: z.function().args(z.string()).returns(z.string()),
+  };
+
+  beforeEach(() => {
+    // Date.now is a mock that the setup resets before each test
+    jest.mocked(Date.now).mockReturnValue(1736080378936);
+    jest.mocked(weatherTool.tool).mockResolvedValue("sunny");
+    mockThreadsApi.retrieve.mockImplementation(async (threadId: string) => ({
+      id: threadId,
+      messages: [],
+      createdAt: "2024-01-01T00:00:00Z",
+      projectId: "project-1",
+      updatedAt: "2024-01-01T00:00:00Z",
+    }));
+  });
+
+  it("should run the tool calls of a response", async () => {
+    mockThreadsApi.advance.mockResolvedValue(
+      createResponse({
+        id: "tool-call-1",
+        content: [],
+        toolCallRequest: {
+          toolName: "getWeather",
+          parameters: [{ parameterName: "city", parameterValue: "Paris" }],
+        },
+      }),
+    );
+    mockThreadsApi.advanceById.mockResolvedValue(createResponse());
+    const controller = new TamboThreadController({
+      client,
+      toolRegistry: { getWeather: weatherTool },
+      streaming: false,
+    });
+
+    const response = await controller.sendThreadMessage("Weather in Paris?");
+
+    expect(weatherTool.tool).toHaveBeenCalledWith("Paris", expect.anything());
+    expect(mockThreadsApi.advanceById).toHaveBeenCalledWith(
+      "thread-1",
+      expect.objectContaining({
+        messageToAppend: expect.objectContaining({
+          role: "tool",
+          content: [{ type: "text", text: "sunny" }],
+        }),
+      }),
+    );
+    expect(response.content).toEqual([{ type: "text", text: "It is sunny" }]);
+    // The thread created for the first message becomes the current thread
+    expect(controller.getState().currentThreadId).toBe("thread-1");
+    expect(controller.thread.generationStage).toBe(GenerationStage.COMPLETE);
+  });
+
+  it("should notify subscribers and report completed generations", async () => {
+    mockThreadsApi.advanceById.mockResolvedValue(createResponse());
+    const onGenerationComplete = jest.fn();
+    const controller = new TamboThreadController({
+      client,
+      streaming: false,
+      onGenerationComplete,
+    });
+    const stages: (string | undefined)[] = [];
+    const unsubscribe = controller.subscribe(() => {
+      stages.push(controller.thread.generationStage);
+    });
+
+    await controller.switchCurrentThread("thread-1", false);
+    await controller.sendThreadMessage("Hello");
+    unsubscribe();
+
+    expect(stages).toContain(GenerationStage.FETCHING_CONTEXT);
+    expect(stages[stages.length - 1]).toBe(GenerationStage.COMPLETE);
+    expect(onGenerationComplete).toHaveBeenCalledWith({
+      threadId: "thread-1",
+      generationStage: GenerationStage.COMPLETE,
+      isBackground: false,
+    });
+  });
+
+  it("should emit events for the message, tool call and stages", async () => {
+    mockThreadsApi.advanceById
+      .mockResolvedValueOnce(
+        createResponse({
+          id: "tool-call-1",
+          content: [],
+          toolCallRequest: {
+            toolName: "getWeather",
+            parameters: [{ parameterName: "city", parameterValue: "Paris" }],
+          },
+        }),
+      )
+      .mockResolvedValueOnce(createResponse());
+    const onEvent = jest.fn();
+    const controller = new TamboThreadController({
+      client,
+      toolRegistry: { getWeather: weatherTool },
+      streaming: false,
+      onEvent,
+    });
+    await controller.switchCurrentThread("thread-1", false);
+
+    await controller.sendThreadMessage("Weather in Paris?");
+
+    const events = onEvent.mock.calls.map(([event]) => event);
+    expect(events.map((event) => event.type)).toEqual(
+      expect.arrayContaining([
+        "message_sent",
+        "tool_call_started",
+        "tool_call_finished",
+        "generation_stage_changed",
+      ]),
+    );
+    expect(events).toContainEqual({
+      type: "tool_call_finished",
+      timestamp: expect.any(Number),
+      threadId: "thread-1",
+      messageId: "tool-call-1",
+      toolName: "getWeather",
+      durationMs: expect.any(Number),
+      error: undefined,
+    });
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: "generation_stage_changed",
+        threadId: "thread-1",
+        previousGenerationStage: GenerationStage.HYDRATING_COMPONENT,
+        generationStage: GenerationStage.COMPLETE,
+      }),
+    );
+  });
+
+  it("should keep running when the event handler throws", async () => {
+    mockThreadsApi.advanceById.mockResolvedValue(createResponse());
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const controller = new TamboThreadController({
+      client,
+      streaming: false,
+      onEvent: () => {
+        throw new Error("Analytics is down");
+      },
+    });
+    await controller.switchCurrentThread("thread-1", false);
+
+    const response = await controller.sendThreadMessage("Hello");
+
+    expect(response.content).toEqual([{ type: "text", text: "It is sunny" }]);
+  });
+
+  it("should send requests in spans with the trace headers", async () => {
+    mockThreadsApi.advanceById.mockResolvedValue(createResponse());
+    const traceparent =
+      "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+    const tracer: TamboTracer = {
+      startSpan: jest.fn(
+        async (_name, _attributes, fn) =>
+          await fn({ setAttributes: jest.fn(), setError: jest.fn() }),
+      ),
+      getTraceHeaders: () => ({ traceparent }),
+    };
+    const controller = new TamboThreadController({
+      client,
+      streaming: false,
+      tracer,
+    });
+    await controller.switchCurrentThread("thread-1", false);
+
+    await controller.sendThreadMessage("Hello");
+
+    expect(tracer.startSpan).toHaveBeenCalledWith(
+      "tambo.advance",
+      { "tambo.thread_id": "thread-1" },
+      expect.any(Function),
+    );
+    expect(mockThreadsApi.advanceById).toHaveBeenCalledWith(
+      "thread-1",
+      expect.anything(),
+      { headers: { traceparent } },
+    );
+  });
+
+  it("should keep the span of a streamed response open while it is read", async () => {
+    const events: string[] = [];
+    jest.mocked(advanceStream).mockImplementation(async function* () {
+      events.push("first chunk");
+      yield {
+        ...createResponse(),
+        generationStage: GenerationStage.STREAMING_RESPONSE,
+      };
+      events.push("last chunk");
+      yield createResponse();
+    } as unknown as typeof advanceStream);
+    const tracer: TamboTracer = {
+      startSpan: async (_name, _attributes, fn) => {
+        try {
+          return await fn({ setAttributes: jest.fn(), setError: jest.fn() });
+        } finally {
+          events.push("span ended");
+        }
+      },
+      getTraceHeaders: () => ({}),
+    };
+    const controller = new TamboThreadController({ client, tracer });
+    await controller.switchCurrentThread("thread-1", false);
+
+    await controller.sendThreadMessage("Hello");
+
+    expect(events).toEqual(["first chunk", "last chunk", "span ended"]);
+  });
+
+  it("should end the span of a streamed response that is cancelled before it is read", async () => {
+    const events: string[] = [];
+    const tracer: TamboTracer = {
+      startSpan: async (_name, _attributes, fn) => {
+        try {
+          return await fn({ setAttributes: jest.fn(), setError: jest.fn() });
+        } finally {
+          events.push("span ended");
+        }
+      },
+      getTraceHeaders: () => ({}),
+    };
+    const controller = new TamboThreadController({ client, tracer });
+    jest.mocked(advanceStream).mockImplementation((() => {
+      void controller.cancel("thread-1");
+      return (async function* () {
+        events.push("first chunk");
+        yield createResponse();
+      })();
+    }) as unknown as typeof advanceStream);
+    await controller.switchCurrentThread("thread-1", false);
+
+    await controller.sendThreadMessage("Hello");
+
+    expect(events).toEqual(["span ended"]);
+  });
+
+  it("should report component errors to the model once", async () => {
+    const invalidResponse = createResponse({
+      component: {
+        componentName: "WeatherCard",
+        props: { city: 42 },
+        message: "",
+        reasoning: "",
+        componentState: {},
+      },
+    });
+    mockThreadsApi.advanceById.mockResolvedValue(invalidResponse);
+    const onEvent = jest.fn();
+    const controller = new TamboThreadController({
+      client,
+      componentList: {
+        WeatherCard: {
+          name: "WeatherCard",
+          description: "Shows the weather in a city",
+          component: () => null,
+          props: {},
+          propsSchema: z.object({ city: z.string() }),
+          contextTools: [],
+        },
+      },
+      streaming: false,
+      reportComponentErrors: true,
+      onEvent,
+    });
+
+    await controller.switchCurrentThread("thread-1", false);
+    const response = await controller.sendThreadMessage("Weather in Paris?");
+
+    // The retry is invalid as well, and is not reported again
+    expect(mockThreadsApi.advanceById).toHaveBeenCalledTimes(2);
+    const { messageToAppend } = mockThreadsApi.advanceById.mock.calls[1][1];
+    expect(messageToAppend.role).toBe("system");
+    expect(JSON.parse(messageToAppend.content[0].text)).toMatchObject({
+      error: "invalid_props",
+      componentName: "WeatherCard",
+      issues: [{ path: "city", message: "Expected string, received number" }],
+    });
+    expect(response.componentError).toMatchObject({ reason: "invalid_props" });
+    expect(response.renderedComponent).toBeNull();
+    expect(controller.thread.generationStage).toBe(GenerationStage.COMPLETE);
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "component_error",
+        messageId: "response-1",
+        error: expect.objectContaining({ componentName: "WeatherCard" }),
+      }),
+    );
+  });
+
+  it("should report the errors components throw while rendering to the model", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const responses = [
+      createResponse({
+        component: {
+          componentName: "WeatherCard",
+          props: { city: "Atlantis" },
+          message: "",
+          reasoning: "",
+          componentState: {},
+        },
+      }),
+      createResponse({ id: "response-2" }),
+    ];
+    jest.mocked(advanceStream).mockImplementation(async function* () {
+      yield responses.shift();
+    } as unknown as typeof advanceStream);
+    const onEvent = jest.fn();
+    const controller = new TamboThreadController({
+      client,
+      componentList: {
+        WeatherCard: {
+          name: "WeatherCard",
+          description: "Shows the weather in a city",
+          component: ({ city }: { city: string }) => {
+            throw new Error(`Unknown city ${city}`);
+          },
+          props: {},
+          propsSchema: z.object({ city: z.string() }),
+          contextTools: [],
+        },
+      },
+      reportComponentErrors: true,
+      onEvent,
+    });
+
+    await controller.switchCurrentThread("thread-1", false);
+    const response = await controller.sendThreadMessage("Weather in Atlantis?");
+    render(response.renderedComponent!);
+
+    await waitFor(() => {
+      expect(advanceStream).toHaveBeenCalledTimes(2);
+    });
+    const [, params, threadId] = jest.mocked(advanceStream).mock.calls[1];
+    expect(threadId).toBe("thread-1");
+    expect(params.messageToAppend.role).toBe("system");
+    const [content] = params.messageToAppend.content;
+    expect(
+      JSON.parse(content.type === "text" ? (content.text ?? "") : ""),
+    ).toMatchObject({
+      error: "render_error",
+      componentName: "WeatherCard",
+      message: "Unknown city Atlantis",
+    });
+    await waitFor(() => {
+      expect(controller.thread.messages.map(({ id }) => id)).toContain(
+        "response-2",
+      );
+    });
+    expect(
+      controller.thread.messages.find(({ id }) => id === "response-1")
+        ?.componentError,
+    ).toMatchObject({ reason: "render_error" });
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "component_error",
+        messageId: "response-1",
+        error: expect.objectContaining({ reason: "render_error" }),
+      }),
+    );
+  });
+
+  it("should record the component version of generated responses", async () => {
+    mockThreadsApi.advanceById.mockResolvedValue(
+      createResponse({
+        component: {
+          componentName: "WeatherCard",
+          props: { location: "Paris" },
+          message: "",
+          reasoning: "",
+          componentState: {},
+        },
+      }),
+    );
+    const migrateCity = jest.fn(({ city }) => ({ location: city }));
+    const controller = new TamboThreadController({
+      client,
+      componentList: {
+        WeatherCard: {
+          name: "WeatherCard",
+          description: "Shows the weather in a city",
+          component: () => null,
+          props: {},
+          version: 2,
+          migrations: { 2: migrateCity },
+          contextTools: [],
+        },
+      },
+      streaming: false,
+    });
+
+    await controller.switchCurrentThread("thread-1", false);
+    const response = await controller.sendThreadMessage("Weather in Paris?");
+
+    // The response is for the current version, so it is not migrated
+    expect(migrateCity).not.toHaveBeenCalled();
+    expect(response.component?.props).toEqual({ location: "Paris" });
+    expect(mockThreadsApi.messages.updateComponentState).toHaveBeenCalledWith(
+      "thread-1",
+      "response-1",
+      { state: { _tamboComponentVersion: 2 } },
+    );
+  });
+
+  it("should preload lazy components while the model chooses one", async () => {
+    jest.mocked(advanceStream).mockImplementation(async function* () {
+      yield {
+        ...createResponse(),
+        generationStage: GenerationStage.CHOOSING_COMPONENT,
+      };
+      yield createResponse();
+    } as unknown as typeof advanceStream);
+    const preload = jest.fn().mockResolvedValue({ default: () => null });
+    const controller = new TamboThreadController({
+      client,
+      componentList: {
+        WeatherMap: {
+          name: "WeatherMap",
+          description: "Shows the weather on a map",
+          component: () => null,
+          preload,
+          props: {},
+          contextTools: [],
+        },
+      },
+    });
+
+    await controller.switchCurrentThread("thread-1", false);
+    await controller.sendThreadMessage("Weather in Paris?");
+
+    expect(preload).toHaveBeenCalled();
+  });
+
+  it("should start a new thread", async () => {
+    const controller = new TamboThreadController({ client });
+    await controller.switchCurrentThread("thread-1", false);
+
+    controller.startNewThread();
+
+    expect(controller.thread).toBe(PLACEHOLDER_THREAD);
+    expect(controller.getState().threads["thread-1"]).toBeDefined();
+  });
+});
@@ -0,0 +1,2174 @@
+import TamboAI, { APIConnectionError } from "@tambo-ai/typescript-sdk";
+import { Thread } from "@tambo-ai/typescript-sdk/resources/beta/threads/threads";
+import { ComponentType } from "react";
+import { AdditionalContext } from "../context-helpers/types";
+import {
+  TamboComponentError,
+  TamboComponentErrorProps,
+} from "../model/component-error";
+import { ComponentRegistry, TamboAnyTool } from "../model/component-metadata";
+import {
+  GenerationStage,
+  isIdleStage,
+  TamboThreadMessage,
+} from "../model/generate-component-response";
+import { TamboEvent } from "../model/tambo-event";
+import { TamboTracer } from "../model/tambo-tracer";
+import { TamboThread } from "../model/tambo-thread";
+import {
+  QueuedThreadMessage,
+  ThreadStorageAdapter,
+} from "../storage/thread-storage-adapter";
+import { advanceThreadStream } from "../util/advance-stream";
+import {
+  getAttachmentMetadata,
+  getMessageContent,
+  replaceMessageText,
+} from "../util/attachments";
+import {
+  COMPONENT_VERSION_STATE_KEY,
+  ComponentRenderOptions,
+  recordComponentVersion,
+  renderComponentIntoMessage,
+} from "../util/generate-component";
+import {
+  getAvailableComponents,
+  getUnassociatedTools,
+  mapTamboToolToContextTool,
+} from "../util/registry";
+import {
+  getBranchRootThreadId,
+  getMessageBranches as getBranchesAtIndex,
+  getRecordedForks,
+  getThreadBranch,
+  TamboMessageBranches,
+  TamboThreadBranch,
+  THREAD_BRANCH_METADATA_KEY,
+  THREAD_FORKS_METADATA_KEY,
+} from "../util/thread-branches";
+import {
+  DEFAULT_MAX_CONCURRENT_TOOL_CALLS,
+  getDeniedToolCallResult,
+  handleToolCalls,
+  toolCallRequiresApproval,
+} from "../util/tool-caller";
+
+/**
+ * This is a stub entry for when the thread is not yet created, the first time
+ * the user sends a message
+ *
+ * Note that the consumer needs to be careful never to send `PLACEHOLDER_THREAD.id` to the server,
+ * as this doesn't really exist on the server side.
+ */
+export const PLACEHOLDER_THREAD: TamboThread = {
+  id: "placeholder",
+  messages: [],
+  createdAt: "",
+  projectId: "",
+  updatedAt: "",
+  metadata: {},
+};
+
+/** Passed to `onGenerationComplete` when a thread's generation ends */
+export interface TamboGenerationCompleteEvent {
+  /** The thread that finished generating */
+  threadId: string;
+  /** How the generation ended: COMPLETE, ERROR or CANCELLED */
+  generationStage: GenerationStage;
+  /** Whether the thread was not the current thread when it finished */
+  isBackground: boolean;
+}
+
+// Type for partial message updates that requires threadId
+export type PartialTamboThreadMessageWithThreadId =
+  Partial<TamboThreadMessage> & {
+    threadId: string;
+  };
+
+// An event as it is emitted, before it gets its timestamp
+type WithoutTimestamp<T> = T extends unknown ? Omit<T, "timestamp"> : never;
+
+/** The options of a `sendThreadMessage` call */
+export type TamboSendThreadMessageOptions = QueuedThreadMessage["options"];
+
+export interface TamboThreadControllerOptions {
+  /** The client to talk to the Tambo API with */
+  client: TamboAI;
+  /** The registered components, by name */
+  componentList?: ComponentRegistry;
+  /** The registered tools, by name */
+  toolRegistry?: Record<string, TamboAnyTool>;
+  /** The names of the tools associated with each component, by component name */
+  componentToolAssociations?: Record<string, string[]>;
+  /** Get the context that is sent along with each message */
+  getAdditionalContext?: () => Promise<AdditionalContext[]>;
+  /**
+   * Wait for the user's decision about a tool call that requires approval.
+   * Without it, tools that require approval are denied.
+   */
+  requestToolApproval?: (
+    message: TamboAI.Beta.Threads.ThreadMessage,
+    signal?: AbortSignal,
+  ) => Promise<{ approved: boolean; reason?: string }>;
+  /** Whether to stream responses by default. Defaults to true. */
+  streaming?: boolean;
+  /** The maximum number of tool calls to run at the same time. Defaults to 4. */
+  maxConcurrentToolCalls?: number;
+  /**
+   * Persists threads, so they are shown right away on load and messages sent
+   * while offline are queued until the browser is back online
+   */
+  storage?: ThreadStorageAdapter;
+  /**
+   * Called when a thread finishes generating a response, including threads
+   * that are not the current thread
+   */
+  onGenerationComplete?: (event: TamboGenerationCompleteEvent) => void;
+  /** Called with everything that happens while threads run, e.g. for analytics */
+  onEvent?: (event: TamboEvent) => void;
+  /** Creates spans for the API requests and tool calls, and their trace headers */
+  tracer?: TamboTracer;
+  /**
+   * Send the errors of components that could not be rendered back to the
+   * model, so it can try once more with a registered component and valid props
+   */
+  reportComponentErrors?: boolean;
+  /** Rendered for the components that fail and have no `errorComponent` */
+  errorComponent?: ComponentType<TamboComponentErrorProps>;
+}
+
+export interface TamboThreadControllerState {
+  /** Every thread that has been loaded or created, by thread id */
+  threads: Record<string, TamboThread>;
+  /** The id of the current thread */
+  currentThreadId: string;
+}
+
+/**
+ * Runs Tambo threads without React: sends messages, calls the registered
+ * tools, renders the components the model picks and keeps the state of each
+ * thread. The `TamboThreadProvider` is a binding of this class, and it can be
+ * used directly from Node scripts, cron jobs or API routes.
+ * @example
+ * ```typescript
+ * const controller = new TamboThreadController({
+ *   client: new TamboAI({ apiKey: process.env.TAMBO_API_KEY }),
+ *   toolRegistry: { getWeather: weatherTool },
+ * });
+ * const response = await controller.sendThreadMessage("Weather in Paris?");
+ * ```
+ */
+export class TamboThreadController {
+  private options: TamboThreadControllerOptions;
+  private state: TamboThreadControllerState = {
+    threads: { [PLACEHOLDER_THREAD.id]: PLACEHOLDER_THREAD },
+    currentThreadId: PLACEHOLDER_THREAD.id,
+  };
+  private readonly listeners = new Set<() => void>();
+  // The generation running in each thread, by thread id. Aborted by
+  // `cancel`, so that the response is ignored and running tool calls can stop
+  // early.
+  private readonly abortControllers = new Map<string, AbortController>();
+  // Messages sent while offline, and the pending `sendThreadMessage` calls
+  // that resolve once they are sent
+  private queuedMessages: QueuedThreadMessage[] = [];
+  private readonly queuedMessageCalls = new Map<
+    string,
+    {
+      resolve: (message: TamboThreadMessage) => void;
+      reject: (error: unknown) => void;
+    }
+  >();
+  private isReplaying = false;
+  // The last version of each thread that was written to storage
+  private storedThreads: Record<string, TamboThread> = {};
+  // The messages whose component threw while rendering, which are only
+  // reported once
+  private readonly renderErrorMessageIds = new Set<string>();
+  // The render error to send to the model in each thread, by thread id, once
+  // the running generation of the thread settles
+  private readonly pendingRenderErrors = new Map<
+    string,
+    { messageId: string; error: TamboComponentError }
+  >();
+  // The responses to reported render errors, which are not reported again
+  private readonly renderErrorResponseIds = new Set<string>();
+  // The last fork being recorded in the metadata of each thread, by thread
+  // id, so that forks made at the same time don't overwrite each other
+  private readonly forkRecords = new Map<string, Promise<void>>();
+
+  /**
+   * @param options - The client, registry and callbacks to run threads with
+   */
+  constructor(options: TamboThreadControllerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Replace the options, e.g. when components or tools are registered.
+   * Running generations use the new options from their next step on.
+   * @param options - The new options
+   */
+  setOptions = (options: TamboThreadControllerOptions) => {
+    this.options = options;
+  };
+
+  /**
+   * Listen for changes to the threads
+   * @param listener - Called after every change
+   * @returns A function that stops listening
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Get the threads and the current thread id. A new object is returned after
+   * every change, so it can be compared by reference.
+   * @returns The current state
+   */
+  getState = (): TamboThreadControllerState => this.state;
+
+  /**
+   * The current thread
+   * @returns The current thread
+   */
+  get thread(): TamboThread {
+    return this.state.threads[this.state.currentThreadId];
+  }
+
+  /**
+   * Load the stored threads, and send the messages that were queued while
+   * offline once the browser is back online. Does nothing without `storage`.
+   * @returns A function that stops sending queued messages
+   */
+  connectStorage = (): (() => void) => {
+    const { storage } = this.options;
+    if (!storage) {
+      return () => {};
+    }
+    let cancelled = false;
+    const hydrate = async () => {
+      const [storedThreads, queuedMessages] = await Promise.all([
+        storage.getThreads(),
+        storage.getQueuedMessages(),
+      ]);
+      if (cancelled) {
+        return;
+      }
+      this.setThreads((prevMap) => {
+        const hydratedMap = { ...prevMap };
+        for (const thread of storedThreads) {
+          // Threads that were already loaded are newer than the stored copy
+          if (!hydratedMap[thread.id]?.messages.length) {
+            hydratedMap[thread.id] = renderStoredThread(
+              thread,
+              this.options.componentList ?? {},
+              (message) => this.getRenderOptions(message),
+            );
+          }
+        }
+        return hydratedMap;
+      });
+      // Messages queued before a reconnect are both stored and in memory
+      const storedIds = new Set(queuedMessages.map(({ id }) => id));
+      this.queuedMessages = [
+        ...queuedMessages,
+        ...this.queuedMessages.filter(({ id }) => !storedIds.has(id)),
+      ];
+      await this.replayQueuedMessages();
+    };
+    hydrate().catch((error) => {
+      console.error("Failed to load stored threads: ", error);
+    });
+
+    const onOnline = () => {
+      this.replayQueuedMessages().catch((error) => {
+        console.error("Failed to send queued messages: ", error);
+      });
+    };
+    if (typeof window !== "undefined") {
+      window.addEventListener("online", onOnline);
+    }
+    return () => {
+      cancelled = true;
+      if (typeof window !== "undefined") {
+        window.removeEventListener("online", onOnline);
+      }
+      // The queued messages stay stored, but nothing sends them from here on
+      for (const { reject } of this.queuedMessageCalls.values()) {
+        reject(
+          new Error(
+            "The storage was disconnected before the queued message was sent",
+          ),
+        );
+      }
+      this.queuedMessageCalls.clear();
+    };
+  };
+
+  /**
+   * Load a thread from the server. Components that were already rendered are
+   * kept.
+   * @param threadId - The thread to load
+   * @param includeInternalMessages - Whether to include internal messages
+   */
+  fetchThread = async (threadId: string, includeInternalMessages = true) => {
+    if (this.options.storage && isOffline()) {
+      // Keep showing the stored copy until the browser is back online
+      return;
+    }
+    const thread = await this.options.client.beta.threads.retrieve(threadId, {
+      includeInternal: includeInternalMessages,
+    });
+    // Use existing messages of the thread to avoid re-generating any components
+    const messageCache = new Map(
+      (this.state.threads[threadId]?.messages ?? []).map((message) => [
+        message.id,
+        message,
+      ]),
+    );
+    const threadWithRenderedComponents = {
+      ...thread,
+      messages: thread.messages.map((message) => {
+        const renderedMessage = messageCache.get(message.id);
+        if (renderedMessage) {
+          return {
+            ...renderedMessage,
+            ...message,
+          };
+        }
+        if (message.component?.componentName) {
+          return this.renderMessage(message);
+        }
+        return message;
+      }),
+    };
+
+    this.setThreads((prevMap) => {
+      const localThread = prevMap[threadId] as TamboThread | undefined;
+      const localStage =
+        (localThread?.generationStage as GenerationStage | undefined) ??
+        GenerationStage.IDLE;
+      return {
+        ...prevMap,
+        [threadId]: {
+          ...threadWithRenderedComponents,
+          // The generation running on this client knows its stage best
+          ...(!isIdleStage(localStage) && {
+            generationStage: localThread?.generationStage,
+            statusMessage: localThread?.statusMessage,
+          }),
+        },
+      };
+    });
+    await this.fetchBranchSource(threadId);
+  };
+
+  /**
+   * Add a message to a thread, or replace the message with the same id
+   * @param message - The message to add
+   * @param sendToServer - Whether to also add the message on the server
+   * @param createdAt - When the message was created
+   * @returns The messages of the thread
+   */
+  addThreadMessage = async (
+    message: TamboThreadMessage,
+    sendToServer = true,
+    createdAt: string = new Date().toISOString(),
+  ): Promise<TamboAI.Beta.Threads.ThreadMessage[]> => {
+    const chatMessage: TamboThreadMessage = {
+      ...message,
+      createdAt,
+    };
+    const threadId = message.threadId;
+    const messageId = chatMessage.id;
+    // optimistically update the thread in the local state
+    this.setThreads((prevMap) => {
+      if (!threadId) {
+        return prevMap;
+      }
+      const prevMessages = prevMap[threadId]?.messages || [];
+      const haveMessage = prevMessages.find((msg) => msg.id === messageId);
+      // Update in place if the message already exists
+      const updatedMessages = haveMessage
+        ? prevMessages.map((msg) => {
+            if (msg.id === messageId) {
+              return chatMessage;
+            }
+            return msg;
+          })
+        : [...prevMessages, chatMessage];
+
+      return {
+        ...prevMap,
+        [threadId]: {
+          ...prevMap[threadId],
+          messages: updatedMessages,
+        },
+      };
+    });
+
+    if (sendToServer) {
+      // TODO: if this fails, we need to revert the local state update
+      await this.options.client.beta.threads.messages.create(message.threadId, {
+        content: message.content,
+        role: message.role,
+        additionalContext: chatMessage.additionalContext,
+      });
+    }
+    return this.state.threads[threadId]?.messages || [];
+  };
+
+  /**
+   * Update a message of a thread
+   * @param id - The id of the message
+   * @param message - The fields to update
+   * @param sendToServer - Whether to also add the message on the server
+   * @param createdAt - When the message was created, if it did not have a date
+   */
+  updateThreadMessage = async (
+    id: string,
+    message: PartialTamboThreadMessageWithThreadId,
+    sendToServer = true,
+    createdAt: string = new Date().toISOString(),
+  ): Promise<void> => {
+    this.setThreads((prevMap) => {
+      const prevMessages = prevMap[message.threadId]?.messages || [];
+      const updatedMessages = prevMessages.map((msg) => {
+        if (msg.id === id) {
+          // Merge the partial update with the existing message
+          const updatedMessage: TamboThreadMessage = {
+            ...msg,
+            ...message,
+            id: msg.id,
+            createdAt: message.createdAt ?? msg.createdAt ?? createdAt,
+          };
+          return updatedMessage;
+        }
+        return msg;
+      });
+      return {
+        ...prevMap,
+        [message.threadId]: {
+          ...prevMap[message.threadId],
+          messages: updatedMessages,
+        },
+      };
+    });
+
+    if (sendToServer && message.content && message.role) {
+      // TODO: if this fails, we need to revert the local state update
+      await this.options.client.beta.threads.messages.create(message.threadId, {
+        content: message.content,
+        role: message.role,
+        additionalContext: message.additionalContext,
+      });
+    }
+  };
+
+  /** Start a new thread, which is created when the first message is sent */
+  startNewThread = () => {
+    this.setState({
+      currentThreadId: PLACEHOLDER_THREAD.id,
+      threads: {
+        ...this.state.threads,
+        [PLACEHOLDER_THREAD.id]: PLACEHOLDER_THREAD,
+      },
+    });
+  };
+
+  /**
+   * Update a thread's name
+   * @param name - The new name
+   * @param threadId - The thread to rename. Defaults to the current thread.
+   */
+  updateThreadName = async (name: string, threadId?: string) => {
+    threadId ??= this.state.currentThreadId;
+
+    this.setThreads((prevMap) => {
+      if (!prevMap[threadId]) {
+        return prevMap;
+      }
+      return { ...prevMap, [threadId]: { ...prevMap[threadId], name } };
+    });
+
+    if (threadId !== PLACEHOLDER_THREAD.id) {
+      const currentProject =
+        await this.options.client.beta.projects.getCurrent();
+      await this.options.client.beta.threads.update(threadId, {
+        name,
+        projectId: currentProject.id,
+      });
+    }
+  };
+
+  /**
+   * Let Tambo generate and set a thread's name based on the thread's messages
+   * @param threadId - The thread to name. Defaults to the current thread.
+   * @returns The thread with its new name
+   */
+  generateThreadName = async (threadId?: string): Promise<Thread> => {
+    threadId ??= this.state.currentThreadId;
+    if (threadId === PLACEHOLDER_THREAD.id) {
+      console.warn("Cannot generate name for empty thread");
+      return this.state.threads[threadId];
+    }
+
+    const threadWithGeneratedName =
+      await this.options.client.beta.threads.generateName(threadId);
+
+    this.setThreads((prevMap) => {
+      if (!prevMap[threadId]) {
+        return prevMap;
+      }
+      return {
+        ...prevMap,
+        [threadId]: {
+          ...prevMap[threadId],
+          name: threadWithGeneratedName.name,
+        },
+      };
+    });
+    return threadWithGeneratedName;
+  };
+
+  /**
+   * Make another thread the current thread
+   * @param threadId - The thread to switch to
+   * @param fetch - Whether to load the thread from the server
+   */
+  switchCurrentThread = async (threadId: string, fetch = true) => {
+    if (threadId === PLACEHOLDER_THREAD.id) {
+      console.warn("Switching to placeholder thread, may be a bug.");
+      return;
+    }
+    const { threads } = this.state;
+    this.setState({
+      currentThreadId: threadId,
+      // If this is a new thread, add placeholder thread messages to the thread
+      threads: threads[threadId]
+        ? threads
+        : {
+            ...threads,
+            [threadId]: { ...threads[PLACEHOLDER_THREAD.id], id: threadId },
+          },
+    });
+    if (fetch) {
+      await this.fetchThread(threadId);
+    }
+  };
+
+  /**
+   * Cancel the generation running in a thread. The rest of the response is
+   * ignored.
+   * @param threadId - The thread to cancel. Defaults to the current thread.
+   */
+  cancel = async (threadId?: string) => {
+    threadId ??= this.state.currentThreadId;
+    const generationStage =
+      this.state.threads[threadId]?.generationStage ?? GenerationStage.IDLE;
+    if (isIdleStage(generationStage as GenerationStage)) {
+      return;
+    }
+    this.abortControllers.get(threadId)?.abort();
+    this.setThreads((prevMap) => {
+      if (!prevMap[threadId]) {
+        return prevMap;
+      }
+      const messages = prevMap[threadId].messages;
+      return {
+        ...prevMap,
+        [threadId]: {
+          ...prevMap[threadId],
+          generationStage: GenerationStage.CANCELLED,
+          messages: messages.map((message) =>
+            message.id === messages[messages.length - 1].id
+              ? { ...message, isCancelled: true }
+              : message,
+          ),
+        },
+      };
+    });
+
+    await this.options.client.beta.threads.cancel(threadId);
+  };
+
+  /**
+   * Send a message to a thread, and run the tool calls of the response until
+   * the model has answered
+   * @param message - The text of the message
+   * @param options - The thread to send to and how to generate the response
+   * @returns The final response message
+   */
+  sendThreadMessage = async (
+    message: string,
+    options: TamboSendThreadMessageOptions = {},
+  ): Promise<TamboThreadMessage> => {
+    const content = getMessageContent(message, options.attachments);
+    const metadata = getAttachmentMetadata(message, options.attachments);
+    const { storage } = this.options;
+    if (!storage || !isOffline()) {
+      return await this.advanceThread(
+        { content, metadata },
+        options,
+        crypto.randomUUID(),
+      );
+    }
+
+    // Show the message right away, and send it once the browser is back online
+    const queued: QueuedThreadMessage = {
+      id: crypto.randomUUID(),
+      message,
+      options: {
+        ...options,
+        threadId: options.threadId ?? this.state.currentThreadId,
+      },
+      queuedAt: new Date().toISOString(),
+    };
+    this.queuedMessages = [...this.queuedMessages, queued];
+    await storage.setQueuedMessages(this.queuedMessages);
+    await this.addThreadMessage(
+      {
+        id: queued.id,
+        threadId: queued.options.threadId ?? this.state.currentThreadId,
+        content,
+        metadata,
+        renderedComponent: null,
+        role: "user",
+        createdAt: queued.queuedAt,
+        componentState: {},
+      },
+      false,
+    );
+    return await new Promise<TamboThreadMessage>((resolve, reject) => {
+      this.queuedMessageCalls.set(queued.id, { resolve, reject });
+    });
+  };
+
+  /**
+   * Edit a user message of the current thread and send it again. The thread
+   * is forked at the message, so the original branch is kept.
+   * @param messageId - The message to edit
+   * @param newText - The new text of the message
+   * @returns The final response message
+   */
+  editMessage = async (
+    messageId: string,
+    newText: string,
+  ): Promise<TamboThreadMessage> => {
+    const messageIndex = this.getMessageIndex(messageId);
+    const message = this.thread.messages[messageIndex];
+    if (message.role !== "user") {
+      throw new Error("Only user messages can be edited");
+    }
+    const threadId = await this.forkThread(messageIndex);
+    // Keep the attachments of the edited message
+    return await this.advanceThread(
+      replaceMessageText(message, newText),
+      { threadId, additionalContext: message.additionalContext },
+      crypto.randomUUID(),
+    );
+  };
+
+  /**
+   * Generate a new response to a message of the current thread. The thread is
+   * forked at the user message the response answers, so the original branch
+   * is kept.
+   * @param messageId - The response to generate again, or the user message it answers
+   * @returns The final response message
+   */
+  regenerate = async (messageId: string): Promise<TamboThreadMessage> => {
+    const messages = this.thread.messages;
+    // Resend the user message that the response answers
+    let messageIndex = this.getMessageIndex(messageId);
+    while (messageIndex >= 0 && messages[messageIndex].role !== "user") {
+      messageIndex--;
+    }
+    if (messageIndex === -1) {
+      throw new Error(`No user message found before message ${messageId}`);
+    }
+    const message = messages[messageIndex];
+    const threadId = await this.forkThread(messageIndex);
+    return await this.advanceThread(
+      { content: message.content, metadata: message.metadata },
+      { threadId, additionalContext: message.additionalContext },
+      crypto.randomUUID(),
+    );
+  };
+
+  /**
+   * Get the sibling branches of a message of the current thread
+   * @param messageId - The message
+   * @returns The threads that branch off at the message
+   */
+  getMessageBranches = (messageId: string): TamboMessageBranches =>
+    getBranchesAtIndex(
+      this.state.threads,
+      this.state.currentThreadId,
+      this.getMessageIndex(messageId),
+    );
+
+  /**
+   * Show another sibling branch of a message of the current thread
+   * @param messageId - The message
+   * @param branchIndex - The index of the branch to show
+   */
+  switchBranch = async (messageId: string, branchIndex: number) => {
+    const { threadIds } = this.getMessageBranches(messageId);
+    const threadId = threadIds[branchIndex];
+    if (!threadId) {
+      throw new Error(
+        `Branch ${branchIndex} not found, message ${messageId} has ${threadIds.length} branches`,
+      );
+    }
+    await this.switchCurrentThread(threadId);
+  };
+
+  private setState(state: TamboThreadControllerState) {
+    const previousThreads = this.state.threads;
+    this.state = state;
+    if (state.threads !== previousThreads) {
+      this.storeSettledThreads();
+    }
+    for (const listener of this.listeners) {
+      listener();
+    }
+    if (state.threads !== previousThreads) {
+      this.notifyStageChanges(previousThreads);
+    }
+  }
+
+  private setThreads(
+    update: (
+      threads: Record<string, TamboThread>,
+    ) => Record<string, TamboThread>,
+  ) {
+    const threads = update(this.state.threads);
+    if (threads !== this.state.threads) {
+      this.setState({ ...this.state, threads });
+    }
+  }
+
+  private notifyStageChanges(previousThreads: Record<string, TamboThread>) {
+    for (const [threadId, thread] of Object.entries(this.state.threads)) {
+      const previousStage = previousThreads[threadId]?.generationStage as
+        | GenerationStage
+        | undefined;
+      const stage =
+        (thread.generationStage as GenerationStage | undefined) ??
+        GenerationStage.IDLE;
+      if (stage !== (previousStage ?? GenerationStage.IDLE)) {
+        if (stage === GenerationStage.CHOOSING_COMPONENT) {
+          this.preloadComponents();
+        }
+        this.emit({
+          type: "generation_stage_changed",
+          threadId,
+          generationStage: stage,
+          previousGenerationStage: previousStage ?? GenerationStage.IDLE,
+          statusMessage: thread.statusMessage,
+        });
+      }
+      if (
+        previousStage &&
+        !isIdleStage(previousStage) &&
+        stage !== GenerationStage.IDLE &&
+        isIdleStage(stage)
+      ) {
+        this.options.onGenerationComplete?.({
+          threadId,
+          generationStage: stage,
+          isBackground: threadId !== this.state.currentThreadId,
+        });
+      }
+    }
+  }
+
+  /**
+   * Start loading the lazy components while the model is choosing one, so
+   * that the one it picks does not have to wait for its code.
+   */
+  private preloadComponents() {
+    for (const component of Object.values(this.options.componentList ?? {})) {
+      component.preload?.().catch((error: unknown) => {
+        // Rendering the component tries again, and shows its error component
+        console.warn(`Failed to preload component ${component.name}: `, error);
+      });
+    }
+  }
+
+  private emitComponentRendered(message: TamboThreadMessage) {
+    if (message.componentError) {
+      this.emit({
+        type: "component_error",
+        threadId: message.threadId,
+        messageId: message.id,
+        error: message.componentError,
+      });
+      return;
+    }
+    if (message.component?.componentName) {
+      this.emit({
+        type: "component_rendered",
+        threadId: message.threadId,
+        messageId: message.id,
+        componentName: message.component.componentName,
+      });
+    }
+  }
+
+  /**
+   * Send a request to the Tambo API in a span of the tracer, passing the
+   * trace headers along with the request.
+   * @param name - The name of the span
+   * @param threadId - The thread the request is for
+   * @param request - Sends the request, with the request options only when
+   * there are trace headers to send
+   * @returns The response
+   */
+  private async traceRequest<T>(
+    name: string,
+    threadId: string,
+    request: (...requestOptions: [] | [TamboAI.RequestOptions]) => Promise<T>,
+  ): Promise<T> {
+    const { tracer } = this.options;
+    if (!tracer) {
+      return await request();
+    }
+    return await tracer.startSpan(
+      name,
+      { "tambo.thread_id": threadId },
+      async () => await request({ headers: tracer.getTraceHeaders() }),
+    );
+  }
+
+  /**
+   * Start a streamed request in a span of the tracer, if there is one. Unlike
+   * `traceRequest`, the span lasts until the stream has been read.
+   * @param name - The name of the span
+   * @param threadId - The thread the request is for
+   * @param request - Starts the stream, with the options that carry the trace
+   *   headers
+   * @returns The stream
+   */
+  private async traceStream<T>(
+    name: string,
+    threadId: string,
+    request: (
+      ...requestOptions: [] | [TamboAI.RequestOptions]
+    ) => Promise<AsyncIterable<T>>,
+  ): Promise<AsyncIterable<T>> {
+    const { tracer } = this.options;
+    if (!tracer) {
+      return await request();
+    }
+    return await new Promise<AsyncIterable<T>>((resolve, reject) => {
+      tracer
+        .startSpan(name, { "tambo.thread_id": threadId }, async () => {
+          const stream = await request({ headers: tracer.getTraceHeaders() });
+          await new Promise<void>((streamRead, streamFailed) => {
+            resolve(readUntilSettled(stream, streamRead, streamFailed));
+          });
+        })
+        // A stream that fails to start rejects here, the errors of a stream
+        // that was read are thrown to its reader
+        .catch(reject);
+    });
+  }
+
+  private emit(event: WithoutTimestamp<TamboEvent>) {
+    try {
+      this.options.onEvent?.({ ...event, timestamp: Date.now() } as TamboEvent);
+    } catch (error) {
+      // A failing event handler must not break the generation
+      console.error("Error in onEvent handler: ", error);
+    }
+  }
+
+  private storeSettledThreads() {
+    const { storage } = this.options;
+    if (!storage) {
+      return;
+    }
+    // Only store settled threads, so a reload never shows a half-finished response
+    for (const thread of Object.values(this.state.threads)) {
+      if (
+        thread.id === PLACEHOLDER_THREAD.id ||
+        this.storedThreads[thread.id] === thread ||
+        !isIdleStage(
+          (thread.generationStage as GenerationStage) ?? GenerationStage.IDLE,
+        )
+      ) {
+        continue;
+      }
+      this.storedThreads[thread.id] = thread;
+      storage.saveThread(toStoredThread(thread)).catch((error) => {
+        console.error("Failed to store thread: ", error);
+      });
+    }
+  }
+
+  private renderMessage(
+    message: TamboAI.Beta.Threads.ThreadMessage,
+    isPartial = false,
+  ): TamboThreadMessage {
+    return message.component?.componentName
+      ? renderComponentIntoMessage(
+          message,
+          this.options.componentList ?? {},
+          isPartial,
+          this.getRenderOptions(message),
+        )
+      : message;
+  }
+
+  /**
+   * @param message - The message to render the component of
+   * @returns The default error component, and the handler of the errors the
+   * component of the message throws
+   */
+  private getRenderOptions(
+    message: TamboAI.Beta.Threads.ThreadMessage,
+  ): ComponentRenderOptions {
+    return {
+      errorComponent: this.options.errorComponent,
+      onRenderError: (error) => this.handleRenderError(message, error),
+    };
+  }
+
+  /**
+   * Attach the error of a component that threw while rendering to its
+   * message, and report it once: as a `component_error` event, and to the
+   * model when `reportComponentErrors` is on and the message is the latest
+   * response of its thread.
+   * @param message - The message of the component
+   * @param error - The error the component threw
+   */
+  private handleRenderError(
+    message: TamboAI.Beta.Threads.ThreadMessage,
+    error: TamboComponentError,
+  ) {
+    const messages = this.state.threads[message.threadId]?.messages ?? [];
+    const currentMessage = messages.find(({ id }) => id === message.id);
+    if (!currentMessage) {
+      return;
+    }
+    if (!currentMessage.componentError) {
+      void this.updateThreadMessage(
+        message.id,
+        { threadId: message.threadId, componentError: error },
+        false,
+      );
+    }
+    if (this.renderErrorMessageIds.has(message.id)) {
+      return;
+    }
+    this.renderErrorMessageIds.add(message.id);
+    this.emit({
+      type: "component_error",
+      threadId: message.threadId,
+      messageId: message.id,
+      error,
+    });
+    if (
+      this.options.reportComponentErrors &&
+      messages[messages.length - 1]?.id === message.id
+    ) {
+      this.pendingRenderErrors.set(message.threadId, {
+        messageId: message.id,
+        error,
+      });
+      void this.sendPendingRenderErrors();
+    }
+  }
+
+  /**
+   * Send the pending render errors of the threads that are not generating to
+   * the model. The errors of threads that are generating are sent once their
+   * generation settles, since the component may throw before it is complete.
+   */
+  private async sendPendingRenderErrors() {
+    for (const [threadId, { messageId, error }] of this.pendingRenderErrors) {
+      if (this.abortControllers.has(threadId)) {
+        continue;
+      }
+      this.pendingRenderErrors.delete(threadId);
+      const messages = this.state.threads[threadId]?.messages ?? [];
+      // The model already responded to the error, or the user moved on
+      if (
+        this.renderErrorResponseIds.has(messageId) ||
+        messages[messages.length - 1]?.id !== messageId
+      ) {
+        continue;
+      }
+      try {
+        await this.sendRenderError(threadId, error);
+      } catch (sendError) {
+        console.error("Failed to report the component error: ", sendError);
+      }
+    }
+  }
+
+  /**
+   * Send the error of a component that threw while rendering to the model,
+   * in a streamed response, so it can respond again.
+   * @param threadId - The thread of the component
+   * @param error - The error the component threw
+   */
+  private async sendRenderError(threadId: string, error: TamboComponentError) {
+    const abortController = new AbortController();
+    this.abortControllers.set(threadId, abortController);
+    try {
+      const params = getComponentErrorParams(
+        { ...this.getAvailableTools(), toolCallCounts: {} },
+        error,
+      );
+      const stream = await this.traceStream(
+        "tambo.advance_stream",
+        threadId,
+        async (...requestOptions) =>
+          await advanceThreadStream(
+            this.options.client,
+            params,
+            threadId,
+            ...requestOptions,
+          ),
+      );
+      const response = await this.handleAdvanceStream(
+        stream,
+        params,
+        threadId,
+        abortController.signal,
+        true,
+      );
+      this.renderErrorResponseIds.add(response.id);
+    } catch (error) {
+      this.updateThreadStatus(threadId, GenerationStage.ERROR);
+      throw error;
+    } finally {
+      if (this.abortControllers.get(threadId) === abortController) {
+        this.abortControllers.delete(threadId);
+      }
+      void this.sendPendingRenderErrors();
+    }
+  }
+
+  /**
+   * @returns The components and the tools that are sent along with each
+   * request, so the model can use them
+   */
+  private getAvailableTools(): Pick<
+    TamboAI.Beta.Threads.ThreadAdvanceParams,
+    "availableComponents" | "clientTools"
+  > {
+    const {
+      componentList = {},
+      toolRegistry = {},
+      componentToolAssociations = {},
+    } = this.options;
+    return {
+      availableComponents: getAvailableComponents(
+        componentList,
+        toolRegistry,
+        componentToolAssociations,
+      ),
+      clientTools: getUnassociatedTools(
+        toolRegistry,
+        componentToolAssociations,
+      ).map((tool) => mapTamboToolToContextTool(tool)),
+    };
+  }
+
+  /**
+   * Render a response the model just generated, which is for the current
+   * version of its component.
+   * @param message - The response
+   * @param isPartial - Whether the response is still streaming in
+   * @returns The rendered response
+   */
+  private renderResponse(
+    message: TamboAI.Beta.Threads.ThreadMessage,
+    isPartial = false,
+  ): TamboThreadMessage {
+    return this.renderMessage(
+      recordComponentVersion(message, this.options.componentList ?? {}),
+      isPartial,
+    );
+  }
+
+  /**
+   * Save the version of its component a response was generated for, so that
+   * its props can be migrated when the thread is fetched later.
+   * @param message - The complete response
+   */
+  private async saveComponentVersion(message: TamboThreadMessage) {
+    const version = message.componentState?.[COMPONENT_VERSION_STATE_KEY];
+    if (version === undefined) {
+      return;
+    }
+    try {
+      await this.options.client.beta.threads.messages.updateComponentState(
+        message.threadId,
+        message.id,
+        { state: { [COMPONENT_VERSION_STATE_KEY]: version } },
+      );
+    } catch (error) {
+      console.warn("Failed to save the component version: ", error);
+    }
+  }
+
+  /**
+   * Get the error of the component of a response, if it should be sent back
+   * to the model so it can try again.
+   * @param message - The rendered response
+   * @returns The error to report, if any
+   */
+  private getComponentErrorToReport(
+    message: TamboThreadMessage | undefined,
+  ): TamboComponentError | undefined {
+    return this.options.reportComponentErrors
+      ? message?.componentError
+      : undefined;
+  }
+
+  private updateThreadStatus(
+    threadId: string,
+    stage: GenerationStage,
+    statusMessage?: string,
+  ) {
+    this.setThreads((prevMap) => ({
+      ...prevMap,
+      [threadId]: {
+        ...prevMap[threadId],
+        // Some stages, like AWAITING_APPROVAL, only exist on the client
+        generationStage: stage as TamboThread["generationStage"],
+        statusMessage: statusMessage,
+      },
+    }));
+  }
+
+  /**
+   * Move a generation that was started without a thread to the thread the
+   * server created for it. The new thread only becomes the current thread if
+   * the user has not switched to another thread in the meantime.
+   * @param placeholderThreadId - The thread the generation was started in
+   * @param createdThreadId - The thread the server created
+   */
+  private async adoptCreatedThread(
+    placeholderThreadId: string,
+    createdThreadId: string,
+  ) {
+    const abortController = this.abortControllers.get(placeholderThreadId);
+    if (abortController) {
+      this.abortControllers.set(createdThreadId, abortController);
+    }
+    if (this.state.currentThreadId === placeholderThreadId) {
+      await this.switchCurrentThread(createdThreadId, false);
+      return;
+    }
+    this.setThreads((prevMap) => {
+      if (prevMap[createdThreadId]) {
+        return prevMap;
+      }
+      return {
+        ...prevMap,
+        [createdThreadId]: {
+          ...prevMap[placeholderThreadId],
+          id: createdThreadId,
+        },
+      };
+    });
+  }
+
+  /**
+   * Runs a batch of tool call requests concurrently, and records the tool
+   * responses in the thread. An advance call appends a single message, so all
+   * but the last response are sent to the server at the same time, and the
+   * last one is appended by the advance call that continues the generation.
+   * @param toolCallMessages - The tool call requests of a response
+   * @param params - The params of the request the response answered
+   * @param signal - Aborted when the generation is cancelled
+   * @returns The thread to advance, and the params that append the last response
+   */
+  private async runToolCallBatch(
+    toolCallMessages: TamboAI.Beta.Threads.ThreadMessage[],
+    params: TamboAI.Beta.Threads.ThreadAdvanceParams,
+    signal: AbortSignal,
+  ): Promise<{
+    threadId: string;
+    params: TamboAI.Beta.Threads.ThreadAdvanceParams;
+  }> {
+    const {
+      client,
+      toolRegistry = {},
+      requestToolApproval,
+      maxConcurrentToolCalls = DEFAULT_MAX_CONCURRENT_TOOL_CALLS,
+      tracer,
+    } = this.options;
+    // Ask the user about every tool call that needs approval before any of
+    // the tools run
+    const decisions = await Promise.all(
+      toolCallMessages.map(async (message) => {
+        if (!(await toolCallRequiresApproval(message, toolRegistry))) {
+          return { approved: true, awaitedUser: false };
+        }
+        if (!requestToolApproval) {
+          console.warn(
+            `Tool ${message.toolCallRequest?.toolName} requires approval, but there is no TamboToolApprovalProvider`,
+          );
+          return {
+            approved: false,
+            reason: "approval is not available",
+            awaitedUser: false,
+          };
+        }
+        this.updateThreadStatus(
+          message.threadId,
+          GenerationStage.AWAITING_APPROVAL,
+        );
+        const decision = await requestToolApproval(message, signal);
+        return { ...decision, awaitedUser: true };
+      }),
+    );
+    const approvedMessages = toolCallMessages.filter(
+      (_, index) => decisions[index].approved,
+    );
+    if (decisions.some((decision) => decision.awaitedUser)) {
+      this.updateThreadStatus(
+        toolCallMessages[0].threadId,
+        GenerationStage.FETCHING_CONTEXT,
+      );
+    }
+
+    for (const message of approvedMessages) {
+      void this.updateThreadMessage(
+        message.id,
+        { threadId: message.threadId, toolCallStatus: { state: "running" } },
+        false,
+      );
+    }
+    const approvedResponses = await handleToolCalls(
+      approvedMessages,
+      toolRegistry,
+      maxConcurrentToolCalls,
+      signal,
+      (message, progress) => {
+        void this.updateThreadMessage(
+          message.id,
+          {
+            threadId: message.threadId,
+            toolCallStatus: {
+              state: "running",
+              progressMessage: progress.message,
+              progress: progress.fraction,
+            },
+          },
+          false,
+        );
+        this.updateThreadStatus(
+          message.threadId,
+          GenerationStage.FETCHING_CONTEXT,
+          progress.message,
+        );
+      },
+      {
+        onStart: (message) => {
+          this.emit({
+            type: "tool_call_started",
+            threadId: message.threadId,
+            messageId: message.id,
+            toolName: message.toolCallRequest?.toolName ?? "",
+            parameters: message.toolCallRequest?.parameters ?? [],
+          });
+        },
+        onFinish: (message, result, durationMs) => {
+          this.emit({
+            type: "tool_call_finished",
+            threadId: message.threadId,
+            messageId: message.id,
+            toolName: message.toolCallRequest?.toolName ?? "",
+            durationMs,
+            error: result.error,
+          });
+        },
+      },
+      tracer,
+    );
+    let approvedIndex = 0;
+    const toolCallResponses = toolCallMessages.map((message, index) =>
+      decisions[index].approved
+        ? approvedResponses[approvedIndex++]
+        : getDeniedToolCallResult(
+            message.toolCallRequest?.toolName ?? "",
+            decisions[index].reason,
+          ),
+    );
+
+    const responseMessages = toolCallMessages.map(
+      (
+        toolCallMessage,
+        index,
+      ): TamboAI.Beta.Threads.ThreadAdvanceParams["messageToAppend"] => {
+        const toolCallResponse = toolCallResponses[index];
+        return {
+          content: toolCallResponse.content ?? [
+            {
+              type: "text",
+              text:
+                typeof toolCallResponse.result === "string"
+                  ? toolCallResponse.result
+                  : JSON.stringify(toolCallResponse.result),
+            },
+          ],
+          role: "tool",
+          actionType: "tool_response",
+          component: toolCallMessage.component,
+          tool_call_id: toolCallMessage.tool_call_id,
+          error: toolCallResponse.error,
+        };
+      },
+    );
+
+    for (const [index, toolCallMessage] of toolCallMessages.entries()) {
+      const toolCallResponse = toolCallResponses[index];
+      void this.updateThreadMessage(
+        toolCallMessage.id,
+        {
+          threadId: toolCallMessage.threadId,
+          toolCallStatus: {
+            state: toolCallResponse.error ? "error" : "complete",
+          },
+          ...(toolCallResponse.error && { error: toolCallResponse.error }),
+        },
+        false,
+      );
+      void this.addThreadMessage(
+        {
+          threadId: toolCallMessage.threadId,
+          content: responseMessages[index].content,
+          role: "tool",
+          id: crypto.randomUUID(),
+          createdAt: new Date().toISOString(),
+          componentState: {},
+          actionType: "tool_response",
+          tool_call_id: toolCallMessage.tool_call_id,
+          error: toolCallResponse.error,
+        },
+        false,
+      );
+    }
+
+    const threadId = toolCallMessages[toolCallMessages.length - 1].threadId;
+    await Promise.all(
+      responseMessages
+        .slice(0, -1)
+        .map(
+          async (responseMessage) =>
+            await client.beta.threads.messages.create(
+              threadId,
+              responseMessage,
+            ),
+        ),
+    );
+    return {
+      threadId,
+      params: {
+        ...params,
+        messageToAppend: responseMessages[responseMessages.length - 1],
+      },
+    };
+  }
+
+  private async handleAdvanceStream(
+    stream: AsyncIterable<TamboAI.Beta.Threads.ThreadAdvanceResponse>,
+    params: TamboAI.Beta.Threads.ThreadAdvanceParams,
+    threadId: string,
+    signal: AbortSignal,
+    hasReportedComponentError = false,
+  ): Promise<TamboThreadMessage> {
+    if (signal.aborted) {
+      await closeStream(stream);
+      return createEmptyMessage(threadId);
+    }
+    let finalMessage: Readonly<TamboThreadMessage> | undefined;
+    let hasSetThreadId = false;
+    // Tool call requests received in this response, keyed by message id, so
+    // that they can all be run as a single batch once the stream ends
+    const toolCallMessages = new Map<
+      string,
+      TamboAI.Beta.Threads.ThreadMessage
+    >();
+    this.updateThreadStatus(threadId, GenerationStage.STREAMING_RESPONSE);
+
+    for await (const chunk of stream) {
+      if (chunk.generationStage === GenerationStage.CHOOSING_COMPONENT) {
+        this.preloadComponents();
+      }
+      if (!signal.aborted) {
+        this.emit({
+          type: "stream_chunk",
+          threadId: chunk.responseMessageDto.threadId,
+          message: chunk.responseMessageDto,
+        });
+      }
+      if (
+        !signal.aborted &&
+        !hasSetThreadId &&
+        chunk.responseMessageDto.threadId &&
+        chunk.responseMessageDto.threadId !== threadId
+      ) {
+        // The thread was created by this generation, which may start with a
+        // tool call
+        hasSetThreadId = true;
+        await this.adoptCreatedThread(
+          threadId,
+          chunk.responseMessageDto.threadId,
+        );
+      }
+      if (chunk.responseMessageDto.toolCallRequest) {
+        // Increment tool call count for this tool
+        const toolName = chunk.responseMessageDto.toolCallRequest.toolName;
+        if (
+          toolName &&
+          params.toolCallCounts &&
+          !toolCallMessages.has(chunk.responseMessageDto.id)
+        ) {
+          params.toolCallCounts[toolName] =
+            (params.toolCallCounts[toolName] ?? 0) + 1;
+        }
+        toolCallMessages.set(
+          chunk.responseMessageDto.id,
+          chunk.responseMessageDto,
+        );
+
+        this.updateThreadStatus(
+          chunk.responseMessageDto.threadId,
+          GenerationStage.FETCHING_CONTEXT,
+        );
+
+        void this.updateThreadMessage(
+          chunk.responseMessageDto.id,
+          {
+            ...chunk.responseMessageDto,
+          },
+          false,
+        );
+      } else {
+        if (signal.aborted) {
+          return finalMessage ?? createEmptyMessage(threadId);
+        }
+        // if we start getting a new message mid-stream, put the previous one on screen
+        const isNewMessage =
+          !finalMessage || chunk.responseMessageDto.id !== finalMessage.id;
+        finalMessage = this.renderResponse(chunk.responseMessageDto, true);
+        if (isNewMessage) {
+          await this.addThreadMessage(finalMessage, false);
+        } else {
+          await this.updateThreadMessage(finalMessage.id, finalMessage, false);
+        }
+      }
+    }
+
+    if (toolCallMessages.size > 0) {
+      const toolCallResponse = await this.runToolCallBatch(
+        [...toolCallMessages.values()],
+        params,
+        signal,
+      );
+      if (signal.aborted) {
+        return createEmptyMessage(threadId);
+      }
+
+      this.updateThreadStatus(
+        toolCallResponse.threadId,
+        GenerationStage.STREAMING_RESPONSE,
+      );
+      const toolCallResponseStream = await this.traceStream(
+        "tambo.advance_stream",
+        toolCallResponse.threadId,
+        async (...requestOptions) =>
+          await advanceThreadStream(
+            this.options.client,
+            toolCallResponse.params,
+            toolCallResponse.threadId,
+            ...requestOptions,
+          ),
+      );
+
+      return await this.handleAdvanceStream(
+        toolCallResponseStream,
+        toolCallResponse.params,
+        toolCallResponse.threadId,
+        signal,
+        hasReportedComponentError,
+      );
+    }
+
+    if (finalMessage?.component?.componentName) {
+      // The props are complete, so they can be validated now
+      finalMessage = this.renderMessage(finalMessage);
+      await this.updateThreadMessage(finalMessage.id, finalMessage, false);
+      await this.saveComponentVersion(finalMessage);
+    }
+    if (finalMessage) {
+      this.emitComponentRendered(finalMessage);
+    }
+    const componentError = hasReportedComponentError
+      ? undefined
+      : this.getComponentErrorToReport(finalMessage);
+    if (finalMessage && componentError) {
+      const componentErrorParams = getComponentErrorParams(
+        params,
+        componentError,
+      );
+      const retryThreadId = finalMessage.threadId;
+      const retryStream = await this.traceStream(
+        "tambo.advance_stream",
+        retryThreadId,
+        async (...requestOptions) =>
+          await advanceThreadStream(
+            this.options.client,
+            componentErrorParams,
+            retryThreadId,
+            ...requestOptions,
+          ),
+      );
+      return await this.handleAdvanceStream(
+        retryStream,
+        componentErrorParams,
+        retryThreadId,
+        signal,
+        true,
+      );
+    }
+    this.updateThreadStatus(
+      finalMessage?.threadId ?? threadId,
+      GenerationStage.COMPLETE,
+    );
+    return (
+      finalMessage ?? {
+        threadId: "",
+        content: [{ type: "text", text: `Error processing stream` }],
+        role: "assistant",
+        createdAt: new Date().toISOString(),
+        id: crypto.randomUUID(),
+        componentState: {},
+      }
+    );
+  }
+
+  private async advanceThread(
+    message: Pick<TamboThreadMessage, "content" | "metadata">,
+    options: TamboSendThreadMessageOptions,
+    userMessageId: string,
+  ): Promise<TamboThreadMessage> {
+    const threadId = options.threadId ?? this.state.currentThreadId;
+    const abortController = new AbortController();
+    this.abortControllers.set(threadId, abortController);
+    try {
+      return await this.runGeneration(
+        message,
+        { ...options, threadId },
+        userMessageId,
+        abortController,
+      );
+    } finally {
+      // Forget the generation once it settles, unless a newer generation
+      // has replaced it in its thread
+      for (const [id, controller] of this.abortControllers) {
+        if (controller === abortController) {
+          this.abortControllers.delete(id);
+        }
+      }
+      void this.sendPendingRenderErrors();
+    }
+  }
+
+  private async runGeneration(
+    message: Pick<TamboThreadMessage, "content" | "metadata">,
+    options: TamboSendThreadMessageOptions,
+    userMessageId: string,
+    abortController: AbortController,
+  ): Promise<TamboThreadMessage> {
+    const { client, getAdditionalContext } = this.options;
+    const {
+      threadId = this.state.currentThreadId,
+      streamResponse = this.options.streaming ?? true,
+      forceToolChoice,
+      contextKey,
+      additionalContext,
+    } = options;
+    this.updateThreadStatus(threadId, GenerationStage.FETCHING_CONTEXT);
+
+    // Get additional context from enabled helpers
+    const helperContexts = (await getAdditionalContext?.()) ?? [];
+
+    // Combine all contexts
+    const combinedContext: Record<string, any> = {
+      ...(additionalContext ?? {}),
+    };
+
+    // Add helper contexts to combinedContext
+    for (const helperContext of helperContexts) {
+      combinedContext[helperContext.name] = helperContext.context;
+    }
+
+    const userMessage: TamboThreadMessage = {
+      content: message.content,
+      metadata: message.metadata,
+      renderedComponent: null,
+      role: "user",
+      threadId: threadId,
+      id: userMessageId,
+      createdAt: new Date().toISOString(),
+      componentState: {},
+      additionalContext: combinedContext,
+    };
+    void this.addThreadMessage(userMessage, false);
+
+    // Track tool call counts for this message processing
+    const toolCallCounts: Record<string, number> = {};
+
+    const params: TamboAI.Beta.Threads.ThreadAdvanceParams = {
+      messageToAppend: {
+        content: message.content,
+        role: "user",
+        additionalContext: combinedContext,
+        metadata: message.metadata,
+      },
+      contextKey,
+      ...this.getAvailableTools(),
+      forceToolChoice: forceToolChoice,
+      toolCallCounts,
+    };
+    this.emit({ type: "message_sent", threadId, message: userMessage });
+
+    if (streamResponse) {
+      let advanceStreamResponse: AsyncIterable<TamboAI.Beta.Threads.ThreadAdvanceResponse>;
+      try {
+        advanceStreamResponse = await this.traceStream(
+          "tambo.advance_stream",
+          threadId,
+          async (...requestOptions) =>
+            await advanceThreadStream(
+              client,
+              params,
+              threadId === PLACEHOLDER_THREAD.id ? undefined : threadId,
+              ...requestOptions,
+            ),
+        );
+      } catch (error) {
+        this.updateThreadStatus(threadId, GenerationStage.ERROR);
+        throw error;
+      }
+      try {
+        return await this.handleAdvanceStream(
+          advanceStreamResponse,
+          params,
+          threadId,
+          abortController.signal,
+        );
+      } catch (error) {
+        this.updateThreadStatus(threadId, GenerationStage.ERROR);
+        throw error;
+      }
+    }
+
+    let advanceResponse: TamboAI.Beta.Threads.ThreadAdvanceResponse;
+    try {
+      advanceResponse = await this.traceRequest(
+        "tambo.advance",
+        threadId,
+        async (...requestOptions) =>
+          await (threadId === PLACEHOLDER_THREAD.id
+            ? client.beta.threads.advance(params, ...requestOptions)
+            : client.beta.threads.advanceById(
+                threadId,
+                params,
+                ...requestOptions,
+              )),
+      );
+    } catch (error) {
+      this.updateThreadStatus(threadId, GenerationStage.ERROR);
+      throw error;
+    }
+
+    //handle tool calls, and the errors of components to report
+    let hasReportedComponentError = false;
+    try {
+      for (;;) {
+        if (!advanceResponse.responseMessageDto.toolCallRequest) {
+          const responseMessage = this.renderResponse(
+            advanceResponse.responseMessageDto,
+          );
+          const componentError = hasReportedComponentError
+            ? undefined
+            : this.getComponentErrorToReport(responseMessage);
+          if (!componentError) {
+            break;
+          }
+          this.emitComponentRendered(responseMessage);
+          hasReportedComponentError = true;
+          const componentErrorParams = getComponentErrorParams(
+            params,
+            componentError,
+          );
+          advanceResponse = await this.traceRequest(
+            "tambo.advance",
+            responseMessage.threadId,
+            async (...requestOptions) =>
+              await client.beta.threads.advanceById(
+                responseMessage.threadId,
+                componentErrorParams,
+                ...requestOptions,
+              ),
+          );
+          continue;
+        }
+
+        // Increment tool call count for this tool
+        const toolName =
+          advanceResponse.responseMessageDto.toolCallRequest.toolName;
+        if (toolName) {
+          toolCallCounts[toolName] = (toolCallCounts[toolName] || 0) + 1;
+        }
+
+        this.updateThreadStatus(threadId, GenerationStage.FETCHING_CONTEXT);
+        // Show the tool call locally so its progress can be displayed
+        await this.addThreadMessage(advanceResponse.responseMessageDto, false);
+        // A response without streaming carries a single tool call, which is
+        // run as a batch of one
+        const toolCallResponse = await this.runToolCallBatch(
+          [advanceResponse.responseMessageDto],
+          params,
+          abortController.signal,
+        );
+        if (abortController.signal.aborted) {
+          return createEmptyMessage(threadId);
+        }
+        this.updateThreadStatus(threadId, GenerationStage.HYDRATING_COMPONENT);
+
+        advanceResponse = await this.traceRequest(
+          "tambo.advance",
+          toolCallResponse.threadId,
+          async (...requestOptions) =>
+            await client.beta.threads.advanceById(
+              toolCallResponse.threadId,
+              toolCallResponse.params,
+              ...requestOptions,
+            ),
+        );
+      }
+    } catch (error) {
+      this.updateThreadStatus(
+        advanceResponse.responseMessageDto.threadId,
+        GenerationStage.ERROR,
+      );
+      throw error;
+    }
+
+    const finalMessage = this.renderResponse(
+      advanceResponse.responseMessageDto,
+    );
+    await this.saveComponentVersion(finalMessage);
+    this.emitComponentRendered(finalMessage);
+    if (advanceResponse.responseMessageDto.threadId === threadId) {
+      await this.fetchThread(threadId);
+    } else {
+      await this.adoptCreatedThread(
+        threadId,
+        advanceResponse.responseMessageDto.threadId,
+      );
+      await this.fetchThread(advanceResponse.responseMessageDto.threadId);
+    }
+    this.updateThreadStatus(
+      advanceResponse.responseMessageDto.threadId,
+      GenerationStage.COMPLETE,
+    );
+    return finalMessage;
+  }
+
+  private async replayQueuedMessages() {
+    if (this.isReplaying) {
+      return;
+    }
+    this.isReplaying = true;
+    try {
+      // Send the queued messages one at a time, in the order they were queued
+      while (this.queuedMessages.length > 0 && !isOffline()) {
+        const [queued] = this.queuedMessages;
+        let response: TamboThreadMessage;
+        try {
+          response = await this.advanceThread(
+            {
+              content: getMessageContent(
+                queued.message,
+                queued.options.attachments,
+              ),
+              metadata: getAttachmentMetadata(
+                queued.message,
+                queued.options.attachments,
+              ),
+            },
+            queued.options,
+            queued.id,
+          );
+        } catch (error) {
+          if (isNetworkError(error)) {
+            // Keep the message queued, and try again on the next `online` event
+            console.warn("Failed to send queued message, will retry: ", error);
+            return;
+          }
+          // The server rejected the message, so sending it again cannot help
+          await this.removeQueuedMessage(queued.id);
+          const pendingCall = this.queuedMessageCalls.get(queued.id);
+          this.queuedMessageCalls.delete(queued.id);
+          if (pendingCall) {
+            pendingCall.reject(error);
+          } else {
+            console.error("Failed to send queued message: ", error);
+          }
+          continue;
+        }
+        await this.removeQueuedMessage(queued.id);
+        this.queuedMessageCalls.get(queued.id)?.resolve(response);
+        this.queuedMessageCalls.delete(queued.id);
+      }
+    } finally {
+      this.isReplaying = false;
+    }
+  }
+
+  private async removeQueuedMessage(id: string) {
+    this.queuedMessages = this.queuedMessages.filter(
+      (message) => message.id !== id,
+    );
+    await this.options.storage?.setQueuedMessages(this.queuedMessages);
+  }
+
+  private getMessageIndex(messageId: string): number {
+    const { currentThreadId } = this.state;
+    const messageIndex =
+      this.thread?.messages.findIndex((message) => message.id === messageId) ??
+      -1;
+    if (messageIndex === -1) {
+      throw new Error(
+        `Message ${messageId} not found in thread ${currentThreadId}`,
+      );
+    }
+    return messageIndex;
+  }
+
+  private async forkThread(messageIndex: number): Promise<string> {
+    const { client } = this.options;
+    const { threads, currentThreadId } = this.state;
+    if (currentThreadId === PLACEHOLDER_THREAD.id) {
+      throw new Error("Cannot fork a thread that has not been created yet");
+    }
+    const sourceThread = threads[currentThreadId];
+    // Forks of forks made at the same message are recorded as forks of the
+    // original thread, so all of them are siblings
+    const branch: TamboThreadBranch = {
+      sourceThreadId: getBranchRootThreadId(
+        threads,
+        currentThreadId,
+        messageIndex,
+      ),
+      messageIndex,
+    };
+    const currentProject = await client.beta.projects.getCurrent();
+    const fork = await client.beta.threads.create({
+      projectId: currentProject.id,
+      name: sourceThread.name,
+      metadata: {
+        ...sourceThread.metadata,
+        [THREAD_BRANCH_METADATA_KEY]: branch,
+        // The forks of the source thread are not forks of the fork
+        [THREAD_FORKS_METADATA_KEY]: undefined,
+      },
+    });
+
+    // Copy the messages before the fork point, in order. The API creates one
+    // message per request, and creating them at the same time could change
+    // their order. A fork that is missing messages is deleted.
+    const sourceMessages = sourceThread.messages.slice(0, messageIndex);
+    let copiedThread: TamboAI.Beta.ThreadRetrieveResponse;
+    try {
+      for (const message of sourceMessages) {
+        await client.beta.threads.messages.create(fork.id, {
+          content: message.content,
+          role: message.role,
+          actionType: message.actionType,
+          additionalContext: message.additionalContext,
+          component: message.component,
+          componentState: message.componentState,
+          error: message.error,
+          isCancelled: message.isCancelled,
+          metadata: message.metadata,
+          tool_call_id: message.tool_call_id,
+          toolCallRequest: message.toolCallRequest,
+        });
+      }
+      copiedThread = await client.beta.threads.retrieve(fork.id, {
+        includeInternal: true,
+      });
+    } catch (error) {
+      try {
+        await client.beta.threads.delete(fork.id);
+      } catch (deleteError) {
+        console.warn("Failed to delete the incomplete fork: ", deleteError);
+      }
+      throw error;
+    }
+    await this.recordFork(branch, fork.id, currentProject.id);
+
+    // Keep the rendered components of the copied messages
+    const messages: TamboThreadMessage[] = copiedThread.messages.map(
+      (message, index) => ({ ...sourceMessages[index], ...message }),
+    );
+    this.setThreads((prevMap) => ({
+      ...prevMap,
+      [fork.id]: { ...fork, messages },
+    }));
+    await this.switchCurrentThread(fork.id, false);
+    return fork.id;
+  }
+
+  /**
+   * Record a fork in the metadata of the thread it was made from, so that the
+   * sibling branches are found after a reload. A fork that fails to be
+   * recorded is still listed while it is loaded.
+   * @param branch - Where the fork was made
+   * @param forkThreadId - The fork
+   * @param projectId - The project of the threads
+   */
+  private async recordFork(
+    branch: TamboThreadBranch,
+    forkThreadId: string,
+    projectId: string,
+  ) {
+    const { sourceThreadId } = branch;
+    // Each update reads the metadata the previous one wrote
+    const record = (this.forkRecords.get(sourceThreadId) ?? Promise.resolve())
+      .then(async () => {
+        await this.updateRecordedForks(branch, forkThreadId, projectId);
+      })
+      .catch((error: unknown) => {
+        console.warn("Failed to record the fork of the thread: ", error);
+      });
+    this.forkRecords.set(sourceThreadId, record);
+    await record;
+    if (this.forkRecords.get(sourceThreadId) === record) {
+      this.forkRecords.delete(sourceThreadId);
+    }
+  }
+
+  private async updateRecordedForks(
+    { sourceThreadId, messageIndex }: TamboThreadBranch,
+    forkThreadId: string,
+    projectId: string,
+  ) {
+    const sourceThread =
+      this.state.threads[sourceThreadId] ??
+      (await this.options.client.beta.threads.retrieve(sourceThreadId));
+    const forks = getRecordedForks(sourceThread);
+    const metadata = {
+      ...sourceThread.metadata,
+      [THREAD_FORKS_METADATA_KEY]: {
+        ...forks,
+        [messageIndex]: [...(forks[messageIndex] ?? []), forkThreadId],
+      },
+    };
+    await this.options.client.beta.threads.update(sourceThreadId, {
+      projectId,
+      metadata,
+    });
+    this.setThreads((prevMap) =>
+      prevMap[sourceThreadId]
+        ? {
+            ...prevMap,
+            [sourceThreadId]: { ...prevMap[sourceThreadId], metadata },
+          }
+        : prevMap,
+    );
+  }
+
+  /**
+   * Load the thread a fork was made from, if it is not loaded yet, so that
+   * the sibling branches of its messages can be found. The sources of the
+   * source are loaded in turn.
+   * @param threadId - The thread that may be a fork
+   */
+  private async fetchBranchSource(threadId: string) {
+    const branch = getThreadBranch(this.state.threads[threadId]);
+    if (!branch || this.state.threads[branch.sourceThreadId]) {
+      return;
+    }
+    try {
+      await this.fetchThread(branch.sourceThreadId);
+    } catch (error) {
+      console.warn("Failed to load the source of the thread branch: ", error);
+    }
+  }
+}
+
+// The response of a generation that was cancelled
+const createEmptyMessage = (threadId: string): TamboThreadMessage => ({
+  threadId: threadId,
+  content: [{ type: "text", text: "" }],
+  role: "assistant",
+  createdAt: new Date().toISOString(),
+  id: crypto.randomUUID(),
+  componentState: {},
+});
+
+const isOffline = () =>
+  typeof navigator !== "undefined" && navigator.onLine === false;
+
+/**
+ * Whether a request failed because the server could not be reached, rather
+ * than because the server rejected it
+ * @param error - The error the request failed with
+ * @returns True if sending the request again later may succeed
+ */
+const isNetworkError = (error: unknown) =>
+  isOffline() || error instanceof APIConnectionError;
+
+/**
+ * Strip the parts of a thread that cannot be stored, like rendered components.
+ * @param thread - The thread to store
+ * @returns The thread without client-only state
+ */
+const toStoredThread = (thread: TamboThread): TamboThread => ({
+  ...thread,
+  messages: thread.messages.map(
+    ({
+      renderedComponent: _renderedComponent,
+      toolCallStatus: _toolCallStatus,
+      ...message
+    }) => message,
+  ),
+});
+
+/**
+ * Build the message that is sent back to the model when the component it
+ * picked could not be rendered, listing each problem so the model can fix it.
+ * @param params - The params of the request the response answered
+ * @param error - Why the component could not be rendered
+ * @returns The params to send the error with
+ */
+const getComponentErrorParams = (
+  params: Omit<TamboAI.Beta.Threads.ThreadAdvanceParams, "messageToAppend">,
+  error: TamboComponentError,
+): TamboAI.Beta.Threads.ThreadAdvanceParams => ({
+  ...params,
+  messageToAppend: {
+    role: "system",
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify({
+          error: error.reason,
+          componentName: error.componentName,
+          message: error.message,
+          issues: error.issues,
+          instructions:
+            "The component was not rendered. Respond again with a registered component and props that match its schema.",
+        }),
+      },
+    ],
+  },
+});
+
+/**
+ * Render the components of a stored thread again from each message's
+ * component name and props.
+ * @param thread - The stored thread
+ * @param componentList - The registered components
+ * @param getRenderOptions - The render options of each message
+ * @returns The thread with its components rendered
+ */
+const renderStoredThread = (
+  thread: TamboThread,
+  componentList: ComponentRegistry,
+  getRenderOptions: (message: TamboThreadMessage) => ComponentRenderOptions,
+): TamboThread => ({
+  ...thread,
+  messages: thread.messages.map((message) => {
+    if (!message.component?.componentName) {
+      return message;
+    }
+    try {
+      return renderComponentIntoMessage(
+        message,
+        componentList,
+        false,
+        getRenderOptions(message),
+      );
+    } catch (error) {
+      console.warn("Failed to render stored component: ", error);
+      return message;
+    }
+  }),
+});
+
+/**
+ * Pass on the values of a stream, and report when it has been read to its
+ * end, fails, or its reader stops early. Unlike a generator, stopping before
+ * the first value is read reports it as well.
+ * @param stream - The stream
+ * @param onRead - Called when the stream ends or the reader stops
+ * @param onError - Called with the error of the stream
+ * @returns The stream that reports when it settles
+ */
+function readUntilSettled<T>(
+  stream: AsyncIterable<T>,
+  onRead: () => void,
+  onError: (error: unknown) => void,
+): AsyncIterable<T> {
+  return {
+    [Symbol.asyncIterator]: () => {
+      const iterator = stream[Symbol.asyncIterator]();
+      return {
+        next: async () => {
+          let result: IteratorResult<T>;
+          try {
+            result = await iterator.next();
+          } catch (error) {
+            onError(error);
+            throw error;
+          }
+          if (result.done) {
+            onRead();
+          }
+          return result;
+        },
+        return: async (value?: unknown) => {
+          try {
+            return (
+              (await iterator.return?.(value)) ?? {
+                done: true,
+                value: undefined,
+              }
+            );
+          } finally {
+            onRead();
+          }
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Stop reading a stream that is dropped before it is read, so that it can
+ * release what it holds, like the span of its request.
+ * @param stream - The stream
+ */
+const closeStream = async (stream: AsyncIterable<unknown>) => {
+  await stream[Symbol.asyncIterator]().return?.();
+};
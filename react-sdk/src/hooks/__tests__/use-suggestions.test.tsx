@@ -100,6 +100,10 @@ describe("useTamboSuggestions", () => {
     cancel: jest.fn(),
     streaming: false,
     sendThreadMessage: jest.fn(),
+    editMessage: jest.fn(),
+    regenerate: jest.fn(),
+    getMessageBranches: jest.fn(),
+    switchBranch: jest.fn(),
     generationStage: GenerationStage.IDLE,
     generationStatusMessage: "",
     isIdle: true,
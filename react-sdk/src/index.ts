@@ -23,7 +23,9 @@ export {
   TamboStubProvider,
   TamboThreadInputProvider,
   TamboThreadProvider,
+  TamboToolApprovalProvider,
   useIsTamboTokenUpdating,
+  usePendingToolApprovals,
   useTambo,
   useTamboClient,
   useTamboContextHelpers,
@@ -31,12 +33,17 @@ export {
   useTamboStream,
   useTamboThread,
   useTamboThreadInput,
+  useTamboThreadStatus,
   type TamboComponent,
   type TamboContextHelpersContextProps,
   type TamboContextHelpersProviderProps,
+  type TamboGenerationCompleteEvent,
   type TamboRegistryContext,
   type TamboStubProviderProps,
+  type PendingToolApproval,
+  type TamboInputAttachment,
   type TamboThreadInputContextProps,
+  type ToolApprovalDecision,
 } from "./providers";
 
 // Re-export types from Tambo Node SDK
@@ -52,18 +59,51 @@ export type {
   SuggestionListResponse,
 } from "@tambo-ai/typescript-sdk/resources/beta/threads/suggestions";
 export { useTamboThreadList } from "./hooks/use-tambo-threads";
+export type {
+  ComponentPropIssue,
+  TamboComponentError,
+  TamboComponentErrorProps,
+} from "./model/component-error";
 export {
   type ComponentContextToolMetadata,
   type ComponentRegistry,
   type ParameterSpec,
   type RegisteredComponent,
+  type TamboAnyTool,
+  type TamboComponentLoader,
+  type TamboComponentMigrations,
+  type TamboObjectTool,
   type TamboTool,
+  type TamboToolCallContext,
+  type TamboToolProgress,
+  type TamboToolRetryPolicy,
 } from "./model/component-metadata";
 export {
   GenerationStage,
   type TamboThreadMessage,
+  type TamboToolCallStatus,
 } from "./model/generate-component-response";
+export type {
+  TamboComponentErrorEvent,
+  TamboComponentRenderedEvent,
+  TamboEvent,
+  TamboGenerationStageChangedEvent,
+  TamboMessageSentEvent,
+  TamboStreamChunkEvent,
+  TamboTokenRefreshedEvent,
+  TamboToolCallFinishedEvent,
+  TamboToolCallStartedEvent,
+} from "./model/tambo-event";
+export type {
+  TamboSpan,
+  TamboSpanAttributes,
+  TamboTracer,
+} from "./model/tambo-tracer";
 export { type TamboThread } from "./model/tambo-thread";
+export type {
+  TamboMessageBranches,
+  TamboThreadBranch,
+} from "./util/thread-branches";
 
 export type {
   TamboInteractableComponent as InteractableComponent,
@@ -89,3 +129,39 @@ export type {
   ContextHelperFn,
   ContextHelpers,
 } from "./context-helpers";
+
+// Thread controller exports, to run threads without React
+export {
+  TamboThreadController,
+  type TamboSendThreadMessageOptions,
+  type TamboThreadControllerOptions,
+  type TamboThreadControllerState,
+} from "./controller/tambo-thread-controller";
+
+// Thread storage exports
+export {
+  createBrowserThreadStorage,
+  createMemoryThreadStorage,
+  type BrowserThreadStorageOptions,
+  type QueuedThreadMessage,
+  type ThreadStorageAdapter,
+} from "./storage";
+
+// Attachment exports
+export {
+  AttachmentError,
+  DEFAULT_ATTACHMENT_TYPES,
+  DEFAULT_MAX_ATTACHMENT_SIZE,
+  type TamboAttachment,
+  type TamboAttachmentMetadata,
+  type TamboAttachmentOptions,
+  type TamboAttachmentUploader,
+} from "./model/tambo-attachment";
+export {
+  formatFileSize,
+  getContentWithoutAttachments,
+  getMessageAttachments,
+  isAttachmentContentPart,
+  readAttachment,
+  validateAttachment,
+} from "./util/attachments";
@@ -0,0 +1,152 @@
+import {
+  handleMcpOAuthCallback,
+  McpOAuthClientProvider,
+  McpTokenStore,
+  openMcpAuthorizationPopup,
+} from "../mcp-auth";
+
+describe("McpOAuthClientProvider", () => {
+  const createTokenStore = (): McpTokenStore & {
+    items: Map<string, string>;
+  } => {
+    const items = new Map<string, string>();
+    return {
+      items,
+      getItem: (key) => items.get(key) ?? null,
+      setItem: (key, value) => items.set(key, value),
+      removeItem: (key) => items.delete(key),
+    };
+  };
+
+  it("should keep tokens per server in the token store", () => {
+    const tokenStore = createTokenStore();
+    const provider = new McpOAuthClientProvider("https://mcp.example.com", {
+      redirectUrl: "/mcp/oauth/callback",
+      tokenStore,
+    });
+    const otherProvider = new McpOAuthClientProvider(
+      "https://other.example.com",
+      { redirectUrl: "/mcp/oauth/callback", tokenStore },
+    );
+
+    provider.saveTokens({ access_token: "abc", token_type: "Bearer" });
+
+    expect(provider.tokens()).toEqual({
+      access_token: "abc",
+      token_type: "Bearer",
+    });
+    expect(otherProvider.tokens()).toBeUndefined();
+
+    provider.invalidateCredentials("tokens");
+    expect(provider.tokens()).toBeUndefined();
+    expect(tokenStore.items.size).toBe(0);
+  });
+
+  it("should keep tokens in sessionStorage by default", () => {
+    const provider = new McpOAuthClientProvider("https://mcp.example.com", {
+      redirectUrl: "/mcp/oauth/callback",
+    });
+
+    provider.saveTokens({ access_token: "abc", token_type: "Bearer" });
+
+    expect(sessionStorage.length).toBe(1);
+    expect(localStorage.length).toBe(0);
+    provider.invalidateCredentials("all");
+    expect(sessionStorage.length).toBe(0);
+  });
+
+  it("should register with the redirect URL resolved against the page", () => {
+    const provider = new McpOAuthClientProvider("https://mcp.example.com", {
+      redirectUrl: "/mcp/oauth/callback",
+      scope: "read",
+      tokenStore: createTokenStore(),
+    });
+
+    expect(provider.clientMetadata).toEqual(
+      expect.objectContaining({
+        redirect_uris: [`${window.location.origin}/mcp/oauth/callback`],
+        scope: "read",
+        token_endpoint_auth_method: "none",
+      }),
+    );
+  });
+
+  it("should register with an absolute redirect URL as it is", () => {
+    const provider = new McpOAuthClientProvider("https://mcp.example.com", {
+      redirectUrl: "https://app.example.com/mcp/oauth/callback",
+      tokenStore: createTokenStore(),
+    });
+
+    expect(provider.redirectUrl).toBe(
+      "https://app.example.com/mcp/oauth/callback",
+    );
+  });
+
+  it("should keep the authorization URL until the user signs in", () => {
+    const provider = new McpOAuthClientProvider("https://mcp.example.com", {
+      redirectUrl: "/mcp/oauth/callback",
+      tokenStore: createTokenStore(),
+    });
+    const authorizationUrl = new URL("https://auth.example.com/authorize");
+
+    provider.redirectToAuthorization(authorizationUrl);
+
+    expect(provider.authorizationUrl).toBe(authorizationUrl);
+  });
+});
+
+describe("login popup", () => {
+  const authorizationUrl = new URL(
+    "https://auth.example.com/authorize?state=state-1",
+  );
+  const postCallbackMessage = (data: Record<string, unknown>) => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        origin: window.location.origin,
+        data: { type: "tambo-mcp-oauth-callback", ...data },
+      }),
+    );
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should resolve with the code sent by the callback page", async () => {
+    const open = jest
+      .spyOn(window, "open")
+      .mockReturnValue({ closed: false } as Window);
+
+    const codePromise = openMcpAuthorizationPopup(authorizationUrl);
+    postCallbackMessage({ state: "other-state", code: "wrong" });
+    postCallbackMessage({ state: "state-1", code: "code-1" });
+
+    await expect(codePromise).resolves.toBe("code-1");
+    expect(open).toHaveBeenCalledWith(
+      authorizationUrl.href,
+      "tambo-mcp-oauth",
+      expect.any(String),
+    );
+  });
+
+  it("should fail when the popup is blocked", async () => {
+    jest.spyOn(window, "open").mockReturnValue(null);
+
+    await expect(openMcpAuthorizationPopup(authorizationUrl)).rejects.toThrow(
+      "The login popup was blocked by the browser",
+    );
+  });
+
+  it("should fail with the error of the authorization server", async () => {
+    jest.spyOn(window, "open").mockReturnValue({ closed: false } as Window);
+
+    const codePromise = openMcpAuthorizationPopup(authorizationUrl);
+    postCallbackMessage({ state: "state-1", error: "Access denied" });
+
+    await expect(codePromise).rejects.toThrow("Access denied");
+  });
+
+  it("should not handle pages that were not opened as a popup", () => {
+    expect(handleMcpOAuthCallback()).toBe(false);
+  });
+});
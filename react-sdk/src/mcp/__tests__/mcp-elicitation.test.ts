@@ -0,0 +1,63 @@
+import { MCPElicitationSchema } from "../mcp-client";
+import {
+  getMcpElicitationContent,
+  getMcpElicitationFormFields,
+} from "../mcp-elicitation";
+
+describe("MCP elicitation forms", () => {
+  const schema: MCPElicitationSchema = {
+    type: "object",
+    properties: {
+      name: { type: "string", title: "Name" },
+      size: { type: "string", enum: ["small", "large"] },
+      count: { type: "integer", description: "How many to order" },
+      express: { type: "boolean", title: "Express delivery" },
+    },
+    required: ["name", "count"],
+  };
+
+  it("should get a form field for each property", () => {
+    expect(getMcpElicitationFormFields(schema)).toEqual([
+      {
+        id: "name",
+        type: "text",
+        label: "Name",
+        description: undefined,
+        required: true,
+      },
+      {
+        id: "size",
+        type: "select",
+        label: "size",
+        description: undefined,
+        required: false,
+        options: ["small", "large"],
+      },
+      {
+        id: "count",
+        type: "number",
+        label: "count",
+        description: "How many to order",
+        required: true,
+      },
+      {
+        id: "express",
+        type: "yes-no",
+        label: "Express delivery",
+        description: undefined,
+        required: false,
+      },
+    ]);
+  });
+
+  it("should convert the form values to the types of the schema", () => {
+    expect(
+      getMcpElicitationContent(schema, {
+        name: "Ada",
+        size: "",
+        count: "3",
+        express: "Yes",
+      }),
+    ).toEqual({ name: "Ada", count: 3, express: true });
+  });
+});
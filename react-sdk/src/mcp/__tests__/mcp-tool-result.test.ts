@@ -0,0 +1,88 @@
+import {
+  getMcpToolErrorMessage,
+  getMcpToolResultContent,
+} from "../mcp-tool-result";
+
+describe("getMcpToolResultContent", () => {
+  it("should join text and resources into one text part", () => {
+    expect(
+      getMcpToolResultContent({
+        content: [
+          { type: "text", text: "Found 2 files" },
+          {
+            type: "resource_link",
+            name: "guide.md",
+            uri: "file:///guide.md",
+            description: "The guide",
+          },
+          {
+            type: "resource",
+            resource: { uri: "file:///notes.txt", text: "Some notes" },
+          },
+          {
+            type: "resource",
+            resource: { uri: "file:///logo.png", blob: "AAAA" },
+          },
+        ],
+      }),
+    ).toEqual([
+      {
+        type: "text",
+        text: [
+          "Found 2 files",
+          "[Resource: guide.md](file:///guide.md) - The guide",
+          '<resource uri="file:///notes.txt">\nSome notes\n</resource>',
+          "[Binary resource: file:///logo.png]",
+        ].join("\n"),
+      },
+    ]);
+  });
+
+  it("should send images and supported audio as their own parts", () => {
+    expect(
+      getMcpToolResultContent({
+        content: [
+          { type: "image", data: "iVBOR", mimeType: "image/png" },
+          { type: "audio", data: "UklGR", mimeType: "audio/wav" },
+          { type: "audio", data: "T2dnU", mimeType: "audio/ogg" },
+        ],
+      }),
+    ).toEqual([
+      { type: "text", text: "[Audio: audio/ogg]" },
+      { type: "image_url", image_url: { url: "data:image/png;base64,iVBOR" } },
+      { type: "input_audio", input_audio: { data: "UklGR", format: "wav" } },
+    ]);
+  });
+
+  it("should include structured content once", () => {
+    expect(
+      getMcpToolResultContent({
+        content: [{ type: "text", text: '{ "temperature": 21 }' }],
+        structuredContent: { temperature: 21 },
+      }),
+    ).toEqual([{ type: "text", text: '{"temperature":21}' }]);
+  });
+
+  it("should return an empty text part for an empty result", () => {
+    expect(getMcpToolResultContent({ content: [] })).toEqual([
+      { type: "text", text: "" },
+    ]);
+  });
+});
+
+describe("getMcpToolErrorMessage", () => {
+  it("should use the text of the result", () => {
+    expect(
+      getMcpToolErrorMessage("search", {
+        content: [{ type: "text", text: "Rate limit exceeded" }],
+        isError: true,
+      }),
+    ).toBe("MCP tool search failed: Rate limit exceeded");
+  });
+
+  it("should describe a failure without text", () => {
+    expect(
+      getMcpToolErrorMessage("search", { content: [], isError: true }),
+    ).toBe("MCP tool search failed without an error message");
+  });
+});
@@ -0,0 +1,874 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import React from "react";
+import {
+  TamboClientContext,
+  TamboClientContextProps,
+} from "../../providers/tambo-client-provider";
+import {
+  TamboContextHelpersProvider,
+  useTamboContextHelpers,
+} from "../../providers/tambo-context-helpers-provider";
+import {
+  TamboRegistryProvider,
+  useTamboRegistry,
+} from "../../providers/tambo-registry-provider";
+import {
+  TamboThreadContext,
+  TamboThreadContextProps,
+} from "../../providers/tambo-thread-provider";
+import {
+  McpAuthorizationRequiredError,
+  McpOAuthClientProvider,
+} from "../mcp-auth";
+import {
+  MCPClient,
+  MCPClientHandlers,
+  MCPTransport,
+  McpUnsupportedTransportError,
+} from "../mcp-client";
+import { McpToolNameCollisionError } from "../mcp-tool-names";
+import { McpServerInfo } from "../mcp-server-info";
+import {
+  TamboMcpProvider,
+  useTamboMcpElicitations,
+  useTamboMcpPrompts,
+  useTamboMcpSamplingRequests,
+  useTamboMcpServers,
+} from "../tambo-mcp-provider";
+
+// The MCP SDK's transports cannot be loaded by jest
+jest.mock("../mcp-client", () => ({
+  MCPClient: { create: jest.fn(), finishAuth: jest.fn() },
+  MCPTransport: { SSE: "sse", HTTP: "http", STDIO: "stdio" },
+  McpUnsupportedTransportError: class extends Error {
+    constructor(
+      readonly transport: string,
+      message: string,
+    ) {
+      super(message);
+    }
+  },
+}));
+
+describe("TamboMcpProvider", () => {
+  const mockClient = {
+    listTools: jest.fn(),
+    callTool: jest.fn(),
+    readResource: jest.fn(),
+    listPrompts: jest.fn(),
+    getPrompt: jest.fn(),
+    ping: jest.fn(),
+    close: jest.fn(),
+    onclose: undefined as (() => void) | undefined,
+  };
+  let mcpServers: McpServerInfo[];
+  let mcpProviderProps: Partial<React.ComponentProps<typeof TamboMcpProvider>>;
+  const docsServers: McpServerInfo[] = [
+    {
+      name: "docs",
+      url: "https://mcp.example.com",
+      transport: MCPTransport.HTTP,
+      resources: ["file:///guide.md"],
+    },
+  ];
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <TamboRegistryProvider components={[]}>
+      <TamboContextHelpersProvider>
+        <TamboMcpProvider mcpServers={mcpServers} {...mcpProviderProps}>
+          {children}
+        </TamboMcpProvider>
+      </TamboContextHelpersProvider>
+    </TamboRegistryProvider>
+  );
+
+  beforeEach(() => {
+    mcpServers = docsServers;
+    mcpProviderProps = {};
+    jest
+      .mocked(MCPClient.create)
+      .mockResolvedValue(mockClient as unknown as MCPClient);
+    mockClient.listTools.mockResolvedValue([]);
+    mockClient.close.mockResolvedValue(undefined);
+    mockClient.readResource.mockResolvedValue([
+      { uri: "file:///guide.md", mimeType: "text/markdown", text: "# Guide" },
+    ]);
+    mockClient.listPrompts.mockResolvedValue([
+      {
+        name: "review",
+        description: "Review some code",
+        arguments: [{ name: "language", required: true }],
+      },
+    ]);
+    mockClient.getPrompt.mockResolvedValue([
+      { role: "user", text: "Review this typescript code" },
+      { role: "user", text: "" },
+    ]);
+  });
+
+  it("should include the selected resources as context", async () => {
+    const { result } = renderHook(
+      () => ({
+        contextHelpers: useTamboContextHelpers(),
+        servers: useTamboMcpServers(),
+      }),
+      { wrapper },
+    );
+
+    await waitFor(() => {
+      expect(result.current.servers[0].status).toBe("connected");
+    });
+    expect(result.current.contextHelpers.getContextHelpers()).toHaveProperty([
+      "docs__file:///guide.md",
+    ]);
+
+    await expect(
+      result.current.contextHelpers.getAdditionalContext(),
+    ).resolves.toEqual([
+      { name: "docs__file:///guide.md", context: "# Guide" },
+    ]);
+    expect(mockClient.readResource).toHaveBeenCalledWith("file:///guide.md");
+  });
+
+  it("should keep the resources of servers with the same URI apart", async () => {
+    mcpServers = [
+      ...docsServers,
+      { ...docsServers[0], name: "wiki", url: "https://wiki.example.com" },
+    ];
+    const { result, rerender } = renderHook(
+      () => ({
+        contextHelpers: useTamboContextHelpers(),
+        servers: useTamboMcpServers(),
+      }),
+      { wrapper },
+    );
+    await waitFor(() => {
+      expect(result.current.servers[1].status).toBe("connected");
+    });
+    expect(
+      Object.keys(result.current.contextHelpers.getContextHelpers()),
+    ).toEqual(["docs__file:///guide.md", "wiki__file:///guide.md"]);
+
+    // Removing one server keeps the resource of the other
+    mcpServers = [mcpServers[1]];
+    rerender();
+
+    expect(
+      Object.keys(result.current.contextHelpers.getContextHelpers()),
+    ).toEqual(["wiki__file:///guide.md"]);
+  });
+
+  it("should expose the prompts of each server", async () => {
+    const { result } = renderHook(() => useTamboMcpPrompts(), { wrapper });
+
+    await waitFor(() => {
+      expect(result.current.prompts).toHaveLength(1);
+    });
+    expect(result.current.prompts[0]).toEqual({
+      name: "review",
+      description: "Review some code",
+      arguments: [{ name: "language", required: true }],
+      serverUrl: "https://mcp.example.com",
+      serverName: "docs",
+    });
+
+    let text = "";
+    await act(async () => {
+      text = await result.current.getPrompt(result.current.prompts[0], {
+        language: "typescript",
+      });
+    });
+
+    expect(mockClient.getPrompt).toHaveBeenCalledWith("review", {
+      language: "typescript",
+    });
+    expect(text).toBe("Review this typescript code");
+  });
+
+  describe("tools", () => {
+    const searchTool = {
+      name: "search",
+      description: "Search",
+      inputSchema: { type: "object" as const, properties: {} },
+    };
+    const deleteTool = { ...searchTool, name: "delete" };
+    const toolCallContext = {
+      signal: new AbortController().signal,
+      reportProgress: () => {},
+    };
+
+    beforeEach(() => {
+      mockClient.listTools.mockResolvedValue([searchTool, deleteTool]);
+    });
+
+    it("should prefix the tool names that servers share with the server name or host", async () => {
+      mcpServers = [
+        { name: "GitHub Issues", url: "https://github.example.com/mcp" },
+        { url: "http://localhost:8123/mcp", deniedTools: ["delete"] },
+      ];
+      const { result } = renderHook(() => useTamboRegistry(), { wrapper });
+
+      await waitFor(() => {
+        expect(Object.keys(result.current.toolRegistry)).toHaveLength(3);
+      });
+      expect(Object.keys(result.current.toolRegistry).sort()).toEqual([
+        "GitHub_Issues__search",
+        "delete",
+        "localhost__search",
+      ]);
+
+      mockClient.callTool.mockResolvedValue({ content: [] });
+      await result.current.toolRegistry.localhost__search.tool(
+        { query: "a" },
+        toolCallContext,
+      );
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        "search",
+        { query: "a" },
+        toolCallContext.signal,
+      );
+    });
+
+    it("should fail with the text of tool errors", async () => {
+      const { result } = renderHook(() => useTamboRegistry(), { wrapper });
+      await waitFor(() => {
+        expect(result.current.toolRegistry).toHaveProperty("search");
+      });
+
+      mockClient.callTool.mockResolvedValue({
+        content: [{ type: "text", text: "Rate limit exceeded" }],
+        isError: true,
+      });
+      await expect(
+        result.current.toolRegistry.search.tool({}, toolCallContext),
+      ).rejects.toThrow("MCP tool search failed: Rate limit exceeded");
+    });
+
+    it("should only register allowed tools", async () => {
+      mcpServers = [
+        { name: "github", url: "https://github.example.com/mcp" },
+        {
+          name: "jira",
+          url: "https://jira.example.com/mcp",
+          allowedTools: ["search", "create"],
+        },
+      ];
+      const { result } = renderHook(() => useTamboRegistry(), { wrapper });
+
+      await waitFor(() => {
+        expect(Object.keys(result.current.toolRegistry)).toHaveLength(3);
+      });
+      expect(result.current.toolRegistry).not.toHaveProperty("jira__delete");
+    });
+
+    it("should keep the tools of the first server when names collide", async () => {
+      const consoleError = jest
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      mcpServers = [
+        { name: "search", url: "https://first.example.com/mcp" },
+        { name: "search", url: "https://second.example.com/mcp" },
+      ];
+      const firstClient = {
+        ...mockClient,
+        callTool: jest.fn().mockResolvedValue({ content: [] }),
+      };
+      jest
+        .mocked(MCPClient.create)
+        .mockImplementation(
+          async (url) =>
+            (url.startsWith("https://first")
+              ? firstClient
+              : mockClient) as unknown as MCPClient,
+        );
+      const { result } = renderHook(() => useTamboRegistry(), { wrapper });
+
+      await waitFor(() => {
+        expect(consoleError).toHaveBeenCalled();
+      });
+      expect(consoleError).toHaveBeenCalledWith(
+        "Failed to register tools from MCP servers:",
+        [
+          new McpToolNameCollisionError(
+            "search__search",
+            "https://second.example.com/mcp",
+            "https://first.example.com/mcp",
+          ),
+          new McpToolNameCollisionError(
+            "search__delete",
+            "https://second.example.com/mcp",
+            "https://first.example.com/mcp",
+          ),
+        ],
+      );
+
+      await result.current.toolRegistry.search__search.tool(
+        {},
+        toolCallContext,
+      );
+      expect(firstClient.callTool).toHaveBeenCalled();
+      expect(mockClient.callTool).not.toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+
+    it("should not replace the tools of the app", async () => {
+      const consoleError = jest
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const localSearch = {
+        name: "search",
+        description: "Search the local docs",
+        tool: jest.fn(),
+        toolSchema: searchTool.inputSchema,
+      };
+      const localDocsSearch = { ...localSearch, name: "docs__search" };
+      const { result } = renderHook(
+        () => ({ registry: useTamboRegistry(), servers: useTamboMcpServers() }),
+        {
+          wrapper: ({ children }) => (
+            <TamboRegistryProvider
+              components={[]}
+              tools={[localSearch, localDocsSearch]}
+            >
+              <TamboContextHelpersProvider>
+                <TamboMcpProvider mcpServers={mcpServers}>
+                  {children}
+                </TamboMcpProvider>
+              </TamboContextHelpersProvider>
+            </TamboRegistryProvider>
+          ),
+        },
+      );
+
+      await waitFor(() => {
+        expect(result.current.registry.toolRegistry).toHaveProperty("delete");
+      });
+      expect(result.current.registry.toolRegistry.search).toBe(localSearch);
+      expect(result.current.registry.toolRegistry.docs__search).toBe(
+        localDocsSearch,
+      );
+      expect(result.current.servers[0]).toEqual(
+        expect.objectContaining({
+          toolCount: 1,
+          error: new McpToolNameCollisionError(
+            "docs__search",
+            "https://mcp.example.com",
+          ).message,
+        }),
+      );
+      consoleError.mockRestore();
+    });
+
+    it("should replace characters that cannot be used in tool names", async () => {
+      mockClient.listTools.mockResolvedValue([
+        { ...searchTool, name: "search.issues" },
+      ]);
+      const { result } = renderHook(() => useTamboRegistry(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.toolRegistry).toHaveProperty("search_issues");
+      });
+      mockClient.callTool.mockResolvedValue({ content: [] });
+      await result.current.toolRegistry.search_issues.tool({}, toolCallContext);
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        "search.issues",
+        {},
+        toolCallContext.signal,
+      );
+    });
+
+    it("should shorten tool names that are too long for models", async () => {
+      const longName = `search_${"a".repeat(70)}`;
+      mockClient.listTools.mockResolvedValue([
+        { ...searchTool, name: longName },
+        { ...searchTool, name: `${longName}b` },
+      ]);
+      const { result } = renderHook(() => useTamboRegistry(), { wrapper });
+
+      await waitFor(() => {
+        expect(Object.keys(result.current.toolRegistry)).toHaveLength(2);
+      });
+      const names = Object.keys(result.current.toolRegistry);
+      names.forEach((name) => {
+        expect(name).toMatch(/^search_a+_[0-9a-f]{8}$/);
+        expect(name).toHaveLength(64);
+      });
+      expect(names[0]).not.toBe(names[1]);
+
+      mockClient.callTool.mockResolvedValue({ content: [] });
+      await result.current.toolRegistry[names[0]].tool({}, toolCallContext);
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        longName,
+        {},
+        toolCallContext.signal,
+      );
+    });
+  });
+
+  describe("connections", () => {
+    const searchTool = {
+      name: "search",
+      inputSchema: { type: "object" as const, properties: {} },
+    };
+
+    const useMcp = () => ({
+      servers: useTamboMcpServers(),
+      registry: useTamboRegistry(),
+    });
+
+    beforeEach(() => {
+      mockClient.listTools.mockResolvedValue([searchTool]);
+    });
+
+    it("should report the status of each server", async () => {
+      const { result } = renderHook(() => useMcp(), { wrapper });
+
+      expect(result.current.servers).toEqual([
+        expect.objectContaining({
+          url: "https://mcp.example.com",
+          name: "docs",
+          status: "connecting",
+        }),
+      ]);
+      await waitFor(() => {
+        expect(result.current.servers[0].status).toBe("connected");
+      });
+      expect(result.current.servers[0]).toEqual(
+        expect.objectContaining({ toolCount: 1, promptCount: 1 }),
+      );
+    });
+
+    it("should reconnect with backoff when the connection is lost", async () => {
+      jest.useFakeTimers();
+      try {
+        const { result } = renderHook(() => useMcp(), { wrapper });
+        await waitFor(() => {
+          expect(result.current.servers[0].status).toBe("connected");
+        });
+
+        jest.mocked(MCPClient.create).mockRejectedValueOnce(new Error("Down"));
+        act(() => {
+          mockClient.onclose?.();
+        });
+        expect(result.current.servers[0]).toEqual(
+          expect.objectContaining({
+            status: "reconnecting",
+            error: "The connection was closed",
+          }),
+        );
+        // The tools stay registered while the server reconnects
+        expect(result.current.registry.toolRegistry).toHaveProperty("search");
+
+        // The first retry fails, the second one is made after a longer delay
+        await act(async () => {
+          await jest.advanceTimersByTimeAsync(1000);
+        });
+        expect(result.current.servers[0]).toEqual(
+          expect.objectContaining({ status: "reconnecting", error: "Down" }),
+        );
+        await act(async () => {
+          await jest.advanceTimersByTimeAsync(1000);
+        });
+        expect(result.current.servers[0].status).toBe("reconnecting");
+        await act(async () => {
+          await jest.advanceTimersByTimeAsync(1000);
+        });
+        expect(result.current.servers[0].status).toBe("connected");
+        expect(MCPClient.create).toHaveBeenCalledTimes(3);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("should not retry a transport that is not available here", async () => {
+      mcpServers = [
+        {
+          name: "memory",
+          url: "npx -y @modelcontextprotocol/server-memory",
+          transport: MCPTransport.STDIO,
+        },
+      ];
+      jest
+        .mocked(MCPClient.create)
+        .mockRejectedValue(
+          new McpUnsupportedTransportError(
+            MCPTransport.STDIO,
+            "The stdio transport is only available from @tambo-ai/react/mcp/node",
+          ),
+        );
+
+      const { result } = renderHook(() => useTamboMcpServers(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current[0]).toEqual(
+          expect.objectContaining({
+            status: "error",
+            error:
+              "The stdio transport is only available from @tambo-ai/react/mcp/node",
+          }),
+        );
+      });
+      expect(MCPClient.create).toHaveBeenCalledTimes(1);
+    });
+
+    it("should connect once the user signs in", async () => {
+      mcpServers = [
+        {
+          name: "docs",
+          url: "https://mcp.example.com",
+          oauth: { redirectUrl: "/mcp/oauth/callback" },
+        },
+      ];
+      jest
+        .mocked(MCPClient.create)
+        .mockImplementationOnce(async (url, _transport, _headers, provider) => {
+          provider?.redirectToAuthorization(
+            new URL("https://auth.example.com/authorize?state=state-1"),
+          );
+          throw new McpAuthorizationRequiredError(url);
+        });
+      jest.spyOn(window, "open").mockReturnValue({ closed: false } as Window);
+      const { result } = renderHook(() => useMcp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.servers[0].status).toBe("unauthorized");
+      });
+      expect(MCPClient.create).toHaveBeenCalledTimes(1);
+
+      let authorized: Promise<void> = Promise.resolve();
+      act(() => {
+        authorized = result.current.servers[0].authorize();
+      });
+      act(() => {
+        window.dispatchEvent(
+          new MessageEvent("message", {
+            origin: window.location.origin,
+            data: {
+              type: "tambo-mcp-oauth-callback",
+              state: "state-1",
+              code: "code-1",
+            },
+          }),
+        );
+      });
+      await act(async () => {
+        await authorized;
+      });
+
+      expect(MCPClient.finishAuth).toHaveBeenCalledWith(
+        "https://mcp.example.com",
+        expect.any(McpOAuthClientProvider),
+        "code-1",
+      );
+      expect(result.current.servers[0].status).toBe("connected");
+      expect(result.current.registry.toolRegistry).toHaveProperty("search");
+      jest.mocked(window.open).mockRestore();
+    });
+
+    it("should unregister the tools of removed servers and close them", async () => {
+      mcpServers = [
+        ...docsServers,
+        { name: "other", url: "https://other.example.com" },
+      ];
+      const { result, rerender } = renderHook(() => useMcp(), { wrapper });
+      await waitFor(() => {
+        expect(result.current.registry.toolRegistry).toHaveProperty(
+          "other__search",
+        );
+      });
+      expect(result.current.registry.toolRegistry).toHaveProperty(
+        "docs__search",
+      );
+
+      mcpServers = [mcpServers[1]];
+      rerender();
+
+      // The tool of the remaining server no longer needs a prefix
+      await waitFor(() => {
+        expect(result.current.registry.toolRegistry).toHaveProperty("search");
+      });
+      expect(result.current.registry.toolRegistry).not.toHaveProperty(
+        "docs__search",
+      );
+      expect(result.current.registry.toolRegistry).not.toHaveProperty(
+        "other__search",
+      );
+      expect(result.current.servers.map(({ url }) => url)).toEqual([
+        "https://other.example.com",
+      ]);
+      expect(mockClient.close).toHaveBeenCalledTimes(1);
+    });
+
+    it("should remove unregistered tools from their components", async () => {
+      const { result, rerender } = renderHook(() => useMcp(), { wrapper });
+      await waitFor(() => {
+        expect(result.current.registry.toolRegistry).toHaveProperty("search");
+      });
+      act(() => {
+        result.current.registry.registerComponent({
+          name: "SearchResults",
+          description: "Search results",
+          component: () => null,
+          propsSchema: { type: "object", properties: {} },
+        });
+      });
+      act(() => {
+        result.current.registry.addToolAssociation(
+          "SearchResults",
+          result.current.registry.toolRegistry.search,
+        );
+      });
+
+      mcpServers = [];
+      rerender();
+
+      await waitFor(() => {
+        expect(result.current.registry.componentToolAssociations).toEqual({
+          SearchResults: [],
+        });
+      });
+    });
+
+    it("should keep connections when the servers are unchanged", async () => {
+      const { result, rerender } = renderHook(() => useMcp(), { wrapper });
+      await waitFor(() => {
+        expect(result.current.servers[0].status).toBe("connected");
+      });
+
+      mcpServers = docsServers.map((server) => ({ ...server }));
+      rerender();
+
+      expect(result.current.servers[0].status).toBe("connected");
+      expect(MCPClient.create).toHaveBeenCalledTimes(1);
+    });
+
+    it("should close connections on unmount", async () => {
+      const { result, unmount } = renderHook(() => useMcp(), { wrapper });
+      await waitFor(() => {
+        expect(result.current.servers[0].status).toBe("connected");
+      });
+
+      unmount();
+
+      expect(mockClient.close).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("requests from servers", () => {
+    const getHandlers = async () => {
+      await waitFor(() => {
+        expect(MCPClient.create).toHaveBeenCalled();
+      });
+      return jest.mocked(MCPClient.create).mock
+        .calls[0][4] as Required<MCPClientHandlers>;
+    };
+
+    beforeEach(() => {
+      mcpProviderProps = { allowSampling: true, allowElicitation: true };
+    });
+
+    it("should only handle the requests that are allowed", async () => {
+      mcpProviderProps = {};
+      renderHook(() => useTamboMcpServers(), { wrapper });
+
+      await expect(getHandlers()).resolves.toEqual({});
+    });
+
+    it("should replace the form in the thread once it is answered", async () => {
+      const threadContext = {
+        thread: { id: "thread-1" },
+        addThreadMessage: jest.fn(),
+        updateThreadMessage: jest.fn(),
+      } as unknown as TamboThreadContextProps;
+      mcpProviderProps = { elicitationForm: () => null };
+      const { result } = renderHook(() => useTamboMcpElicitations(), {
+        wrapper: ({ children }) => (
+          <TamboThreadContext.Provider value={threadContext}>
+            {wrapper({ children })}
+          </TamboThreadContext.Provider>
+        ),
+      });
+      const handlers = await getHandlers();
+
+      let elicited: ReturnType<typeof handlers.elicitation> | undefined;
+      act(() => {
+        elicited = handlers.elicitation(
+          {
+            message: "How many seats?",
+            requestedSchema: { type: "object", properties: {} },
+          },
+          new AbortController().signal,
+        );
+      });
+      const { id } = result.current.elicitations[0];
+      expect(threadContext.addThreadMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ id, renderedComponent: expect.anything() }),
+        false,
+      );
+
+      act(() => {
+        result.current.decline(id);
+      });
+      await elicited;
+
+      expect(threadContext.updateThreadMessage).toHaveBeenCalledWith(
+        id,
+        {
+          threadId: "thread-1",
+          renderedComponent: null,
+          content: [{ type: "text", text: "How many seats?\n\nDeclined." }],
+        },
+        false,
+      );
+    });
+
+    it("should generate sampled messages once the user approves", async () => {
+      const tamboClient = {
+        beta: {
+          threads: {
+            advance: jest.fn().mockResolvedValue({
+              responseMessageDto: {
+                threadId: "sampling-thread",
+                content: [{ type: "text", text: "A summary" }],
+              },
+            }),
+            delete: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+      };
+      const { result } = renderHook(() => useTamboMcpSamplingRequests(), {
+        wrapper: ({ children }) => (
+          <TamboClientContext.Provider
+            value={
+              {
+                client: tamboClient,
+              } as unknown as TamboClientContextProps
+            }
+          >
+            {wrapper({ children })}
+          </TamboClientContext.Provider>
+        ),
+      });
+      const handlers = await getHandlers();
+
+      let sampled: ReturnType<typeof handlers.sampling> | undefined;
+      act(() => {
+        sampled = handlers.sampling(
+          {
+            messages: [{ role: "user", text: "Summarize the guide" }],
+            maxTokens: 100,
+          },
+          new AbortController().signal,
+        );
+      });
+      expect(result.current.samplingRequests).toEqual([
+        expect.objectContaining({
+          serverUrl: "https://mcp.example.com",
+          messages: [{ role: "user", text: "Summarize the guide" }],
+        }),
+      ]);
+      expect(tamboClient.beta.threads.advance).not.toHaveBeenCalled();
+
+      act(() => {
+        result.current.approve(result.current.samplingRequests[0].id);
+      });
+
+      await expect(sampled).resolves.toEqual({
+        model: "tambo",
+        text: "A summary",
+      });
+      expect(result.current.samplingRequests).toEqual([]);
+      expect(tamboClient.beta.threads.delete).toHaveBeenCalledWith(
+        "sampling-thread",
+      );
+    });
+
+    it("should fail sampling requests the user denies", async () => {
+      const { result } = renderHook(() => useTamboMcpSamplingRequests(), {
+        wrapper,
+      });
+      const handlers = await getHandlers();
+
+      let sampled: ReturnType<typeof handlers.sampling> | undefined;
+      act(() => {
+        sampled = handlers.sampling(
+          { messages: [], maxTokens: 100 },
+          new AbortController().signal,
+        );
+      });
+      act(() => {
+        result.current.deny(result.current.samplingRequests[0].id);
+      });
+
+      await expect(sampled).rejects.toThrow(
+        "The user declined the sampling request",
+      );
+    });
+
+    it("should send the information the user filled in", async () => {
+      const { result } = renderHook(() => useTamboMcpElicitations(), {
+        wrapper,
+      });
+      const handlers = await getHandlers();
+
+      let elicited: ReturnType<typeof handlers.elicitation> | undefined;
+      act(() => {
+        elicited = handlers.elicitation(
+          {
+            message: "How many seats?",
+            requestedSchema: {
+              type: "object",
+              properties: { seats: { type: "number" } },
+            },
+          },
+          new AbortController().signal,
+        );
+      });
+      expect(result.current.elicitations[0].fields).toEqual([
+        expect.objectContaining({ id: "seats", type: "number" }),
+      ]);
+
+      act(() => {
+        result.current.accept(result.current.elicitations[0].id, {
+          seats: "2",
+        });
+      });
+
+      await expect(elicited).resolves.toEqual({
+        action: "accept",
+        content: { seats: 2 },
+      });
+    });
+
+    it("should cancel requests the server cancels", async () => {
+      const { result } = renderHook(() => useTamboMcpElicitations(), {
+        wrapper,
+      });
+      const handlers = await getHandlers();
+      const controller = new AbortController();
+
+      let elicited: ReturnType<typeof handlers.elicitation> | undefined;
+      act(() => {
+        elicited = handlers.elicitation(
+          {
+            message: "How many seats?",
+            requestedSchema: { type: "object", properties: {} },
+          },
+          controller.signal,
+        );
+      });
+      act(() => {
+        controller.abort();
+      });
+
+      await expect(elicited).resolves.toEqual({ action: "cancel" });
+      expect(result.current.elicitations).toEqual([]);
+    });
+  });
+
+  it("should have no prompts without a provider", () => {
+    const { result } = renderHook(() => useTamboMcpPrompts());
+
+    expect(result.current.prompts).toEqual([]);
+  });
+});
@@ -1,2 +1,39 @@
-export { MCPTransport } from "./mcp-client";
-export { TamboMcpProvider, type McpServerInfo } from "./tambo-mcp-provider";
+export {
+  handleMcpOAuthCallback,
+  McpAuthorizationRequiredError,
+  type McpOAuthOptions,
+  type McpTokenStore,
+} from "./mcp-auth";
+export {
+  MCPTransport,
+  McpUnsupportedTransportError,
+  type MCPElicitationSchema,
+  type MCPPromptArgument,
+  type MCPPromptMessage,
+  type MCPPromptSpec,
+  type MCPResourceContents,
+  type MCPResourceSpec,
+  type MCPSamplingMessage,
+  type MCPSamplingRequest,
+} from "./mcp-client";
+export {
+  type McpElicitationFormField,
+  type McpElicitationFormProps,
+} from "./mcp-elicitation";
+export { type McpServerInfo } from "./mcp-server-info";
+export { type McpConnectionStatus } from "./mcp-server-connection";
+export { getMcpToolName, McpToolNameCollisionError } from "./mcp-tool-names";
+export {
+  TamboMcpProvider,
+  useTamboMcpElicitations,
+  useTamboMcpPrompts,
+  useTamboMcpSamplingRequests,
+  useTamboMcpServers,
+  type TamboMcpElicitation,
+  type TamboMcpElicitationContextProps,
+  type TamboMcpPrompt,
+  type TamboMcpPromptsContextProps,
+  type TamboMcpSamplingContextProps,
+  type TamboMcpSamplingRequest,
+  type TamboMcpServer,
+} from "./tambo-mcp-provider";
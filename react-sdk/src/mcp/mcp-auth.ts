@@ -0,0 +1,283 @@
+import type { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
+import type {
+  OAuthClientInformation,
+  OAuthClientInformationFull,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+
+// The type of the message the callback page sends to the window that opened
+// the login popup
+const OAUTH_CALLBACK_MESSAGE_TYPE = "tambo-mcp-oauth-callback";
+const STORAGE_KEY_PREFIX = "tambo-mcp-oauth";
+
+/**
+ * Stores the OAuth client registrations, tokens and PKCE code verifiers of
+ * MCP servers. `sessionStorage` and `localStorage` can be used as token
+ * stores.
+ */
+export interface McpTokenStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/** Options for signing in to an MCP server with OAuth */
+export interface McpOAuthOptions {
+  /**
+   * The URL of the page that handles the redirect from the authorization
+   * server by calling `handleMcpOAuthCallback`, e.g. `/mcp/oauth/callback`.
+   * Relative URLs are resolved against the current page when the user signs
+   * in, so use an absolute URL to sign in outside the browser.
+   */
+  redirectUrl: string;
+  /** The name of the application shown on the authorization server's login page */
+  clientName?: string;
+  /** The scopes to request, separated by spaces */
+  scope?: string;
+  /**
+   * Where to keep tokens. Defaults to `sessionStorage`, so the user signs in
+   * again in every tab. Pass `localStorage` to keep the user signed in
+   * across tabs and visits.
+   */
+  tokenStore?: McpTokenStore;
+}
+
+/**
+ * Thrown when connecting to an MCP server requires the user to sign in. The
+ * connection can be retried once the user has signed in in the login popup.
+ */
+export class McpAuthorizationRequiredError extends Error {
+  constructor(readonly serverUrl: string) {
+    super(`MCP server ${serverUrl} requires you to sign in`);
+    this.name = "McpAuthorizationRequiredError";
+  }
+}
+
+/**
+ * The OAuth client of an MCP server, following the MCP authorization spec
+ * (OAuth 2.1 with PKCE and dynamic client registration). The MCP SDK uses it
+ * to add tokens to requests and to refresh them. When the user has to sign
+ * in, the authorization URL is kept until `authorize` opens it in a popup.
+ */
+export class McpOAuthClientProvider implements OAuthClientProvider {
+  /** The URL to open to sign in, set when the server requires the user to sign in */
+  authorizationUrl?: URL;
+  private readonly tokenStore: McpTokenStore;
+
+  /**
+   * @param serverUrl - The URL of the MCP server
+   * @param options - The OAuth options of the server
+   */
+  constructor(
+    readonly serverUrl: string,
+    private readonly options: McpOAuthOptions,
+  ) {
+    this.tokenStore = options.tokenStore ?? getDefaultTokenStore();
+  }
+
+  get redirectUrl(): string {
+    const { redirectUrl } = this.options;
+    try {
+      return new URL(redirectUrl, getCurrentUrl()).href;
+    } catch {
+      throw new Error(
+        `The OAuth redirect URL ${redirectUrl} of MCP server ${this.serverUrl} must be absolute outside the browser`,
+      );
+    }
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: this.options.clientName ?? "Tambo",
+      redirect_uris: [this.redirectUrl],
+      grant_types: ["authorization_code", "refresh_token"],
+      response_types: ["code"],
+      token_endpoint_auth_method: "none",
+      ...(this.options.scope && { scope: this.options.scope }),
+    };
+  }
+
+  state(): string {
+    return crypto.randomUUID();
+  }
+
+  clientInformation(): OAuthClientInformation | undefined {
+    return this.load<OAuthClientInformation>("client");
+  }
+
+  saveClientInformation(clientInformation: OAuthClientInformationFull): void {
+    this.save("client", clientInformation);
+  }
+
+  tokens(): OAuthTokens | undefined {
+    return this.load<OAuthTokens>("tokens");
+  }
+
+  saveTokens(tokens: OAuthTokens): void {
+    this.save("tokens", tokens);
+  }
+
+  redirectToAuthorization(authorizationUrl: URL): void {
+    this.authorizationUrl = authorizationUrl;
+  }
+
+  saveCodeVerifier(codeVerifier: string): void {
+    this.save("code-verifier", codeVerifier);
+  }
+
+  codeVerifier(): string {
+    const codeVerifier = this.load<string>("code-verifier");
+    if (!codeVerifier) {
+      throw new Error(
+        `No code verifier saved for MCP server ${this.serverUrl}`,
+      );
+    }
+    return codeVerifier;
+  }
+
+  invalidateCredentials(scope: "all" | "client" | "tokens" | "verifier"): void {
+    if (scope === "all" || scope === "client") {
+      this.remove("client");
+    }
+    if (scope === "all" || scope === "tokens") {
+      this.remove("tokens");
+    }
+    if (scope === "all" || scope === "verifier") {
+      this.remove("code-verifier");
+    }
+  }
+
+  private load<T>(name: string): T | undefined {
+    const value = this.tokenStore.getItem(this.getKey(name));
+    if (value === null) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private save(name: string, value: unknown) {
+    this.tokenStore.setItem(this.getKey(name), JSON.stringify(value));
+  }
+
+  private remove(name: string) {
+    this.tokenStore.removeItem(this.getKey(name));
+  }
+
+  private getKey(name: string) {
+    return `${STORAGE_KEY_PREFIX}:${this.serverUrl}:${name}`;
+  }
+}
+
+/**
+ * Open an authorization URL in a login popup, and wait for the callback page
+ * to send back the authorization code. Browsers block popups that are not
+ * opened in response to a click, so call this from a click handler.
+ * @param authorizationUrl - The URL to sign in at
+ * @returns The authorization code
+ * @throws Will throw an error if the popup is blocked or closed, or if the
+ * authorization server reports an error
+ */
+export const openMcpAuthorizationPopup = async (
+  authorizationUrl: URL,
+): Promise<string> => {
+  const state = authorizationUrl.searchParams.get("state");
+  const popup = window.open(
+    authorizationUrl.href,
+    "tambo-mcp-oauth",
+    "popup,width=600,height=700",
+  );
+  if (!popup) {
+    throw new Error("The login popup was blocked by the browser");
+  }
+
+  return await new Promise<string>((resolve, reject) => {
+    const cleanUp = () => {
+      window.removeEventListener("message", handleMessage);
+      clearInterval(closedInterval);
+    };
+    const handleMessage = (event: MessageEvent) => {
+      if (
+        event.origin !== window.location.origin ||
+        event.data?.type !== OAUTH_CALLBACK_MESSAGE_TYPE ||
+        event.data.state !== state
+      ) {
+        return;
+      }
+      cleanUp();
+      if (event.data.error) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.code);
+      }
+    };
+    // The popup does not tell us when the user closes it
+    const closedInterval = setInterval(() => {
+      if (popup.closed) {
+        cleanUp();
+        reject(new Error("The login popup was closed before signing in"));
+      }
+    }, 500);
+    window.addEventListener("message", handleMessage);
+  });
+};
+
+/**
+ * Handle the redirect from the authorization server on the page at the
+ * `redirectUrl` of an MCP server's OAuth options: sends the authorization
+ * code to the window that opened the login popup, and closes the popup.
+ * @example
+ * ```tsx
+ * // app/mcp/oauth/callback/page.tsx
+ * export default function McpOAuthCallback() {
+ *   useEffect(() => {
+ *     handleMcpOAuthCallback();
+ *   }, []);
+ *   return <p>Signing in…</p>;
+ * }
+ * ```
+ * @returns True if the page was opened as a login popup and the result was sent
+ */
+export const handleMcpOAuthCallback = (): boolean => {
+  const opener = window.opener as Window | null;
+  if (!opener) {
+    return false;
+  }
+  const params = new URLSearchParams(window.location.search);
+  const code = params.get("code");
+  opener.postMessage(
+    {
+      type: OAUTH_CALLBACK_MESSAGE_TYPE,
+      state: params.get("state"),
+      code,
+      error:
+        params.get("error_description") ??
+        params.get("error") ??
+        (code ? undefined : "The authorization server did not return a code"),
+    },
+    window.location.origin,
+  );
+  window.close();
+  return true;
+};
+
+const getCurrentUrl = () =>
+  typeof window !== "undefined" ? window.location.href : undefined;
+
+// Tokens are only kept for the lifetime of the page when there is no
+// sessionStorage, e.g. during server-side rendering
+const getDefaultTokenStore = (): McpTokenStore => {
+  if (typeof sessionStorage !== "undefined") {
+    return sessionStorage;
+  }
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => items.set(key, value),
+    removeItem: (key) => items.delete(key),
+  };
+};
@@ -1,72 +1,266 @@
+import {
+  auth,
+  OAuthClientProvider,
+  UnauthorizedError,
+} from "@modelcontextprotocol/sdk/client/auth.js";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  type CallToolResult,
+  CallToolResultSchema,
+  CreateMessageRequestSchema,
+  type CreateMessageResult,
+  type ElicitRequest,
+  ElicitRequestSchema,
+  type ElicitResult,
+  type SamplingMessage,
+} from "@modelcontextprotocol/sdk/types.js";
 import { JSONSchema7 } from "json-schema";
+import { TamboTracer } from "../model/tambo-tracer";
+import {
+  createTracingFetch,
+  TRACE_HEADERS_META_KEY,
+  traceSpan,
+} from "../util/tracing";
+import { McpAuthorizationRequiredError } from "./mcp-auth";
 
 export enum MCPTransport {
   SSE = "sse",
   HTTP = "http",
+  /**
+   * Launches the server as a child process and talks to it over stdin and
+   * stdout. Only available from `@tambo-ai/react/mcp/node`.
+   */
+  STDIO = "stdio",
+  /** Only available from `@tambo-ai/react/mcp/node` */
+  WEBSOCKET = "websocket",
+}
+
+/**
+ * Thrown when a server cannot be connected to with its transport, e.g. the
+ * stdio transport in a browser, or options the transport does not support.
+ * Connecting again does not help.
+ */
+export class McpUnsupportedTransportError extends Error {
+  constructor(
+    readonly transport: MCPTransport,
+    message: string,
+  ) {
+    super(message);
+    this.name = "McpUnsupportedTransportError";
+  }
 }
 /**
  * A client for interacting with MCP (Model Context Protocol) servers.
- * Provides a simple interface for listing and calling tools exposed by the server.
+ * Provides a simple interface for the tools, resources and prompts exposed by the server.
  * @example
  * ```typescript
  * const mcp = await MCPClient.create('https://api.example.com/mcp');
  * const tools = await mcp.listTools();
  * const result = await mcp.callTool('toolName', { arg1: 'value1' });
+ * const readme = await mcp.readResource('file:///README.md');
+ * const prompt = await mcp.getPrompt('review', { language: 'typescript' });
  * ```
  */
 export class MCPClient {
   private client: Client;
-  private transport: SSEClientTransport | StreamableHTTPClientTransport;
+
+  /** Called when the connection to the server is closed */
+  onclose?: () => void;
+  /** Called when the connection reports an error, which may or may not be fatal */
+  onerror?: (error: Error) => void;
 
   /**
-   * Private constructor to enforce using the static create method.
-   * @param endpoint - The URL of the MCP server to connect to
-   * @param transport - The transport to use for the MCP client
-   * @param headers - Optional custom headers to include in requests
+   * Protected constructor to enforce using the static create method.
+   * @param transport - The transport to connect to the server with
+   * @param handlers - Optional handlers for requests from the server
+   * @param tracer - Optional tracer that creates a span for each tool call
    */
-  private constructor(
-    endpoint: string,
-    transport: MCPTransport,
-    headers?: Record<string, string>,
+  protected constructor(
+    private readonly transport: Transport,
+    handlers: MCPClientHandlers = {},
+    private readonly tracer?: TamboTracer,
   ) {
-    if (transport === MCPTransport.SSE) {
-      this.transport = new SSEClientTransport(new URL(endpoint), {
-        requestInit: { headers },
-      });
-    } else {
-      this.transport = new StreamableHTTPClientTransport(new URL(endpoint), {
-        requestInit: { headers },
-      });
+    // Only advertise the capabilities there are handlers for
+    this.client = new Client(
+      {
+        name: "tambo-mcp-client",
+        version: "1.0.0",
+      },
+      {
+        capabilities: {
+          ...(handlers.sampling && { sampling: {} }),
+          ...(handlers.elicitation && { elicitation: {} }),
+        },
+      },
+    );
+    const { sampling, elicitation } = handlers;
+    if (sampling) {
+      this.client.setRequestHandler(
+        CreateMessageRequestSchema,
+        async ({ params }, { signal }): Promise<CreateMessageResult> => {
+          const result = await sampling(
+            {
+              messages: params.messages.map(getSamplingMessage),
+              systemPrompt: params.systemPrompt,
+              maxTokens: params.maxTokens,
+            },
+            signal,
+          );
+          return {
+            role: "assistant",
+            model: result.model,
+            stopReason: "endTurn",
+            content: { type: "text", text: result.text },
+          };
+        },
+      );
+    }
+    if (elicitation) {
+      this.client.setRequestHandler(
+        ElicitRequestSchema,
+        async ({ params }, { signal }): Promise<ElicitResult> => {
+          const result = await elicitation(
+            {
+              message: params.message,
+              requestedSchema: params.requestedSchema,
+            },
+            signal,
+          );
+          return { ...result };
+        },
+      );
     }
-    this.client = new Client({
-      name: "tambo-mcp-client",
-      version: "1.0.0",
-    });
   }
 
   /**
    * Creates and initializes a new MCPClient instance.
    * This is the recommended way to create an MCPClient as it handles both
    * instantiation and connection setup.
-   * @param endpoint - The URL of the MCP server to connect to
+   * @param endpoint - The URL of the MCP server to connect to, or the command
+   * that launches it for the stdio transport
    * @param transport - The transport type to use for the MCP client. Defaults to HTTP.
-   * @param headers - Optional custom headers to include in requests
+   * @param headers - Optional custom headers to include in requests, or
+   * environment variables of the server process for the stdio transport
+   * @param authProvider - Optional OAuth client to authorize requests with,
+   * which also refreshes expired tokens
+   * @param handlers - Optional handlers for sampling and elicitation requests
+   * from the server. The client only advertises the capabilities it has
+   * handlers for.
+   * @param tracer - Optional tracer that creates a span for each tool call and
+   * sends the trace headers with the requests to the server
    * @returns A connected MCPClient instance ready for use
+   * @throws {McpAuthorizationRequiredError} If the user has to sign in first
    * @throws Will throw an error if connection fails
    */
   static async create(
     endpoint: string,
     transport: MCPTransport = MCPTransport.HTTP,
     headers?: Record<string, string>,
+    authProvider?: OAuthClientProvider,
+    handlers?: MCPClientHandlers,
+    tracer?: TamboTracer,
   ): Promise<MCPClient> {
-    const mcpClient = new MCPClient(endpoint, transport, headers);
-    await mcpClient.client.connect(mcpClient.transport);
+    const mcpClient = new MCPClient(
+      this.createTransport(endpoint, transport, headers, authProvider, tracer),
+      handlers,
+      tracer,
+    );
+    try {
+      await mcpClient.client.connect(mcpClient.transport);
+    } catch (error) {
+      if (error instanceof UnauthorizedError) {
+        throw new McpAuthorizationRequiredError(endpoint);
+      }
+      throw error;
+    }
+    mcpClient.client.onclose = () => mcpClient.onclose?.();
+    mcpClient.client.onerror = (error) => mcpClient.onerror?.(error);
     return mcpClient;
   }
 
+  /**
+   * Creates the transport to connect to the server with. The client of
+   * `@tambo-ai/react/mcp/node` adds the transports that need Node.
+   * @param endpoint - The URL of the MCP server
+   * @param transport - The transport type
+   * @param headers - Optional custom headers to include in requests
+   * @param authProvider - Optional OAuth client to authorize requests with
+   * @param tracer - Optional tracer whose trace headers are sent with requests
+   * @returns The transport
+   * @throws {McpUnsupportedTransportError} For transports that are not
+   * available here
+   */
+  protected static createTransport(
+    endpoint: string,
+    transport: MCPTransport,
+    headers?: Record<string, string>,
+    authProvider?: OAuthClientProvider,
+    tracer?: TamboTracer,
+  ): Transport {
+    const fetch = tracer && createTracingFetch();
+    switch (transport) {
+      case MCPTransport.SSE:
+        return new SSEClientTransport(new URL(endpoint), {
+          requestInit: { headers },
+          authProvider,
+          fetch,
+        });
+      case MCPTransport.HTTP:
+        return new StreamableHTTPClientTransport(new URL(endpoint), {
+          requestInit: { headers },
+          authProvider,
+          fetch,
+        });
+      default:
+        throw new McpUnsupportedTransportError(
+          transport,
+          `The ${transport} transport is only available from @tambo-ai/react/mcp/node`,
+        );
+    }
+  }
+
+  /**
+   * Exchanges the authorization code from the login popup for tokens, which
+   * are saved by the OAuth client. Connect again afterwards.
+   * @param endpoint - The URL of the MCP server
+   * @param authProvider - The OAuth client that started the authorization
+   * @param authorizationCode - The authorization code
+   * @throws Will throw an error if the code cannot be exchanged for tokens
+   */
+  static async finishAuth(
+    endpoint: string,
+    authProvider: OAuthClientProvider,
+    authorizationCode: string,
+  ): Promise<void> {
+    const result = await auth(authProvider, {
+      serverUrl: endpoint,
+      authorizationCode,
+    });
+    if (result !== "AUTHORIZED") {
+      throw new McpAuthorizationRequiredError(endpoint);
+    }
+  }
+
+  /**
+   * Checks that the server is still reachable.
+   * @throws Will throw an error if the server does not respond
+   */
+  async ping(): Promise<void> {
+    await this.client.ping();
+  }
+
+  /**
+   * Closes the connection to the server. `onclose` is not called.
+   */
+  async close(): Promise<void> {
+    this.onclose = undefined;
+    this.onerror = undefined;
+    await this.client.close();
+  }
+
   /**
    * Retrieves a complete list of all available tools from the MCP server.
    * Handles pagination automatically by following cursors until all tools are fetched.
@@ -110,15 +304,145 @@ export class MCPClient {
    * Calls a specific tool on the MCP server with the provided arguments.
    * @param name - The name of the tool to call
    * @param args - Arguments to pass to the tool, must match the tool's expected schema
+   * @param signal - Cancels the tool call on the server when aborted
    * @returns The result from the tool execution
    * @throws Will throw an error if the tool call fails or if arguments are invalid
    */
-  async callTool(name: string, args: Record<string, unknown>) {
-    const result = await this.client.callTool({
-      name,
-      arguments: args,
-    });
-    return result;
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<CallToolResult> {
+    return await traceSpan(
+      this.tracer,
+      "tambo.mcp.call_tool",
+      { "tambo.tool_name": name },
+      async (span) => {
+        const traceHeaders = this.tracer?.getTraceHeaders();
+        // The client's result type also allows the result format of old
+        // protocol versions, which the schema does not let through
+        const result = CallToolResultSchema.parse(
+          await this.client.callTool(
+            {
+              name,
+              arguments: args,
+              ...(traceHeaders && {
+                _meta: { [TRACE_HEADERS_META_KEY]: traceHeaders },
+              }),
+            },
+            CallToolResultSchema,
+            { signal },
+          ),
+        );
+        if (result.isError) {
+          span.setError(`The MCP tool ${name} returned an error`);
+        }
+        return result;
+      },
+    );
+  }
+
+  /**
+   * Retrieves a complete list of all available resources from the MCP server.
+   * Handles pagination automatically by following cursors until all resources are fetched.
+   * @returns A complete list of all available resources, or an empty list if the server does not support resources
+   * @throws Will throw an error if any server request fails during pagination
+   */
+  async listResources(): Promise<MCPResourceSpec[]> {
+    if (!this.client.getServerCapabilities()?.resources) {
+      return [];
+    }
+    const allResources: MCPResourceSpec[] = [];
+    let cursor: string | undefined = undefined;
+
+    do {
+      const response = await this.client.listResources({ cursor }, {});
+      allResources.push(
+        ...response.resources.map(
+          (resource): MCPResourceSpec => ({
+            uri: resource.uri,
+            name: resource.name,
+            description: resource.description,
+            mimeType: resource.mimeType,
+          }),
+        ),
+      );
+      cursor = response.nextCursor;
+    } while (cursor);
+
+    return allResources;
+  }
+
+  /**
+   * Reads a resource from the MCP server.
+   * @param uri - The URI of the resource to read
+   * @returns The contents of the resource. Text resources have `text`, binary resources have a base64 encoded `blob`.
+   * @throws Will throw an error if the resource does not exist or cannot be read
+   */
+  async readResource(uri: string): Promise<MCPResourceContents[]> {
+    const result = await this.client.readResource({ uri });
+    return result.contents.map(
+      (contents): MCPResourceContents => ({
+        uri: contents.uri,
+        mimeType: contents.mimeType,
+        text: typeof contents.text === "string" ? contents.text : undefined,
+        blob: typeof contents.blob === "string" ? contents.blob : undefined,
+      }),
+    );
+  }
+
+  /**
+   * Retrieves a complete list of all available prompt templates from the MCP server.
+   * Handles pagination automatically by following cursors until all prompts are fetched.
+   * @returns A complete list of all available prompts, or an empty list if the server does not support prompts
+   * @throws Will throw an error if any server request fails during pagination
+   */
+  async listPrompts(): Promise<MCPPromptSpec[]> {
+    if (!this.client.getServerCapabilities()?.prompts) {
+      return [];
+    }
+    const allPrompts: MCPPromptSpec[] = [];
+    let cursor: string | undefined = undefined;
+
+    do {
+      const response = await this.client.listPrompts({ cursor }, {});
+      allPrompts.push(
+        ...response.prompts.map(
+          (prompt): MCPPromptSpec => ({
+            name: prompt.name,
+            description: prompt.description,
+            arguments: prompt.arguments?.map((argument) => ({
+              name: argument.name,
+              description: argument.description,
+              required: argument.required,
+            })),
+          }),
+        ),
+      );
+      cursor = response.nextCursor;
+    } while (cursor);
+
+    return allPrompts;
+  }
+
+  /**
+   * Fills in a prompt template on the MCP server.
+   * @param name - The name of the prompt
+   * @param args - Values for the prompt's arguments
+   * @returns The messages of the prompt
+   * @throws Will throw an error if the prompt does not exist or a required argument is missing
+   */
+  async getPrompt(
+    name: string,
+    args: Record<string, string> = {},
+  ): Promise<MCPPromptMessage[]> {
+    const result = await this.client.getPrompt({ name, arguments: args });
+    return result.messages.map(
+      (message): MCPPromptMessage => ({
+        role: message.role,
+        text: message.content.type === "text" ? message.content.text : "",
+      }),
+    );
   }
 }
 
@@ -134,3 +458,100 @@ export interface MCPToolSpec {
   description?: string;
   inputSchema?: JSONSchema7;
 }
+
+export interface MCPResourceSpec {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  /** The contents of a text resource */
+  text?: string;
+  /** The base64 encoded contents of a binary resource */
+  blob?: string;
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPromptSpec {
+  name: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+export interface MCPPromptMessage {
+  role: "user" | "assistant";
+  /** The text of the message. Empty for images, audio and embedded resources. */
+  text: string;
+}
+
+/** A message of a sampling request */
+export interface MCPSamplingMessage {
+  role: "user" | "assistant";
+  /** The text of the message. Images and audio are described in the text. */
+  text: string;
+}
+
+/** A request from an MCP server to generate a message with the client's model */
+export interface MCPSamplingRequest {
+  messages: MCPSamplingMessage[];
+  systemPrompt?: string;
+  /** The maximum number of tokens to generate */
+  maxTokens: number;
+}
+
+export interface MCPSamplingResult {
+  /** The name of the model that generated the message */
+  model: string;
+  text: string;
+}
+
+/** The schema of the information an MCP server requests from the user */
+export type MCPElicitationSchema = ElicitRequest["params"]["requestedSchema"];
+
+/** A request from an MCP server for information from the user */
+export interface MCPElicitationRequest {
+  /** Why the server needs the information, to show to the user */
+  message: string;
+  requestedSchema: MCPElicitationSchema;
+}
+
+export interface MCPElicitationResult {
+  /** Whether the user provided the information, declined, or dismissed the request */
+  action: "accept" | "decline" | "cancel";
+  /** The information the user provided, when accepted */
+  content?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Handlers for requests from an MCP server. Each handler gets a signal that
+ * is aborted when the server cancels the request.
+ */
+export interface MCPClientHandlers {
+  /** Generates a message for a `sampling/createMessage` request */
+  sampling?: (
+    request: MCPSamplingRequest,
+    signal: AbortSignal,
+  ) => Promise<MCPSamplingResult>;
+  /** Asks the user for the information of an `elicitation/create` request */
+  elicitation?: (
+    request: MCPElicitationRequest,
+    signal: AbortSignal,
+  ) => Promise<MCPElicitationResult>;
+}
+
+const getSamplingMessage = ({
+  role,
+  content,
+}: SamplingMessage): MCPSamplingMessage => ({
+  role,
+  text: content.type === "text" ? content.text : `[${content.type}]`,
+});
@@ -0,0 +1,89 @@
+import { MCPElicitationSchema } from "./mcp-client";
+
+/**
+ * A field of the form that asks the user for the information an MCP server
+ * requested. Has the shape of the fields of the registry's `form` component.
+ */
+export interface McpElicitationFormField {
+  /** The name of the property in the requested schema */
+  id: string;
+  type: "text" | "number" | "select" | "yes-no";
+  label: string;
+  description?: string;
+  required?: boolean;
+  /** The values to choose from for select fields */
+  options?: string[];
+}
+
+/**
+ * The props of the form an elicitation is shown with in the thread, the
+ * same as those of the registry's `form` component.
+ */
+export interface McpElicitationFormProps {
+  fields: McpElicitationFormField[];
+  submitText?: string;
+  /** Called with the values of the fields, by field id */
+  onSubmit: (data: Record<string, string>) => void;
+}
+
+/**
+ * Get the form fields for the schema of the information an MCP server
+ * requested.
+ * @param schema - The requested schema
+ * @returns A field for each property of the schema
+ */
+export const getMcpElicitationFormFields = (
+  schema: MCPElicitationSchema,
+): McpElicitationFormField[] =>
+  Object.entries(schema.properties).map(([id, property]) => {
+    const field = {
+      id,
+      label: property.title ?? id,
+      description: property.description,
+      required: schema.required?.includes(id) ?? false,
+    };
+    if ("enum" in property && Array.isArray(property.enum)) {
+      return { ...field, type: "select", options: property.enum.map(String) };
+    }
+    switch (property.type) {
+      case "number":
+      case "integer":
+        return { ...field, type: "number" };
+      case "boolean":
+        return { ...field, type: "yes-no" };
+      default:
+        return { ...field, type: "text" };
+    }
+  });
+
+/**
+ * Convert the values the user filled in to the content of the elicitation
+ * result, with the types of the requested schema. Fields left empty are not
+ * included.
+ * @param schema - The requested schema
+ * @param data - The values of the form fields, by field id
+ * @returns The content to send back to the server
+ */
+export const getMcpElicitationContent = (
+  schema: MCPElicitationSchema,
+  data: Record<string, string>,
+): Record<string, string | number | boolean> =>
+  Object.fromEntries(
+    Object.entries(schema.properties).flatMap(
+      ([id, property]): [string, string | number | boolean][] => {
+        const value = data[id];
+        if (value === undefined || value === "") {
+          return [];
+        }
+        switch (property.type) {
+          case "number":
+          case "integer":
+            return [[id, Number(value)]];
+          case "boolean":
+            return [[id, value === "Yes"]];
+          default:
+            return [[id, value]];
+        }
+      },
+    ),
+  );
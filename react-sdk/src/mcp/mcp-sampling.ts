@@ -0,0 +1,45 @@
+import TamboAI from "@tambo-ai/typescript-sdk";
+import { MCPSamplingRequest, MCPSamplingResult } from "./mcp-client";
+
+/**
+ * Generate the message an MCP server requested with the model of the Tambo
+ * project. The conversation is sent as one message to a new thread, which is
+ * deleted afterwards.
+ * @param client - The Tambo client
+ * @param request - The sampling request of the server
+ * @returns The generated message
+ */
+export const createMcpSamplingMessage = async (
+  client: TamboAI,
+  request: MCPSamplingRequest,
+): Promise<MCPSamplingResult> => {
+  const response = await client.beta.threads.advance({
+    messageToAppend: {
+      role: "user",
+      content: [{ type: "text", text: getMcpSamplingPrompt(request) }],
+    },
+    availableComponents: [],
+    clientTools: [],
+  });
+  const { threadId, content } = response.responseMessageDto;
+  void client.beta.threads.delete(threadId).catch(() => {});
+  return {
+    model: "tambo",
+    text: content.map((part) => part.text ?? "").join(""),
+  };
+};
+
+/**
+ * Get the prompt for a sampling request: the server's system prompt and the
+ * conversation to continue.
+ * @param request - The sampling request
+ * @returns The prompt
+ */
+export const getMcpSamplingPrompt = (request: MCPSamplingRequest): string =>
+  [
+    ...(request.systemPrompt ? [request.systemPrompt] : []),
+    `Continue this conversation with the next assistant message, in at most ${request.maxTokens} tokens. Reply with only the message.`,
+    ...request.messages.map(
+      ({ role, text }) => `${role === "user" ? "User" : "Assistant"}: ${text}`,
+    ),
+  ].join("\n\n");
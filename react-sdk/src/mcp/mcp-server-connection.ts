@@ -0,0 +1,290 @@
+import { TamboTracer } from "../model/tambo-tracer";
+import {
+  McpAuthorizationRequiredError,
+  McpOAuthClientProvider,
+  openMcpAuthorizationPopup,
+} from "./mcp-auth";
+import {
+  MCPClient,
+  MCPClientHandlers,
+  MCPPromptSpec,
+  MCPToolSpec,
+  MCPTransport,
+  McpUnsupportedTransportError,
+} from "./mcp-client";
+import { McpServerInfo } from "./mcp-server-info";
+
+/**
+ * The state of the connection to an MCP server:
+ * - `connecting`: connecting for the first time, or retrying after a failure
+ * - `connected`: the server's tools and prompts are available
+ * - `reconnecting`: the connection failed or was lost, and is retried after a delay
+ * - `error`: the connection failed too many times, or its transport is not
+ *   available here, and is not retried until `reconnect` is called
+ * - `unauthorized`: the user has to sign in to the server, by calling
+ *   `authorize` from a click handler
+ */
+export type McpConnectionStatus =
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "error"
+  | "unauthorized";
+
+export interface McpServerConnectionState {
+  status: McpConnectionStatus;
+  /** Why the last connection attempt failed, or why the connection was lost */
+  error?: string;
+  /** The server's tools, as of the last time it was connected */
+  tools: MCPToolSpec[];
+  /** The server's prompts, as of the last time it was connected */
+  prompts: MCPPromptSpec[];
+}
+
+// Delays between reconnection attempts double from the initial delay, up to
+// the maximum delay
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+
+/**
+ * Get a key that identifies the connection to an MCP server. Servers with
+ * the same key share a connection, and changing anything else about a
+ * server, like its name, does not reconnect it.
+ * @param server - The MCP server
+ * @returns The key
+ */
+export const getMcpServerKey = (server: McpServerInfo): string =>
+  JSON.stringify([
+    server.url,
+    server.transport ?? MCPTransport.SSE,
+    server.customHeaders ?? {},
+    Boolean(server.oauth),
+  ]);
+
+/**
+ * Manages the connection to an MCP server: connects, lists the server's
+ * tools and prompts, and reconnects with exponential backoff when the
+ * connection fails or is lost.
+ */
+export class McpServerConnection {
+  private state: McpServerConnectionState = {
+    status: "connecting",
+    tools: [],
+    prompts: [],
+  };
+  private client?: MCPClient;
+  private failedAttempts = 0;
+  // Identifies the latest connection attempt, so that earlier attempts that
+  // are still in progress are ignored
+  private connectionAttempt = 0;
+  private reconnectTimeout?: ReturnType<typeof setTimeout>;
+  private isClosed = false;
+  private readonly authProvider?: McpOAuthClientProvider;
+
+  /**
+   * @param server - The MCP server to connect to
+   * @param onChange - Called with the new state whenever the state changes
+   * @param handlers - Handlers for sampling and elicitation requests from the server
+   * @param tracer - Creates spans for the tool calls of the server
+   */
+  constructor(
+    readonly server: McpServerInfo,
+    private readonly onChange: (state: McpServerConnectionState) => void,
+    private readonly handlers?: MCPClientHandlers,
+    private readonly tracer?: TamboTracer,
+  ) {
+    if (server.oauth) {
+      this.authProvider = new McpOAuthClientProvider(server.url, server.oauth);
+    }
+  }
+
+  /**
+   * The current state of the connection.
+   * @returns The state
+   */
+  getState(): McpServerConnectionState {
+    return this.state;
+  }
+
+  /**
+   * The client of the connected server.
+   * @returns The client, or undefined if the server is not connected
+   */
+  getClient(): MCPClient | undefined {
+    return this.state.status === "connected" ? this.client : undefined;
+  }
+
+  /**
+   * Connect to the server.
+   */
+  connect(): void {
+    void this.open();
+  }
+
+  /**
+   * Reconnect to the server now, e.g. after the connection gave up.
+   */
+  reconnect(): void {
+    this.failedAttempts = 0;
+    clearTimeout(this.reconnectTimeout);
+    void this.closeClient();
+    this.setState({ status: "connecting", error: undefined });
+    void this.open();
+  }
+
+  /**
+   * Sign in to the server in a login popup, and connect once signed in.
+   * Browsers block popups that are not opened in response to a click, so
+   * call this from a click handler.
+   */
+  async authorize(): Promise<void> {
+    const authorizationUrl = this.authProvider?.authorizationUrl;
+    if (!this.authProvider || !authorizationUrl) {
+      throw new Error(
+        `MCP server ${this.server.url} does not require you to sign in`,
+      );
+    }
+    try {
+      const code = await openMcpAuthorizationPopup(authorizationUrl);
+      this.setState({ status: "connecting", error: undefined });
+      await MCPClient.finishAuth(this.server.url, this.authProvider, code);
+    } catch (error) {
+      this.setState({ status: "unauthorized", error: getErrorMessage(error) });
+      return;
+    }
+    this.authProvider.authorizationUrl = undefined;
+    this.failedAttempts = 0;
+    await this.open();
+  }
+
+  /**
+   * Close the connection and stop reconnecting.
+   */
+  async close(): Promise<void> {
+    this.isClosed = true;
+    clearTimeout(this.reconnectTimeout);
+    await this.closeClient();
+  }
+
+  private async open() {
+    const { url, transport = MCPTransport.SSE, customHeaders } = this.server;
+    const attempt = ++this.connectionAttempt;
+    const isCurrentAttempt = () =>
+      !this.isClosed && attempt === this.connectionAttempt;
+    let client: MCPClient | undefined;
+    try {
+      client = await MCPClient.create(
+        url,
+        transport,
+        customHeaders,
+        this.authProvider,
+        this.handlers,
+        this.tracer,
+      );
+      if (!isCurrentAttempt()) {
+        void client.close().catch(() => {});
+        return;
+      }
+      this.client = client;
+      const tools = await client.listTools();
+      const prompts = await client.listPrompts().catch((error: unknown) => {
+        // Prompts are optional, the tools are still usable
+        console.error(`Failed to list prompts from MCP server ${url}:`, error);
+        return [];
+      });
+      if (!isCurrentAttempt()) {
+        return;
+      }
+      const connectedClient = client;
+      client.onclose = () => {
+        this.handleConnectionLost(connectedClient, "The connection was closed");
+      };
+      client.onerror = (error) => {
+        void this.checkConnection(connectedClient, error);
+      };
+      this.failedAttempts = 0;
+      this.setState({ status: "connected", error: undefined, tools, prompts });
+    } catch (error) {
+      if (!isCurrentAttempt()) {
+        return;
+      }
+      if (client) {
+        this.client = undefined;
+        void client.close().catch(() => {});
+      }
+      // Retrying does not help until the user has signed in
+      if (error instanceof McpAuthorizationRequiredError) {
+        this.setState({
+          status: "unauthorized",
+          error: undefined,
+          tools: [],
+          prompts: [],
+        });
+        return;
+      }
+      // Neither does retrying a transport that is not available here
+      if (error instanceof McpUnsupportedTransportError) {
+        this.setState({
+          status: "error",
+          error: error.message,
+          tools: [],
+          prompts: [],
+        });
+        return;
+      }
+      this.scheduleReconnect(getErrorMessage(error));
+    }
+  }
+
+  // Errors are not always fatal, so check that the server still responds
+  private async checkConnection(client: MCPClient, error: Error) {
+    try {
+      await client.ping();
+    } catch {
+      this.handleConnectionLost(client, error.message);
+    }
+  }
+
+  private handleConnectionLost(client: MCPClient, error: string) {
+    if (this.isClosed || this.client !== client) {
+      return;
+    }
+    this.client = undefined;
+    void client.close().catch(() => {});
+    this.scheduleReconnect(error);
+  }
+
+  private scheduleReconnect(error: string) {
+    this.failedAttempts++;
+    if (this.failedAttempts > MAX_RECONNECT_ATTEMPTS) {
+      this.setState({ status: "error", error, tools: [], prompts: [] });
+      return;
+    }
+    this.setState({ status: "reconnecting", error });
+    const delay = Math.min(
+      INITIAL_RECONNECT_DELAY_MS * 2 ** (this.failedAttempts - 1),
+      MAX_RECONNECT_DELAY_MS,
+    );
+    this.reconnectTimeout = setTimeout(() => {
+      this.setState({ status: "connecting" });
+      void this.open();
+    }, delay);
+  }
+
+  private async closeClient() {
+    const client = this.client;
+    this.client = undefined;
+    await client?.close().catch(() => {});
+  }
+
+  private setState(update: Partial<McpServerConnectionState>) {
+    this.state = { ...this.state, ...update };
+    if (!this.isClosed) {
+      this.onChange(this.state);
+    }
+  }
+}
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
@@ -0,0 +1,30 @@
+import { McpOAuthOptions } from "./mcp-auth";
+import { MCPTransport } from "./mcp-client";
+
+export interface McpServerInfo {
+  /**
+   * The name of the server. Tools that another server or the app also has
+   * are registered with the name as a prefix, e.g. `github__search`, or with
+   * the host name of the URL when the server has no name.
+   */
+  name?: string;
+  url: string;
+  description?: string;
+  transport?: MCPTransport;
+  customHeaders?: Record<string, string>;
+  /**
+   * URIs of resources on the server to include as context with every
+   * message. Each resource is read again when a message is sent.
+   */
+  resources?: string[];
+  /** The only tools of the server to register, by their name on the server */
+  allowedTools?: string[];
+  /** Tools of the server not to register, by their name on the server */
+  deniedTools?: string[];
+  /**
+   * Sign in to the server with OAuth when it requires authorization. The
+   * server's status is `unauthorized` until the user signs in with
+   * `authorize`.
+   */
+  oauth?: McpOAuthOptions;
+}
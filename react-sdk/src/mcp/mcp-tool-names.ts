@@ -0,0 +1,147 @@
+import { McpServerInfo } from "./mcp-server-info";
+
+// Separates the server prefix from the tool name, e.g. `github__search`
+const TOOL_PREFIX_SEPARATOR = "__";
+
+// Models reject tool names longer than this
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * Thrown when a tool of an MCP server would be registered under the name of
+ * another tool. Tools registered by the app itself are kept, and so is the
+ * tool of the server that comes first in `mcpServers`.
+ */
+export class McpToolNameCollisionError extends Error {
+  constructor(
+    readonly toolName: string,
+    readonly serverUrl: string,
+    /** The server that registered the name, or undefined for an app tool */
+    readonly existingServerUrl?: string,
+  ) {
+    super(
+      existingServerUrl === undefined
+        ? `MCP tool ${toolName} from ${serverUrl} was not registered, the app already registered a tool with that name. Give the server a different name to tell the tools apart.`
+        : `MCP tool ${toolName} from ${serverUrl} was not registered, ${existingServerUrl} already registered a tool with that name. Give the servers different names to tell their tools apart.`,
+    );
+    this.name = "McpToolNameCollisionError";
+  }
+}
+
+/**
+ * Get the prefix of the tools of an MCP server: its name, or the host name
+ * of its URL when it has no name. Characters that cannot be used in tool
+ * names are replaced with underscores.
+ * @param server - The MCP server
+ * @returns The prefix, without the separator
+ */
+export const getMcpToolPrefix = (server: McpServerInfo): string => {
+  const prefix = server.name?.trim()
+    ? server.name.trim()
+    : getHostName(server.url);
+  return sanitizeToolName(prefix);
+};
+
+/**
+ * Get the name an MCP tool is registered under: its name on the server, or
+ * its name prefixed with the server's prefix when another server or the app
+ * has a tool of that name. Characters that cannot be used in tool names are
+ * replaced with underscores, and names longer than models accept are cut
+ * short and end with a hash of the full name, so they stay unique.
+ * @param server - The MCP server that exposes the tool
+ * @param toolName - The name of the tool on the server
+ * @param isPrefixed - Whether to prefix the name, see `getSharedMcpToolNames`
+ * @returns The tool name
+ */
+export const getMcpToolName = (
+  server: McpServerInfo,
+  toolName: string,
+  isPrefixed: boolean,
+): string =>
+  limitToolNameLength(
+    isPrefixed
+      ? `${getMcpToolPrefix(server)}${TOOL_PREFIX_SEPARATOR}${sanitizeToolName(toolName)}`
+      : sanitizeToolName(toolName),
+  );
+
+/**
+ * Find the tool names that more than one MCP server has, or that a server
+ * and the app both have. These tools are registered with the prefix of
+ * their server, so that they do not replace each other.
+ * @param servers - The URL of each server and the names of its tools
+ * @param localToolNames - The names of the tools the app registered
+ * @returns The shared names, as given by `getMcpToolName` without a prefix
+ */
+export const getSharedMcpToolNames = (
+  servers: { url: string; toolNames: string[] }[],
+  localToolNames: Set<string>,
+): Set<string> => {
+  const serverUrls = new Map<string, Set<string>>();
+  servers.forEach(({ url, toolNames }) => {
+    toolNames.forEach((toolName) => {
+      const name = limitToolNameLength(sanitizeToolName(toolName));
+      serverUrls.set(name, (serverUrls.get(name) ?? new Set()).add(url));
+    });
+  });
+  return new Set(
+    [...serverUrls]
+      .filter(([name, urls]) => urls.size > 1 || localToolNames.has(name))
+      .map(([name]) => name),
+  );
+};
+
+/**
+ * Get the name of the context helper that includes a resource of an MCP
+ * server, so that servers that expose the same URI do not replace each
+ * other's resources.
+ * @param server - The MCP server that exposes the resource
+ * @param uri - The URI of the resource
+ * @returns The URI, prefixed with the server's prefix
+ */
+export const getMcpResourceContextName = (
+  server: McpServerInfo,
+  uri: string,
+): string => `${getMcpToolPrefix(server)}${TOOL_PREFIX_SEPARATOR}${uri}`;
+
+/**
+ * Check whether an MCP server's allow and deny lists let a tool be
+ * registered. A tool must be in `allowedTools` when it is set, and must not
+ * be in `deniedTools`.
+ * @param server - The MCP server that exposes the tool
+ * @param toolName - The name of the tool on the server, without a prefix
+ * @returns True if the tool should be registered
+ */
+export const isMcpToolAllowed = (
+  server: McpServerInfo,
+  toolName: string,
+): boolean =>
+  (!server.allowedTools || server.allowedTools.includes(toolName)) &&
+  !server.deniedTools?.includes(toolName);
+
+const getHostName = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
+const sanitizeToolName = (name: string) =>
+  name.replace(/[^a-zA-Z0-9_-]+/g, "_");
+
+const limitToolNameLength = (name: string) => {
+  if (name.length <= MAX_TOOL_NAME_LENGTH) {
+    return name;
+  }
+  const hash = hashName(name);
+  return `${name.slice(0, MAX_TOOL_NAME_LENGTH - hash.length - 1)}_${hash}`;
+};
+
+// The 32-bit FNV-1a hash, as 8 hex digits
+const hashName = (name: string) => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < name.length; index++) {
+    hash ^= name.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
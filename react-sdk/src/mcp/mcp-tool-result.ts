@@ -0,0 +1,121 @@
+import type {
+  CallToolResult,
+  ContentBlock,
+} from "@modelcontextprotocol/sdk/types.js";
+import TamboAI from "@tambo-ai/typescript-sdk";
+
+type ContentPart = TamboAI.Beta.Threads.ChatCompletionContentPart;
+
+// Audio the model accepts as audio, other audio is described as text
+const AUDIO_FORMATS: Record<string, "wav" | "mp3"> = {
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+};
+
+/**
+ * Convert the result of an MCP tool call to the content of the tool response.
+ * Text, resource links and text resources are joined into one text part,
+ * images become image parts, and `structuredContent` is sent as JSON.
+ * @param result - The result of the MCP tool call
+ * @returns The content parts of the tool response
+ */
+export const getMcpToolResultContent = (
+  result: CallToolResult,
+): ContentPart[] => {
+  const texts: string[] = [];
+  const mediaParts: ContentPart[] = [];
+  result.content.forEach((block) => {
+    const part = getMediaContentPart(block);
+    if (part) {
+      mediaParts.push(part);
+    } else {
+      texts.push(getContentBlockText(block));
+    }
+  });
+
+  // Servers usually also send structured content as JSON text, which
+  // would repeat it
+  if (result.structuredContent) {
+    const structuredContent = JSON.stringify(result.structuredContent);
+    const duplicateIndex = texts.findIndex(
+      (text) => normalizeJson(text) === structuredContent,
+    );
+    if (duplicateIndex !== -1) {
+      texts.splice(duplicateIndex, 1);
+    }
+    texts.push(structuredContent);
+  }
+
+  const text = texts.filter(Boolean).join("\n");
+  return [
+    ...(text || mediaParts.length === 0
+      ? [{ type: "text" as const, text }]
+      : []),
+    ...mediaParts,
+  ];
+};
+
+/**
+ * Get a readable message for an MCP tool call that failed, to pass back to
+ * the model.
+ * @param toolName - The name of the tool on the server
+ * @param result - The result of the MCP tool call, with `isError` set
+ * @returns The error message
+ */
+export const getMcpToolErrorMessage = (
+  toolName: string,
+  result: CallToolResult,
+): string => {
+  const text = result.content
+    .map(getContentBlockText)
+    .filter(Boolean)
+    .join("\n");
+  return text
+    ? `MCP tool ${toolName} failed: ${text}`
+    : `MCP tool ${toolName} failed without an error message`;
+};
+
+const getMediaContentPart = (block: ContentBlock): ContentPart | undefined => {
+  if (block.type === "image") {
+    return {
+      type: "image_url",
+      image_url: { url: `data:${block.mimeType};base64,${block.data}` },
+    };
+  }
+  if (block.type === "audio" && AUDIO_FORMATS[block.mimeType]) {
+    return {
+      type: "input_audio",
+      input_audio: { data: block.data, format: AUDIO_FORMATS[block.mimeType] },
+    };
+  }
+  return undefined;
+};
+
+const getContentBlockText = (block: ContentBlock): string => {
+  switch (block.type) {
+    case "text":
+      return block.text;
+    case "resource_link":
+      return `[Resource: ${block.name}](${block.uri})${block.description ? ` - ${block.description}` : ""}`;
+    case "resource":
+      return "text" in block.resource && typeof block.resource.text === "string"
+        ? `<resource uri="${block.resource.uri}">\n${block.resource.text}\n</resource>`
+        : `[Binary resource: ${block.resource.uri}${block.resource.mimeType ? ` (${block.resource.mimeType})` : ""}]`;
+    case "image":
+      return `[Image: ${block.mimeType}]`;
+    case "audio":
+      return `[Audio: ${block.mimeType}]`;
+    default:
+      return "";
+  }
+};
+
+const normalizeJson = (text: string) => {
+  try {
+    return JSON.stringify(JSON.parse(text));
+  } catch {
+    return undefined;
+  }
+};
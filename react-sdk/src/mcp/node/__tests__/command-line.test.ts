@@ -0,0 +1,27 @@
+import { parseCommandLine } from "../command-line";
+
+describe("parseCommandLine", () => {
+  it("should split the program from its arguments", () => {
+    expect(
+      parseCommandLine("npx -y @modelcontextprotocol/server-memory"),
+    ).toEqual({
+      command: "npx",
+      args: ["-y", "@modelcontextprotocol/server-memory"],
+    });
+  });
+
+  it("should keep quoted arguments together", () => {
+    expect(
+      parseCommandLine(`node "./my server.js" --root '/tmp/my files'`),
+    ).toEqual({
+      command: "node",
+      args: ["./my server.js", "--root", "/tmp/my files"],
+    });
+  });
+
+  it("should fail for an empty command", () => {
+    expect(() => parseCommandLine("  ")).toThrow(
+      "The command of the MCP server is empty",
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import type { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { WebSocketClientTransport } from "@modelcontextprotocol/sdk/client/websocket.js";
+import { MCPTransport, McpUnsupportedTransportError } from "../../mcp-client";
+import { MCPNodeClient } from "../mcp-node-client";
+
+// The MCP SDK's transports cannot be loaded by jest
+jest.mock("@modelcontextprotocol/sdk/client/auth.js", () => ({
+  auth: jest.fn(),
+  UnauthorizedError: class extends Error {},
+}));
+jest.mock("@modelcontextprotocol/sdk/client/index.js", () => ({
+  Client: jest.fn(),
+}));
+jest.mock("@modelcontextprotocol/sdk/client/sse.js", () => ({
+  SSEClientTransport: jest.fn(),
+}));
+jest.mock("@modelcontextprotocol/sdk/client/streamableHttp.js", () => ({
+  StreamableHTTPClientTransport: jest.fn(),
+}));
+jest.mock("@modelcontextprotocol/sdk/client/stdio.js", () => ({
+  StdioClientTransport: jest.fn(),
+}));
+jest.mock("@modelcontextprotocol/sdk/client/websocket.js", () => ({
+  WebSocketClientTransport: jest.fn(),
+}));
+
+describe("MCPNodeClient", () => {
+  const connect = jest.fn();
+
+  beforeEach(() => {
+    connect.mockResolvedValue(undefined);
+    jest
+      .mocked(Client)
+      .mockImplementation(
+        () => ({ connect, setRequestHandler: jest.fn() }) as unknown as Client,
+      );
+  });
+
+  it("should launch stdio servers with their arguments and environment", async () => {
+    await MCPNodeClient.create(
+      `npx -y @modelcontextprotocol/server-memory --root "/tmp/my files"`,
+      MCPTransport.STDIO,
+      { MEMORY_FILE: "/tmp/memory.json" },
+    );
+
+    expect(StdioClientTransport).toHaveBeenCalledWith({
+      command: "npx",
+      args: [
+        "-y",
+        "@modelcontextprotocol/server-memory",
+        "--root",
+        "/tmp/my files",
+      ],
+      env: { MEMORY_FILE: "/tmp/memory.json" },
+      stderr: "inherit",
+    });
+    expect(connect).toHaveBeenCalledWith(
+      jest.mocked(StdioClientTransport).mock.instances[0],
+    );
+  });
+
+  it("should connect to websocket servers", async () => {
+    await MCPNodeClient.create(
+      "wss://mcp.example.com/socket",
+      MCPTransport.WEBSOCKET,
+    );
+
+    expect(WebSocketClientTransport).toHaveBeenCalledWith(
+      new URL("wss://mcp.example.com/socket"),
+    );
+    expect(connect).toHaveBeenCalledWith(
+      jest.mocked(WebSocketClientTransport).mock.instances[0],
+    );
+  });
+
+  it("should fail for websocket servers with headers or OAuth", async () => {
+    await expect(
+      MCPNodeClient.create(
+        "wss://mcp.example.com/socket",
+        MCPTransport.WEBSOCKET,
+        { Authorization: "Bearer token" },
+      ),
+    ).rejects.toThrow(McpUnsupportedTransportError);
+    await expect(
+      MCPNodeClient.create(
+        "wss://mcp.example.com/socket",
+        MCPTransport.WEBSOCKET,
+        undefined,
+        {} as OAuthClientProvider,
+      ),
+    ).rejects.toThrow("cannot send headers or authorize with OAuth");
+    expect(WebSocketClientTransport).not.toHaveBeenCalled();
+  });
+
+  it("should fail for stdio servers with OAuth", async () => {
+    await expect(
+      MCPNodeClient.create(
+        "npx -y @modelcontextprotocol/server-memory",
+        MCPTransport.STDIO,
+        undefined,
+        {} as OAuthClientProvider,
+      ),
+    ).rejects.toThrow(McpUnsupportedTransportError);
+    expect(StdioClientTransport).not.toHaveBeenCalled();
+  });
+});
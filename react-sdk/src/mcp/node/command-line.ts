@@ -0,0 +1,18 @@
+/**
+ * Split the command that launches an MCP server into the program and its
+ * arguments. Arguments with spaces can be quoted with single or double
+ * quotes.
+ * @param commandLine - The command, e.g. `npx -y @modelcontextprotocol/server-memory`
+ * @returns The program and its arguments
+ */
+export const parseCommandLine = (
+  commandLine: string,
+): { command: string; args: string[] } => {
+  const [command, ...args] = (
+    commandLine.match(/"[^"]*"|'[^']*'|\S+/g) ?? []
+  ).map((arg) => (/^(["']).*\1$/.test(arg) ? arg.slice(1, -1) : arg));
+  if (!command) {
+    throw new Error("The command of the MCP server is empty");
+  }
+  return { command, args };
+};
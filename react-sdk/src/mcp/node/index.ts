@@ -0,0 +1,18 @@
+export {
+  MCPTransport,
+  McpUnsupportedTransportError,
+  type MCPClientHandlers,
+  type MCPElicitationRequest,
+  type MCPElicitationResult,
+  type MCPElicitationSchema,
+  type MCPPromptArgument,
+  type MCPPromptMessage,
+  type MCPPromptSpec,
+  type MCPResourceContents,
+  type MCPResourceSpec,
+  type MCPSamplingMessage,
+  type MCPSamplingRequest,
+  type MCPSamplingResult,
+  type MCPToolSpec,
+} from "../mcp-client";
+export { MCPNodeClient as MCPClient } from "./mcp-node-client";
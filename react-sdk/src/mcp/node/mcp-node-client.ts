@@ -0,0 +1,67 @@
+import type { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { WebSocketClientTransport } from "@modelcontextprotocol/sdk/client/websocket.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { TamboTracer } from "../../model/tambo-tracer";
+import {
+  MCPClient,
+  MCPTransport,
+  McpUnsupportedTransportError,
+} from "../mcp-client";
+import { parseCommandLine } from "./command-line";
+
+/**
+ * The MCP client for Node and Electron hosts, which can also launch local
+ * servers over stdio and connect to servers over WebSocket.
+ * @example
+ * ```typescript
+ * const mcp = await MCPClient.create(
+ *   "npx -y @modelcontextprotocol/server-memory",
+ *   MCPTransport.STDIO,
+ * );
+ * const tools = await mcp.listTools();
+ * ```
+ */
+export class MCPNodeClient extends MCPClient {
+  protected static createTransport(
+    endpoint: string,
+    transport: MCPTransport,
+    headers?: Record<string, string>,
+    authProvider?: OAuthClientProvider,
+    tracer?: TamboTracer,
+  ): Transport {
+    switch (transport) {
+      case MCPTransport.STDIO:
+        if (authProvider) {
+          throw new McpUnsupportedTransportError(
+            transport,
+            "The stdio transport cannot authorize with OAuth, pass the credentials of the server as headers, which become its environment variables",
+          );
+        }
+        // The server inherits a safe subset of the environment, plus the
+        // headers as environment variables
+        return new StdioClientTransport({
+          ...parseCommandLine(endpoint),
+          env: headers,
+          stderr: "inherit",
+        });
+      case MCPTransport.WEBSOCKET:
+        // The WebSocket API cannot set the headers of the handshake
+        if (headers || authProvider) {
+          throw new McpUnsupportedTransportError(
+            transport,
+            "The websocket transport cannot send headers or authorize with OAuth, pass credentials in the URL instead",
+          );
+        }
+        return new WebSocketClientTransport(new URL(endpoint));
+      default:
+        return super.createTransport(
+          endpoint,
+          transport,
+          headers,
+          authProvider,
+          tracer,
+        );
+    }
+  }
+}
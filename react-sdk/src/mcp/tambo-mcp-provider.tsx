@@ -1,86 +1,733 @@
-import { FC, useEffect } from "react";
-import { TamboTool } from "../model/component-metadata";
+import React, {
+  createContext,
+  FC,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { wrapWithTamboMessageProvider } from "../hooks/use-current-message";
+import { TamboTool, TamboToolCallContext } from "../model/component-metadata";
+import { TamboThreadMessage } from "../model/generate-component-response";
+import { TamboClientContext } from "../providers/tambo-client-provider";
+import { useTamboContextHelpers } from "../providers/tambo-context-helpers-provider";
 import { useTamboRegistry } from "../providers/tambo-registry-provider";
-import { MCPClient, MCPTransport } from "./mcp-client";
+import { TamboThreadContext } from "../providers/tambo-thread-provider";
+import { useTamboTracer } from "../providers/tambo-tracer-provider";
+import {
+  MCPClientHandlers,
+  MCPElicitationRequest,
+  MCPElicitationResult,
+  MCPPromptSpec,
+  MCPSamplingRequest,
+  MCPToolSpec,
+  MCPTransport,
+} from "./mcp-client";
+import {
+  getMcpElicitationContent,
+  getMcpElicitationFormFields,
+  McpElicitationFormField,
+  McpElicitationFormProps,
+} from "./mcp-elicitation";
+import { createMcpSamplingMessage } from "./mcp-sampling";
+import {
+  getMcpServerKey,
+  McpConnectionStatus,
+  McpServerConnection,
+  McpServerConnectionState,
+} from "./mcp-server-connection";
+import { McpServerInfo } from "./mcp-server-info";
+import {
+  getMcpToolErrorMessage,
+  getMcpToolResultContent,
+} from "./mcp-tool-result";
+import {
+  getMcpResourceContextName,
+  getMcpToolName,
+  getSharedMcpToolNames,
+  isMcpToolAllowed,
+  McpToolNameCollisionError,
+} from "./mcp-tool-names";
 
-export interface McpServerInfo {
-  name?: string;
+/** A prompt template exposed by an MCP server */
+export interface TamboMcpPrompt extends MCPPromptSpec {
+  /** The URL of the server that exposes the prompt */
+  serverUrl: string;
+  /** The name of the server that exposes the prompt, if it has one */
+  serverName?: string;
+}
+
+/** The connection to an MCP server of the `TamboMcpProvider` */
+export interface TamboMcpServer {
   url: string;
-  description?: string;
-  transport?: MCPTransport;
-  customHeaders?: Record<string, string>;
+  name?: string;
+  status: McpConnectionStatus;
+  /**
+   * Why the last connection attempt failed, why the connection was lost, or
+   * which of the server's tools were not registered because of their names
+   */
+  error?: string;
+  /** How many of the server's tools are registered */
+  toolCount: number;
+  /** How many prompts the server exposes */
+  promptCount: number;
+  /** Reconnect to the server now, e.g. after the connection gave up */
+  reconnect: () => void;
+  /**
+   * Sign in to the server in a login popup when its status is
+   * `unauthorized`. Call this from a click handler, or the browser blocks
+   * the popup.
+   */
+  authorize: () => Promise<void>;
+}
+
+export interface TamboMcpPromptsContextProps {
+  /** The prompts of all connected MCP servers */
+  prompts: TamboMcpPrompt[];
+  /**
+   * Fill in a prompt template, e.g. to put it in the message input when it is
+   * picked as a slash command.
+   * @param prompt - The prompt to fill in
+   * @param args - Values for the prompt's arguments
+   * @returns The text of the prompt's messages, separated by blank lines
+   */
+  getPrompt: (
+    prompt: TamboMcpPrompt,
+    args?: Record<string, string>,
+  ) => Promise<string>;
+}
+
+/** A request of an MCP server to generate a message with the Tambo model */
+export interface TamboMcpSamplingRequest extends MCPSamplingRequest {
+  /** The id of the request, pass this to `approve` or `deny` */
+  id: string;
+  serverUrl: string;
+  serverName?: string;
+}
+
+export interface TamboMcpSamplingContextProps {
+  /** The sampling requests that are waiting for the user's approval */
+  samplingRequests: TamboMcpSamplingRequest[];
+  /** Generate the requested message with the Tambo model */
+  approve: (id: string) => void;
+  /** Refuse the request, the server receives an error */
+  deny: (id: string) => void;
+}
+
+/** A request of an MCP server for information from the user */
+export interface TamboMcpElicitation extends MCPElicitationRequest {
+  /** The id of the request, pass this to `accept` or `decline` */
+  id: string;
+  serverUrl: string;
+  serverName?: string;
+  /** The fields of a form to ask for the information with */
+  fields: McpElicitationFormField[];
+}
+
+export interface TamboMcpElicitationContextProps {
+  /** The requests for information that are waiting for the user */
+  elicitations: TamboMcpElicitation[];
+  /**
+   * Send the information to the server.
+   * @param id - The id of the request
+   * @param data - The values of the form fields, by field id
+   */
+  accept: (id: string, data: Record<string, string>) => void;
+  /** Tell the server that the user does not want to provide the information */
+  decline: (id: string) => void;
 }
+
+interface TamboMcpContextProps extends TamboMcpPromptsContextProps {
+  servers: TamboMcpServer[];
+  sampling: TamboMcpSamplingContextProps;
+  elicitation: TamboMcpElicitationContextProps;
+}
+
+const TamboMcpContext = createContext<TamboMcpContextProps>({
+  prompts: [],
+  getPrompt: async () => {
+    throw new Error("TamboMcpProvider not found");
+  },
+  servers: [],
+  sampling: { samplingRequests: [], approve: () => {}, deny: () => {} },
+  elicitation: { elicitations: [], accept: () => {}, decline: () => {} },
+});
+
+// What is shown in the thread in place of the form of an answered request
+const ELICITATION_OUTCOMES: Record<MCPElicitationResult["action"], string> = {
+  accept: "Sent.",
+  decline: "Declined.",
+  cancel: "Cancelled.",
+};
+
+// Keeps the requests of MCP servers that wait for the user, until the user
+// answers them or the server cancels them
+const usePendingRequests = <T extends { id: string }, R>() => {
+  const [requests, setRequests] = useState<T[]>([]);
+  const pendingRef = useRef(
+    new Map<string, { request: T; resolve: (result: R) => void }>(),
+  );
+
+  const answer = useCallback((id: string, getResult: (request: T) => R) => {
+    const pending = pendingRef.current.get(id);
+    if (!pending) {
+      console.warn(`No pending MCP request with id ${id}`);
+      return;
+    }
+    pendingRef.current.delete(id);
+    setRequests((prev) => prev.filter((request) => request.id !== id));
+    pending.resolve(getResult(pending.request));
+  }, []);
+
+  const wait = useCallback(
+    async (request: T, signal: AbortSignal, cancelled: R): Promise<R> => {
+      if (signal.aborted) {
+        return cancelled;
+      }
+      const result = new Promise<R>((resolve) => {
+        pendingRef.current.set(request.id, { request, resolve });
+      });
+      const onAbort = () => answer(request.id, () => cancelled);
+      signal.addEventListener("abort", onAbort, { once: true });
+      setRequests((prev) => [...prev, request]);
+      try {
+        return await result;
+      } finally {
+        signal.removeEventListener("abort", onAbort);
+      }
+    },
+    [answer],
+  );
+
+  return { requests, wait, answer };
+};
+
 /**
- * This provider is used to register tools from MCP servers.
+ * This provider is used to connect to MCP servers, register their tools,
+ * include their resources as context, and expose their prompts.
+ * Connections are kept while a server stays in `mcpServers`, are retried
+ * with backoff when they fail or drop, and are closed when the server is
+ * removed or the provider unmounts.
+ * Servers can ask for information from the user, which is shown in the
+ * thread with `elicitationForm`, and can ask to generate messages with the
+ * Tambo model once the user approves, see `useTamboMcpSamplingRequests`.
+ * Servers can only make these requests when they are allowed.
  * @returns the wrapped children
  */
 export const TamboMcpProvider: FC<{
   mcpServers: (McpServerInfo | string)[];
+  /**
+   * The form to show requests of servers for information from the user in
+   * the thread with, e.g. the `form` component of the registry
+   */
+  elicitationForm?: React.ComponentType<McpElicitationFormProps>;
+  /**
+   * Let servers ask for information from the user. Defaults to true when
+   * there is an `elicitationForm`. Servers are told when they connect.
+   */
+  allowElicitation?: boolean;
+  /**
+   * Let servers ask to generate messages with the Tambo model, once the user
+   * approves. Servers are told when they connect.
+   */
+  allowSampling?: boolean;
   children: React.ReactNode;
-}> = ({ mcpServers, children }) => {
-  const { registerTool } = useTamboRegistry();
+}> = ({
+  mcpServers,
+  elicitationForm,
+  allowElicitation = elicitationForm !== undefined,
+  allowSampling = false,
+  children,
+}) => {
+  const { toolRegistry, registerTool, unregisterTool } = useTamboRegistry();
+  const { addContextHelper, removeContextHelper } = useTamboContextHelpers();
+  const tamboClient = useContext(TamboClientContext)?.client;
+  const threadContext = useContext(TamboThreadContext);
+  const tracer = useTamboTracer();
+  // The handlers of requests from servers outlive renders, so they read the
+  // latest values from a ref
+  const latestRef = useRef({ tamboClient, threadContext, elicitationForm });
+  latestRef.current = { tamboClient, threadContext, elicitationForm };
+  const {
+    requests: samplingRequests,
+    wait: waitForSampling,
+    answer: answerSampling,
+  } = usePendingRequests<TamboMcpSamplingRequest, boolean>();
+  const {
+    requests: elicitations,
+    wait: waitForElicitation,
+    answer: answerElicitation,
+  } = usePendingRequests<TamboMcpElicitation, MCPElicitationResult>();
+  // Connections by server key, see getMcpServerKey
+  const connectionsRef = useRef(new Map<string, McpServerConnection>());
+  const [connectionStates, setConnectionStates] = useState<
+    Record<string, McpServerConnectionState>
+  >({});
+  // The specs of the registered tools, by name. A tool is registered again
+  // when its spec changes, e.g. when the server is listed again after it
+  // reconnects, or when the tool name moves to another server.
+  const registeredToolsRef = useRef(new Map<string, MCPToolSpec>());
+  const loggedCollisionsRef = useRef(new Set<string>());
 
-  useEffect(() => {
-    if (!mcpServers) {
-      return;
-    }
-    async function registerMcpServers(mcpServers: (McpServerInfo | string)[]) {
-      // Maps tool names to the MCP client that registered them
-      const mcpServerMap = new Map<string, MCPClient>();
-      const serverToolLists = mcpServers.map(async (mcpServer) => {
-        const server =
+  const servers = useMemo(
+    () =>
+      (mcpServers ?? []).map(
+        (mcpServer): McpServerInfo =>
           typeof mcpServer === "string"
             ? { url: mcpServer, transport: MCPTransport.SSE }
-            : mcpServer;
-        const { url, transport = MCPTransport.SSE, customHeaders } = server;
-        const mcpClient = await MCPClient.create(url, transport, customHeaders);
-        const tools = await mcpClient.listTools();
-        tools.forEach((tool) => {
-          mcpServerMap.set(tool.name, mcpClient);
-        });
-        return tools;
-      });
-      const toolResults = await Promise.allSettled(serverToolLists);
+            : mcpServer,
+      ),
+    [mcpServers],
+  );
 
-      // Just log the failed tools, we can't do anything about them
-      const failedTools = toolResults.filter(
-        (result) => result.status === "rejected",
-      );
-      if (failedTools.length > 0) {
-        console.error(
-          "Failed to register tools from MCP servers:",
-          failedTools.map((result) => result.reason),
-        );
+  const acceptElicitation = useCallback(
+    (id: string, data: Record<string, string>) =>
+      answerElicitation(id, ({ requestedSchema }) => ({
+        action: "accept",
+        content: getMcpElicitationContent(requestedSchema, data),
+      })),
+    [answerElicitation],
+  );
+
+  const createHandlers = useCallback(
+    (server: McpServerInfo): MCPClientHandlers => ({
+      ...(allowSampling && {
+        sampling: async (request, signal) => {
+          const approved = await waitForSampling(
+            {
+              ...request,
+              id: crypto.randomUUID(),
+              serverUrl: server.url,
+              serverName: server.name,
+            },
+            signal,
+            false,
+          );
+          if (!approved) {
+            throw new Error("The user declined the sampling request");
+          }
+          const { tamboClient } = latestRef.current;
+          if (!tamboClient) {
+            throw new Error(
+              "Sampling requests need a TamboProvider around the TamboMcpProvider",
+            );
+          }
+          return await createMcpSamplingMessage(tamboClient, request);
+        },
+      }),
+      ...(allowElicitation && {
+        elicitation: async (request, signal) => {
+          const elicitation: TamboMcpElicitation = {
+            ...request,
+            id: crypto.randomUUID(),
+            serverUrl: server.url,
+            serverName: server.name,
+            fields: getMcpElicitationFormFields(request.requestedSchema),
+          };
+          const { threadContext, elicitationForm: ElicitationForm } =
+            latestRef.current;
+          const message: TamboThreadMessage = {
+            id: elicitation.id,
+            threadId: threadContext.thread.id,
+            role: "assistant",
+            content: [{ type: "text", text: elicitation.message }],
+            componentState: {},
+            createdAt: new Date().toISOString(),
+          };
+          if (ElicitationForm) {
+            void threadContext.addThreadMessage(
+              {
+                ...message,
+                renderedComponent: wrapWithTamboMessageProvider(
+                  <ElicitationForm
+                    fields={elicitation.fields}
+                    submitText="Send"
+                    onSubmit={(data) => acceptElicitation(elicitation.id, data)}
+                  />,
+                  message,
+                ),
+              },
+              false,
+            );
+          }
+          const result = await waitForElicitation(elicitation, signal, {
+            action: "cancel",
+          });
+          if (ElicitationForm) {
+            // The request is answered, so replace the form with the outcome
+            void latestRef.current.threadContext.updateThreadMessage(
+              message.id,
+              {
+                threadId: message.threadId,
+                renderedComponent: null,
+                content: [
+                  {
+                    type: "text",
+                    text: `${elicitation.message}\n\n${ELICITATION_OUTCOMES[result.action]}`,
+                  },
+                ],
+              },
+              false,
+            );
+          }
+          return result;
+        },
+      }),
+    }),
+    [
+      allowSampling,
+      allowElicitation,
+      waitForSampling,
+      waitForElicitation,
+      acceptElicitation,
+    ],
+  );
+
+  // Connect to new servers and close the connections of removed servers
+  useEffect(() => {
+    const connections = connectionsRef.current;
+    const serverKeys = new Set(servers.map(getMcpServerKey));
+    connections.forEach((connection, key) => {
+      if (!serverKeys.has(key)) {
+        connections.delete(key);
+        void connection.close();
+        setConnectionStates(({ [key]: _closed, ...rest }) => rest);
+      }
+    });
+    servers.forEach((server) => {
+      const key = getMcpServerKey(server);
+      if (connections.has(key)) {
+        return;
       }
+      const connection = new McpServerConnection(
+        server,
+        (state) => {
+          setConnectionStates((prev) => ({ ...prev, [key]: state }));
+        },
+        createHandlers(server),
+        tracer,
+      );
+      connections.set(key, connection);
+      setConnectionStates((prev) => ({
+        ...prev,
+        [key]: connection.getState(),
+      }));
+      connection.connect();
+    });
+  }, [servers, createHandlers, tracer]);
+
+  // Close all connections on unmount
+  useEffect(() => {
+    const connections = connectionsRef.current;
+    return () => {
+      connections.forEach((connection) => {
+        void connection.close();
+      });
+      connections.clear();
+    };
+  }, []);
+
+  // The names of the tools the app registered itself, which MCP tools must
+  // not replace
+  const localToolNames = useMemo(
+    () =>
+      Object.keys(toolRegistry)
+        .filter((name) => !registeredToolsRef.current.has(name))
+        .join("\n"),
+    [toolRegistry],
+  );
 
-      // Register the successful tools
-      const allTools = toolResults
-        .filter((result) => result.status === "fulfilled")
-        .map((result) => result.value)
-        .flat();
-      allTools.forEach((tool) => {
-        registerTool({
-          description: tool.description ?? "",
-          name: tool.name,
-          tool: async (args: Record<string, unknown>) => {
-            const mcpServer = mcpServerMap.get(tool.name);
-            if (!mcpServer) {
-              // should never happen
-              throw new Error(`MCP server for tool ${tool.name} not found`);
-            }
-            const result = await mcpServer.callTool(tool.name, args);
-            if (result.isError) {
-              // TODO: is there a better way to handle this?
-              throw new Error(`${result.content}`);
-            }
-            return result.content;
+  // Work out which tools to register, in the order of the servers so that
+  // the first server keeps a tool name that two servers would register
+  const { tools, collisions, toolCounts } = useMemo(() => {
+    const tools = new Map<string, { spec: MCPToolSpec; tool: TamboTool }>();
+    const toolServerUrls = new Map<string, string>();
+    const localTools = new Set(localToolNames.split("\n"));
+    // The tools of each server that were not registered, by server key
+    const collisions: Record<string, McpToolNameCollisionError[]> = {};
+    const toolCounts: Record<string, number> = {};
+    const serverTools = servers.map((server) =>
+      (connectionStates[getMcpServerKey(server)]?.tools ?? []).filter((tool) =>
+        isMcpToolAllowed(server, tool.name),
+      ),
+    );
+    // Only the names that would collide are prefixed with their server
+    const sharedNames = getSharedMcpToolNames(
+      servers.map((server, index) => ({
+        url: server.url,
+        toolNames: serverTools[index].map((tool) => tool.name),
+      })),
+      localTools,
+    );
+    servers.forEach((server, index) => {
+      const key = getMcpServerKey(server);
+      toolCounts[key] = 0;
+      collisions[key] = [];
+      serverTools[index].forEach((tool) => {
+        const name = getMcpToolName(
+          server,
+          tool.name,
+          sharedNames.has(getMcpToolName(server, tool.name, false)),
+        );
+        if (localTools.has(name)) {
+          collisions[key].push(new McpToolNameCollisionError(name, server.url));
+          return;
+        }
+        const existingServerUrl = toolServerUrls.get(name);
+        if (existingServerUrl !== undefined) {
+          if (existingServerUrl !== server.url) {
+            collisions[key].push(
+              new McpToolNameCollisionError(
+                name,
+                server.url,
+                existingServerUrl,
+              ),
+            );
+          }
+          return;
+        }
+        toolServerUrls.set(name, server.url);
+        toolCounts[key]++;
+        tools.set(name, {
+          spec: tool,
+          tool: {
+            description: tool.description ?? "",
+            name,
+            tool: async (
+              args: Record<string, unknown>,
+              context?: TamboToolCallContext,
+            ) => {
+              // Look up the client when the tool is called, so that the tool
+              // keeps working after the server reconnects
+              const mcpClient = connectionsRef.current.get(key)?.getClient();
+              if (!mcpClient) {
+                throw new Error(`MCP server ${server.url} is not connected`);
+              }
+              const result = await mcpClient.callTool(
+                tool.name,
+                args,
+                context?.signal,
+              );
+              if (result.isError) {
+                throw new Error(getMcpToolErrorMessage(tool.name, result));
+              }
+              return result;
+            },
+            transformToContent: getMcpToolResultContent,
+            toolSchema: tool.inputSchema as TamboTool["toolSchema"],
           },
-          toolSchema: tool.inputSchema as TamboTool["toolSchema"],
         });
       });
+    });
+    return { tools, collisions, toolCounts };
+  }, [servers, connectionStates, localToolNames]);
+
+  // Register new tools and unregister the tools of removed servers, or tools
+  // that a server no longer lists
+  useEffect(() => {
+    const registeredTools = registeredToolsRef.current;
+    registeredTools.forEach((spec, name) => {
+      if (tools.get(name)?.spec !== spec) {
+        unregisterTool(name);
+        registeredTools.delete(name);
+      }
+    });
+    tools.forEach(({ spec, tool }, name) => {
+      if (!registeredTools.has(name)) {
+        registerTool(tool);
+        registeredTools.set(name, spec);
+      }
+    });
+
+    // Log each collision once, not every time a server reconnects
+    const newCollisions = Object.values(collisions)
+      .flat()
+      .filter(({ message }) => !loggedCollisionsRef.current.has(message));
+    if (newCollisions.length > 0) {
+      newCollisions.forEach(({ message }) =>
+        loggedCollisionsRef.current.add(message),
+      );
+      console.error(
+        "Failed to register tools from MCP servers:",
+        newCollisions,
+      );
     }
-    registerMcpServers(mcpServers);
-  }, [mcpServers, registerTool]);
+  }, [tools, collisions, registerTool, unregisterTool]);
 
-  return children;
+  // Unregister all tools on unmount
+  useEffect(() => {
+    const registeredTools = registeredToolsRef.current;
+    return () => {
+      registeredTools.forEach((_spec, name) => {
+        unregisterTool(name);
+      });
+      registeredTools.clear();
+    };
+  }, [unregisterTool]);
+
+  // Include the selected resources as context, read when a message is sent
+  useEffect(() => {
+    const contextHelperNames = new Set<string>();
+    servers.forEach((server) => {
+      const key = getMcpServerKey(server);
+      server.resources?.forEach((uri) => {
+        // The first server keeps a resource that two servers would include
+        // under the same name
+        const name = getMcpResourceContextName(server, uri);
+        if (contextHelperNames.has(name)) {
+          return;
+        }
+        addContextHelper(name, async () => {
+          const mcpClient = connectionsRef.current.get(key)?.getClient();
+          if (!mcpClient) {
+            return null;
+          }
+          const contents = await mcpClient.readResource(uri);
+          // Binary resources are left out, they cannot be sent as context
+          const texts = contents.flatMap(({ text }) =>
+            text !== undefined ? [text] : [],
+          );
+          return texts.length > 0 ? texts.join("\n") : null;
+        });
+        contextHelperNames.add(name);
+      });
+    });
+    return () => {
+      contextHelperNames.forEach((name) => {
+        removeContextHelper(name);
+      });
+    };
+  }, [servers, addContextHelper, removeContextHelper]);
+
+  const prompts = useMemo(
+    () =>
+      servers.flatMap((server): TamboMcpPrompt[] => {
+        const state = connectionStates[getMcpServerKey(server)];
+        return (state?.prompts ?? []).map((prompt) => ({
+          ...prompt,
+          serverUrl: server.url,
+          serverName: server.name,
+        }));
+      }),
+    [servers, connectionStates],
+  );
+
+  const getPrompt = useCallback(
+    async (prompt: TamboMcpPrompt, args: Record<string, string> = {}) => {
+      const connection = Array.from(connectionsRef.current.values()).find(
+        ({ server }) => server.url === prompt.serverUrl,
+      );
+      const mcpClient = connection?.getClient();
+      if (!mcpClient) {
+        throw new Error(`MCP server ${prompt.serverUrl} is not connected`);
+      }
+      const messages = await mcpClient.getPrompt(prompt.name, args);
+      return messages
+        .map(({ text }) => text)
+        .filter(Boolean)
+        .join("\n\n");
+    },
+    [],
+  );
+
+  const serverStatuses = useMemo(
+    () =>
+      servers.map((server): TamboMcpServer => {
+        const key = getMcpServerKey(server);
+        const state = connectionStates[key];
+        return {
+          url: server.url,
+          name: server.name,
+          status: state?.status ?? "connecting",
+          error:
+            state?.error ??
+            (collisions[key]?.length
+              ? collisions[key].map(({ message }) => message).join("\n")
+              : undefined),
+          toolCount: toolCounts[key] ?? 0,
+          promptCount: state?.prompts.length ?? 0,
+          reconnect: () => connectionsRef.current.get(key)?.reconnect(),
+          authorize: async () =>
+            await connectionsRef.current.get(key)?.authorize(),
+        };
+      }),
+    [servers, connectionStates, toolCounts, collisions],
+  );
+
+  const sampling = useMemo(
+    (): TamboMcpSamplingContextProps => ({
+      samplingRequests,
+      approve: (id) => answerSampling(id, () => true),
+      deny: (id) => answerSampling(id, () => false),
+    }),
+    [samplingRequests, answerSampling],
+  );
+
+  const elicitation = useMemo(
+    (): TamboMcpElicitationContextProps => ({
+      elicitations,
+      accept: acceptElicitation,
+      decline: (id) => answerElicitation(id, () => ({ action: "decline" })),
+    }),
+    [elicitations, acceptElicitation, answerElicitation],
+  );
+
+  const value = useMemo(
+    () => ({
+      prompts,
+      getPrompt,
+      servers: serverStatuses,
+      sampling,
+      elicitation,
+    }),
+    [prompts, getPrompt, serverStatuses, sampling, elicitation],
+  );
+
+  return (
+    <TamboMcpContext.Provider value={value}>
+      {children}
+    </TamboMcpContext.Provider>
+  );
+};
+
+/**
+ * The prompt templates exposed by the MCP servers of the `TamboMcpProvider`,
+ * e.g. for offering them as slash commands in the message input. Outside a
+ * `TamboMcpProvider` there are no prompts.
+ * @returns The prompts, and a function to fill one in
+ */
+export const useTamboMcpPrompts = (): TamboMcpPromptsContextProps => {
+  const { prompts, getPrompt } = useContext(TamboMcpContext);
+  return useMemo(() => ({ prompts, getPrompt }), [prompts, getPrompt]);
+};
+
+/**
+ * The MCP servers of the `TamboMcpProvider` and the state of their
+ * connections, e.g. for showing which servers are connected. Outside a
+ * `TamboMcpProvider` there are no servers.
+ * @returns The servers, in the order of `mcpServers`
+ */
+export const useTamboMcpServers = (): TamboMcpServer[] => {
+  return useContext(TamboMcpContext).servers;
+};
+
+/**
+ * The requests of MCP servers to generate a message with the Tambo model,
+ * e.g. for a server that summarizes a document with the client's model.
+ * Each request waits until the user approves or denies it.
+ * @returns The pending requests, and the actions to approve or deny them
+ */
+export const useTamboMcpSamplingRequests = (): TamboMcpSamplingContextProps => {
+  return useContext(TamboMcpContext).sampling;
+};
+
+/**
+ * The requests of MCP servers for information from the user. They are also
+ * shown in the thread when the `TamboMcpProvider` has an `elicitationForm`.
+ * @returns The pending requests, and the actions to answer them
+ */
+export const useTamboMcpElicitations = (): TamboMcpElicitationContextProps => {
+  return useContext(TamboMcpContext).elicitation;
 };
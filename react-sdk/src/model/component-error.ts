@@ -0,0 +1,32 @@
+/** A single problem found in the props the model picked for a component */
+export interface ComponentPropIssue {
+  /** Where the problem is, e.g. `items.0.title`, or `props` for the whole object */
+  path: string;
+  /** What is wrong with the value at that path */
+  message: string;
+}
+
+/**
+ * Why the component of a message could not be rendered. The rest of the
+ * thread keeps working, and the message shows the `errorComponent` of the
+ * component instead, if it has one.
+ */
+export interface TamboComponentError {
+  /**
+   * `unknown_component` when the model picked a component that is not
+   * registered, `invalid_props` when the props do not match the component's
+   * schema, and `render_error` when the component threw while rendering
+   */
+  reason: "unknown_component" | "invalid_props" | "render_error";
+  componentName: string;
+  message: string;
+  /** The problems found in the props, for `invalid_props` */
+  issues: ComponentPropIssue[];
+}
+
+/** The props of the `errorComponent` of a registered component */
+export interface TamboComponentErrorProps {
+  error: TamboComponentError;
+  /** The props the model picked */
+  props: Record<string, unknown>;
+}
@@ -3,6 +3,7 @@ import { JSONSchema7 } from "json-schema";
 import { ComponentType } from "react";
 import z from "zod";
 import type zodToJsonSchema from "zod-to-json-schema";
+import { TamboComponentErrorProps } from "./component-error";
 /** Extension of the ToolParameters interface from Tambo AI to include JSONSchema definition */
 export type ParameterSpec = TamboAI.ToolParameters & {
   schema?: ReturnType<typeof zodToJsonSchema>;
@@ -20,16 +21,43 @@ export interface ComponentContextToolMetadata
 export interface ComponentContextTool {
   getComponentContext: (...args: any[]) => Promise<any>;
   definition: ComponentContextToolMetadata;
+  timeoutMs?: number;
+  retry?: TamboToolRetryPolicy;
 }
 
 export interface RegisteredComponent extends TamboAI.AvailableComponent {
   component: ComponentType<any>;
   loadingComponent?: ComponentType<any>;
+  /** Rendered instead of the component when it cannot be rendered */
+  errorComponent?: ComponentType<TamboComponentErrorProps>;
+  /** The Zod schema the props are validated with, if it was registered with one */
+  propsSchema?: z.ZodTypeAny;
+  /** Starts loading a component registered with `load`, once */
+  preload?: () => Promise<unknown>;
+  /** The version of the props, see {@link TamboComponent.version} */
+  version?: number;
+  /** Upgrades the props of older versions, see {@link TamboComponent.migrations} */
+  migrations?: TamboComponentMigrations;
 }
 
+/** Loads the module of a lazy component, like the factory of `React.lazy` */
+export type TamboComponentLoader = () => Promise<{
+  default: ComponentType<any>;
+}>;
+
+/**
+ * Upgrades the props of messages rendered with older versions of a component,
+ * keyed by the version each migration upgrades to: `migrations[2]` gets the
+ * props of version 1 and returns the props of version 2.
+ */
+export type TamboComponentMigrations = Record<
+  number,
+  (props: Record<string, any>) => Record<string, any>
+>;
+
 export type ComponentRegistry = Record<string, RegisteredComponent>;
 
-export type TamboToolRegistry = Record<string, TamboTool>;
+export type TamboToolRegistry = Record<string, TamboAnyTool>;
 
 /**
  * A JSON Schema that is compatible with the MCP.
@@ -41,16 +69,127 @@ export type JSONSchemaLite = ReturnType<typeof zodToJsonSchema> & {
   description?: string;
 };
 
+/**
+ * Passed to a tool as an additional, final argument after the tool's own
+ * arguments.
+ */
+export interface TamboToolCallContext {
+  /**
+   * Aborted when the tool call times out or the user cancels the generation.
+   * Pass this to `fetch` or any other cancellable work inside the tool.
+   */
+  signal: AbortSignal;
+  /**
+   * Report progress of a long-running tool. The message is shown as the
+   * generation status message and on the tool call message.
+   * @param message - What the tool is currently doing
+   * @param fraction - How much of the work is done, between 0 and 1
+   */
+  reportProgress: (message: string, fraction?: number) => void;
+}
+
+/**
+ * A progress update from a long-running tool. Tools that are async
+ * generators yield these, and return their result.
+ */
+export interface TamboToolProgress {
+  /** What the tool is currently doing */
+  message?: string;
+  /** How much of the work is done, between 0 and 1 */
+  fraction?: number;
+}
+
+/**
+ * Controls how a failing tool call is retried.
+ */
+export interface TamboToolRetryPolicy {
+  /** The number of times to retry after the first attempt fails */
+  maxRetries: number;
+  /**
+   * The delay before the first retry, in milliseconds. The delay doubles
+   * with each subsequent retry. Defaults to 0.
+   */
+  delayMs?: number;
+}
+
+interface TamboToolBase {
+  name: string;
+  description: string;
+  /**
+   * The maximum time a single attempt of the tool may take, in milliseconds.
+   * When exceeded, the tool's signal is aborted and the call fails.
+   */
+  timeoutMs?: number;
+  /** Retry the tool call when it throws or times out */
+  retry?: TamboToolRetryPolicy;
+  /**
+   * Converts the tool's result to the content of the tool response, e.g. to
+   * send images back to the model. By default the result is sent as text,
+   * serialized as JSON when it is not a string.
+   */
+  transformToContent?: (
+    result: any,
+  ) =>
+    | TamboAI.Beta.Threads.ChatCompletionContentPart[]
+    | Promise<TamboAI.Beta.Threads.ChatCompletionContentPart[]>;
+}
+
+/**
+ * A tool that is called with positional arguments, described by a Zod
+ * function schema or a JSON Schema. The model sees the arguments as
+ * `param1`, `param2`, and so on. Tools that take a single object are
+ * {@link TamboObjectTool}s.
+ */
 export interface TamboTool<
   Args extends z.ZodTuple<any, any> = z.ZodTuple<any, any>,
   Returns extends z.ZodTypeAny = z.ZodTypeAny,
-> {
-  name: string;
-  description: string;
+> extends TamboToolBase {
+  /**
+   * The function to call. It receives the tool's arguments, followed by a
+   * {@link TamboToolCallContext}, which it may declare as an optional final
+   * parameter. It may also be an async generator that yields
+   * {@link TamboToolProgress} updates and returns the result.
+   */
   tool: (...args: z.infer<Args>) => z.infer<Returns>;
   toolSchema: z.ZodFunction<Args, Returns> | JSONSchemaLite;
+  /**
+   * Whether the user must approve a call to this tool before it runs. Pass a
+   * function to decide based on the arguments of each call. Approvals are
+   * handled with `usePendingToolApprovals`.
+   */
+  requiresApproval?:
+    | boolean
+    | ((...args: z.infer<Args>) => boolean | Promise<boolean>);
+}
+
+/**
+ * A tool that is called with a single object. The keys of `inputSchema` are
+ * the parameter names the model sees, so describe each key with
+ * `.describe()`.
+ */
+export interface TamboObjectTool<Input extends z.AnyZodObject = z.AnyZodObject>
+  extends TamboToolBase {
+  /**
+   * The function to call. It receives the parsed input, followed by a
+   * {@link TamboToolCallContext}. It may also be an async generator that
+   * yields {@link TamboToolProgress} updates and returns the result.
+   */
+  tool: (input: z.infer<Input>, context: TamboToolCallContext) => any;
+  inputSchema: Input;
+  toolSchema?: never;
+  /**
+   * Whether the user must approve a call to this tool before it runs. Pass a
+   * function to decide based on the input of each call. Approvals are
+   * handled with `usePendingToolApprovals`.
+   */
+  requiresApproval?:
+    | boolean
+    | ((input: z.infer<Input>) => boolean | Promise<boolean>);
 }
 
+/** A tool with positional arguments, or one that takes a single object */
+export type TamboAnyTool = TamboTool | TamboObjectTool;
+
 export type TamboToolAssociations = Record<string, string[]>;
 /**
  * A component that can be registered with the TamboRegistryProvider.
@@ -79,8 +218,19 @@ export interface TamboComponent {
    * const components = [MyComponent];
    * <TamboRegistryProvider components={components} />
    * ```
+   *
+   * Either this or `load` must be provided, but not both.
    */
-  component: ComponentType<any>;
+  component?: ComponentType<any>;
+  /**
+   * Loads the React component the first time it is needed, so that it is
+   * split from the initial bundle, e.g. `() => import("./weather-map")`. The
+   * module must export the component as its default export. The
+   * `loadingComponent` is rendered while it loads, and every lazy component
+   * starts loading when the model is choosing a component.
+   * Either this or `component` must be provided, but not both.
+   */
+  load?: TamboComponentLoader;
 
   /**
    * A zod schema for the component props. (Recommended)
@@ -95,6 +245,23 @@ export interface TamboComponent {
   propsDefinition?: any;
   /** The loading component to render while the component is loading */
   loadingComponent?: ComponentType<any>;
+  /**
+   * Rendered instead of the component when its props do not match the
+   * `propsSchema` or the component throws while rendering
+   */
+  errorComponent?: ComponentType<TamboComponentErrorProps>;
+  /**
+   * The version of the props. Increase it when the `propsSchema` changes in a
+   * way that older props do not match, and add a migration for it. The
+   * version is recorded with each message the model generates, and messages
+   * without one are version 1.
+   */
+  version?: number;
+  /**
+   * Upgrades the props of older messages to the current `version` before
+   * they are validated, keyed by the version each migration upgrades to
+   */
+  migrations?: TamboComponentMigrations;
   /** The tools that are associated with the component */
-  associatedTools?: TamboTool[];
+  associatedTools?: TamboAnyTool[];
 }
@@ -1,5 +1,6 @@
 import TamboAI from "@tambo-ai/typescript-sdk";
 import { ReactElement } from "react";
+import { TamboComponentError } from "./component-error";
 
 /**
  * An extension of the TamboAI.Beta.Threads.ThreadMessage type that includes a
@@ -7,12 +8,29 @@ import { ReactElement } from "react";
  */
 export interface TamboThreadMessage extends TamboAI.Beta.Threads.ThreadMessage {
   renderedComponent?: ReactElement | null;
+  /** The status of the tool call requested by this message, if any */
+  toolCallStatus?: TamboToolCallStatus;
+  /** Why the component of this message could not be rendered, if it could not */
+  componentError?: TamboComponentError;
+}
+
+/**
+ * The client-side status of a tool call while the tool runs.
+ */
+export interface TamboToolCallStatus {
+  state: "running" | "complete" | "error";
+  /** The latest progress message reported by the tool */
+  progressMessage?: string;
+  /** How much of the work is done, between 0 and 1 */
+  progress?: number;
 }
 
 export enum GenerationStage {
   IDLE = "IDLE",
   CHOOSING_COMPONENT = "CHOOSING_COMPONENT",
   FETCHING_CONTEXT = "FETCHING_CONTEXT",
+  /** Waiting for the user to approve or deny one or more tool calls */
+  AWAITING_APPROVAL = "AWAITING_APPROVAL",
   HYDRATING_COMPONENT = "HYDRATING_COMPONENT",
   STREAMING_RESPONSE = "STREAMING_RESPONSE",
   COMPLETE = "COMPLETE",
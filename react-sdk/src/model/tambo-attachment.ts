@@ -0,0 +1,80 @@
+/**
+ * A file attached to a user message. Images are sent to the model as images,
+ * text files like CSVs are sent as text, and other files are sent as a link
+ * to the URL they were uploaded to.
+ */
+export interface TamboAttachment {
+  /** The file name */
+  name: string;
+  /** The MIME type of the file, e.g. `image/png` or `text/csv` */
+  mimeType: string;
+  /** The size of the file, in bytes */
+  size: number;
+  /** The file as a data URL, or the URL it was uploaded to */
+  url?: string;
+  /** The contents of text files, like CSVs */
+  text?: string;
+}
+
+/**
+ * What is kept of each attachment in the `metadata.attachments` of a user
+ * message, for showing the attachments without their contents.
+ */
+export interface TamboAttachmentMetadata
+  extends Pick<TamboAttachment, "name" | "mimeType" | "size"> {
+  /** The index of the content part the attachment was sent as */
+  contentIndex: number;
+}
+
+/**
+ * Uploads an attached file and returns the URL it can be downloaded from.
+ * Without an upload function, images are sent as data URLs and text files as
+ * text, and other files cannot be attached.
+ */
+export type TamboAttachmentUploader = (
+  file: File,
+  options: {
+    /** Report upload progress, between 0 and 1 */
+    onProgress: (fraction: number) => void;
+    /** Aborted when the attachment is removed before it is uploaded */
+    signal: AbortSignal;
+  },
+) => Promise<string>;
+
+/** Which files can be attached to a message */
+export interface TamboAttachmentOptions {
+  /**
+   * The MIME types that can be attached. Entries ending in `/*` match any
+   * subtype. Defaults to common image types, PDFs, CSVs and plain text.
+   */
+  accept?: string[];
+  /** The maximum file size, in bytes. Defaults to 10 MB. */
+  maxSize?: number;
+  /** Uploads attachments instead of sending them inline */
+  uploadAttachment?: TamboAttachmentUploader;
+}
+
+export const DEFAULT_ATTACHMENT_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/csv",
+  "text/plain",
+];
+
+export const DEFAULT_MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Thrown when a file cannot be attached, because of its type or size.
+ */
+export class AttachmentError extends Error {
+  constructor(
+    readonly fileName: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
@@ -0,0 +1,98 @@
+import TamboAI from "@tambo-ai/typescript-sdk";
+import { TamboComponentError } from "./component-error";
+import {
+  GenerationStage,
+  TamboThreadMessage,
+} from "./generate-component-response";
+
+interface TamboEventBase {
+  /** When the event happened, in milliseconds since the epoch */
+  timestamp: number;
+}
+
+/** A user message was sent to the Tambo API */
+export interface TamboMessageSentEvent extends TamboEventBase {
+  type: "message_sent";
+  /** The thread the message was sent to, `placeholder` for a new thread */
+  threadId: string;
+  message: TamboThreadMessage;
+}
+
+/** A chunk of a streamed response arrived */
+export interface TamboStreamChunkEvent extends TamboEventBase {
+  type: "stream_chunk";
+  threadId: string;
+  /** The response message so far */
+  message: TamboAI.Beta.Threads.ThreadMessage;
+}
+
+/** A tool the model requested started running */
+export interface TamboToolCallStartedEvent extends TamboEventBase {
+  type: "tool_call_started";
+  threadId: string;
+  /** The message that contains the tool call request */
+  messageId: string;
+  toolName: string;
+  parameters: TamboAI.ToolCallRequest["parameters"];
+}
+
+/** A tool the model requested finished running */
+export interface TamboToolCallFinishedEvent extends TamboEventBase {
+  type: "tool_call_finished";
+  threadId: string;
+  /** The message that contains the tool call request */
+  messageId: string;
+  toolName: string;
+  /** How long the tool ran */
+  durationMs: number;
+  /** Why the tool call failed, if it did */
+  error?: string;
+}
+
+/** A response with a component was rendered */
+export interface TamboComponentRenderedEvent extends TamboEventBase {
+  type: "component_rendered";
+  threadId: string;
+  messageId: string;
+  componentName: string;
+}
+
+/** The component of a response could not be rendered */
+export interface TamboComponentErrorEvent extends TamboEventBase {
+  type: "component_error";
+  threadId: string;
+  messageId: string;
+  error: TamboComponentError;
+}
+
+/** A thread moved to another generation stage */
+export interface TamboGenerationStageChangedEvent extends TamboEventBase {
+  type: "generation_stage_changed";
+  threadId: string;
+  generationStage: GenerationStage;
+  previousGenerationStage: GenerationStage;
+  statusMessage?: string;
+}
+
+/** The session token for the `userToken` was fetched or refreshed */
+export interface TamboTokenRefreshedEvent extends TamboEventBase {
+  type: "token_refreshed";
+  /** How long the token exchange took */
+  durationMs: number;
+  /** Why the token exchange failed, if it did */
+  error?: string;
+}
+
+/**
+ * Something that happened while Tambo ran, passed to the `onEvent` prop of the
+ * `TamboProvider`. Use `type` to tell the events apart.
+ */
+export type TamboEvent =
+  | TamboMessageSentEvent
+  | TamboStreamChunkEvent
+  | TamboToolCallStartedEvent
+  | TamboToolCallFinishedEvent
+  | TamboComponentRenderedEvent
+  | TamboComponentErrorEvent
+  | TamboGenerationStageChangedEvent
+  | TamboTokenRefreshedEvent;
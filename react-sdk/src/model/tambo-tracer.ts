@@ -0,0 +1,38 @@
+/** The attributes recorded on a span, e.g. the thread id or tool name */
+export type TamboSpanAttributes = Record<
+  string,
+  string | number | boolean | undefined
+>;
+
+/** A span that is running, passed to the function the span measures */
+export interface TamboSpan {
+  /** Record more attributes once they are known, e.g. the created thread id */
+  setAttributes: (attributes: TamboSpanAttributes) => void;
+  /**
+   * Mark the span as failed without throwing, e.g. for a tool call that
+   * returns its error to the model
+   */
+  setError: (message: string) => void;
+}
+
+/**
+ * Creates spans for the work Tambo does and the trace headers to send with
+ * requests. Pass one to the `tracer` prop of the `TamboProvider`, e.g. the
+ * OpenTelemetry tracer from `@tambo-ai/react/otel`.
+ */
+export interface TamboTracer {
+  /**
+   * Run `fn` in a new span, which ends when the returned promise settles and
+   * is marked as failed when it rejects.
+   */
+  startSpan: <T>(
+    name: string,
+    attributes: TamboSpanAttributes,
+    fn: (span: TamboSpan) => Promise<T>,
+  ) => Promise<T>;
+  /**
+   * The headers that continue the current trace in another service, e.g.
+   * `traceparent`. Called synchronously at the start of a span's function.
+   */
+  getTraceHeaders: () => Record<string, string>;
+}
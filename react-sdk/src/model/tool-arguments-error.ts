@@ -0,0 +1,24 @@
+/** A single problem found in the arguments of a tool call */
+export interface ToolArgumentIssue {
+  /** Where the problem is, e.g. `param1` or `args.address.city` */
+  path: string;
+  /** What is wrong with the value at that path */
+  message: string;
+}
+
+/**
+ * Thrown when a tool is called with arguments that do not match its schema.
+ */
+export class ToolArgumentsError extends Error {
+  constructor(
+    readonly toolName: string,
+    readonly issues: ToolArgumentIssue[],
+  ) {
+    super(
+      `Invalid arguments for tool ${toolName}: ${issues
+        .map((issue) => `${issue.path}: ${issue.message}`)
+        .join("; ")}`,
+    );
+    this.name = "ToolArgumentsError";
+  }
+}
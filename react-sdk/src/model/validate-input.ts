@@ -1,3 +1,5 @@
+import { TamboAttachment } from "./tambo-attachment";
+
 export interface ValidationResult {
   isValid: boolean;
   error?: Error;
@@ -6,13 +8,18 @@ export interface ValidationResult {
 
 /**
  * Validates the input of a message. Makes sure the message is not empty and is not too long.
+ * A message with attachments may have no text.
  * @param input - The input to validate
+ * @param attachments - The files attached to the message
  * @returns The validation result
  */
-export function validateInput(input: string): ValidationResult {
+export function validateInput(
+  input: string,
+  attachments: TamboAttachment[] = [],
+): ValidationResult {
   const trimmed = input.trim();
 
-  if (trimmed.length === 0) {
+  if (trimmed.length === 0 && attachments.length === 0) {
     return {
       isValid: false,
       error: new Error("Message cannot be empty"),
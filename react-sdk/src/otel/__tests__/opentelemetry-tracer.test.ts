@@ -0,0 +1,111 @@
+import {
+  propagation,
+  type Span,
+  SpanStatusCode,
+  type TextMapPropagator,
+  type Tracer,
+} from "@opentelemetry/api";
+import { createOpenTelemetryTracer } from "../opentelemetry-tracer";
+
+describe("createOpenTelemetryTracer", () => {
+  const createSpan = () =>
+    ({
+      setAttributes: jest.fn(),
+      setStatus: jest.fn(),
+      recordException: jest.fn(),
+      end: jest.fn(),
+    }) as unknown as jest.Mocked<Span>;
+
+  const createOtelTracer = (span: Span) =>
+    ({
+      startActiveSpan: jest.fn(
+        (_name: string, _options: unknown, fn: (span: Span) => unknown) =>
+          fn(span),
+      ),
+    }) as unknown as jest.Mocked<Tracer>;
+
+  afterEach(() => {
+    propagation.disable();
+  });
+
+  it("should end the span after the function resolves", async () => {
+    const span = createSpan();
+    const otelTracer = createOtelTracer(span);
+    const tracer = createOpenTelemetryTracer({ tracer: otelTracer });
+
+    const result = await tracer.startSpan(
+      "tambo.tool_call",
+      { "tambo.tool_name": "lookup" },
+      async (tamboSpan) => {
+        tamboSpan.setAttributes({ "tambo.thread_id": "thread-1" });
+        return "done";
+      },
+    );
+
+    expect(result).toBe("done");
+    expect(otelTracer.startActiveSpan).toHaveBeenCalledWith(
+      "tambo.tool_call",
+      { attributes: { "tambo.tool_name": "lookup" } },
+      expect.any(Function),
+    );
+    expect(span.setAttributes).toHaveBeenCalledWith({
+      "tambo.thread_id": "thread-1",
+    });
+    expect(span.setStatus).not.toHaveBeenCalled();
+    expect(span.end).toHaveBeenCalledTimes(1);
+  });
+
+  it("should record the error when the function rejects", async () => {
+    const span = createSpan();
+    const tracer = createOpenTelemetryTracer({
+      tracer: createOtelTracer(span),
+    });
+    const error = new Error("Request failed");
+
+    await expect(
+      tracer.startSpan("tambo.advance", {}, async () => {
+        throw error;
+      }),
+    ).rejects.toThrow(error);
+
+    expect(span.recordException).toHaveBeenCalledWith(error);
+    expect(span.setStatus).toHaveBeenCalledWith({
+      code: SpanStatusCode.ERROR,
+      message: "Request failed",
+    });
+    expect(span.end).toHaveBeenCalledTimes(1);
+  });
+
+  it("should mark the span as failed with setError", async () => {
+    const span = createSpan();
+    const tracer = createOpenTelemetryTracer({
+      tracer: createOtelTracer(span),
+    });
+
+    await tracer.startSpan("tambo.tool_call", {}, async (tamboSpan) => {
+      tamboSpan.setError("Tool failed");
+    });
+
+    expect(span.setStatus).toHaveBeenCalledWith({
+      code: SpanStatusCode.ERROR,
+      message: "Tool failed",
+    });
+  });
+
+  it("should get the trace headers from the global propagator", () => {
+    const propagator: TextMapPropagator = {
+      inject: (_context, carrier, setter) => {
+        setter.set(carrier, "traceparent", "00-trace-span-01");
+      },
+      extract: (context) => context,
+      fields: () => ["traceparent"],
+    };
+    propagation.setGlobalPropagator(propagator);
+
+    const tracer = createOpenTelemetryTracer();
+
+    expect(tracer.getTraceHeaders()).toEqual({
+      traceparent: "00-trace-span-01",
+    });
+  });
+});
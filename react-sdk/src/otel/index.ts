@@ -0,0 +1,9 @@
+export type {
+  TamboSpan,
+  TamboSpanAttributes,
+  TamboTracer,
+} from "../model/tambo-tracer";
+export {
+  createOpenTelemetryTracer,
+  type OpenTelemetryTracerOptions,
+} from "./opentelemetry-tracer";
@@ -0,0 +1,58 @@
+import {
+  context,
+  propagation,
+  SpanStatusCode,
+  trace,
+  type Tracer,
+} from "@opentelemetry/api";
+import { TamboTracer } from "../model/tambo-tracer";
+
+export interface OpenTelemetryTracerOptions {
+  /**
+   * The tracer to create the spans with. Defaults to the `@tambo-ai/react`
+   * tracer of the global tracer provider.
+   */
+  tracer?: Tracer;
+}
+
+/**
+ * Create a tracer for the `tracer` prop of the `TamboProvider` that reports
+ * spans to OpenTelemetry, and sends the trace headers of the configured
+ * propagator (W3C `traceparent` by default) to the Tambo API and MCP servers.
+ * @param options - The options of the tracer
+ * @returns The tracer
+ */
+export const createOpenTelemetryTracer = (
+  options: OpenTelemetryTracerOptions = {},
+): TamboTracer => {
+  const tracer = options.tracer ?? trace.getTracer("@tambo-ai/react");
+  return {
+    startSpan: async (name, attributes, fn) =>
+      await tracer.startActiveSpan(name, { attributes }, async (span) => {
+        try {
+          return await fn({
+            setAttributes: (attributes) => {
+              span.setAttributes(attributes);
+            },
+            setError: (message) => {
+              span.setStatus({ code: SpanStatusCode.ERROR, message });
+            },
+          });
+        } catch (error) {
+          span.recordException(error instanceof Error ? error : String(error));
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: error instanceof Error ? error.message : String(error),
+          });
+          throw error;
+        } finally {
+          span.end();
+        }
+      }),
+    getTraceHeaders: () => {
+      const headers: Record<string, string> = {};
+      propagation.inject(context.active(), headers);
+      return headers;
+    },
+  };
+};
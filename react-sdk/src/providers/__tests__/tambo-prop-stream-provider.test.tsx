@@ -72,6 +72,10 @@ const createMockThreadContext = (
   cancel: jest.fn(),
   streaming: false,
   sendThreadMessage: jest.fn(),
+  editMessage: jest.fn(),
+  regenerate: jest.fn(),
+  getMessageBranches: jest.fn(),
+  switchBranch: jest.fn(),
   // GenerationStageContextProps properties
   generationStage: GenerationStage.IDLE,
   generationStatusMessage: "",
@@ -0,0 +1,369 @@
+import TamboAI from "@tambo-ai/typescript-sdk";
+import { act, renderHook } from "@testing-library/react";
+import React from "react";
+import { GenerationStage } from "../../model/generate-component-response";
+import { TamboThread } from "../../model/tambo-thread";
+import { useTamboClient } from "../tambo-client-provider";
+import { TamboContextHelpersProvider } from "../tambo-context-helpers-provider";
+import { TamboRegistryProvider } from "../tambo-registry-provider";
+import { TamboThreadProvider, useTamboThread } from "../tambo-thread-provider";
+
+jest.mock("../tambo-client-provider", () => ({
+  useTamboClient: jest.fn(),
+}));
+jest.mock("@tambo-ai/typescript-sdk", () => ({
+  advanceStream: jest.fn(),
+}));
+
+const createMessage = (
+  id: string,
+  threadId: string,
+  role: "user" | "assistant",
+  text: string,
+) => ({
+  id,
+  threadId,
+  role,
+  content: [{ type: "text" as const, text }],
+  componentState: {},
+  createdAt: "2024-01-01T00:00:00Z",
+});
+
+const originalThread: TamboThread = {
+  id: "thread-1",
+  messages: [
+    createMessage("message-1", "thread-1", "user", "What is the weather?"),
+    createMessage("message-2", "thread-1", "assistant", "It is sunny"),
+    createMessage("message-3", "thread-1", "user", "And tomorrow?"),
+    createMessage("message-4", "thread-1", "assistant", "Rainy"),
+  ],
+  createdAt: "2024-01-01T00:00:00Z",
+  projectId: "project-1",
+  updatedAt: "2024-01-01T00:00:00Z",
+  metadata: {},
+};
+
+describe("TamboThreadProvider branches", () => {
+  const mockThreadsApi = {
+    create: jest.fn(),
+    messages: { create: jest.fn() },
+    retrieve: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    advance: jest.fn(),
+    advanceById: jest.fn(),
+  };
+  const mockClient = {
+    beta: {
+      threads: mockThreadsApi,
+      projects: { getCurrent: jest.fn() },
+    },
+  } as unknown as TamboAI;
+
+  // The threads as stored on the server
+  let serverThreads: Record<string, TamboThread>;
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <TamboRegistryProvider components={[]}>
+      <TamboContextHelpersProvider
+        contextHelpers={{
+          currentTimeContextHelper: () => null,
+          currentPageContextHelper: () => null,
+        }}
+      >
+        <TamboThreadProvider streaming={false}>{children}</TamboThreadProvider>
+      </TamboContextHelpersProvider>
+    </TamboRegistryProvider>
+  );
+
+  beforeEach(() => {
+    serverThreads = { [originalThread.id]: originalThread };
+    let threadCount = 1;
+    let messageCount = 0;
+    jest.mocked(useTamboClient).mockReturnValue(mockClient);
+    jest.mocked(mockClient.beta.projects.getCurrent).mockResolvedValue({
+      id: "project-1",
+    } as TamboAI.Beta.ProjectGetCurrentResponse);
+    mockThreadsApi.retrieve.mockImplementation(
+      async (threadId: string) => serverThreads[threadId],
+    );
+    mockThreadsApi.update.mockImplementation(
+      async (
+        threadId: string,
+        { metadata }: TamboAI.Beta.ThreadUpdateParams,
+      ) => {
+        serverThreads[threadId] = { ...serverThreads[threadId], metadata };
+        return serverThreads[threadId];
+      },
+    );
+    mockThreadsApi.create.mockImplementation(
+      async ({ metadata, name }: TamboAI.Beta.ThreadCreateParams) => {
+        threadCount++;
+        const thread: TamboThread = {
+          id: `thread-${threadCount}`,
+          messages: [],
+          createdAt: `2024-01-0${threadCount}T00:00:00Z`,
+          projectId: "project-1",
+          updatedAt: `2024-01-0${threadCount}T00:00:00Z`,
+          metadata,
+          name,
+        };
+        serverThreads[thread.id] = thread;
+        return thread;
+      },
+    );
+    mockThreadsApi.messages.create.mockImplementation(
+      async (
+        threadId: string,
+        { role, content }: TamboAI.Beta.Threads.MessageCreateParams,
+      ) => {
+        messageCount++;
+        const message = {
+          ...createMessage(`copy-${messageCount}`, threadId, "user", ""),
+          role,
+          content,
+        };
+        serverThreads[threadId].messages.push(message);
+        return message;
+      },
+    );
+    mockThreadsApi.advanceById.mockImplementation(
+      async (
+        threadId: string,
+        { messageToAppend }: TamboAI.Beta.Threads.ThreadAdvanceParams,
+      ) => {
+        const response = createMessage(
+          `response-${threadId}`,
+          threadId,
+          "assistant",
+          "A new answer",
+        );
+        serverThreads[threadId].messages.push(
+          {
+            ...createMessage(`sent-${threadId}`, threadId, "user", ""),
+            content: messageToAppend.content,
+          },
+          response,
+        );
+        return {
+          responseMessageDto: response,
+          generationStage: GenerationStage.COMPLETE,
+          mcpAccessToken: "",
+        };
+      },
+    );
+  });
+
+  const renderWithThread = async () => {
+    const hook = renderHook(() => useTamboThread(), { wrapper });
+    await act(async () => {
+      await hook.result.current.switchCurrentThread("thread-1");
+    });
+    return hook;
+  };
+
+  it("should edit a user message in a fork of the thread", async () => {
+    const { result } = await renderWithThread();
+
+    await act(async () => {
+      await result.current.editMessage("message-3", "And next week?");
+    });
+
+    expect(mockThreadsApi.create).toHaveBeenCalledWith({
+      projectId: "project-1",
+      name: undefined,
+      metadata: {
+        tamboBranch: { sourceThreadId: "thread-1", messageIndex: 2 },
+      },
+    });
+    // The messages before the edited message are copied to the fork
+    expect(mockThreadsApi.messages.create).toHaveBeenCalledTimes(2);
+    expect(mockThreadsApi.messages.create).toHaveBeenCalledWith(
+      "thread-2",
+      expect.objectContaining({
+        role: "user",
+        content: [{ type: "text", text: "What is the weather?" }],
+      }),
+    );
+    expect(mockThreadsApi.advanceById).toHaveBeenCalledWith(
+      "thread-2",
+      expect.objectContaining({
+        messageToAppend: expect.objectContaining({
+          content: [{ type: "text", text: "And next week?" }],
+        }),
+      }),
+    );
+    expect(result.current.thread.id).toBe("thread-2");
+    // The original thread is not changed
+    expect(serverThreads["thread-1"].messages).toHaveLength(4);
+    // The fork is recorded on the original thread
+    expect(mockThreadsApi.update).toHaveBeenCalledWith("thread-1", {
+      projectId: "project-1",
+      metadata: { tamboForks: { 2: ["thread-2"] } },
+    });
+  });
+
+  it("should copy the action type of the messages to the fork", async () => {
+    serverThreads["thread-1"] = {
+      ...originalThread,
+      messages: originalThread.messages.map((message, index) =>
+        index === 1
+          ? {
+              ...message,
+              actionType: "tool_response",
+              tool_call_id: "call-1",
+            }
+          : message,
+      ),
+    };
+    const { result } = await renderWithThread();
+
+    await act(async () => {
+      await result.current.editMessage("message-3", "And next week?");
+    });
+
+    expect(mockThreadsApi.messages.create).toHaveBeenLastCalledWith(
+      "thread-2",
+      expect.objectContaining({
+        actionType: "tool_response",
+        tool_call_id: "call-1",
+      }),
+    );
+  });
+
+  it("should delete the fork when its messages fail to be copied", async () => {
+    mockThreadsApi.messages.create
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new Error("Network error"));
+    const { result } = await renderWithThread();
+
+    await act(async () => {
+      await expect(
+        result.current.editMessage("message-3", "And next week?"),
+      ).rejects.toThrow("Network error");
+    });
+
+    expect(mockThreadsApi.delete).toHaveBeenCalledWith("thread-2");
+    expect(mockThreadsApi.update).not.toHaveBeenCalled();
+    expect(mockThreadsApi.advanceById).not.toHaveBeenCalled();
+    expect(result.current.thread.id).toBe("thread-1");
+  });
+
+  it("should record all forks made from a thread at the same time", async () => {
+    const { result } = await renderWithThread();
+
+    await act(async () => {
+      await Promise.all([
+        result.current.regenerate("message-2"),
+        result.current.regenerate("message-1"),
+      ]);
+    });
+
+    expect(serverThreads["thread-1"].metadata).toEqual({
+      tamboForks: { 0: ["thread-2", "thread-3"] },
+    });
+  });
+
+  it("should regenerate a response from the user message it answers", async () => {
+    const { result } = await renderWithThread();
+
+    await act(async () => {
+      await result.current.regenerate("message-2");
+    });
+
+    expect(mockThreadsApi.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        metadata: {
+          tamboBranch: { sourceThreadId: "thread-1", messageIndex: 0 },
+        },
+      }),
+    );
+    expect(mockThreadsApi.messages.create).not.toHaveBeenCalled();
+    expect(mockThreadsApi.advanceById).toHaveBeenCalledWith(
+      "thread-2",
+      expect.objectContaining({
+        messageToAppend: expect.objectContaining({
+          content: [{ type: "text", text: "What is the weather?" }],
+        }),
+      }),
+    );
+  });
+
+  it("should reject editing a message that is not from the user", async () => {
+    const { result } = await renderWithThread();
+
+    await expect(
+      result.current.editMessage("message-2", "Something else"),
+    ).rejects.toThrow("Only user messages can be edited");
+    expect(mockThreadsApi.create).not.toHaveBeenCalled();
+  });
+
+  it("should navigate between sibling branches", async () => {
+    const { result } = await renderWithThread();
+
+    await act(async () => {
+      await result.current.regenerate("message-4");
+    });
+    const editedMessageId = result.current.thread.messages[2].id;
+    expect(result.current.getMessageBranches(editedMessageId)).toEqual({
+      threadIds: ["thread-1", "thread-2"],
+      currentIndex: 1,
+    });
+
+    // Regenerating again from the fork adds a sibling of the original
+    await act(async () => {
+      await result.current.regenerate(result.current.thread.messages[3].id);
+    });
+    expect(mockThreadsApi.create).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        metadata: {
+          tamboBranch: { sourceThreadId: "thread-1", messageIndex: 2 },
+        },
+      }),
+    );
+    expect(
+      result.current.getMessageBranches(result.current.thread.messages[2].id),
+    ).toEqual({
+      threadIds: ["thread-1", "thread-2", "thread-3"],
+      currentIndex: 2,
+    });
+
+    // Copied messages belong to the original thread, so have no siblings
+    expect(
+      result.current.getMessageBranches(result.current.thread.messages[0].id),
+    ).toEqual({ threadIds: ["thread-1"], currentIndex: 0 });
+
+    await act(async () => {
+      await result.current.switchBranch(
+        result.current.thread.messages[2].id,
+        0,
+      );
+    });
+    expect(result.current.thread.id).toBe("thread-1");
+    expect(result.current.getMessageBranches("message-3")).toEqual({
+      threadIds: ["thread-1", "thread-2", "thread-3"],
+      currentIndex: 0,
+    });
+  });
+
+  it("should find the sibling branches after a reload", async () => {
+    const { result, unmount } = await renderWithThread();
+    await act(async () => {
+      await result.current.regenerate("message-4");
+    });
+    unmount();
+
+    // Only the original thread is loaded, and its metadata lists the fork
+    const { result: reloaded } = renderHook(() => useTamboThread(), {
+      wrapper,
+    });
+    await act(async () => {
+      await reloaded.current.switchCurrentThread("thread-1");
+    });
+
+    expect(reloaded.current.getMessageBranches("message-3")).toEqual({
+      threadIds: ["thread-1", "thread-2"],
+      currentIndex: 0,
+    });
+  });
+});
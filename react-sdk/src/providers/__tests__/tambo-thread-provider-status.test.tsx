@@ -0,0 +1,232 @@
+import TamboAI, { advanceStream } from "@tambo-ai/typescript-sdk";
+import { act, renderHook } from "@testing-library/react";
+import React from "react";
+import { GenerationStage } from "../../model/generate-component-response";
+import { useTamboClient } from "../tambo-client-provider";
+import { TamboContextHelpersProvider } from "../tambo-context-helpers-provider";
+import { TamboRegistryProvider } from "../tambo-registry-provider";
+import {
+  TamboGenerationCompleteEvent,
+  TamboThreadProvider,
+  useTamboThread,
+  useTamboThreadStatus,
+} from "../tambo-thread-provider";
+
+jest.mock("../tambo-client-provider", () => ({
+  useTamboClient: jest.fn(),
+}));
+jest.mock("@tambo-ai/typescript-sdk", () => ({
+  advanceStream: jest.fn(),
+}));
+
+const createResponse = (
+  threadId: string,
+  text: string,
+): TamboAI.Beta.Threads.ThreadAdvanceResponse => ({
+  responseMessageDto: {
+    id: `response-${threadId}`,
+    threadId,
+    role: "assistant",
+    content: [{ type: "text", text }],
+    componentState: {},
+    createdAt: "2024-01-01T00:00:00Z",
+  },
+  generationStage: GenerationStage.COMPLETE,
+  mcpAccessToken: "",
+});
+
+describe("TamboThreadProvider thread status", () => {
+  const mockThreadsApi = {
+    messages: { create: jest.fn() },
+    retrieve: jest.fn(),
+    advance: jest.fn(),
+    advanceById: jest.fn(),
+    cancel: jest.fn(),
+  };
+  const mockClient = {
+    beta: { threads: mockThreadsApi },
+  } as unknown as TamboAI;
+  let onGenerationComplete: jest.Mock<void, [TamboGenerationCompleteEvent]>;
+  // Resolves to let the stream of thread-a finish
+  let finishStream: () => void;
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <TamboRegistryProvider components={[]}>
+      <TamboContextHelpersProvider
+        contextHelpers={{
+          currentTimeContextHelper: () => null,
+          currentPageContextHelper: () => null,
+        }}
+      >
+        <TamboThreadProvider onGenerationComplete={onGenerationComplete}>
+          {children}
+        </TamboThreadProvider>
+      </TamboContextHelpersProvider>
+    </TamboRegistryProvider>
+  );
+
+  const useThreads = () => ({
+    thread: useTamboThread(),
+    threadA: useTamboThreadStatus("thread-a"),
+    threadB: useTamboThreadStatus("thread-b"),
+  });
+
+  beforeEach(() => {
+    onGenerationComplete = jest.fn();
+    jest.mocked(useTamboClient).mockReturnValue(mockClient);
+    mockThreadsApi.retrieve.mockImplementation(async (threadId: string) => ({
+      id: threadId,
+      messages: [],
+      createdAt: "2024-01-01T00:00:00Z",
+      projectId: "project-1",
+      updatedAt: "2024-01-01T00:00:00Z",
+    }));
+    const streamFinished = new Promise<void>((resolve) => {
+      finishStream = resolve;
+    });
+    jest.mocked(advanceStream).mockResolvedValue({
+      [Symbol.asyncIterator]: async function* () {
+        yield createResponse("thread-a", "Working on it");
+        await streamFinished;
+        yield createResponse("thread-a", "Done");
+      },
+    });
+  });
+
+  const startGenerationAndSwitch = async () => {
+    const hook = renderHook(() => useThreads(), { wrapper });
+    await act(async () => {
+      await hook.result.current.thread.switchCurrentThread("thread-a");
+    });
+    let sendPromise: Promise<unknown> = Promise.resolve();
+    await act(async () => {
+      sendPromise = hook.result.current.thread.sendThreadMessage("Hello");
+    });
+    await act(async () => {
+      await hook.result.current.thread.switchCurrentThread("thread-b");
+    });
+    return { ...hook, sendPromise };
+  };
+
+  it("should track the generation stage of each thread", async () => {
+    const { result, sendPromise } = await startGenerationAndSwitch();
+
+    expect(result.current.thread.thread.id).toBe("thread-b");
+    expect(result.current.thread.generationStage).toBe(GenerationStage.IDLE);
+    expect(result.current.threadA.generationStage).toBe(
+      GenerationStage.STREAMING_RESPONSE,
+    );
+    expect(result.current.threadA.isIdle).toBe(false);
+    expect(result.current.threadB.isIdle).toBe(true);
+
+    await act(async () => {
+      finishStream();
+      await sendPromise;
+    });
+
+    // The finished generation does not switch back to its thread
+    expect(result.current.thread.thread.id).toBe("thread-b");
+    expect(result.current.threadA.generationStage).toBe(
+      GenerationStage.COMPLETE,
+    );
+    expect(onGenerationComplete).toHaveBeenCalledTimes(1);
+    expect(onGenerationComplete).toHaveBeenCalledWith({
+      threadId: "thread-a",
+      generationStage: GenerationStage.COMPLETE,
+      isBackground: true,
+    });
+  });
+
+  it("should cancel the generation of another thread", async () => {
+    const { result, sendPromise } = await startGenerationAndSwitch();
+
+    await act(async () => {
+      await result.current.thread.cancel("thread-a");
+    });
+
+    expect(mockThreadsApi.cancel).toHaveBeenCalledWith("thread-a");
+    expect(result.current.threadA.generationStage).toBe(
+      GenerationStage.CANCELLED,
+    );
+
+    await act(async () => {
+      finishStream();
+      await sendPromise;
+    });
+
+    // The rest of the cancelled response is ignored
+    expect(result.current.threadA.generationStage).toBe(
+      GenerationStage.CANCELLED,
+    );
+    expect(onGenerationComplete).toHaveBeenCalledWith({
+      threadId: "thread-a",
+      generationStage: GenerationStage.CANCELLED,
+      isBackground: true,
+    });
+  });
+
+  it("should not cancel anything when the thread is idle", async () => {
+    const { result, sendPromise } = await startGenerationAndSwitch();
+
+    await act(async () => {
+      await result.current.thread.cancel();
+    });
+
+    expect(mockThreadsApi.cancel).not.toHaveBeenCalled();
+    expect(result.current.threadA.generationStage).toBe(
+      GenerationStage.STREAMING_RESPONSE,
+    );
+
+    await act(async () => {
+      finishStream();
+      await sendPromise;
+    });
+  });
+
+  it("should not re-render status consumers when only messages change", async () => {
+    let threadContext: ReturnType<typeof useTamboThread> | undefined;
+    const ThreadContextCapture = () => {
+      threadContext = useTamboThread();
+      return null;
+    };
+    let renderCount = 0;
+    renderHook(
+      () => {
+        renderCount++;
+        return useTamboThreadStatus("thread-b");
+      },
+      {
+        wrapper: ({ children }) =>
+          wrapper({
+            children: (
+              <>
+                <ThreadContextCapture />
+                {children}
+              </>
+            ),
+          }),
+      },
+    );
+    await act(async () => {
+      await threadContext?.switchCurrentThread("thread-a");
+    });
+    const renderCountBefore = renderCount;
+
+    await act(async () => {
+      await threadContext?.addThreadMessage(
+        {
+          id: "message-1",
+          threadId: "thread-a",
+          role: "user",
+          content: [{ type: "text", text: "Hello" }],
+          componentState: {},
+          createdAt: "2024-01-01T00:00:00Z",
+        },
+        false,
+      );
+    });
+
+    expect(threadContext?.thread.messages).toHaveLength(1);
+    expect(renderCount).toBe(renderCountBefore);
+  });
+});
@@ -0,0 +1,249 @@
+import TamboAI, { APIConnectionError } from "@tambo-ai/typescript-sdk";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import React from "react";
+import { z } from "zod";
+import { TamboComponent } from "../../model/component-metadata";
+import { GenerationStage } from "../../model/generate-component-response";
+import { TamboThread } from "../../model/tambo-thread";
+import { createMemoryThreadStorage } from "../../storage/memory-thread-storage";
+import { ThreadStorageAdapter } from "../../storage/thread-storage-adapter";
+import { useTamboClient } from "../tambo-client-provider";
+import { TamboContextHelpersProvider } from "../tambo-context-helpers-provider";
+import { TamboRegistryProvider } from "../tambo-registry-provider";
+import { TamboThreadProvider, useTamboThread } from "../tambo-thread-provider";
+
+jest.mock("../tambo-client-provider", () => ({
+  useTamboClient: jest.fn(),
+}));
+jest.mock("@tambo-ai/typescript-sdk", () => ({
+  ...jest.requireActual("@tambo-ai/typescript-sdk"),
+  advanceStream: jest.fn(),
+}));
+
+const storedThread: TamboThread = {
+  id: "thread-1",
+  messages: [
+    {
+      id: "message-1",
+      threadId: "thread-1",
+      role: "assistant",
+      content: [{ type: "text", text: "Here is your card" }],
+      component: {
+        componentName: "Card",
+        props: { title: "Stored" },
+        componentState: {},
+        message: "",
+        reasoning: "",
+      },
+      componentState: {},
+      createdAt: "2024-01-01T00:00:00Z",
+    },
+  ],
+  createdAt: "2024-01-01T00:00:00Z",
+  projectId: "project-1",
+  updatedAt: "2024-01-01T00:00:00Z",
+};
+
+describe("TamboThreadProvider storage", () => {
+  const mockThreadsApi = {
+    messages: { create: jest.fn() },
+    retrieve: jest.fn(),
+    advance: jest.fn(),
+    advanceById: jest.fn(),
+  };
+  const mockClient = {
+    beta: { threads: mockThreadsApi },
+  } as unknown as TamboAI;
+  const components: TamboComponent[] = [
+    {
+      name: "Card",
+      description: "A card",
+      component: ({ title }: { title: string }) => <div>{title}</div>,
+      propsSchema: z.object({ title: z.string() }),
+    },
+  ];
+
+  let storage: ThreadStorageAdapter;
+  let onLine: jest.SpyInstance<boolean, []>;
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <TamboRegistryProvider components={components}>
+      <TamboContextHelpersProvider
+        contextHelpers={{
+          currentTimeContextHelper: () => null,
+          currentPageContextHelper: () => null,
+        }}
+      >
+        <TamboThreadProvider streaming={false} storage={storage}>
+          {children}
+        </TamboThreadProvider>
+      </TamboContextHelpersProvider>
+    </TamboRegistryProvider>
+  );
+
+  beforeEach(() => {
+    storage = createMemoryThreadStorage();
+    onLine = jest.spyOn(navigator, "onLine", "get").mockReturnValue(true);
+    jest.mocked(useTamboClient).mockReturnValue(mockClient);
+    mockThreadsApi.retrieve.mockResolvedValue({
+      ...storedThread,
+      messages: [],
+    });
+    mockThreadsApi.advanceById.mockResolvedValue({
+      responseMessageDto: {
+        id: "response-1",
+        threadId: "thread-1",
+        role: "assistant",
+        content: [{ type: "text", text: "Hi" }],
+        componentState: {},
+        createdAt: "2024-01-01T00:00:01Z",
+      },
+      generationStage: GenerationStage.COMPLETE,
+      mcpAccessToken: "",
+    });
+  });
+
+  afterEach(() => {
+    onLine.mockRestore();
+  });
+
+  it("should show stored threads with their components before fetching", async () => {
+    await storage.saveThread(storedThread);
+    const { result } = renderHook(() => useTamboThread(), { wrapper });
+
+    await act(async () => {
+      result.current.switchCurrentThread("thread-1", false);
+    });
+
+    await waitFor(() => {
+      expect(result.current.thread.messages).toHaveLength(1);
+    });
+
+    expect(result.current.thread.messages[0].renderedComponent).toBeTruthy();
+    expect(mockThreadsApi.retrieve).not.toHaveBeenCalled();
+  });
+
+  it("should store threads without their rendered components", async () => {
+    await storage.saveThread(storedThread);
+    const saveThread = jest.spyOn(storage, "saveThread");
+    const { result } = renderHook(() => useTamboThread(), { wrapper });
+
+    await waitFor(() => {
+      expect(saveThread).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "thread-1" }),
+      );
+    });
+
+    const [savedThread] = saveThread.mock.calls[0];
+    expect(savedThread.messages[0]).not.toHaveProperty("renderedComponent");
+    expect(savedThread.messages[0].component).toEqual(
+      storedThread.messages[0].component,
+    );
+    expect(result.current.thread.id).toBe("placeholder");
+  });
+
+  it("should queue messages sent while offline and send them once online", async () => {
+    await storage.saveThread({ ...storedThread, messages: [] });
+    const { result } = renderHook(() => useTamboThread(), { wrapper });
+    await act(async () => {
+      await result.current.switchCurrentThread("thread-1");
+    });
+
+    onLine.mockReturnValue(false);
+    let sendPromise: Promise<unknown> | undefined;
+    await act(async () => {
+      sendPromise = result.current.sendThreadMessage("Hello offline");
+    });
+
+    expect(mockThreadsApi.advanceById).not.toHaveBeenCalled();
+    expect(await storage.getQueuedMessages()).toEqual([
+      expect.objectContaining({
+        message: "Hello offline",
+        options: { threadId: "thread-1" },
+      }),
+    ]);
+    expect(result.current.thread.messages).toEqual([
+      expect.objectContaining({
+        role: "user",
+        content: [{ type: "text", text: "Hello offline" }],
+      }),
+    ]);
+
+    onLine.mockReturnValue(true);
+    await act(async () => {
+      window.dispatchEvent(new Event("online"));
+      await sendPromise;
+    });
+
+    expect(mockThreadsApi.advanceById).toHaveBeenCalledWith(
+      "thread-1",
+      expect.objectContaining({
+        messageToAppend: expect.objectContaining({
+          content: [{ type: "text", text: "Hello offline" }],
+        }),
+      }),
+    );
+    expect(await storage.getQueuedMessages()).toEqual([]);
+  });
+
+  it("should keep a queued message queued when sending it fails", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    await storage.saveThread({ ...storedThread, messages: [] });
+    const { result } = renderHook(() => useTamboThread(), { wrapper });
+    await act(async () => {
+      await result.current.switchCurrentThread("thread-1");
+    });
+
+    onLine.mockReturnValue(false);
+    let sendPromise: Promise<unknown> | undefined;
+    await act(async () => {
+      sendPromise = result.current.sendThreadMessage("Hello offline");
+    });
+    mockThreadsApi.advanceById.mockRejectedValueOnce(
+      new APIConnectionError({ message: "Connection error." }),
+    );
+
+    onLine.mockReturnValue(true);
+    await act(async () => {
+      window.dispatchEvent(new Event("online"));
+    });
+    await waitFor(() => {
+      expect(mockThreadsApi.advanceById).toHaveBeenCalledTimes(1);
+    });
+    expect(await storage.getQueuedMessages()).toEqual([
+      expect.objectContaining({ message: "Hello offline" }),
+    ]);
+
+    await act(async () => {
+      window.dispatchEvent(new Event("online"));
+      await sendPromise;
+    });
+
+    expect(mockThreadsApi.advanceById).toHaveBeenCalledTimes(2);
+    expect(await storage.getQueuedMessages()).toEqual([]);
+  });
+
+  it("should reject the call of a queued message when the storage disconnects", async () => {
+    await storage.saveThread({ ...storedThread, messages: [] });
+    const { result, unmount } = renderHook(() => useTamboThread(), {
+      wrapper,
+    });
+    await act(async () => {
+      await result.current.switchCurrentThread("thread-1");
+    });
+
+    onLine.mockReturnValue(false);
+    let sendPromise: Promise<unknown> | undefined;
+    await act(async () => {
+      sendPromise = result.current.sendThreadMessage("Hello offline");
+    });
+    unmount();
+
+    await expect(sendPromise).rejects.toThrow(
+      "The storage was disconnected before the queued message was sent",
+    );
+    expect(await storage.getQueuedMessages()).toEqual([
+      expect.objectContaining({ message: "Hello offline" }),
+    ]);
+  });
+});
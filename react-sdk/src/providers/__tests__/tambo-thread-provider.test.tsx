@@ -1,9 +1,12 @@
 import TamboAI, { advanceStream } from "@tambo-ai/typescript-sdk";
-import { act, renderHook } from "@testing-library/react";
+import { act, renderHook, waitFor } from "@testing-library/react";
 import React from "react";
 import { DeepPartial } from "ts-essentials";
 import { z } from "zod";
-import { TamboComponent } from "../../model/component-metadata";
+import {
+  TamboComponent,
+  TamboToolCallContext,
+} from "../../model/component-metadata";
 import {
   GenerationStage,
   TamboThreadMessage,
@@ -259,6 +262,9 @@ describe("TamboThreadProvider", () => {
       .mockResolvedValue(mockAdvanceResponse);
 
     const { result } = renderHook(() => useTamboThread(), { wrapper });
+    await act(async () => {
+      await result.current.switchCurrentThread("test-thread-1");
+    });
 
     await act(async () => {
       await result.current.sendThreadMessage("Hello", {
@@ -290,6 +296,66 @@ describe("TamboThreadProvider", () => {
     expect(result.current.generationStage).toBe(GenerationStage.COMPLETE);
   });
 
+  it("should send attachments with the message", async () => {
+    jest.mocked(mockThreadsApi.advanceById).mockResolvedValue({
+      responseMessageDto: {
+        id: "response-1",
+        content: [{ type: "text", text: "Response" }],
+        role: "assistant",
+        threadId: "test-thread-1",
+        componentState: {},
+        createdAt: new Date().toISOString(),
+      },
+      generationStage: GenerationStage.COMPLETE,
+      mcpAccessToken: "test-mcp-access-token",
+    });
+
+    const { result } = renderHook(() => useTamboThread(), { wrapper });
+    await act(async () => {
+      await result.current.switchCurrentThread("test-thread-1");
+    });
+
+    await act(async () => {
+      await result.current.sendThreadMessage("What is in this chart?", {
+        threadId: "test-thread-1",
+        streamResponse: false,
+        attachments: [
+          {
+            name: "chart.png",
+            mimeType: "image/png",
+            size: 3,
+            url: "data:image/png;base64,cG5n",
+          },
+        ],
+      });
+    });
+
+    expect(mockThreadsApi.advanceById).toHaveBeenCalledWith(
+      "test-thread-1",
+      expect.objectContaining({
+        messageToAppend: expect.objectContaining({
+          content: [
+            { type: "text", text: "What is in this chart?" },
+            {
+              type: "image_url",
+              image_url: { url: "data:image/png;base64,cG5n" },
+            },
+          ],
+          metadata: {
+            attachments: [
+              {
+                name: "chart.png",
+                mimeType: "image/png",
+                size: 3,
+                contentIndex: 1,
+              },
+            ],
+          },
+        }),
+      }),
+    );
+  });
+
   it("should handle streaming responses", async () => {
     const mockStreamResponse: TamboAI.Beta.Threads.ThreadAdvanceResponse = {
       responseMessageDto: {
@@ -316,6 +382,9 @@ describe("TamboThreadProvider", () => {
     jest.mocked(advanceStream).mockResolvedValue(mockAsyncIterator);
 
     const { result } = renderHook(() => useTamboThread(), { wrapper });
+    await act(async () => {
+      await result.current.switchCurrentThread("test-thread-1");
+    });
 
     await act(async () => {
       await result.current.sendThreadMessage("Hello", {
@@ -362,6 +431,9 @@ describe("TamboThreadProvider", () => {
       });
 
     const { result } = renderHook(() => useTamboThread(), { wrapper });
+    await act(async () => {
+      await result.current.switchCurrentThread("test-thread-1");
+    });
 
     await act(async () => {
       await result.current.sendThreadMessage("Use tool", {
@@ -372,9 +444,192 @@ describe("TamboThreadProvider", () => {
     expect(result.current.generationStage).toBe(GenerationStage.COMPLETE);
     expect(mockRegistry[0]?.associatedTools?.[0]?.tool).toHaveBeenCalledWith(
       "test",
+      {
+        signal: expect.any(AbortSignal),
+        reportProgress: expect.any(Function),
+      },
     );
   });
 
+  it("should run a batch of streamed tool calls and advance once", async () => {
+    const testTool = mockRegistry[0].associatedTools![0].tool as jest.Mock;
+    testTool.mockImplementation(async (value: string) => `result-${value}`);
+    const createEvents: string[] = [];
+    (mockThreadsApi.messages.create as jest.Mock).mockImplementation(
+      async () => {
+        createEvents.push("start");
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        createEvents.push("end");
+        return createMockMessage();
+      },
+    );
+
+    const createToolCallChunk = (
+      id: string,
+      value: string,
+    ): TamboAI.Beta.Threads.ThreadAdvanceResponse => ({
+      responseMessageDto: {
+        id,
+        content: [{ type: "text", text: "" }],
+        role: "assistant",
+        threadId: "test-thread-1",
+        tool_call_id: `call-${id}`,
+        toolCallRequest: {
+          toolName: "test-tool",
+          parameters: [{ parameterName: "param1", parameterValue: value }],
+        },
+        componentState: {},
+        createdAt: new Date().toISOString(),
+      },
+      generationStage: GenerationStage.FETCHING_CONTEXT,
+      mcpAccessToken: "test-mcp-access-token",
+    });
+
+    jest
+      .mocked(advanceStream)
+      .mockResolvedValueOnce({
+        [Symbol.asyncIterator]: async function* () {
+          yield createToolCallChunk("tool-call-1", "a");
+          yield createToolCallChunk("tool-call-2", "b");
+          yield createToolCallChunk("tool-call-3", "c");
+        },
+      })
+      .mockResolvedValueOnce({
+        [Symbol.asyncIterator]: async function* () {
+          yield createMockAdvanceResponse();
+        },
+      });
+
+    const { result } = renderHook(() => useTamboThread(), { wrapper });
+    await act(async () => {
+      await result.current.switchCurrentThread("test-thread-1");
+    });
+
+    await act(async () => {
+      await result.current.sendThreadMessage("Use tools", {
+        threadId: "test-thread-1",
+        streamResponse: true,
+      });
+    });
+
+    expect(testTool).toHaveBeenCalledTimes(3);
+    expect(testTool).toHaveBeenCalledWith("a", expect.anything());
+    expect(testTool).toHaveBeenCalledWith("b", expect.anything());
+    expect(testTool).toHaveBeenCalledWith("c", expect.anything());
+    // The other responses are stored directly and at the same time, the last
+    // one is appended by the advance
+    expect(mockThreadsApi.messages.create).toHaveBeenCalledTimes(2);
+    expect(createEvents).toEqual(["start", "start", "end", "end"]);
+    expect(mockThreadsApi.messages.create).toHaveBeenCalledWith(
+      "test-thread-1",
+      expect.objectContaining({
+        role: "tool",
+        tool_call_id: "call-tool-call-1",
+        content: [{ type: "text", text: "result-a" }],
+      }),
+    );
+    expect(advanceStream).toHaveBeenCalledTimes(2);
+    expect(advanceStream).toHaveBeenLastCalledWith(
+      mockTamboAI,
+      expect.objectContaining({
+        messageToAppend: expect.objectContaining({
+          role: "tool",
+          tool_call_id: "call-tool-call-3",
+          content: [{ type: "text", text: "result-c" }],
+        }),
+        toolCallCounts: { "test-tool": 3 },
+      }),
+      "test-thread-1",
+    );
+    expect(result.current.generationStage).toBe(GenerationStage.COMPLETE);
+  });
+
+  it("should show the progress of a running tool", async () => {
+    let finishTool: (value: string) => void = () => {};
+    const testTool = mockRegistry[0].associatedTools![0].tool as jest.Mock;
+    testTool.mockImplementation(
+      async (_value: string, { reportProgress }: TamboToolCallContext) => {
+        reportProgress("Crunching numbers", 0.5);
+        return await new Promise<string>((resolve) => {
+          finishTool = resolve;
+        });
+      },
+    );
+    jest
+      .mocked(advanceStream)
+      .mockResolvedValueOnce({
+        [Symbol.asyncIterator]: async function* () {
+          // The message is streamed before its tool call request is known
+          yield createMockAdvanceResponse({
+            responseMessageDto: {
+              id: "tool-call-1",
+              content: [{ type: "text", text: "" }],
+              role: "assistant",
+              threadId: "test-thread-1",
+              componentState: {},
+              createdAt: new Date().toISOString(),
+            },
+          });
+          yield {
+            responseMessageDto: {
+              id: "tool-call-1",
+              content: [{ type: "text", text: "" }],
+              role: "assistant",
+              threadId: "test-thread-1",
+              toolCallRequest: {
+                toolName: "test-tool",
+                parameters: [{ parameterName: "param1", parameterValue: "a" }],
+              },
+              componentState: {},
+              createdAt: new Date().toISOString(),
+            },
+            generationStage: GenerationStage.FETCHING_CONTEXT,
+            mcpAccessToken: "test-mcp-access-token",
+          };
+        },
+      })
+      .mockResolvedValueOnce({
+        [Symbol.asyncIterator]: async function* () {
+          yield createMockAdvanceResponse();
+        },
+      });
+
+    const { result } = renderHook(() => useTamboThread(), { wrapper });
+    await act(async () => {
+      await result.current.switchCurrentThread("test-thread-1");
+    });
+    const findToolCallMessage = () =>
+      result.current.thread.messages.find(
+        (message) => message.id === "tool-call-1",
+      );
+
+    let sendPromise: Promise<unknown> | undefined;
+    act(() => {
+      sendPromise = result.current.sendThreadMessage("Use tool", {
+        threadId: "test-thread-1",
+        streamResponse: true,
+      });
+    });
+
+    await waitFor(() => {
+      expect(result.current.generationStatusMessage).toBe("Crunching numbers");
+    });
+    expect(findToolCallMessage()?.toolCallStatus).toEqual({
+      state: "running",
+      progressMessage: "Crunching numbers",
+      progress: 0.5,
+    });
+
+    await act(async () => {
+      finishTool("done");
+      await sendPromise;
+    });
+
+    expect(findToolCallMessage()?.toolCallStatus).toEqual({
+      state: "complete",
+    });
+  });
+
   describe("streaming behavior", () => {
     it("should call advanceStream when streamResponse=true", async () => {
       // Use wrapper with streaming=true to show that explicit streamResponse=true works
@@ -579,6 +834,43 @@ describe("TamboThreadProvider", () => {
       expect(advanceStream).not.toHaveBeenCalled();
     });
 
+    it("should use the streaming setting of the latest render", async () => {
+      let streaming = true;
+      const wrapperWithChangingStreaming = ({
+        children,
+      }: {
+        children: React.ReactNode;
+      }) => (
+        <TamboRegistryProvider components={mockRegistry}>
+          <TamboContextHelpersProvider
+            contextHelpers={{
+              currentTimeContextHelper: () => null,
+              currentPageContextHelper: () => null,
+            }}
+          >
+            <TamboThreadProvider streaming={streaming}>
+              {children}
+            </TamboThreadProvider>
+          </TamboContextHelpersProvider>
+        </TamboRegistryProvider>
+      );
+
+      const { result, rerender } = renderHook(() => useTamboThread(), {
+        wrapper: wrapperWithChangingStreaming,
+      });
+      streaming = false;
+      rerender();
+
+      await act(async () => {
+        await result.current.sendThreadMessage("Hello default", {
+          threadId: "test-thread-1",
+        });
+      });
+
+      expect(mockThreadsApi.advanceById).toHaveBeenCalled();
+      expect(advanceStream).not.toHaveBeenCalled();
+    });
+
     it("should call advanceStream when streamResponse is undefined and provider streaming=true (default)", async () => {
       // Use wrapper with streaming=true (default) to test that undefined streamResponse respects provider setting
       const wrapperWithDefaultStreaming = ({
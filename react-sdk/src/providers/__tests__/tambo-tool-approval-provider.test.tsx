@@ -0,0 +1,192 @@
+import TamboAI from "@tambo-ai/typescript-sdk";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import React from "react";
+import { z } from "zod";
+import { TamboTool } from "../../model/component-metadata";
+import { GenerationStage } from "../../model/generate-component-response";
+import { useTamboClient } from "../tambo-client-provider";
+import { TamboContextHelpersProvider } from "../tambo-context-helpers-provider";
+import { TamboRegistryProvider } from "../tambo-registry-provider";
+import { TamboThreadProvider, useTamboThread } from "../tambo-thread-provider";
+import {
+  TamboToolApprovalProvider,
+  usePendingToolApprovals,
+} from "../tambo-tool-approval-provider";
+
+jest.mock("../tambo-client-provider", () => ({
+  useTamboClient: jest.fn(),
+}));
+jest.mock("@tambo-ai/typescript-sdk", () => ({
+  advanceStream: jest.fn(),
+}));
+
+const createAdvanceResponse = (
+  message: Partial<TamboAI.Beta.Threads.ThreadMessage>,
+): TamboAI.Beta.Threads.ThreadAdvanceResponse => ({
+  responseMessageDto: {
+    id: "response-1",
+    content: [{ type: "text", text: "Done" }],
+    role: "assistant",
+    threadId: "thread-1",
+    componentState: {},
+    createdAt: new Date().toISOString(),
+    ...message,
+  },
+  generationStage: GenerationStage.COMPLETE,
+  mcpAccessToken: "test-mcp-access-token",
+});
+
+const toolCallResponse = createAdvanceResponse({
+  id: "tool-call-1",
+  tool_call_id: "call-1",
+  toolCallRequest: {
+    toolName: "send_email",
+    parameters: [{ parameterName: "param1", parameterValue: "bob@test.com" }],
+  },
+});
+
+describe("TamboToolApprovalProvider", () => {
+  const mockThreadsApi = {
+    messages: { create: jest.fn() },
+    retrieve: jest.fn(),
+    advance: jest.fn(),
+    advanceById: jest.fn(),
+    cancel: jest.fn(),
+  };
+  const mockClient = {
+    beta: { threads: mockThreadsApi },
+  } as unknown as TamboAI;
+
+  let sendEmail: jest.Mock;
+  let tools: TamboTool[];
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <TamboRegistryProvider tools={tools}>
+      <TamboContextHelpersProvider
+        contextHelpers={{
+          currentTimeContextHelper: () => null,
+          currentPageContextHelper: () => null,
+        }}
+      >
+        <TamboToolApprovalProvider>
+          <TamboThreadProvider streaming={false}>
+            {children}
+          </TamboThreadProvider>
+        </TamboToolApprovalProvider>
+      </TamboContextHelpersProvider>
+    </TamboRegistryProvider>
+  );
+
+  const useApprovalAndThread = () => ({
+    thread: useTamboThread(),
+    approvals: usePendingToolApprovals(),
+  });
+
+  beforeEach(() => {
+    sendEmail = jest.fn().mockResolvedValue("sent");
+    tools = [
+      {
+        name: "send_email",
+        description: "Send an email",
+        tool: sendEmail,
+        toolSchema: z.function().args(z.string()).returns(z.string()),
+        requiresApproval: true,
+      },
+    ];
+    jest.mocked(useTamboClient).mockReturnValue(mockClient);
+    mockThreadsApi.advanceById
+      .mockResolvedValueOnce(toolCallResponse)
+      .mockResolvedValueOnce(createAdvanceResponse({}));
+    mockThreadsApi.retrieve.mockResolvedValue({
+      id: "thread-1",
+      messages: [],
+      createdAt: "",
+      projectId: "",
+      updatedAt: "",
+    });
+  });
+
+  it("should wait for approval before running the tool", async () => {
+    const { result } = renderHook(useApprovalAndThread, { wrapper });
+    await act(async () => {
+      await result.current.thread.switchCurrentThread("thread-1");
+    });
+
+    let sendPromise: Promise<unknown> | undefined;
+    act(() => {
+      sendPromise = result.current.thread.sendThreadMessage("Email Bob", {
+        threadId: "thread-1",
+      });
+    });
+
+    await waitFor(() => {
+      expect(result.current.approvals.pendingApprovals).toHaveLength(1);
+    });
+    expect(result.current.approvals.pendingApprovals[0]).toMatchObject({
+      id: "call-1",
+      toolName: "send_email",
+      parameters: [{ parameterName: "param1", parameterValue: "bob@test.com" }],
+    });
+    expect(result.current.thread.generationStage).toBe(
+      GenerationStage.AWAITING_APPROVAL,
+    );
+    expect(sendEmail).not.toHaveBeenCalled();
+
+    await act(async () => {
+      result.current.approvals.approve("call-1");
+      await sendPromise;
+    });
+
+    expect(sendEmail).toHaveBeenCalledWith("bob@test.com", expect.anything());
+    expect(result.current.approvals.pendingApprovals).toHaveLength(0);
+    expect(result.current.thread.generationStage).toBe(
+      GenerationStage.COMPLETE,
+    );
+  });
+
+  it("should send a denial back to the model as a tool error", async () => {
+    const { result } = renderHook(useApprovalAndThread, { wrapper });
+
+    let sendPromise: Promise<unknown> | undefined;
+    act(() => {
+      sendPromise = result.current.thread.sendThreadMessage("Email Bob", {
+        threadId: "thread-1",
+      });
+    });
+    await waitFor(() => {
+      expect(result.current.approvals.pendingApprovals).toHaveLength(1);
+    });
+
+    await act(async () => {
+      result.current.approvals.deny("call-1", "wrong recipient");
+      await sendPromise;
+    });
+
+    expect(sendEmail).not.toHaveBeenCalled();
+    expect(mockThreadsApi.advanceById).toHaveBeenLastCalledWith(
+      "thread-1",
+      expect.objectContaining({
+        messageToAppend: expect.objectContaining({
+          role: "tool",
+          tool_call_id: "call-1",
+          error: "The user denied the tool call: wrong recipient",
+        }),
+      }),
+    );
+  });
+
+  it("should only ask for approval when the predicate returns true", async () => {
+    tools[0].requiresApproval = (recipient: string) =>
+      !recipient.endsWith("@test.com");
+    const { result } = renderHook(useApprovalAndThread, { wrapper });
+
+    await act(async () => {
+      await result.current.thread.sendThreadMessage("Email Bob", {
+        threadId: "thread-1",
+      });
+    });
+
+    expect(sendEmail).toHaveBeenCalledWith("bob@test.com", expect.anything());
+    expect(result.current.approvals.pendingApprovals).toHaveLength(0);
+  });
+});
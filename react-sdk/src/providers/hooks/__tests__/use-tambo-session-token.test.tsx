@@ -85,6 +85,52 @@ describe("useTamboSessionToken", () => {
     expect(mockAuthApi.getToken).toHaveBeenCalledWith(expect.any(Object));
   });
 
+  it("should report each token exchange as an event", async () => {
+    mockAuthApi.getToken.mockResolvedValue(mockTokenResponse);
+    const onEvent = jest.fn();
+
+    renderHook(() =>
+      useTamboSessionToken(mockTamboAI, queryClient, "user-token", onEvent),
+    );
+    await act(async () => {
+      await jest.runOnlyPendingTimersAsync();
+    });
+
+    expect(onEvent).toHaveBeenCalledWith({
+      type: "token_refreshed",
+      timestamp: expect.any(Number),
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it("should keep the token when the event handler throws", async () => {
+    mockAuthApi.getToken.mockResolvedValue(mockTokenResponse);
+    const consoleError = jest
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const onEvent = jest.fn(() => {
+      throw new Error("Handler failed");
+    });
+
+    const { result } = renderHook(() =>
+      useTamboSessionToken(mockTamboAI, queryClient, "user-token", onEvent),
+    );
+    await act(async () => {
+      await jest.runOnlyPendingTimersAsync();
+    });
+
+    // The exchange is not reported as failed
+    expect(onEvent).not.toHaveBeenCalledWith(
+      expect.objectContaining({ error: expect.anything() }),
+    );
+    expect(result.current.data).toEqual(mockTokenResponse);
+    expect(consoleError).toHaveBeenCalledWith(
+      "Error in onEvent handler: ",
+      expect.any(Error),
+    );
+    consoleError.mockRestore();
+  });
+
   it("should call getToken with correct token exchange parameters", async () => {
     mockAuthApi.getToken.mockResolvedValue(mockTokenResponse);
 
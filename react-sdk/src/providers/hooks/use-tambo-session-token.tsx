@@ -1,7 +1,8 @@
 "use client";
 import TamboAI from "@tambo-ai/typescript-sdk";
 import { QueryClient, useQuery } from "@tanstack/react-query";
-import { useEffect } from "react";
+import { useEffect, useRef } from "react";
+import { TamboEvent } from "../../model/tambo-event";
 
 /**
  * This internal hook is used to get the Tambo session token and keep it
@@ -14,13 +15,17 @@ import { useEffect } from "react";
  * @param client - The Tambo client.
  * @param queryClient - The query client.
  * @param userToken - The user token.
+ * @param onEvent - Called each time the token is fetched or refreshed.
  * @returns The Tambo session token.
  */
 export function useTamboSessionToken(
   client: TamboAI,
   queryClient: QueryClient,
   userToken: string | undefined,
+  onEvent?: (event: TamboEvent) => void,
 ) {
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
   const result = useQuery(
     {
       queryKey: ["tambo-session-token", userToken],
@@ -37,7 +42,31 @@ export function useTamboSessionToken(
         const tokenAsArrayBuffer = new TextEncoder().encode(
           tokenRequestFormEncoded,
         );
-        return await client.beta.auth.getToken(tokenAsArrayBuffer as any);
+        const startedAt = Date.now();
+        const emitTokenRefreshed = (error?: unknown) => {
+          try {
+            onEventRef.current?.({
+              type: "token_refreshed",
+              timestamp: Date.now(),
+              durationMs: Date.now() - startedAt,
+              ...(error !== undefined && {
+                error: error instanceof Error ? error.message : "Unknown error",
+              }),
+            });
+          } catch (handlerError) {
+            // A failing event handler must not fail the token refresh
+            console.error("Error in onEvent handler: ", handlerError);
+          }
+        };
+        let token: TamboAI.Beta.Auth.AuthGetTokenResponse;
+        try {
+          token = await client.beta.auth.getToken(tokenAsArrayBuffer as any);
+        } catch (error) {
+          emitTokenRefreshed(error);
+          throw error;
+        }
+        emitTokenRefreshed();
+        return token;
       },
       enabled: !!userToken,
       refetchInterval: (result) => {
@@ -1,4 +1,8 @@
-export type { TamboComponent, TamboTool } from "../model/component-metadata";
+export type {
+  TamboAnyTool,
+  TamboComponent,
+  TamboTool,
+} from "../model/component-metadata";
 export {
   TamboClientProvider,
   useIsTamboTokenUpdating,
@@ -36,6 +40,7 @@ export { TamboStubProvider, type TamboStubProviderProps } from "./tambo-stubs";
 export {
   TamboThreadInputProvider,
   useTamboThreadInput,
+  type TamboInputAttachment,
   type TamboThreadInputContextProps,
 } from "./tambo-thread-input-provider";
 export {
@@ -43,4 +48,13 @@ export {
   TamboThreadProvider,
   useTamboGenerationStage,
   useTamboThread,
+  useTamboThreadStatus,
+  type TamboGenerationCompleteEvent,
 } from "./tambo-thread-provider";
+export {
+  TamboToolApprovalProvider,
+  usePendingToolApprovals,
+  type PendingToolApproval,
+  type TamboToolApprovalContextProps,
+  type ToolApprovalDecision,
+} from "./tambo-tool-approval-provider";
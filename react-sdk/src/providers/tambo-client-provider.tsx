@@ -3,6 +3,7 @@ import TamboAI, { ClientOptions } from "@tambo-ai/typescript-sdk";
 import { QueryClient } from "@tanstack/react-query";
 import React, { createContext, PropsWithChildren, useState } from "react";
 import packageJson from "../../package.json";
+import { TamboEvent } from "../model/tambo-event";
 import { useTamboSessionToken } from "./hooks/use-tambo-session-token";
 
 export interface TamboClientProviderProps {
@@ -27,6 +28,14 @@ export interface TamboClientProviderProps {
    * user when calling the Tambo API.
    */
   userToken?: string;
+  /** Called when the session token for the `userToken` is fetched or refreshed */
+  onEvent?: (event: TamboEvent) => void;
+  /**
+   * Use this client instead of creating one, e.g. the client of a
+   * `MockTamboBackend` from `@tambo-ai/react/testing` in tests and stories.
+   * `tamboUrl` and `environment` are ignored when it is set.
+   */
+  client?: TamboAI;
 }
 
 export interface TamboClientContextProps {
@@ -51,11 +60,21 @@ export const TamboClientContext = createContext<
  * @param props.apiKey - The API key for the Tambo API
  * @param props.environment - The environment to use for the Tambo API
  * @param props.userToken - The oauth access token to use to identify the user in the Tambo API
+ * @param props.onEvent - Called when the session token is fetched or refreshed
+ * @param props.client - The client to use instead of creating one
  * @returns The TamboClientProvider component
  */
 export const TamboClientProvider: React.FC<
   PropsWithChildren<TamboClientProviderProps>
-> = ({ children, tamboUrl, apiKey, environment, userToken }) => {
+> = ({
+  children,
+  tamboUrl,
+  apiKey,
+  environment,
+  userToken,
+  onEvent,
+  client: providedClient,
+}) => {
   const tamboConfig: ClientOptions = {
     apiKey,
     defaultHeaders: {
@@ -68,7 +87,7 @@ export const TamboClientProvider: React.FC<
   if (environment) {
     tamboConfig.environment = environment;
   }
-  const [client] = useState(() => new TamboAI(tamboConfig));
+  const [client] = useState(() => providedClient ?? new TamboAI(tamboConfig));
   const [queryClient] = useState(() => new QueryClient());
 
   // Keep the session token updated and get the updating state
@@ -76,6 +95,7 @@ export const TamboClientProvider: React.FC<
     client,
     queryClient,
     userToken,
+    onEvent,
   );
 
   return (
@@ -1,14 +1,14 @@
 "use client";
 import React, { createContext, PropsWithChildren, useContext } from "react";
-import { TamboComponent, TamboTool } from "../model/component-metadata";
+import { TamboAnyTool, TamboComponent } from "../model/component-metadata";
 import { useTamboClient } from "./tambo-client-provider";
 import { useTamboRegistry } from "./tambo-registry-provider";
 
 export interface TamboComponentContextProps {
   registerComponent: (options: TamboComponent) => void;
-  registerTool: (tool: TamboTool) => void;
-  registerTools: (tools: TamboTool[]) => void;
-  addToolAssociation: (componentName: string, tool: TamboTool) => void;
+  registerTool: (tool: TamboAnyTool) => void;
+  registerTools: (tools: TamboAnyTool[]) => void;
+  addToolAssociation: (componentName: string, tool: TamboAnyTool) => void;
 }
 
 const TamboComponentContext = createContext<TamboComponentContextProps>({
@@ -14,6 +14,7 @@ import {
   ContextHelpers,
 } from "../context-helpers";
 import { resolveAdditionalContext } from "../context-helpers/registry";
+import { useTamboTracer } from "./tambo-tracer-provider";
 
 export interface TamboContextHelpersProviderProps {
   /**
@@ -51,6 +52,7 @@ export const TamboContextHelpersProvider: React.FC<
   PropsWithChildren<TamboContextHelpersProviderProps>
 > = ({ children, contextHelpers }) => {
   const [helpers, setHelpers] = useState<Record<string, ContextHelperFn>>({});
+  const tracer = useTamboTracer();
   const addContextHelper = useCallback((name: string, fn: ContextHelperFn) => {
     setHelpers((prev) => ({ ...prev, [name]: fn }));
   }, []);
@@ -86,9 +88,9 @@ export const TamboContextHelpersProvider: React.FC<
   }, [addContextHelper, contextHelpers, removeContextHelper]);
 
   const getAdditionalContext = useCallback(async () => {
-    const contexts = await resolveAdditionalContext(helpers);
+    const contexts = await resolveAdditionalContext(helpers, tracer);
     return contexts as AdditionalContext[];
-  }, [helpers]);
+  }, [helpers, tracer]);
 
   const getContextHelpers = useCallback(() => {
     return helpers as ContextHelpers;
@@ -39,6 +39,11 @@ import {
   TamboThreadProviderProps,
   useTamboThread,
 } from "./tambo-thread-provider";
+import { TamboToolApprovalProvider } from "./tambo-tool-approval-provider";
+import {
+  TamboTracerProvider,
+  TamboTracerProviderProps,
+} from "./tambo-tracer-provider";
 
 /**
  * The TamboProvider gives full access to the whole Tambo API. This includes the
@@ -47,13 +52,22 @@ import {
  * @param props.children - The children to wrap
  * @param props.tamboUrl - The URL of the Tambo API
  * @param props.apiKey - The API key for the Tambo API
+ * @param props.client - The client to use instead of creating one, e.g. the client of a mock backend in tests
  * @param props.components - The components to register
  * @param props.environment - The environment to use for the Tambo API
  * @param props.tools - The tools to register
  * @param props.streaming - Whether to stream the response by default. Defaults to true.
+ * @param props.maxConcurrentToolCalls - The maximum number of tool calls to run at the same time. Defaults to 4.
+ * @param props.storage - Persists threads on the client and queues messages sent while offline
+ * @param props.onGenerationComplete - Called when a thread finishes generating a response, including threads that are not the current thread
+ * @param props.onEvent - Called with typed events about messages, stream chunks, tool calls, rendered components, stage changes and token refreshes
+ * @param props.reportComponentErrors - Send the errors of components that could not be rendered back to the model, so it can try once more
+ * @param props.errorComponent - Rendered in place of components that fail and have no `errorComponent` of their own
+ * @param props.tracer - Creates spans for API requests, tool calls, MCP tool calls and context helpers, and propagates their trace headers
  * @param props.contextHelpers - Configuration for which context helpers are enabled/disabled
  * @param props.userToken - The JWT id token to use to identify the user in the Tambo API. (preferred over contextKey)
  * @param props.contextKey - Optional context key to be used in the thread input provider
+ * @param props.attachmentOptions - Which files can be attached to messages, and how they are uploaded
  * @returns The TamboProvider component
  */
 export const TamboProvider: React.FC<
@@ -62,19 +76,29 @@ export const TamboProvider: React.FC<
       TamboRegistryProviderProps &
       TamboThreadProviderProps &
       TamboContextHelpersProviderProps &
-      TamboThreadInputProviderProps
+      TamboThreadInputProviderProps &
+      TamboTracerProviderProps
   >
 > = ({
   children,
   tamboUrl,
   apiKey,
+  client,
   userToken,
   components,
   environment,
   tools,
   streaming,
+  maxConcurrentToolCalls,
+  storage,
+  onGenerationComplete,
+  onEvent,
+  reportComponentErrors,
+  errorComponent,
+  tracer,
   contextHelpers,
   contextKey,
+  attachmentOptions,
 }) => {
   // Should only be used in browser
   if (typeof window === "undefined") {
@@ -82,26 +106,45 @@ export const TamboProvider: React.FC<
   }
 
   return (
-    <TamboClientProvider
-      tamboUrl={tamboUrl}
-      apiKey={apiKey}
-      environment={environment}
-      userToken={userToken}
-    >
-      <TamboRegistryProvider components={components} tools={tools}>
-        <TamboContextHelpersProvider contextHelpers={contextHelpers}>
-          <TamboThreadProvider streaming={streaming}>
-            <TamboThreadInputProvider contextKey={contextKey}>
-              <TamboComponentProvider>
-                <TamboInteractableProvider>
-                  <TamboCompositeProvider>{children}</TamboCompositeProvider>
-                </TamboInteractableProvider>
-              </TamboComponentProvider>
-            </TamboThreadInputProvider>
-          </TamboThreadProvider>
-        </TamboContextHelpersProvider>
-      </TamboRegistryProvider>
-    </TamboClientProvider>
+    <TamboTracerProvider tracer={tracer}>
+      <TamboClientProvider
+        tamboUrl={tamboUrl}
+        apiKey={apiKey}
+        client={client}
+        environment={environment}
+        userToken={userToken}
+        onEvent={onEvent}
+      >
+        <TamboRegistryProvider components={components} tools={tools}>
+          <TamboContextHelpersProvider contextHelpers={contextHelpers}>
+            <TamboToolApprovalProvider>
+              <TamboThreadProvider
+                streaming={streaming}
+                maxConcurrentToolCalls={maxConcurrentToolCalls}
+                storage={storage}
+                onGenerationComplete={onGenerationComplete}
+                onEvent={onEvent}
+                reportComponentErrors={reportComponentErrors}
+                errorComponent={errorComponent}
+              >
+                <TamboThreadInputProvider
+                  contextKey={contextKey}
+                  attachmentOptions={attachmentOptions}
+                >
+                  <TamboComponentProvider>
+                    <TamboInteractableProvider>
+                      <TamboCompositeProvider>
+                        {children}
+                      </TamboCompositeProvider>
+                    </TamboInteractableProvider>
+                  </TamboComponentProvider>
+                </TamboThreadInputProvider>
+              </TamboThreadProvider>
+            </TamboToolApprovalProvider>
+          </TamboContextHelpersProvider>
+        </TamboRegistryProvider>
+      </TamboClientProvider>
+    </TamboTracerProvider>
   );
 };
 
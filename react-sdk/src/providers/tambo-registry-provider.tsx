@@ -11,19 +11,22 @@ import { ZodSchema } from "zod";
 import zodToJsonSchema from "zod-to-json-schema";
 import {
   ComponentRegistry,
+  TamboAnyTool,
   TamboComponent,
-  TamboTool,
 } from "../model/component-metadata";
+import { createLazyComponent } from "../util/lazy-component";
+import { isObjectTool } from "../util/registry";
 import { assertNoZodRecord } from "../util/validate-zod-schema";
 
 export interface TamboRegistryContext {
   componentList: ComponentRegistry;
-  toolRegistry: Record<string, TamboTool>;
+  toolRegistry: Record<string, TamboAnyTool>;
   componentToolAssociations: Record<string, string[]>;
   registerComponent: (options: TamboComponent) => void;
-  registerTool: (tool: TamboTool) => void;
-  registerTools: (tools: TamboTool[]) => void;
-  addToolAssociation: (componentName: string, tool: TamboTool) => void;
+  registerTool: (tool: TamboAnyTool) => void;
+  registerTools: (tools: TamboAnyTool[]) => void;
+  unregisterTool: (name: string) => void;
+  addToolAssociation: (componentName: string, tool: TamboAnyTool) => void;
 }
 
 export const TamboRegistryContext = createContext<TamboRegistryContext>({
@@ -42,6 +45,10 @@ export const TamboRegistryContext = createContext<TamboRegistryContext>({
    *
    */
   registerTools: () => {},
+  /**
+   *
+   */
+  unregisterTool: () => {},
   /**
    *
    */
@@ -52,7 +59,7 @@ export interface TamboRegistryProviderProps {
   /** The components to register */
   components?: TamboComponent[];
   /** The tools to register */
-  tools?: TamboTool[];
+  tools?: TamboAnyTool[];
 }
 
 /**
@@ -68,17 +75,22 @@ export const TamboRegistryProvider: React.FC<
   PropsWithChildren<TamboRegistryProviderProps>
 > = ({ children, components: userComponents, tools: userTools }) => {
   const [componentList, setComponentList] = useState<ComponentRegistry>({});
-  const [toolRegistry, setToolRegistry] = useState<Record<string, TamboTool>>(
-    {},
-  );
+  const [toolRegistry, setToolRegistry] = useState<
+    Record<string, TamboAnyTool>
+  >({});
   const [componentToolAssociations, setComponentToolAssociations] = useState<
     Record<string, string[]>
   >({});
 
   const registerTool = useCallback(
-    (tool: TamboTool, warnOnOverwrite = true) => {
+    (tool: TamboAnyTool, warnOnOverwrite = true) => {
       // Validate tool schemas
-      if (tool.toolSchema && isZodSchema(tool.toolSchema)) {
+      if (isObjectTool(tool)) {
+        assertNoZodRecord(
+          tool.inputSchema,
+          `inputSchema of tool "${tool.name}"`,
+        );
+      } else if (isZodSchema(tool.toolSchema)) {
         assertNoZodRecord(tool.toolSchema, `toolSchema of tool "${tool.name}"`);
       }
       setToolRegistry((prev) => {
@@ -95,14 +107,35 @@ export const TamboRegistryProvider: React.FC<
   );
 
   const registerTools = useCallback(
-    (tools: TamboTool[], warnOnOverwrite = true) => {
+    (tools: TamboAnyTool[], warnOnOverwrite = true) => {
       tools.forEach((tool) => registerTool(tool, warnOnOverwrite));
     },
     [registerTool],
   );
 
+  const unregisterTool = useCallback((name: string) => {
+    setToolRegistry((prev) => {
+      if (!prev[name]) {
+        return prev;
+      }
+      const { [name]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setComponentToolAssociations((prev) => {
+      if (!Object.values(prev).some((toolNames) => toolNames.includes(name))) {
+        return prev;
+      }
+      return Object.fromEntries(
+        Object.entries(prev).map(([componentName, toolNames]) => [
+          componentName,
+          toolNames.filter((toolName) => toolName !== name),
+        ]),
+      );
+    });
+  }, []);
+
   const addToolAssociation = useCallback(
-    (componentName: string, tool: TamboTool) => {
+    (componentName: string, tool: TamboAnyTool) => {
       if (!componentList[componentName]) {
         throw new Error(`Component ${componentName} not found in registry`);
       }
@@ -120,12 +153,31 @@ export const TamboRegistryProvider: React.FC<
         name,
         description,
         component,
+        load,
         propsSchema,
         propsDefinition,
         loadingComponent,
+        errorComponent,
+        version,
+        migrations,
         associatedTools,
       } = options;
 
+      // Validate that the component is either imported or loaded
+      const implementation = component
+        ? { component }
+        : load && createLazyComponent(load);
+      if (!implementation) {
+        throw new Error(
+          `Component ${name} must have either component or load defined`,
+        );
+      }
+      if (component && load) {
+        throw new Error(
+          `Component ${name} cannot have both component and load defined. Use only one.`,
+        );
+      }
+
       // Validate that at least one props definition is provided
       if (!propsSchema && !propsDefinition) {
         throw new Error(
@@ -155,11 +207,15 @@ export const TamboRegistryProvider: React.FC<
         return {
           ...prev,
           [name]: {
-            component,
+            ...implementation,
             loadingComponent,
+            errorComponent,
             name,
             description,
             props,
+            propsSchema: isZodSchema(propsSchema) ? propsSchema : undefined,
+            version,
+            migrations,
             contextTools: [],
           },
         };
@@ -195,6 +251,7 @@ export const TamboRegistryProvider: React.FC<
     registerComponent,
     registerTool,
     registerTools,
+    unregisterTool,
     addToolAssociation,
   };
 
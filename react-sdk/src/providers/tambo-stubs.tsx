@@ -2,9 +2,10 @@
 import TamboAI from "@tambo-ai/typescript-sdk";
 import { QueryClient } from "@tanstack/react-query";
 import React, { PropsWithChildren, useEffect } from "react";
-import { TamboComponent, TamboTool } from "../model/component-metadata";
+import { TamboAnyTool, TamboComponent } from "../model/component-metadata";
 import { GenerationStage } from "../model/generate-component-response";
 import { TamboThread } from "../model/tambo-thread";
+import { createLazyComponent } from "../util/lazy-component";
 import { TamboClientContext } from "./tambo-client-provider";
 import {
   TamboComponentContextProps,
@@ -21,9 +22,11 @@ import {
 import { TamboRegistryContext } from "./tambo-registry-provider";
 import {
   TamboGenerationStageProvider,
+  TamboThreadStatusProvider,
   TamboThreadContext,
   TamboThreadContextProps,
 } from "./tambo-thread-provider";
+import { TamboToolApprovalProvider } from "./tambo-tool-approval-provider";
 
 /**
  * TamboStubProvider props - includes all the data that would normally be inferred
@@ -34,7 +37,7 @@ export interface TamboStubProviderProps extends Partial<TamboContextProps> {
   /** Optional: Components registry - defaults to empty */
   components?: TamboComponent[];
   /** Optional: Tools registry - defaults to empty */
-  tools?: TamboTool[];
+  tools?: TamboAnyTool[];
   /** Optional: Threads data to populate thread list - overrides useTamboThreadList() */
   threads?: Partial<TamboAI.Beta.Threads.ThreadsOffsetAndLimit>;
   /** Optional: Project ID to use for query cache - defaults to thread.projectId */
@@ -94,12 +97,12 @@ const TamboStubClientProvider: React.FC<
 const TamboStubRegistryProvider: React.FC<
   PropsWithChildren<{
     componentList: Record<string, any>;
-    toolRegistry: Record<string, TamboTool>;
+    toolRegistry: Record<string, TamboAnyTool>;
     componentToolAssociations: Record<string, string[]>;
     registerComponent: (options: TamboComponent) => void;
-    registerTool: (tool: TamboTool) => void;
-    registerTools: (tools: TamboTool[]) => void;
-    addToolAssociation: (componentName: string, tool: TamboTool) => void;
+    registerTool: (tool: TamboAnyTool) => void;
+    registerTools: (tools: TamboAnyTool[]) => void;
+    addToolAssociation: (componentName: string, tool: TamboAnyTool) => void;
   }>
 > = ({
   children,
@@ -120,6 +123,9 @@ const TamboStubRegistryProvider: React.FC<
         registerComponent,
         registerTool,
         registerTools,
+        // Providers unregister their tools when they unmount, so this must
+        // not throw
+        unregisterTool: () => {},
         addToolAssociation,
       }}
     >
@@ -143,12 +149,21 @@ const TamboStubThreadProvider: React.FC<
 
   return (
     <TamboThreadContext.Provider value={threadContextProps}>
-      <TamboGenerationStageProvider
-        generationStage={generationStage}
-        statusMessage={statusMessage}
+      <TamboThreadStatusProvider
+        threadStatuses={{
+          [threadContextProps.thread.id]: {
+            generationStage: threadContextProps.thread.generationStage,
+            statusMessage: threadContextProps.thread.statusMessage,
+          },
+        }}
       >
-        {children}
-      </TamboGenerationStageProvider>
+        <TamboGenerationStageProvider
+          generationStage={generationStage}
+          statusMessage={statusMessage}
+        >
+          {children}
+        </TamboGenerationStageProvider>
+      </TamboThreadStatusProvider>
     </TamboThreadContext.Provider>
   );
 };
@@ -197,6 +212,18 @@ const createDefaultCallbacks = () => ({
   cancel: () => {
     throw new Error("cancel not implemented in stub");
   },
+  editMessage: () => {
+    throw new Error("editMessage not implemented in stub");
+  },
+  regenerate: () => {
+    throw new Error("regenerate not implemented in stub");
+  },
+  getMessageBranches: () => {
+    throw new Error("getMessageBranches not implemented in stub");
+  },
+  switchBranch: () => {
+    throw new Error("switchBranch not implemented in stub");
+  },
 });
 
 /**
@@ -287,7 +314,9 @@ export const TamboStubProvider: React.FC<
   const componentList = components.reduce(
     (acc, component) => {
       acc[component.name] = {
-        component: component.component,
+        ...(component.load
+          ? createLazyComponent(component.load)
+          : { component: component.component }),
         loadingComponent: component.loadingComponent,
         name: component.name,
         description: component.description,
@@ -305,7 +334,7 @@ export const TamboStubProvider: React.FC<
       acc[tool.name] = tool;
       return acc;
     },
-    {} as Record<string, TamboTool>,
+    {} as Record<string, TamboAnyTool>,
   );
 
   // Build tool associations from components
@@ -337,6 +366,11 @@ export const TamboStubProvider: React.FC<
     sendThreadMessage:
       overrides.sendThreadMessage ?? defaults.sendThreadMessage,
     cancel: overrides.cancel ?? defaults.cancel,
+    editMessage: overrides.editMessage ?? defaults.editMessage,
+    regenerate: overrides.regenerate ?? defaults.regenerate,
+    getMessageBranches:
+      overrides.getMessageBranches ?? defaults.getMessageBranches,
+    switchBranch: overrides.switchBranch ?? defaults.switchBranch,
   };
 
   const componentContextProps: TamboComponentContextProps = {
@@ -366,13 +400,15 @@ export const TamboStubProvider: React.FC<
         registerTools={componentContextProps.registerTools}
         addToolAssociation={componentContextProps.addToolAssociation}
       >
-        <TamboStubThreadProvider {...threadContextProps}>
-          <TamboContextHelpersProvider contextHelpers={contextHelpers}>
-            <TamboComponentProvider>
-              <TamboCompositeProvider>{children}</TamboCompositeProvider>
-            </TamboComponentProvider>
-          </TamboContextHelpersProvider>
-        </TamboStubThreadProvider>
+        <TamboToolApprovalProvider>
+          <TamboStubThreadProvider {...threadContextProps}>
+            <TamboContextHelpersProvider contextHelpers={contextHelpers}>
+              <TamboComponentProvider>
+                <TamboCompositeProvider>{children}</TamboCompositeProvider>
+              </TamboComponentProvider>
+            </TamboContextHelpersProvider>
+          </TamboStubThreadProvider>
+        </TamboToolApprovalProvider>
       </TamboStubRegistryProvider>
     </TamboStubClientProvider>
   );
@@ -4,14 +4,20 @@ import React, {
   PropsWithChildren,
   useCallback,
   useContext,
+  useRef,
   useState,
 } from "react";
 import {
   useTamboMutation,
   UseTamboMutationResult,
 } from "../hooks/react-query-hooks";
+import {
+  TamboAttachment,
+  TamboAttachmentOptions,
+} from "../model/tambo-attachment";
 import { ThreadInputError } from "../model/thread-input-error";
 import { validateInput } from "../model/validate-input";
+import { readAttachment } from "../util/attachments";
 import { useTamboThread } from "./tambo-thread-provider";
 
 /**
@@ -24,8 +30,24 @@ export const INPUT_ERROR_MESSAGES = {
   NETWORK: "Network error. Please check your connection",
   SERVER: "Server error. Please try again",
   VALIDATION: "Invalid message format",
+  ATTACHMENTS_LOADING: "Attachments are still uploading",
 } as const;
 
+/** A file attached to the input, while it is read or uploaded */
+export interface TamboInputAttachment {
+  /** Identifies the attachment, for removing it */
+  id: string;
+  /** The attached file */
+  file: File;
+  status: "loading" | "ready" | "error";
+  /** How much of the file has been read or uploaded, between 0 and 1 */
+  progress: number;
+  /** The attachment to send, once the file is ready */
+  attachment?: TamboAttachment;
+  /** Why the file cannot be attached */
+  error?: string;
+}
+
 export interface TamboThreadInputContextProps
   extends Omit<
     UseTamboMutationResult<
@@ -49,6 +71,19 @@ export interface TamboThreadInputContextProps
    * @param value - New value for the input field
    */
   setValue: (value: string) => void;
+  /** Files attached to the input, which are sent with the next message */
+  attachments: TamboInputAttachment[];
+  /**
+   * Attach files to the input. Files that cannot be attached are added with
+   * an error status, so the error can be shown next to the file.
+   * @param files - The files to attach, e.g. from a file input, paste or drop
+   */
+  addAttachments: (files: File[] | FileList) => Promise<void>;
+  /**
+   * Remove an attached file, stopping its upload if it is still uploading
+   * @param id - The id of the attachment to remove
+   */
+  removeAttachment: (id: string) => void;
   /**
    * Function to submit the current input value
    * @param options - Submission options
@@ -67,6 +102,8 @@ export const TamboThreadInputContext = createContext<
 
 export interface TamboThreadInputProviderProps {
   contextKey?: string;
+  /** Which files can be attached to messages, and how they are uploaded */
+  attachmentOptions?: TamboAttachmentOptions;
 }
 
 /**
@@ -75,14 +112,76 @@ export interface TamboThreadInputProviderProps {
  * all share the same input state
  * @param props - The props for the TamboThreadInputProvider
  * @param props.contextKey - Optional context key.
+ * @param props.attachmentOptions - Which files can be attached, and how they are uploaded
  * @param props.children - The children to render.
  * @returns The thread input context
  */
 export const TamboThreadInputProvider: React.FC<
   PropsWithChildren<TamboThreadInputProviderProps>
-> = ({ children, contextKey }) => {
+> = ({ children, contextKey, attachmentOptions }) => {
   const { thread, sendThreadMessage } = useTamboThread();
   const [inputValue, setInputValue] = useState("");
+  const [attachments, setAttachments] = useState<TamboInputAttachment[]>([]);
+  // Aborts reading or uploading attachments that are removed
+  const attachmentControllersRef = useRef(new Map<string, AbortController>());
+
+  const updateAttachment = useCallback(
+    (id: string, update: Partial<TamboInputAttachment>) => {
+      setAttachments((prevAttachments) =>
+        prevAttachments.map((attachment) =>
+          attachment.id === id ? { ...attachment, ...update } : attachment,
+        ),
+      );
+    },
+    [],
+  );
+
+  const addAttachments = useCallback(
+    async (files: File[] | FileList) => {
+      const added = Array.from(files).map(
+        (file): TamboInputAttachment => ({
+          id: crypto.randomUUID(),
+          file,
+          status: "loading",
+          progress: 0,
+        }),
+      );
+      setAttachments((prevAttachments) => [...prevAttachments, ...added]);
+
+      await Promise.all(
+        added.map(async ({ id, file }) => {
+          const abortController = new AbortController();
+          attachmentControllersRef.current.set(id, abortController);
+          try {
+            const attachment = await readAttachment(file, attachmentOptions, {
+              onProgress: (progress) => {
+                updateAttachment(id, { progress });
+              },
+              signal: abortController.signal,
+            });
+            updateAttachment(id, { status: "ready", progress: 1, attachment });
+          } catch (error) {
+            if (!abortController.signal.aborted) {
+              updateAttachment(id, {
+                status: "error",
+                error: error instanceof Error ? error.message : String(error),
+              });
+            }
+          } finally {
+            attachmentControllersRef.current.delete(id);
+          }
+        }),
+      );
+    },
+    [attachmentOptions, updateAttachment],
+  );
+
+  const removeAttachment = useCallback((id: string) => {
+    attachmentControllersRef.current.get(id)?.abort();
+    setAttachments((prevAttachments) =>
+      prevAttachments.filter((attachment) => attachment.id !== id),
+    );
+  }, []);
 
   const submit = useCallback(
     async ({
@@ -96,7 +195,15 @@ export const TamboThreadInputProvider: React.FC<
       forceToolChoice?: string;
       additionalContext?: Record<string, any>;
     } = {}) => {
-      const validation = validateInput(inputValue);
+      if (attachments.some((attachment) => attachment.status === "loading")) {
+        throw new ThreadInputError(
+          `Cannot submit message: ${INPUT_ERROR_MESSAGES.ATTACHMENTS_LOADING}`,
+        );
+      }
+      const readyAttachments = attachments.flatMap(({ attachment }) =>
+        attachment ? [attachment] : [],
+      );
+      const validation = validateInput(inputValue, readyAttachments);
       if (!validation.isValid) {
         throw new ThreadInputError(
           `Cannot submit message: ${validation.error ?? INPUT_ERROR_MESSAGES.VALIDATION}`,
@@ -110,10 +217,12 @@ export const TamboThreadInputProvider: React.FC<
         streamResponse: streamResponse,
         forceToolChoice: forceToolChoice,
         additionalContext: additionalContext,
+        attachments: readyAttachments,
       });
       setInputValue(""); // Clear local state
+      setAttachments([]);
     },
-    [inputValue, sendThreadMessage, thread.id, contextKey],
+    [attachments, inputValue, sendThreadMessage, thread.id, contextKey],
   );
 
   const {
@@ -128,6 +237,9 @@ export const TamboThreadInputProvider: React.FC<
     ...mutationState,
     value: inputValue,
     setValue: setInputValue,
+    attachments,
+    addAttachments,
+    removeAttachment,
     submit: submitAsync,
   };
 
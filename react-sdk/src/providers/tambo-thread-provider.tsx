@@ -1,32 +1,44 @@
 "use client";
-import TamboAI, { advanceStream } from "@tambo-ai/typescript-sdk";
+import TamboAI from "@tambo-ai/typescript-sdk";
 import { Thread } from "@tambo-ai/typescript-sdk/resources/beta/threads/threads";
 import React, {
+  ComponentType,
   createContext,
   PropsWithChildren,
-  useCallback,
   useContext,
   useEffect,
+  useLayoutEffect,
   useMemo,
   useRef,
   useState,
+  useSyncExternalStore,
 } from "react";
+import {
+  PartialTamboThreadMessageWithThreadId,
+  PLACEHOLDER_THREAD,
+  TamboGenerationCompleteEvent,
+  TamboThreadController,
+  TamboThreadControllerOptions,
+} from "../controller/tambo-thread-controller";
 import {
   GenerationStage,
   isIdleStage,
   TamboThreadMessage,
 } from "../model/generate-component-response";
+import { TamboComponentErrorProps } from "../model/component-error";
+import { TamboAttachment } from "../model/tambo-attachment";
+import { TamboEvent } from "../model/tambo-event";
 import { TamboThread } from "../model/tambo-thread";
-import { renderComponentIntoMessage } from "../util/generate-component";
-import {
-  getAvailableComponents,
-  getUnassociatedTools,
-  mapTamboToolToContextTool,
-} from "../util/registry";
-import { handleToolCall } from "../util/tool-caller";
+import { ThreadStorageAdapter } from "../storage/thread-storage-adapter";
+import { TamboMessageBranches } from "../util/thread-branches";
+import { DEFAULT_MAX_CONCURRENT_TOOL_CALLS } from "../util/tool-caller";
 import { useTamboClient } from "./tambo-client-provider";
 import { useTamboContextHelpers } from "./tambo-context-helpers-provider";
 import { useTamboRegistry } from "./tambo-registry-provider";
+import { TamboToolApprovalContext } from "./tambo-tool-approval-provider";
+import { useTamboTracer } from "./tambo-tracer-provider";
+
+export { PLACEHOLDER_THREAD, type TamboGenerationCompleteEvent };
 
 // Generation Stage Context - separate from thread context to prevent re-renders
 export interface TamboGenerationStageContextProps {
@@ -39,6 +51,34 @@ const TamboGenerationStageContext = createContext<
   TamboGenerationStageContextProps | undefined
 >(undefined);
 
+// The generation stage and status message of every thread, by thread id
+export type TamboThreadStatuses = Record<
+  string,
+  Pick<TamboThread, "generationStage" | "statusMessage">
+>;
+
+const TamboThreadStatusContext = createContext<TamboThreadStatuses | undefined>(
+  undefined,
+);
+
+/**
+ * Provides the generation stage of every thread to the descendants of the
+ * provider, for `useTamboThreadStatus`.
+ * @param props - The props for the TamboThreadStatusProvider
+ * @param props.children - The children to wrap
+ * @param props.threadStatuses - The status of each thread, by thread id
+ * @returns The TamboThreadStatusProvider component
+ */
+export const TamboThreadStatusProvider: React.FC<
+  PropsWithChildren<{ threadStatuses: TamboThreadStatuses }>
+> = ({ children, threadStatuses }) => {
+  return (
+    <TamboThreadStatusContext.Provider value={threadStatuses}>
+      {children}
+    </TamboThreadStatusContext.Provider>
+  );
+};
+
 interface TamboGenerationStageProviderProps {
   generationStage: GenerationStage;
   statusMessage: string;
@@ -73,11 +113,6 @@ export const TamboGenerationStageProvider: React.FC<
   );
 };
 
-// Type for partial message updates that requires threadId
-type PartialTamboThreadMessageWithThreadId = Partial<TamboThreadMessage> & {
-  threadId: string;
-};
-
 export interface TamboThreadContextProps {
   /** The current thread */
   thread: TamboThread;
@@ -113,8 +148,28 @@ export interface TamboThreadContextProps {
       contextKey?: string;
       forceToolChoice?: string;
       additionalContext?: Record<string, any>;
+      /** Files to send with the message, see `readAttachment` */
+      attachments?: TamboAttachment[];
     },
   ) => Promise<TamboThreadMessage>;
+  /**
+   * Edit a user message of the current thread and send it again. The thread
+   * is forked at the message, so the original branch is kept.
+   */
+  editMessage: (
+    messageId: string,
+    newText: string,
+  ) => Promise<TamboThreadMessage>;
+  /**
+   * Generate a new response to a message of the current thread. The thread is
+   * forked at the user message the response answers, so the original branch
+   * is kept.
+   */
+  regenerate: (messageId: string) => Promise<TamboThreadMessage>;
+  /** Get the sibling branches of a message of the current thread */
+  getMessageBranches: (messageId: string) => TamboMessageBranches;
+  /** Show another sibling branch of a message of the current thread */
+  switchBranch: (messageId: string, branchIndex: number) => Promise<void>;
 }
 
 // Combined context interface that includes generation stage fields
@@ -122,22 +177,6 @@ export interface CombinedTamboThreadContextProps
   extends TamboThreadContextProps,
     TamboGenerationStageContextProps {}
 
-/**
- * This is a stub entry for when the thread is not yet created, the first time
- * the user sends a message
- *
- * Note that the consumer needs to be careful never to send `PLACEHOLDER_THREAD.id` to the server,
- * as this doesn't really exist on the server side.
- */
-export const PLACEHOLDER_THREAD: TamboThread = {
-  id: "placeholder",
-  messages: [],
-  createdAt: "",
-  projectId: "",
-  updatedAt: "",
-  metadata: {},
-};
-
 export const TamboThreadContext = createContext<TamboThreadContextProps>({
   thread: PLACEHOLDER_THREAD,
   /**
@@ -189,777 +228,185 @@ export const TamboThreadContext = createContext<TamboThreadContextProps>({
   cancel: () => {
     throw new Error("cancel not implemented");
   },
+  /**
+   *
+   */
+  editMessage: () => {
+    throw new Error("editMessage not implemented");
+  },
+  /**
+   *
+   */
+  regenerate: () => {
+    throw new Error("regenerate not implemented");
+  },
+  /**
+   *
+   */
+  getMessageBranches: () => {
+    throw new Error("getMessageBranches not implemented");
+  },
+  /**
+   *
+   */
+  switchBranch: () => {
+    throw new Error("switchBranch not implemented");
+  },
 });
 
 export interface TamboThreadProviderProps {
   /** Whether to stream the response */
   streaming?: boolean;
+  /**
+   * The maximum number of client-side tool calls that are run at the same
+   * time when the model requests several tools in a single response
+   */
+  maxConcurrentToolCalls?: number;
+  /**
+   * Persists threads on the client, so they are shown right away on load and
+   * messages sent while offline are queued until the browser is back online
+   */
+  storage?: ThreadStorageAdapter;
+  /**
+   * Called when a thread finishes generating a response, including threads
+   * that are not the current thread
+   */
+  onGenerationComplete?: (event: TamboGenerationCompleteEvent) => void;
+  /**
+   * Called with everything that happens while a thread runs: messages sent,
+   * stream chunks, tool calls, rendered components and stage changes
+   */
+  onEvent?: (event: TamboEvent) => void;
+  /**
+   * Send the errors of components that could not be rendered, such as unknown
+   * components or invalid props, back to the model so it can try once more
+   */
+  reportComponentErrors?: boolean;
+  /**
+   * Rendered in place of the components that fail and have no
+   * `errorComponent` of their own
+   */
+  errorComponent?: ComponentType<TamboComponentErrorProps>;
 }
 
+// Layout effects do not run on the server, where React warns about them
+const useIsomorphicLayoutEffect =
+  typeof window === "undefined" ? useEffect : useLayoutEffect;
+
 /**
  * The TamboThreadProvider is a React provider that provides a thread context
- * to the descendants of the provider.
+ * to the descendants of the provider. The threads are run by a
+ * `TamboThreadController`, with the components, tools and context helpers
+ * of the surrounding providers.
  * @param props - The props for the TamboThreadProvider
  * @param props.children - The children to wrap
  * @param props.streaming - Whether to stream the response by default. Defaults to true.
+ * @param props.maxConcurrentToolCalls - The maximum number of tool calls to run at the same time. Defaults to 4.
+ * @param props.storage - Persists threads and queues messages sent while offline
+ * @param props.onGenerationComplete - Called when a thread finishes generating a response
+ * @param props.onEvent - Called with everything that happens while a thread runs
+ * @param props.reportComponentErrors - Whether to send the errors of components back to the model
+ * @param props.errorComponent - The default error component of the registered components
  * @returns The TamboThreadProvider component
  */
 export const TamboThreadProvider: React.FC<
   PropsWithChildren<TamboThreadProviderProps>
-> = ({ children, streaming = true }) => {
-  const [threadMap, setThreadMap] = useState<Record<string, TamboThread>>({
-    [PLACEHOLDER_THREAD.id]: PLACEHOLDER_THREAD,
-  });
+> = ({
+  children,
+  streaming = true,
+  maxConcurrentToolCalls = DEFAULT_MAX_CONCURRENT_TOOL_CALLS,
+  storage,
+  onGenerationComplete,
+  onEvent,
+  reportComponentErrors,
+  errorComponent,
+}) => {
   const client = useTamboClient();
   const { componentList, toolRegistry, componentToolAssociations } =
     useTamboRegistry();
   const { getAdditionalContext } = useTamboContextHelpers();
-  const [ignoreResponse, setIgnoreResponse] = useState(false);
-  const ignoreResponseRef = useRef(ignoreResponse);
-  const [currentThreadId, setCurrentThreadId] = useState<string>(
-    PLACEHOLDER_THREAD.id,
+  // Optional, tools that require approval are denied without it
+  const toolApproval = useContext(TamboToolApprovalContext);
+  const tracer = useTamboTracer();
+  const options: TamboThreadControllerOptions = {
+    client,
+    componentList,
+    toolRegistry,
+    componentToolAssociations,
+    getAdditionalContext,
+    requestToolApproval: toolApproval?.requestApproval,
+    streaming,
+    maxConcurrentToolCalls,
+    storage,
+    onGenerationComplete,
+    onEvent,
+    tracer,
+    reportComponentErrors,
+    errorComponent,
+  };
+  const [controller] = useState(() => new TamboThreadController(options));
+  // Generations that are already running use the latest registry and
+  // callbacks from their next step on. The options are passed on once the
+  // render is committed, so that a render React throws away does not change
+  // them.
+  useIsomorphicLayoutEffect(() => {
+    controller.setOptions(options);
+  });
+  const { threads, currentThreadId } = useSyncExternalStore(
+    controller.subscribe,
+    controller.getState,
+    controller.getState,
   );
-  const currentThread: TamboThread | undefined = threadMap[currentThreadId];
+  const currentThread: TamboThread | undefined = threads[currentThreadId];
+
+  useEffect(() => controller.connectStorage(), [controller, storage]);
 
   // Generation stage props for GenerationStageProvider
   const currentGenerationStage =
     (currentThread?.generationStage as GenerationStage) ?? GenerationStage.IDLE;
   const currentStatusMessage = currentThread?.statusMessage ?? "";
 
-  // Use existing messages from the current thread to avoid re-generating any components
-  const currentMessageCache = useMemo(() => {
-    const messageCache = new Map<string, TamboThreadMessage>();
-    if (currentThread) {
-      for (const message of currentThread.messages) {
-        messageCache.set(message.id, message);
-      }
-    }
-    return messageCache;
-  }, [currentThread]);
-
-  useEffect(() => {
-    ignoreResponseRef.current = ignoreResponse;
-  }, [ignoreResponse]);
-
-  const fetchThread = useCallback(
-    async (threadId: string, includeInternalMessages = true) => {
-      const thread = await client.beta.threads.retrieve(threadId, {
-        includeInternal: includeInternalMessages,
-      });
-      const threadWithRenderedComponents = {
-        ...thread,
-        messages: thread.messages.map((message) => {
-          if (currentMessageCache.has(message.id)) {
-            const renderedMessage = currentMessageCache.get(message.id);
-            return {
-              ...renderedMessage,
-              ...message,
-            };
-          }
-          if (message.component?.componentName) {
-            const messageWithComponent = renderComponentIntoMessage(
-              message,
-              componentList,
-            );
-            return messageWithComponent;
-          }
-          return message;
-        }),
-      };
-
-      setThreadMap((prevMap) => {
-        const updatedThreadMap = {
-          ...prevMap,
-          [threadId]: threadWithRenderedComponents,
-        };
-        return updatedThreadMap;
-      });
-    },
-    [client.beta.threads, componentList, currentMessageCache],
-  );
-
-  useEffect(() => {
-    if (
-      currentThreadId &&
-      currentThreadId !== PLACEHOLDER_THREAD.id &&
-      !threadMap[currentThreadId]
-    ) {
-      fetchThread(currentThreadId);
-    }
-  }, [currentThreadId, fetchThread, threadMap]);
-
-  const addThreadMessage = useCallback(
-    async (
-      message: TamboThreadMessage,
-      sendToServer = true,
-      createdAt: string = new Date().toISOString(),
-    ) => {
-      if (!currentThread) {
-        console.warn("Cannot add messages if we do not have a current thread");
-        return [];
-      }
-
-      const chatMessage: TamboThreadMessage = {
-        ...message,
-        createdAt,
-      };
-      const threadId = message.threadId;
-      const messageId = chatMessage.id;
-      // optimistically update the thread in the local state
-      setThreadMap((prevMap) => {
-        if (!threadId) {
-          return prevMap;
-        }
-        const prevMessages = prevMap[threadId]?.messages || [];
-        const haveMessage = prevMessages.find((msg) => msg.id === messageId);
-        // Update in place if the message already exists
-        const updatedMessages = haveMessage
-          ? prevMessages.map((msg) => {
-              if (msg.id === messageId) {
-                return chatMessage;
-              }
-              return msg;
-            })
-          : [...prevMessages, chatMessage];
-
-        const updatedThreadMap = {
-          ...prevMap,
-          [threadId]: {
-            ...prevMap[threadId],
-            messages: updatedMessages,
-          },
-        };
-        return updatedThreadMap;
-      });
-
-      if (sendToServer) {
-        // TODO: if this fails, we need to revert the local state update
-        await client.beta.threads.messages.create(message.threadId, {
-          content: message.content,
-          role: message.role,
-          additionalContext: chatMessage.additionalContext,
-        });
-      }
-      return threadMap[threadId]?.messages || [];
-    },
-    [client.beta.threads.messages, currentThread, threadMap],
-  );
-
-  const updateThreadMessage = useCallback(
-    async (
-      id: string,
-      message: PartialTamboThreadMessageWithThreadId,
-      sendToServer = true,
-      createdAt: string = new Date().toISOString(),
-    ) => {
-      setThreadMap((prevMap) => {
-        const prevMessages = prevMap[message.threadId]?.messages || [];
-        const updatedMessages = prevMessages.map((msg) => {
-          if (msg.id === id) {
-            // Merge the partial update with the existing message
-            const updatedMessage: TamboThreadMessage = {
-              ...msg,
-              ...message,
-              id: msg.id,
-              createdAt: message.createdAt ?? msg.createdAt ?? createdAt,
-            };
-            return updatedMessage;
-          }
-          return msg;
-        });
-        return {
-          ...prevMap,
-          [message.threadId]: {
-            ...prevMap[message.threadId],
-            messages: updatedMessages,
-          },
-        };
-      });
-
-      if (sendToServer && message.content && message.role) {
-        // TODO: if this fails, we need to revert the local state update
-        await client.beta.threads.messages.create(message.threadId, {
-          content: message.content,
-          role: message.role,
-          additionalContext: message.additionalContext,
-        });
-      }
-    },
-    [client.beta.threads.messages],
-  );
-
-  const startNewThread = useCallback(() => {
-    setCurrentThreadId(PLACEHOLDER_THREAD.id);
-    setThreadMap((prevMap) => {
-      return {
-        ...prevMap,
-        [PLACEHOLDER_THREAD.id]: PLACEHOLDER_THREAD,
-      };
-    });
-  }, []);
-
-  const updateThreadName = useCallback(
-    async (name: string, threadId?: string) => {
-      threadId ??= currentThreadId;
-
-      setThreadMap((prevMap) => {
-        if (!prevMap[threadId]) {
-          return prevMap;
-        }
-        return { ...prevMap, [threadId]: { ...prevMap[threadId], name } };
-      });
-
-      if (threadId !== PLACEHOLDER_THREAD.id) {
-        const currentProject = await client.beta.projects.getCurrent();
-        await client.beta.threads.update(threadId, {
-          name,
-          projectId: currentProject.id,
-        });
-      }
-    },
-    [currentThreadId, client.beta.projects, client.beta.threads],
-  );
-
-  const generateThreadName = useCallback(
-    async (threadId?: string) => {
-      threadId ??= currentThreadId;
-      if (threadId === PLACEHOLDER_THREAD.id) {
-        console.warn("Cannot generate name for empty thread");
-        return threadMap[threadId];
-      }
-
-      const threadWithGeneratedName =
-        await client.beta.threads.generateName(threadId);
-
-      setThreadMap((prevMap) => {
-        if (!prevMap[threadId]) {
-          return prevMap;
-        }
-        return {
-          ...prevMap,
-          [threadId]: {
-            ...prevMap[threadId],
-            name: threadWithGeneratedName.name,
-          },
-        };
-      });
-      return threadWithGeneratedName;
-    },
-    [client.beta.threads, currentThreadId, threadMap],
-  );
-
-  const switchCurrentThread = useCallback(
-    async (threadId: string, fetch = true) => {
-      if (threadId === PLACEHOLDER_THREAD.id) {
-        console.warn("Switching to placeholder thread, may be a bug.");
-        return;
-      }
-      setCurrentThreadId(threadId);
-      setThreadMap((prevMap) => {
-        if (prevMap[threadId]) {
-          return prevMap;
-        }
-        // If this is a new thread, add placeholder thread messages to the thread
-        const updatedThreadMap = {
-          ...prevMap,
-          [threadId]: {
-            ...prevMap[PLACEHOLDER_THREAD.id],
-            id: threadId,
-          },
-        };
-        return updatedThreadMap;
-      });
-      if (fetch) {
-        await fetchThread(threadId);
-      }
-    },
-    [fetchThread],
-  );
-
-  const updateThreadStatus = useCallback(
-    (threadId: string, stage: GenerationStage, statusMessage?: string) => {
-      setThreadMap((prevMap) => {
-        const updatedThreadMap = {
-          ...prevMap,
-          [threadId]: {
-            ...prevMap[threadId],
-            generationStage: stage,
-            statusMessage: statusMessage,
-          },
-        };
-        return updatedThreadMap;
-      });
-    },
-    [],
-  );
-
-  const cancel = useCallback(
-    async (threadId?: string) => {
-      threadId ??= currentThreadId;
-      const currentGenerationStage =
-        currentThread?.generationStage ?? GenerationStage.IDLE;
-      if (isIdleStage(currentGenerationStage as GenerationStage)) {
-        return;
-      }
-      setIgnoreResponse(true);
-      setThreadMap((prevMap) => {
-        if (!prevMap[threadId]) {
-          return prevMap;
-        }
-
-        return {
-          ...prevMap,
-          [threadId]: {
-            ...prevMap[threadId],
-            generationStage: GenerationStage.CANCELLED,
-            messages: prevMap[threadId].messages.map((message) => {
-              if (
-                message.id ===
-                prevMap[threadId].messages[
-                  prevMap[threadId].messages.length - 1
-                ].id
-              ) {
-                return {
-                  ...message,
-                  isCancelled: true,
-                };
-              }
-              return message;
-            }),
-          },
-        };
-      });
-
-      await client.beta.threads.cancel(threadId);
-    },
-    [client.beta.threads, currentThreadId, currentThread?.generationStage],
-  );
-
-  const handleAdvanceStream = useCallback(
-    async (
-      stream: AsyncIterable<TamboAI.Beta.Threads.ThreadAdvanceResponse>,
-      params: TamboAI.Beta.Threads.ThreadAdvanceParams,
-      threadId: string,
-    ): Promise<TamboThreadMessage> => {
-      if (ignoreResponseRef.current) {
-        setIgnoreResponse(false);
-        return {
-          threadId: threadId,
-          content: [{ type: "text", text: "" }],
-          role: "assistant",
-          createdAt: new Date().toISOString(),
-          id: crypto.randomUUID(),
-          componentState: {},
-        };
-      }
-      let finalMessage: Readonly<TamboThreadMessage> | undefined;
-      let hasSetThreadId = false;
-      updateThreadStatus(threadId, GenerationStage.STREAMING_RESPONSE);
-
-      for await (const chunk of stream) {
-        if (chunk.responseMessageDto.toolCallRequest) {
-          // Increment tool call count for this tool
-          const toolName = chunk.responseMessageDto.toolCallRequest.toolName;
-          if (toolName && params.toolCallCounts) {
-            params.toolCallCounts[toolName] =
-              (params.toolCallCounts[toolName] ?? 0) + 1;
-          }
-
-          updateThreadStatus(
-            chunk.responseMessageDto.threadId,
-            GenerationStage.FETCHING_CONTEXT,
-          );
-
-          updateThreadMessage(
-            chunk.responseMessageDto.id,
-            {
-              ...chunk.responseMessageDto,
-            },
-            false,
-          );
-
-          const toolCallResponse = await handleToolCall(
-            chunk.responseMessageDto,
-            toolRegistry,
-          );
-          if (ignoreResponseRef.current) {
-            setIgnoreResponse(false);
-            {
-              return {
-                threadId: threadId,
-                content: [{ type: "text", text: "" }],
-                role: "assistant",
-                createdAt: new Date().toISOString(),
-                id: crypto.randomUUID(),
-                componentState: {},
-              };
-            }
-          }
-          const toolCallResponseString =
-            typeof toolCallResponse.result === "string"
-              ? toolCallResponse.result
-              : JSON.stringify(toolCallResponse.result);
-          const toolCallResponseParams: TamboAI.Beta.Threads.ThreadAdvanceParams =
-            {
-              ...params,
-              messageToAppend: {
-                content: [{ type: "text", text: toolCallResponseString }],
-                role: "tool",
-                actionType: "tool_response",
-                component: chunk.responseMessageDto.component,
-                tool_call_id: chunk.responseMessageDto.tool_call_id,
-                error: toolCallResponse.error,
-              },
-            };
-
-          updateThreadMessage(
-            chunk.responseMessageDto.id,
-            {
-              ...chunk.responseMessageDto,
-              error: toolCallResponse.error,
-            },
-            false,
-          );
-
-          addThreadMessage(
-            {
-              threadId: chunk.responseMessageDto.threadId,
-              content: [{ type: "text", text: toolCallResponseString }],
-              role: "tool",
-              id: crypto.randomUUID(),
-              createdAt: new Date().toISOString(),
-              componentState: {},
-              actionType: "tool_response",
-              tool_call_id: chunk.responseMessageDto.tool_call_id,
-              error: toolCallResponse.error,
-            },
-            false,
-          );
-
-          updateThreadStatus(
-            chunk.responseMessageDto.threadId,
-            GenerationStage.STREAMING_RESPONSE,
-          );
-          const toolCallResponseStream = await advanceStream(
-            client,
-            toolCallResponseParams,
-            chunk.responseMessageDto.threadId,
-          );
-
-          return await handleAdvanceStream(
-            toolCallResponseStream,
-            toolCallResponseParams,
-            chunk.responseMessageDto.threadId,
-          );
-        } else {
-          if (ignoreResponseRef.current) {
-            setIgnoreResponse(false);
-            return (
-              finalMessage ?? {
-                threadId: threadId,
-                content: [{ type: "text", text: "" }],
-                role: "assistant",
-                createdAt: new Date().toISOString(),
-                id: crypto.randomUUID(),
-                componentState: {},
-              }
-            );
-          }
-          if (
-            !hasSetThreadId &&
-            chunk.responseMessageDto.threadId &&
-            chunk.responseMessageDto.threadId !== currentThread?.id
-          ) {
-            hasSetThreadId = true;
-            await switchCurrentThread(chunk.responseMessageDto.threadId, false);
-          }
-
-          if (!finalMessage) {
-            finalMessage = chunk.responseMessageDto.component?.componentName
-              ? renderComponentIntoMessage(
-                  chunk.responseMessageDto,
-                  componentList,
-                )
-              : chunk.responseMessageDto;
-            await addThreadMessage(finalMessage, false);
-          } else {
-            // if we start getting a new message mid-stream, put the previous one on screen
-            const isNewMessage =
-              chunk.responseMessageDto.id !== finalMessage.id;
-
-            finalMessage = chunk.responseMessageDto.component?.componentName
-              ? renderComponentIntoMessage(
-                  chunk.responseMessageDto,
-                  componentList,
-                )
-              : chunk.responseMessageDto;
-
-            if (isNewMessage) {
-              await addThreadMessage(finalMessage, false);
-            } else {
-              await updateThreadMessage(finalMessage.id, finalMessage, false);
-            }
-          }
-        }
-      }
-
-      updateThreadStatus(
-        finalMessage?.threadId ?? threadId,
-        GenerationStage.COMPLETE,
-      );
-      return (
-        finalMessage ?? {
-          threadId: "",
-          content: [{ type: "text", text: `Error processing stream` }],
-          role: "assistant",
-          createdAt: new Date().toISOString(),
-          id: crypto.randomUUID(),
-          componentState: {},
-        }
-      );
-    },
-    [
-      addThreadMessage,
-      client,
-      componentList,
-      currentThread?.id,
-      switchCurrentThread,
-      toolRegistry,
-      updateThreadMessage,
-      updateThreadStatus,
-    ],
-  );
-
-  const sendThreadMessage = useCallback(
-    async (
-      message: string,
-      options: {
-        threadId?: string;
-        streamResponse?: boolean;
-        forceToolChoice?: string;
-        contextKey?: string;
-        additionalContext?: Record<string, any>;
-      } = {},
-    ): Promise<TamboThreadMessage> => {
-      setIgnoreResponse(false);
-      const {
-        threadId = currentThreadId ?? PLACEHOLDER_THREAD.id,
-        streamResponse = streaming,
-        forceToolChoice,
-        contextKey,
-        additionalContext,
-      } = options;
-      updateThreadStatus(threadId, GenerationStage.FETCHING_CONTEXT);
-
-      // Get additional context from enabled helpers
-      const helperContexts = await getAdditionalContext();
-
-      // Combine all contexts
-      const combinedContext: Record<string, any> = {
-        ...(additionalContext ?? {}),
-      };
-
-      // Add helper contexts to combinedContext
-      for (const helperContext of helperContexts) {
-        combinedContext[helperContext.name] = helperContext.context;
-      }
-
-      addThreadMessage(
-        {
-          content: [{ type: "text", text: message }],
-          renderedComponent: null,
-          role: "user",
-          threadId: threadId,
-          id: crypto.randomUUID(),
-          createdAt: new Date().toISOString(),
-          componentState: {},
-          additionalContext: combinedContext,
-        },
-        false,
-      );
-
-      const availableComponents = getAvailableComponents(
-        componentList,
-        toolRegistry,
-        componentToolAssociations,
-      );
-      const unassociatedTools = getUnassociatedTools(
-        toolRegistry,
-        componentToolAssociations,
-      );
-
-      // Track tool call counts for this message processing
-      const toolCallCounts: Record<string, number> = {};
-
-      const params: TamboAI.Beta.Threads.ThreadAdvanceParams = {
-        messageToAppend: {
-          content: [{ type: "text", text: message }],
-          role: "user",
-          additionalContext: combinedContext,
-        },
-        contextKey,
-        availableComponents: availableComponents,
-        clientTools: unassociatedTools.map((tool) =>
-          mapTamboToolToContextTool(tool),
-        ),
-        forceToolChoice: forceToolChoice,
-        toolCallCounts,
-      };
-
-      if (streamResponse) {
-        let advanceStreamResponse: AsyncIterable<TamboAI.Beta.Threads.ThreadAdvanceResponse>;
-        try {
-          advanceStreamResponse = await advanceStream(
-            client,
-            params,
-            threadId === PLACEHOLDER_THREAD.id ? undefined : threadId,
-          );
-        } catch (error) {
-          updateThreadStatus(threadId, GenerationStage.ERROR);
-          throw error;
-        }
-        try {
-          return await handleAdvanceStream(
-            advanceStreamResponse,
-            params,
-            threadId,
-          );
-        } catch (error) {
-          updateThreadStatus(threadId, GenerationStage.ERROR);
-          throw error;
-        }
-      }
-
-      let advanceResponse: TamboAI.Beta.Threads.ThreadAdvanceResponse;
-      try {
-        advanceResponse = await (threadId === PLACEHOLDER_THREAD.id
-          ? client.beta.threads.advance(params)
-          : client.beta.threads.advanceById(threadId, params));
-      } catch (error) {
-        updateThreadStatus(threadId, GenerationStage.ERROR);
-        throw error;
-      }
-
-      //handle tool calls
-      try {
-        while (advanceResponse.responseMessageDto.toolCallRequest) {
-          // Increment tool call count for this tool
-          const toolName =
-            advanceResponse.responseMessageDto.toolCallRequest.toolName;
-          if (toolName) {
-            toolCallCounts[toolName] = (toolCallCounts[toolName] || 0) + 1;
-          }
-
-          updateThreadStatus(threadId, GenerationStage.FETCHING_CONTEXT);
-          const toolCallResponse = await handleToolCall(
-            advanceResponse.responseMessageDto,
-            toolRegistry,
-          );
-          const toolResponseString =
-            typeof toolCallResponse.result === "string"
-              ? toolCallResponse.result
-              : JSON.stringify(toolCallResponse.result);
-          const toolCallResponseParams: TamboAI.Beta.Threads.ThreadAdvanceParams =
-            {
-              ...params,
-              messageToAppend: {
-                ...params.messageToAppend,
-                content: [{ type: "text", text: toolResponseString }],
-                role: "tool",
-                actionType: "tool_response",
-                component: advanceResponse.responseMessageDto.component,
-                tool_call_id: advanceResponse.responseMessageDto.tool_call_id,
-                error: toolCallResponse.error,
-              },
-            };
-          if (toolCallResponse.error) {
-            //update toolcall message with error
-            const toolCallMessage = {
-              ...advanceResponse.responseMessageDto,
-              error: toolCallResponse.error,
-            };
-            updateThreadMessage(toolCallMessage.id, toolCallMessage, false);
-          }
-          updateThreadStatus(threadId, GenerationStage.HYDRATING_COMPONENT);
-          addThreadMessage(
-            {
-              threadId: threadId,
-              content: [{ type: "text", text: toolResponseString }],
-              role: "tool",
-              id: crypto.randomUUID(),
-              createdAt: new Date().toISOString(),
-              componentState: {},
-              actionType: "tool_response",
-              tool_call_id: advanceResponse.responseMessageDto.tool_call_id,
-              error: toolCallResponse.error,
-            },
-            false,
-          );
-
-          advanceResponse = await client.beta.threads.advanceById(
-            advanceResponse.responseMessageDto.threadId,
-            toolCallResponseParams,
-          );
-        }
-      } catch (error) {
-        updateThreadStatus(
-          advanceResponse.responseMessageDto.threadId,
-          GenerationStage.ERROR,
-        );
-        throw error;
-      }
-
-      const finalMessage = advanceResponse.responseMessageDto.component
-        ?.componentName
-        ? renderComponentIntoMessage(
-            advanceResponse.responseMessageDto,
-            componentList,
-          )
-        : advanceResponse.responseMessageDto;
-      await switchCurrentThread(advanceResponse.responseMessageDto.threadId);
-      updateThreadStatus(
-        advanceResponse.responseMessageDto.threadId,
-        GenerationStage.COMPLETE,
-      );
-      return finalMessage;
-    },
-    [
-      componentList,
-      toolRegistry,
-      componentToolAssociations,
-      currentThreadId,
-      switchCurrentThread,
-      addThreadMessage,
-      client,
-      updateThreadMessage,
-      updateThreadStatus,
-      handleAdvanceStream,
+  // Keep the statuses that did not change, so that `useTamboThreadStatus`
+  // only re-renders when a status changes, not on every streamed message
+  const threadStatusesRef = useRef<TamboThreadStatuses>({});
+  const threadStatuses = useMemo(() => {
+    threadStatusesRef.current = shareThreadStatuses(
+      threadStatusesRef.current,
+      threads,
+    );
+    return threadStatusesRef.current;
+  }, [threads]);
+
+  const contextValue = useMemo(
+    (): TamboThreadContextProps => ({
+      thread: currentThread,
+      switchCurrentThread: controller.switchCurrentThread,
+      startNewThread: controller.startNewThread,
+      updateThreadName: controller.updateThreadName,
+      generateThreadName: controller.generateThreadName,
+      addThreadMessage: controller.addThreadMessage,
+      updateThreadMessage: controller.updateThreadMessage,
       streaming,
-      getAdditionalContext,
-    ],
+      cancel: controller.cancel,
+      sendThreadMessage: controller.sendThreadMessage,
+      editMessage: controller.editMessage,
+      regenerate: controller.regenerate,
+      getMessageBranches: controller.getMessageBranches,
+      switchBranch: controller.switchBranch,
+    }),
+    [controller, currentThread, streaming],
   );
 
   return (
-    <TamboThreadContext.Provider
-      value={{
-        thread: currentThread,
-        switchCurrentThread,
-        startNewThread,
-        updateThreadName,
-        generateThreadName,
-        addThreadMessage,
-        updateThreadMessage,
-        streaming,
-        cancel,
-        sendThreadMessage,
-      }}
-    >
-      <TamboGenerationStageProvider
-        generationStage={currentGenerationStage}
-        statusMessage={currentStatusMessage}
-      >
-        {children}
-      </TamboGenerationStageProvider>
+    <TamboThreadContext.Provider value={contextValue}>
+      <TamboThreadStatusProvider threadStatuses={threadStatuses}>
+        <TamboGenerationStageProvider
+          generationStage={currentGenerationStage}
+          statusMessage={currentStatusMessage}
+        >
+          {children}
+        </TamboGenerationStageProvider>
+      </TamboThreadStatusProvider>
     </TamboThreadContext.Provider>
   );
 };
@@ -981,6 +428,75 @@ export const useTamboGenerationStage = (): TamboGenerationStageContextProps => {
   return generationStageContext;
 };
 
+/**
+ * Get the status of every thread, reusing the previous statuses where they
+ * did not change.
+ * @param previous - The previous statuses
+ * @param threads - The threads, by thread id
+ * @returns The previous statuses if none changed, or else the new statuses
+ */
+function shareThreadStatuses(
+  previous: TamboThreadStatuses,
+  threads: Record<string, TamboThread>,
+): TamboThreadStatuses {
+  let changed = Object.keys(previous).length !== Object.keys(threads).length;
+  const statuses = Object.fromEntries(
+    Object.entries(threads).map(([threadId, thread]) => {
+      const previousStatus = previous[threadId] as
+        | TamboThreadStatuses[string]
+        | undefined;
+      if (
+        previousStatus &&
+        previousStatus.generationStage === thread.generationStage &&
+        previousStatus.statusMessage === thread.statusMessage
+      ) {
+        return [threadId, previousStatus];
+      }
+      changed = true;
+      return [
+        threadId,
+        {
+          generationStage: thread.generationStage,
+          statusMessage: thread.statusMessage,
+        },
+      ];
+    }),
+  );
+  return changed ? statuses : previous;
+}
+
+/**
+ * The useTamboThreadStatus hook provides the generation stage of any thread,
+ * not just the current thread. Use it to show the status of several threads
+ * at once, like in a dashboard with a chat panel per thread.
+ * @param threadId - The thread to get the status of
+ * @returns The generation stage of the thread
+ */
+export const useTamboThreadStatus = (
+  threadId: string,
+): TamboGenerationStageContextProps => {
+  const threadStatuses = useContext(TamboThreadStatusContext);
+
+  if (threadStatuses === undefined) {
+    throw new Error(
+      "useTamboThreadStatus must be used within a TamboThreadProvider",
+    );
+  }
+
+  const generationStage =
+    (threadStatuses[threadId]?.generationStage as GenerationStage) ??
+    GenerationStage.IDLE;
+  const generationStatusMessage = threadStatuses[threadId]?.statusMessage ?? "";
+  return useMemo(
+    () => ({
+      generationStage,
+      generationStatusMessage,
+      isIdle: isIdleStage(generationStage),
+    }),
+    [generationStage, generationStatusMessage],
+  );
+};
+
 /**
  * The useTamboThread hook provides access to the current thread context
  * to the descendants of the TamboThreadProvider.
@@ -0,0 +1,174 @@
+"use client";
+import TamboAI from "@tambo-ai/typescript-sdk";
+import React, {
+  createContext,
+  PropsWithChildren,
+  useCallback,
+  useContext,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+/**
+ * A tool call that is waiting for the user to approve or deny it.
+ */
+export interface PendingToolApproval {
+  /** The id of the pending approval, pass this to `approve` or `deny` */
+  id: string;
+  /** The thread the tool call belongs to */
+  threadId: string;
+  /** The name of the tool the model wants to call */
+  toolName: string;
+  /** The arguments the model wants to call the tool with */
+  parameters: TamboAI.ToolCallRequest["parameters"];
+  /** The message that contains the tool call request */
+  message: TamboAI.Beta.Threads.ThreadMessage;
+}
+
+/**
+ * The user's decision about a pending tool call.
+ */
+export interface ToolApprovalDecision {
+  approved: boolean;
+  /** Why the user denied the tool call, sent back to the model */
+  reason?: string;
+}
+
+export interface TamboToolApprovalContextProps {
+  /** The tool calls that are waiting for the user's decision */
+  pendingApprovals: PendingToolApproval[];
+  /** Let the pending tool call run */
+  approve: (id: string) => void;
+  /** Refuse the pending tool call, the model receives it as a tool error */
+  deny: (id: string, reason?: string) => void;
+  /**
+   * Wait for the user's decision about a tool call. Resolves as denied when
+   * the signal is aborted.
+   * @internal
+   */
+  requestApproval: (
+    message: TamboAI.Beta.Threads.ThreadMessage,
+    signal?: AbortSignal,
+  ) => Promise<ToolApprovalDecision>;
+}
+
+export const TamboToolApprovalContext = createContext<
+  TamboToolApprovalContextProps | undefined
+>(undefined);
+
+/**
+ * The TamboToolApprovalProvider keeps track of tool calls that need the
+ * user's approval before they run. It must wrap the TamboThreadProvider.
+ * @param props - The props for the TamboToolApprovalProvider
+ * @param props.children - The children to wrap
+ * @returns The TamboToolApprovalProvider component
+ */
+export const TamboToolApprovalProvider: React.FC<PropsWithChildren> = ({
+  children,
+}) => {
+  const [pendingApprovals, setPendingApprovals] = useState<
+    PendingToolApproval[]
+  >([]);
+  const resolversRef = useRef(
+    new Map<string, (decision: ToolApprovalDecision) => void>(),
+  );
+
+  const resolveApproval = useCallback(
+    (id: string, decision: ToolApprovalDecision) => {
+      const resolve = resolversRef.current.get(id);
+      if (!resolve) {
+        console.warn(`No pending tool approval with id ${id}`);
+        return;
+      }
+      resolversRef.current.delete(id);
+      setPendingApprovals((prev) =>
+        prev.filter((approval) => approval.id !== id),
+      );
+      resolve(decision);
+    },
+    [],
+  );
+
+  const requestApproval = useCallback(
+    async (
+      message: TamboAI.Beta.Threads.ThreadMessage,
+      signal?: AbortSignal,
+    ): Promise<ToolApprovalDecision> => {
+      if (signal?.aborted) {
+        return { approved: false, reason: "the request was cancelled" };
+      }
+      const id = message.tool_call_id ?? message.id;
+      const decision = new Promise<ToolApprovalDecision>((resolve) => {
+        resolversRef.current.set(id, resolve);
+      });
+      const onAbort = () => {
+        resolveApproval(id, {
+          approved: false,
+          reason: "the request was cancelled",
+        });
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      setPendingApprovals((prev) => [
+        ...prev,
+        {
+          id,
+          threadId: message.threadId,
+          toolName: message.toolCallRequest?.toolName ?? "",
+          parameters: message.toolCallRequest?.parameters ?? [],
+          message,
+        },
+      ]);
+
+      try {
+        return await decision;
+      } finally {
+        signal?.removeEventListener("abort", onAbort);
+      }
+    },
+    [resolveApproval],
+  );
+
+  const approve = useCallback(
+    (id: string) => resolveApproval(id, { approved: true }),
+    [resolveApproval],
+  );
+
+  const deny = useCallback(
+    (id: string, reason?: string) =>
+      resolveApproval(id, { approved: false, reason }),
+    [resolveApproval],
+  );
+
+  const value = useMemo(
+    () => ({ pendingApprovals, approve, deny, requestApproval }),
+    [pendingApprovals, approve, deny, requestApproval],
+  );
+
+  return (
+    <TamboToolApprovalContext.Provider value={value}>
+      {children}
+    </TamboToolApprovalContext.Provider>
+  );
+};
+
+/**
+ * The usePendingToolApprovals hook gives access to the tool calls that are
+ * waiting for the user's approval, so the UI can show a confirmation before
+ * the tool runs.
+ * @returns The pending tool calls and the actions to approve or deny them
+ */
+export const usePendingToolApprovals = (): Omit<
+  TamboToolApprovalContextProps,
+  "requestApproval"
+> => {
+  const context = useContext(TamboToolApprovalContext);
+  if (!context) {
+    throw new Error(
+      "usePendingToolApprovals must be used within a TamboToolApprovalProvider",
+    );
+  }
+  const { pendingApprovals, approve, deny } = context;
+  return { pendingApprovals, approve, deny };
+};
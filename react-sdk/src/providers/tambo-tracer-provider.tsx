@@ -0,0 +1,38 @@
+"use client";
+import React, { createContext, PropsWithChildren, useContext } from "react";
+import { TamboTracer } from "../model/tambo-tracer";
+
+export interface TamboTracerProviderProps {
+  /**
+   * Creates spans for API requests, tool calls, MCP tool calls and context
+   * helpers, e.g. `createOpenTelemetryTracer()` from `@tambo-ai/react/otel`
+   */
+  tracer?: TamboTracer;
+}
+
+export const TamboTracerContext = createContext<TamboTracer | undefined>(
+  undefined,
+);
+
+/**
+ * The TamboTracerProvider makes a tracer available to the other Tambo
+ * providers.
+ * @param props - The props for the TamboTracerProvider
+ * @param props.tracer - The tracer, no spans are created without one
+ * @param props.children - The children to wrap
+ * @returns The TamboTracerProvider component
+ */
+export const TamboTracerProvider: React.FC<
+  PropsWithChildren<TamboTracerProviderProps>
+> = ({ tracer, children }) => (
+  <TamboTracerContext.Provider value={tracer}>
+    {children}
+  </TamboTracerContext.Provider>
+);
+
+/**
+ * The tracer of the TamboProvider, if tracing is enabled.
+ * @returns The tracer, or undefined
+ */
+export const useTamboTracer = (): TamboTracer | undefined =>
+  useContext(TamboTracerContext);
@@ -0,0 +1,68 @@
+import { TamboThread } from "../../model/tambo-thread";
+import { createBrowserThreadStorage } from "../browser-thread-storage";
+
+const createThread = (id: string): TamboThread => ({
+  id,
+  messages: [
+    {
+      id: `${id}-message-1`,
+      threadId: id,
+      role: "user",
+      content: [{ type: "text", text: "Hello" }],
+      componentState: {},
+      createdAt: "2024-01-01T00:00:00Z",
+    },
+  ],
+  createdAt: "2024-01-01T00:00:00Z",
+  projectId: "project-1",
+  updatedAt: "2024-01-01T00:00:00Z",
+});
+
+describe("createBrowserThreadStorage", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("should fall back to localStorage when IndexedDB is not available", async () => {
+    const storage = createBrowserThreadStorage({ name: "test" });
+
+    await storage.saveThread(createThread("thread-1"));
+
+    expect(localStorage.getItem("test:thread:thread-1")).not.toBeNull();
+  });
+
+  it("should save, load and delete threads", async () => {
+    const storage = createBrowserThreadStorage({ name: "test" });
+
+    await storage.saveThread(createThread("thread-1"));
+    await storage.saveThread(createThread("thread-2"));
+    await storage.deleteThread("thread-1");
+
+    expect(await storage.getThreads()).toEqual([createThread("thread-2")]);
+  });
+
+  it("should keep threads with different names apart", async () => {
+    await createBrowserThreadStorage({ name: "alice" }).saveThread(
+      createThread("thread-1"),
+    );
+
+    expect(
+      await createBrowserThreadStorage({ name: "bob" }).getThreads(),
+    ).toEqual([]);
+  });
+
+  it("should store the queued messages", async () => {
+    const storage = createBrowserThreadStorage({ name: "test" });
+    const queued = {
+      id: "queued-1",
+      message: "Hello",
+      options: { threadId: "thread-1" },
+      queuedAt: "2024-01-01T00:00:00Z",
+    };
+
+    expect(await storage.getQueuedMessages()).toEqual([]);
+    await storage.setQueuedMessages([queued]);
+
+    expect(await storage.getQueuedMessages()).toEqual([queued]);
+  });
+});
@@ -0,0 +1,125 @@
+import { TamboThread } from "../model/tambo-thread";
+import {
+  QueuedThreadMessage,
+  ThreadStorageAdapter,
+} from "./thread-storage-adapter";
+
+const THREAD_KEY_PREFIX = "thread:";
+const QUEUE_KEY = "queue";
+const OBJECT_STORE_NAME = "tambo";
+
+interface KeyValueStore {
+  get: (key: string) => Promise<unknown>;
+  set: (key: string, value: unknown) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  keys: () => Promise<string[]>;
+}
+
+export interface BrowserThreadStorageOptions {
+  /**
+   * The name of the IndexedDB database, or the key prefix in localStorage.
+   * Use different names to keep the threads of different users apart.
+   * Defaults to "tambo-threads".
+   */
+  name?: string;
+}
+
+/**
+ * Create a thread storage that persists threads in the browser. It uses
+ * IndexedDB when it is available, and falls back to localStorage.
+ * @param options - The options for the storage
+ * @param options.name - The name of the database, or the localStorage key prefix
+ * @returns The thread storage
+ */
+export const createBrowserThreadStorage = ({
+  name = "tambo-threads",
+}: BrowserThreadStorageOptions = {}): ThreadStorageAdapter => {
+  const store =
+    typeof indexedDB === "undefined"
+      ? createLocalStorageStore(name)
+      : createIndexedDBStore(name);
+
+  return {
+    getThreads: async () => {
+      const keys = (await store.keys()).filter((key) =>
+        key.startsWith(THREAD_KEY_PREFIX),
+      );
+      const threads = await Promise.all(keys.map(store.get));
+      return threads.filter(
+        (thread): thread is TamboThread => thread !== undefined,
+      );
+    },
+    saveThread: async (thread) => {
+      await store.set(`${THREAD_KEY_PREFIX}${thread.id}`, thread);
+    },
+    deleteThread: async (threadId) => {
+      await store.delete(`${THREAD_KEY_PREFIX}${threadId}`);
+    },
+    getQueuedMessages: async () =>
+      ((await store.get(QUEUE_KEY)) as QueuedThreadMessage[] | undefined) ?? [],
+    setQueuedMessages: async (messages) => {
+      await store.set(QUEUE_KEY, messages);
+    },
+  };
+};
+
+const createLocalStorageStore = (name: string): KeyValueStore => {
+  const prefix = `${name}:`;
+  return {
+    get: async (key) => {
+      const value = localStorage.getItem(`${prefix}${key}`);
+      return value === null ? undefined : JSON.parse(value);
+    },
+    set: async (key, value) => {
+      localStorage.setItem(`${prefix}${key}`, JSON.stringify(value));
+    },
+    delete: async (key) => {
+      localStorage.removeItem(`${prefix}${key}`);
+    },
+    keys: async () =>
+      Array.from({ length: localStorage.length }, (_, index) =>
+        localStorage.key(index),
+      )
+        .filter((key): key is string => !!key?.startsWith(prefix))
+        .map((key) => key.slice(prefix.length)),
+  };
+};
+
+const createIndexedDBStore = (name: string): KeyValueStore => {
+  let database: Promise<IDBDatabase> | undefined;
+  const openDatabase = async () =>
+    await (database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(name, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(OBJECT_STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }));
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> => {
+    const db = await openDatabase();
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(
+        db.transaction(OBJECT_STORE_NAME, mode).objectStore(OBJECT_STORE_NAME),
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    get: async (key) => await run("readonly", (store) => store.get(key)),
+    set: async (key, value) => {
+      await run("readwrite", (store) => store.put(value, key));
+    },
+    delete: async (key) => {
+      await run("readwrite", (store) => store.delete(key));
+    },
+    keys: async () =>
+      (await run("readonly", (store) => store.getAllKeys())).map(String),
+  };
+};
@@ -0,0 +1,9 @@
+export {
+  createBrowserThreadStorage,
+  type BrowserThreadStorageOptions,
+} from "./browser-thread-storage";
+export { createMemoryThreadStorage } from "./memory-thread-storage";
+export type {
+  QueuedThreadMessage,
+  ThreadStorageAdapter,
+} from "./thread-storage-adapter";
@@ -0,0 +1,29 @@
+import { TamboThread } from "../model/tambo-thread";
+import {
+  QueuedThreadMessage,
+  ThreadStorageAdapter,
+} from "./thread-storage-adapter";
+
+/**
+ * Create a thread storage that keeps everything in memory. Nothing survives
+ * a page reload, which makes it useful for tests.
+ * @returns The thread storage
+ */
+export const createMemoryThreadStorage = (): ThreadStorageAdapter => {
+  const threads = new Map<string, TamboThread>();
+  let queuedMessages: QueuedThreadMessage[] = [];
+
+  return {
+    getThreads: async () => [...threads.values()],
+    saveThread: async (thread) => {
+      threads.set(thread.id, thread);
+    },
+    deleteThread: async (threadId) => {
+      threads.delete(threadId);
+    },
+    getQueuedMessages: async () => [...queuedMessages],
+    setQueuedMessages: async (messages) => {
+      queuedMessages = [...messages];
+    },
+  };
+};
@@ -0,0 +1,44 @@
+import { TamboAttachment } from "../model/tambo-attachment";
+import { TamboThread } from "../model/tambo-thread";
+
+/**
+ * A `sendThreadMessage` call that was made while offline, and is sent once
+ * the browser is back online.
+ */
+export interface QueuedThreadMessage {
+  id: string;
+  /** The text of the message */
+  message: string;
+  /** The options `sendThreadMessage` was called with */
+  options: {
+    threadId?: string;
+    streamResponse?: boolean;
+    contextKey?: string;
+    forceToolChoice?: string;
+    additionalContext?: Record<string, any>;
+    attachments?: TamboAttachment[];
+  };
+  queuedAt: string;
+}
+
+/**
+ * Persists threads on the client, so they can be shown before they are
+ * fetched from the server, and keeps the messages that are waiting to be
+ * sent while offline.
+ *
+ * Threads are stored without their rendered components. Components are
+ * rendered again from each message's component name and props when the
+ * threads are loaded.
+ */
+export interface ThreadStorageAdapter {
+  /** Load all stored threads */
+  getThreads: () => Promise<TamboThread[]>;
+  /** Store a thread, replacing any stored thread with the same id */
+  saveThread: (thread: TamboThread) => Promise<void>;
+  /** Remove a stored thread */
+  deleteThread: (threadId: string) => Promise<void>;
+  /** Load the messages that are waiting to be sent, oldest first */
+  getQueuedMessages: () => Promise<QueuedThreadMessage[]>;
+  /** Replace the messages that are waiting to be sent */
+  setQueuedMessages: (messages: QueuedThreadMessage[]) => Promise<void>;
+}
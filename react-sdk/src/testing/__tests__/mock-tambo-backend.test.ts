@@ -0,0 +1,221 @@
+import TamboAI from "@tambo-ai/typescript-sdk";
+import { z } from "zod";
+import { TamboThreadController } from "../../controller/tambo-thread-controller";
+import { ComponentRegistry, TamboTool } from "../../model/component-metadata";
+import { GenerationStage } from "../../model/generate-component-response";
+import { MockTamboBackend, TamboFixture } from "../mock-tambo-backend";
+
+const createResponse = (
+  message: Partial<TamboAI.Beta.Threads.ThreadMessage>,
+  generationStage: TamboAI.Beta.Threads.ThreadAdvanceResponse["generationStage"] = GenerationStage.COMPLETE,
+): TamboAI.Beta.Threads.ThreadAdvanceResponse => ({
+  responseMessageDto: {
+    id: "response-1",
+    threadId: "recorded-thread",
+    role: "assistant",
+    content: [],
+    componentState: {},
+    createdAt: "2024-01-01T00:00:00Z",
+    ...message,
+  },
+  generationStage,
+  mcpAccessToken: "",
+});
+
+const weatherFixture: TamboFixture = {
+  turns: [
+    {
+      responses: [
+        createResponse(
+          {
+            id: "tool-call-1",
+            toolCallRequest: {
+              toolName: "getWeather",
+              parameters: [{ parameterName: "city", parameterValue: "Paris" }],
+            },
+          },
+          GenerationStage.FETCHING_CONTEXT,
+        ),
+      ],
+    },
+    {
+      responses: [
+        createResponse(
+          {
+            content: [{ type: "text", text: "It is" }],
+            component: {
+              componentName: "WeatherCard",
+              props: { city: "Paris" },
+              message: "",
+              reasoning: "",
+              componentState: {},
+            },
+          },
+          GenerationStage.STREAMING_RESPONSE,
+        ),
+        createResponse({
+          content: [{ type: "text", text: "It is sunny in Paris" }],
+          component: {
+            componentName: "WeatherCard",
+            props: { city: "Paris", temperature: 21 },
+            message: "",
+            reasoning: "",
+            componentState: {},
+          },
+        }),
+      ],
+    },
+  ],
+  suggestions: [
+    { id: "suggestion-1", title: "And tomorrow?", detailedSuggestion: "" },
+  ],
+};
+
+describe("MockTamboBackend", () => {
+  const weatherTool: TamboTool = {
+    name: "getWeather",
+    description: "Get the weather in a city",
+    tool: jest.fn(),
+    toolSchema: z.function().args(z.string()).returns(z.string()),
+  };
+  const componentList: ComponentRegistry = {
+    WeatherCard: {
+      name: "WeatherCard",
+      description: "Shows the weather in a city",
+      component: () => null,
+      props: {},
+      contextTools: [],
+    },
+  };
+
+  beforeEach(() => {
+    jest.mocked(weatherTool.tool).mockResolvedValue("sunny");
+  });
+
+  it("should stream a conversation with a tool call", async () => {
+    const backend = new MockTamboBackend(weatherFixture);
+    const controller = new TamboThreadController({
+      client: backend.client,
+      componentList,
+      toolRegistry: { getWeather: weatherTool },
+    });
+
+    const response = await controller.sendThreadMessage("Weather in Paris?");
+
+    expect(weatherTool.tool).toHaveBeenCalledWith("Paris", expect.anything());
+    expect(response.content).toEqual([
+      { type: "text", text: "It is sunny in Paris" },
+    ]);
+    expect(response.component?.props).toEqual({
+      city: "Paris",
+      temperature: 21,
+    });
+    expect(backend.isDone).toBe(true);
+    expect(
+      backend.requests.map(({ params }) => params.messageToAppend),
+    ).toEqual([
+      expect.objectContaining({ role: "user" }),
+      expect.objectContaining({
+        role: "tool",
+        content: [{ type: "text", text: "sunny" }],
+      }),
+    ]);
+    // The responses moved to the thread the backend created
+    expect(controller.thread.id).toBe("mock-thread-1");
+    expect(backend.requests[1].threadId).toBe("mock-thread-1");
+    expect(
+      backend.getThread("mock-thread-1").messages.map(({ role }) => role),
+    ).toEqual(["user", "assistant", "tool", "assistant"]);
+  });
+
+  it("should answer without streaming and return the stored thread", async () => {
+    const backend = new MockTamboBackend(weatherFixture);
+    const controller = new TamboThreadController({
+      client: backend.client,
+      componentList,
+      toolRegistry: { getWeather: weatherTool },
+      streaming: false,
+    });
+
+    const response = await controller.sendThreadMessage("Weather in Paris?");
+
+    expect(response.component?.props).toEqual({
+      city: "Paris",
+      temperature: 21,
+    });
+    // The thread is fetched from the backend once the response is complete
+    expect(controller.thread.messages).toHaveLength(4);
+    expect(controller.thread.generationStage).toBe(GenerationStage.COMPLETE);
+  });
+
+  it("should return the suggestions of the fixture", async () => {
+    const backend = new MockTamboBackend(weatherFixture);
+
+    const suggestions = await backend.client.beta.threads.suggestions.generate(
+      "thread-1",
+      "message-1",
+      {},
+    );
+
+    expect(suggestions).toEqual([
+      {
+        id: "suggestion-1",
+        title: "And tomorrow?",
+        detailedSuggestion: "",
+        messageId: "message-1",
+      },
+    ]);
+  });
+
+  it("should manage threads like the API", async () => {
+    const backend = new MockTamboBackend(weatherFixture);
+    const controller = new TamboThreadController({
+      client: backend.client,
+      componentList,
+      toolRegistry: { getWeather: weatherTool },
+    });
+    await controller.sendThreadMessage("Weather in Paris?");
+    const { threads, projects } = backend.client.beta;
+
+    const project = await projects.getCurrent();
+    const created = await threads.create({
+      projectId: project.id,
+      name: "Empty",
+      contextKey: "other-user",
+    });
+    await controller.generateThreadName("mock-thread-1");
+    await threads.update(created.id, {
+      projectId: project.id,
+      metadata: { pinned: true },
+    });
+
+    expect(controller.thread.name).toBe("Weather in Paris?");
+    expect(await threads.list(project.id)).toMatchObject({
+      items: [{ id: "mock-thread-1", name: "Weather in Paris?" }],
+      total: 1,
+    });
+    expect(
+      await threads.list(project.id, { contextKey: "other-user" }),
+    ).toMatchObject({
+      items: [{ id: created.id, name: "Empty", metadata: { pinned: true } }],
+    });
+
+    await threads.delete(created.id);
+    expect(() => backend.getThread(created.id)).toThrow(
+      `The thread ${created.id} does not exist`,
+    );
+  });
+
+  it("should fail when the fixture has no response left", async () => {
+    const backend = new MockTamboBackend({ turns: [] });
+
+    await expect(
+      backend.client.beta.threads.advance({
+        messageToAppend: {
+          role: "user",
+          content: [{ type: "text", text: "Hello" }],
+        },
+      }),
+    ).rejects.toThrow("The fixture has no response for message 1");
+  });
+});
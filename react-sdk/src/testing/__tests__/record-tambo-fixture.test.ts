@@ -0,0 +1,84 @@
+import TamboAI, { advanceStream } from "@tambo-ai/typescript-sdk";
+import { GenerationStage } from "../../model/generate-component-response";
+import { advanceThreadStream } from "../../util/advance-stream";
+import { recordTamboFixture } from "../record-tambo-fixture";
+
+jest.mock("@tambo-ai/typescript-sdk", () => ({
+  advanceStream: jest.fn(),
+}));
+
+const createResponse = (
+  text: string,
+): TamboAI.Beta.Threads.ThreadAdvanceResponse => ({
+  responseMessageDto: {
+    id: "response-1",
+    threadId: "thread-1",
+    role: "assistant",
+    content: [{ type: "text", text }],
+    componentState: {},
+    createdAt: "2024-01-01T00:00:00Z",
+  },
+  generationStage: GenerationStage.COMPLETE,
+  mcpAccessToken: "",
+});
+
+async function* streamChunks(
+  chunks: TamboAI.Beta.Threads.ThreadAdvanceResponse[],
+): AsyncIterable<TamboAI.Beta.Threads.ThreadAdvanceResponse> {
+  yield* chunks;
+}
+
+describe("recordTamboFixture", () => {
+  const body = {
+    messageToAppend: {
+      role: "user" as const,
+      content: [{ type: "text" as const, text: "Hello" }],
+    },
+  };
+  const threads = { advance: jest.fn(), advanceById: jest.fn() };
+  const client = { beta: { threads } } as unknown as TamboAI;
+
+  it("should record responses and streamed chunks", async () => {
+    const chunks = [createResponse("Hi"), createResponse("Hi there")];
+    const { advance } = threads;
+    advance.mockResolvedValue(createResponse("Hello!"));
+    jest.mocked(advanceStream).mockResolvedValue(streamChunks(chunks));
+    const recorder = recordTamboFixture(client);
+
+    await client.beta.threads.advance(body);
+    for await (const _chunk of await advanceThreadStream(
+      client,
+      body,
+      "thread-1",
+    )) {
+      // Read the whole stream
+    }
+    const fixture = recorder.stop();
+
+    expect(fixture.turns).toEqual([
+      { request: body.messageToAppend, responses: [createResponse("Hello!")] },
+      { request: body.messageToAppend, responses: chunks },
+    ]);
+    expect(advanceStream).toHaveBeenCalledWith(
+      client,
+      body,
+      "thread-1",
+      undefined,
+    );
+    expect(client.beta.threads.advance).toBe(advance);
+    expect(client.beta.threads).not.toHaveProperty("advanceStream");
+  });
+
+  it("should not record failed requests", async () => {
+    threads.advanceById.mockRejectedValue(new Error("Network error"));
+    jest.mocked(advanceStream).mockRejectedValue(new Error("Failed"));
+    const recorder = recordTamboFixture(client);
+
+    await expect(
+      client.beta.threads.advanceById("thread-1", body),
+    ).rejects.toThrow("Network error");
+    await expect(advanceThreadStream(client, body)).rejects.toThrow("Failed");
+
+    expect(recorder.stop().turns).toEqual([]);
+  });
+});
@@ -0,0 +1,16 @@
+export {
+  MockTamboBackend,
+  type MockTamboBackendOptions,
+  type MockTamboRequest,
+  type TamboFixture,
+  type TamboFixtureTurn,
+} from "./mock-tambo-backend";
+export {
+  recordTamboFixture,
+  type TamboFixtureRecorder,
+} from "./record-tambo-fixture";
+export {
+  simulateStream,
+  simulateToolCall,
+  type TamboStreamChunk,
+} from "./script";
@@ -0,0 +1,386 @@
+import TamboAI from "@tambo-ai/typescript-sdk";
+import { TamboStreamingThreads } from "../util/advance-stream";
+
+/** The response of the Tambo API to one message */
+export interface TamboFixtureTurn {
+  /** The message that was sent, recorded for reference */
+  request?: Pick<
+    TamboAI.Beta.Threads.ThreadAdvanceParams["messageToAppend"],
+    "role" | "content"
+  >;
+  /**
+   * The chunks of the response, in order. Streamed responses send every
+   * chunk, responses without streaming are the last chunk.
+   */
+  responses: TamboAI.Beta.Threads.ThreadAdvanceResponse[];
+}
+
+/**
+ * A scripted or recorded conversation with the Tambo API. A tool call takes
+ * two turns: the response that requests the tool, and the response to the
+ * tool's result.
+ */
+export interface TamboFixture {
+  /** The responses to the messages, in the order the messages are sent */
+  turns: TamboFixtureTurn[];
+  /** The threads that exist before the first message, e.g. to switch to */
+  threads?: TamboAI.Beta.Threads.ThreadRetrieveResponse[];
+  /** The suggestions generated for every message */
+  suggestions?: Omit<TamboAI.Beta.Threads.Suggestion, "messageId">[];
+}
+
+/** A message the mock backend received */
+export interface MockTamboRequest {
+  /** The thread the message was sent to, undefined for a new thread */
+  threadId?: string;
+  params: TamboAI.Beta.Threads.ThreadAdvanceParams;
+  /** Whether the response was streamed */
+  stream: boolean;
+}
+
+export interface MockTamboBackendOptions {
+  /** How long to wait before each streamed chunk, in milliseconds. Defaults to 0. */
+  chunkDelayMs?: number;
+}
+
+// The project every thread of the mock backend belongs to
+const MOCK_PROJECT: TamboAI.Beta.ProjectGetCurrentResponse = {
+  id: "mock-project",
+  name: "Mock project",
+  userId: "mock-user",
+  isTokenRequired: false,
+};
+
+// The session token `getToken` returns for any user token
+const MOCK_TOKEN: TamboAI.Beta.Auth.AuthGetTokenResponse = {
+  access_token: "mock-access-token",
+  expires_in: 3600,
+  issued_token_type: "urn:ietf:params:oauth:token-type:access_token",
+  token_type: "Bearer",
+};
+
+/**
+ * The methods of a resource of the client, as the mock backend implements
+ * them: with plain promises instead of the `APIPromise` of the SDK, and only
+ * the ones that are used.
+ */
+type MockResource<T> = {
+  [K in keyof T]?: T[K] extends (...args: infer A) => PromiseLike<infer R>
+    ? (...args: A) => Promise<R>
+    : MockResource<T[K]>;
+};
+
+/** The part of the client the mock backend implements */
+type MockTamboClient = Partial<Pick<TamboAI, "bearer">> & {
+  beta: Omit<MockResource<TamboAI["beta"]>, "threads"> & {
+    threads: Omit<MockResource<TamboAI["beta"]["threads"]>, "list"> &
+      Partial<TamboStreamingThreads> & {
+        // The page of threads, without the methods to get the next pages
+        list?: (
+          projectId: string,
+          query?: TamboAI.Beta.ThreadListParams,
+        ) => Promise<TamboAI.OffsetAndLimitResponse<TamboAI.Beta.Thread>>;
+      };
+  };
+};
+
+/**
+ * An in-process fake of the Tambo API that answers from a fixture, so that
+ * whole conversations, including tool calls and streamed component props,
+ * run without network access. Pass its `client` to the `client` prop of the
+ * `TamboProvider`, or to a `TamboThreadController`.
+ * @example
+ * ```tsx
+ * const backend = new MockTamboBackend(weatherFixture);
+ * render(
+ *   <TamboProvider apiKey="test" client={backend.client} components={components}>
+ *     <Chat />
+ *   </TamboProvider>,
+ * );
+ * ```
+ */
+export class MockTamboBackend {
+  /** A client that talks to this backend instead of the Tambo API */
+  readonly client: TamboAI;
+  /** The messages the backend received, in order */
+  readonly requests: MockTamboRequest[] = [];
+  private readonly threads = new Map<
+    string,
+    TamboAI.Beta.Threads.ThreadRetrieveResponse
+  >();
+  // The context key of each thread that was created with one, by thread id
+  private readonly contextKeys = new Map<string, string>();
+  private nextTurn = 0;
+  private nextId = 0;
+
+  /**
+   * @param fixture - The conversation to answer from
+   * @param options - Options for the backend
+   */
+  constructor(
+    private readonly fixture: TamboFixture,
+    private readonly options: MockTamboBackendOptions = {},
+  ) {
+    fixture.threads?.forEach((thread) => {
+      this.threads.set(thread.id, cloneJson(thread));
+    });
+    this.client = this.createClient();
+  }
+
+  /**
+   * Whether every turn of the fixture has been answered.
+   * @returns True when no turns are left
+   */
+  get isDone(): boolean {
+    return this.nextTurn >= this.fixture.turns.length;
+  }
+
+  /**
+   * Get a thread as the backend stores it, with the messages sent to it and
+   * the responses.
+   * @param threadId - The id of the thread
+   * @returns The thread
+   * @throws {Error} If the thread does not exist
+   */
+  getThread(threadId: string): TamboAI.Beta.Threads.ThreadRetrieveResponse {
+    const thread = this.threads.get(threadId);
+    if (!thread) {
+      throw new Error(`The thread ${threadId} does not exist`);
+    }
+    return thread;
+  }
+
+  private createClient(): TamboAI {
+    const threads: MockTamboClient["beta"]["threads"] = {
+      advance: async (params) =>
+        getFinalResponse(this.respond(undefined, params, false)),
+      advanceById: async (threadId, params) =>
+        getFinalResponse(this.respond(threadId, params, false)),
+      advanceStream: async (params) =>
+        this.streamResponses(this.respond(undefined, params, true)),
+      advanceStreamById: async (threadId, params) =>
+        this.streamResponses(this.respond(threadId, params, true)),
+      retrieve: async (threadId: string) => cloneJson(this.getThread(threadId)),
+      create: async ({
+        contextKey,
+        ...params
+      }: TamboAI.Beta.ThreadCreateParams) =>
+        toThreadResponse(
+          Object.assign(this.createThread(contextKey), cloneJson(params)),
+        ),
+      update: async (
+        threadId: string,
+        { contextKey: _contextKey, ...params }: TamboAI.Beta.ThreadUpdateParams,
+      ) =>
+        toThreadResponse(
+          Object.assign(this.getThread(threadId), cloneJson(params), {
+            updatedAt: new Date().toISOString(),
+          }),
+        ),
+      list: async (
+        projectId: string,
+        {
+          contextKey,
+          offset = 0,
+          limit = 10,
+        }: TamboAI.Beta.ThreadListParams = {},
+      ) => {
+        const items = Array.from(this.threads.values())
+          .filter(
+            (thread) =>
+              thread.projectId === projectId &&
+              this.contextKeys.get(thread.id) === contextKey,
+          )
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+          .map(toThreadResponse);
+        const page = items.slice(offset, offset + limit);
+        return { items: page, total: items.length, count: page.length };
+      },
+      delete: async (threadId: string) => {
+        this.getThread(threadId);
+        this.threads.delete(threadId);
+        this.contextKeys.delete(threadId);
+      },
+      generateName: async (threadId: string) => {
+        // Name the thread after the start of its first message
+        const thread = this.getThread(threadId);
+        const text = thread.messages
+          .find(({ role }) => role === "user")
+          ?.content.find((part) => part.type === "text")?.text;
+        thread.name = text ? text.slice(0, 40) : "New thread";
+        return toThreadResponse(thread);
+      },
+      cancel: async (threadId: string) => {
+        const { messages: _messages, ...thread } = this.getThread(threadId);
+        thread.generationStage = "CANCELLED";
+        return thread;
+      },
+      messages: {
+        create: async (
+          threadId: string,
+          message: TamboAI.Beta.Threads.MessageCreateParams,
+        ) => this.appendMessage(this.getThread(threadId), message),
+        updateComponentState: async (
+          threadId: string,
+          messageId: string,
+          { state }: TamboAI.Beta.Threads.MessageUpdateComponentStateParams,
+        ) => {
+          const message = this.getThread(threadId).messages.find(
+            ({ id }) => id === messageId,
+          );
+          if (!message) {
+            throw new Error(`The message ${messageId} does not exist`);
+          }
+          message.componentState = { ...message.componentState, ...state };
+          return message;
+        },
+      },
+      suggestions: {
+        generate: async (_threadId: string, messageId: string) =>
+          (this.fixture.suggestions ?? []).map((suggestion) => ({
+            ...suggestion,
+            messageId,
+          })),
+      },
+    };
+    const client: MockTamboClient = {
+      beta: {
+        threads,
+        projects: { getCurrent: async () => cloneJson(MOCK_PROJECT) },
+        auth: { getToken: async () => cloneJson(MOCK_TOKEN) },
+      },
+    };
+    return client as TamboAI;
+  }
+
+  /**
+   * Stream the chunks of a response, one at a time.
+   * @param responses - The chunks to send
+   * @yields The chunks, after the delay of the options
+   */
+  private async *streamResponses(
+    responses: TamboAI.Beta.Threads.ThreadAdvanceResponse[],
+  ): AsyncIterable<TamboAI.Beta.Threads.ThreadAdvanceResponse> {
+    const delayMs = this.options.chunkDelayMs ?? 0;
+    for (const response of responses) {
+      if (delayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+      yield response;
+    }
+  }
+
+  private respond(
+    threadId: string | undefined,
+    params: TamboAI.Beta.Threads.ThreadAdvanceParams,
+    stream: boolean,
+  ): TamboAI.Beta.Threads.ThreadAdvanceResponse[] {
+    this.requests.push({ threadId, params, stream });
+    const turn = this.fixture.turns.at(this.nextTurn);
+    if (!turn) {
+      throw new Error(
+        `The fixture has no response for message ${this.requests.length}: ${JSON.stringify(params.messageToAppend.content)}`,
+      );
+    }
+    this.nextTurn++;
+
+    const thread = threadId
+      ? this.getThread(threadId)
+      : this.createThread(params.contextKey);
+    this.appendMessage(thread, params.messageToAppend);
+    // Responses of recorded fixtures belong to the thread they were recorded
+    // in, so they are moved to this thread
+    const responses = turn.responses.map((response) => ({
+      ...response,
+      responseMessageDto: {
+        ...response.responseMessageDto,
+        threadId: thread.id,
+      },
+    }));
+    responses.forEach(({ responseMessageDto, generationStage }) => {
+      const index = thread.messages.findIndex(
+        ({ id }) => id === responseMessageDto.id,
+      );
+      if (index === -1) {
+        thread.messages.push(responseMessageDto);
+      } else {
+        thread.messages[index] = responseMessageDto;
+      }
+      thread.generationStage = generationStage;
+    });
+    return cloneJson(responses);
+  }
+
+  private createThread(
+    contextKey?: string,
+  ): TamboAI.Beta.Threads.ThreadRetrieveResponse {
+    const now = new Date().toISOString();
+    const thread: TamboAI.Beta.Threads.ThreadRetrieveResponse = {
+      id: this.createId("thread"),
+      projectId: MOCK_PROJECT.id,
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+    };
+    this.threads.set(thread.id, thread);
+    if (contextKey !== undefined) {
+      this.contextKeys.set(thread.id, contextKey);
+    }
+    return thread;
+  }
+
+  private appendMessage(
+    thread: TamboAI.Beta.Threads.ThreadRetrieveResponse,
+    message: TamboAI.Beta.Threads.MessageCreateParams,
+  ): TamboAI.Beta.Threads.ThreadMessage {
+    const threadMessage: TamboAI.Beta.Threads.ThreadMessage = {
+      componentState: {},
+      ...cloneJson(message),
+      id: this.createId("message"),
+      threadId: thread.id,
+      createdAt: new Date().toISOString(),
+    };
+    thread.messages.push(threadMessage);
+    return threadMessage;
+  }
+
+  private createId(prefix: string): string {
+    return `mock-${prefix}-${++this.nextId}`;
+  }
+}
+
+/**
+ * Get the response the API returns when it does not stream: the last chunk.
+ * @param responses - The chunks of the response
+ * @returns The last chunk
+ * @throws {Error} If the turn has no chunks
+ */
+const getFinalResponse = (
+  responses: TamboAI.Beta.Threads.ThreadAdvanceResponse[],
+): TamboAI.Beta.Threads.ThreadAdvanceResponse => {
+  const response = responses.at(-1);
+  if (!response) {
+    throw new Error("The turn of the fixture has no responses");
+  }
+  return response;
+};
+
+/**
+ * Get a thread as the API returns it from the requests that change it,
+ * without its messages.
+ * @param thread - The stored thread
+ * @returns A copy of the thread without messages
+ */
+const toThreadResponse = (
+  thread: TamboAI.Beta.Threads.ThreadRetrieveResponse,
+): TamboAI.Beta.Thread => {
+  const { messages: _messages, ...threadWithoutMessages } = thread;
+  return cloneJson(threadWithoutMessages);
+};
+
+/**
+ * Copy a JSON value, so that callers cannot change what the backend stores.
+ * @param value - The value to copy
+ * @returns The copy
+ */
+const cloneJson = <T>(value: T): T => JSON.parse(JSON.stringify(value));
@@ -0,0 +1,135 @@
+import { fireEvent, screen, waitFor } from "@testing-library/react";
+import React from "react";
+import { z } from "zod";
+import {
+  TamboComponent,
+  TamboObjectTool,
+} from "../../../model/component-metadata";
+import { GenerationStage } from "../../../model/generate-component-response";
+import { useTamboThread } from "../../../providers/tambo-thread-provider";
+import {
+  expectToolCalled,
+  renderWithTambo,
+  simulateGenerationStage,
+} from "../render-with-tambo";
+import { simulateStream, simulateToolCall } from "../../script";
+
+const WeatherCard: React.FC<{ city?: string; temperature?: number }> = ({
+  city,
+  temperature,
+}) => (
+  <div>
+    {city}: {temperature ?? "…"}°
+  </div>
+);
+
+const Chat: React.FC = () => {
+  const { thread, generationStage, sendThreadMessage } = useTamboThread();
+  return (
+    <div>
+      <button onClick={async () => await sendThreadMessage("Weather?")}>
+        Send
+      </button>
+      <p>Stage: {generationStage}</p>
+      {thread.messages.map((message) => (
+        <div key={message.id}>{message.renderedComponent}</div>
+      ))}
+    </div>
+  );
+};
+
+describe("renderWithTambo", () => {
+  const components: TamboComponent[] = [
+    {
+      name: "WeatherCard",
+      description: "Shows the weather in a city",
+      component: WeatherCard,
+      propsSchema: z.object({ city: z.string(), temperature: z.number() }),
+    },
+  ];
+  const weatherTool: TamboObjectTool = {
+    name: "getWeather",
+    description: "Get the weather in a city",
+    tool: jest.fn(),
+    inputSchema: z.object({ city: z.string() }),
+  };
+
+  beforeEach(() => {
+    jest.mocked(weatherTool.tool).mockResolvedValue("sunny");
+  });
+
+  it("should render the streamed component after a tool call", async () => {
+    const { backend } = renderWithTambo(<Chat />, {
+      components,
+      tools: [weatherTool],
+      script: {
+        turns: [
+          simulateToolCall("getWeather", { city: "Paris" }),
+          simulateStream([
+            { componentName: "WeatherCard", props: { city: "Paris" } },
+            { props: { temperature: 21 } },
+          ]),
+        ],
+      },
+    });
+
+    fireEvent.click(screen.getByText("Send"));
+
+    expect(await screen.findByText("Paris: 21°")).toBeInTheDocument();
+    expect(backend.isDone).toBe(true);
+    expectToolCalled("getWeather");
+    expectToolCalled("getWeather", { city: "Paris" });
+    expect(() => {
+      expectToolCalled("getWeather", { city: "London" });
+    }).toThrow('but it was called with:\n{"city":"Paris"}');
+    expect(() => {
+      expectToolCalled("getTime");
+    }).toThrow("Expected the tool getTime to be called, but it was not");
+  });
+
+  it("should sign in with a user token", async () => {
+    const { backend } = renderWithTambo(<Chat />, { userToken: "user-token" });
+
+    await waitFor(() => {
+      expect(backend.client.bearer).toBe("mock-access-token");
+    });
+  });
+
+  it("should simulate a generation stage", async () => {
+    renderWithTambo(<Chat />);
+    expect(screen.getByText("Stage: IDLE")).toBeInTheDocument();
+
+    await simulateGenerationStage(GenerationStage.CHOOSING_COMPONENT);
+    expect(screen.getByText("Stage: CHOOSING_COMPONENT")).toBeInTheDocument();
+
+    await simulateGenerationStage();
+    await waitFor(() => {
+      expect(screen.getByText("Stage: IDLE")).toBeInTheDocument();
+    });
+  });
+});
+
+describe("simulateStream", () => {
+  it("should build cumulative chunks and complete after the last one", () => {
+    const { responses } = simulateStream([
+      { text: "It is", componentName: "WeatherCard", props: { city: "Paris" } },
+      { text: " sunny", props: { temperature: 21 } },
+    ]);
+
+    expect(responses.map(({ generationStage }) => generationStage)).toEqual([
+      GenerationStage.STREAMING_RESPONSE,
+      GenerationStage.COMPLETE,
+    ]);
+    expect(responses[1].responseMessageDto).toMatchObject({
+      id: responses[0].responseMessageDto.id,
+      content: [{ type: "text", text: "It is sunny" }],
+      component: {
+        componentName: "WeatherCard",
+        props: { city: "Paris", temperature: 21 },
+      },
+    });
+    expect(responses[0].responseMessageDto.component?.props).toEqual({
+      city: "Paris",
+    });
+  });
+});
@@ -0,0 +1,8 @@
+export {
+  expectToolCalled,
+  renderWithTambo,
+  simulateGenerationStage,
+  type RenderWithTamboOptions,
+  type RenderWithTamboResult,
+  type TamboToolCall,
+} from "./render-with-tambo";
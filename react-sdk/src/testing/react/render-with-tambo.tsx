@@ -0,0 +1,260 @@
+import {
+  act,
+  render,
+  RenderOptions,
+  RenderResult,
+} from "@testing-library/react";
+import isEqual from "react-fast-compare";
+import React, {
+  PropsWithChildren,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import { GenerationStage } from "../../model/generate-component-response";
+import { TamboAnyTool, TamboComponent } from "../../model/component-metadata";
+import { TamboThread } from "../../model/tambo-thread";
+import {
+  TamboCompositeProvider,
+  TamboProvider,
+} from "../../providers/tambo-provider";
+import {
+  TamboGenerationStageProvider,
+  TamboThreadContext,
+  useTamboGenerationStage,
+} from "../../providers/tambo-thread-provider";
+import { isObjectTool } from "../../util/registry";
+import {
+  MockTamboBackend,
+  MockTamboBackendOptions,
+  TamboFixture,
+} from "../mock-tambo-backend";
+
+export interface RenderWithTamboOptions extends Omit<RenderOptions, "wrapper"> {
+  /** The components to register */
+  components?: TamboComponent[];
+  /** The tools to register. Their calls are recorded for `expectToolCalled`. */
+  tools?: TamboAnyTool[];
+  /** The conversation the mock backend answers from */
+  script?: TamboFixture;
+  /** Options for the mock backend */
+  backendOptions?: MockTamboBackendOptions;
+  /** Whether responses are streamed. Defaults to true. */
+  streaming?: boolean;
+  /** A token of the user to sign in with. The mock backend accepts any token. */
+  userToken?: string;
+}
+
+export interface RenderWithTamboResult extends RenderResult {
+  /** The backend the rendered `TamboProvider` talks to */
+  backend: MockTamboBackend;
+}
+
+/** A call to a tool of the latest `renderWithTambo` */
+export interface TamboToolCall {
+  name: string;
+  /** The positional arguments, or the input of a tool with an `inputSchema` */
+  args: unknown;
+}
+
+interface SimulatedGenerationStage {
+  generationStage: GenerationStage;
+  statusMessage: string;
+}
+
+interface RenderState {
+  toolCalls: TamboToolCall[];
+  setSimulatedStage?: (stage: SimulatedGenerationStage | undefined) => void;
+}
+
+// The helpers act on the latest render, like the queries of `screen`
+let latestRender: RenderState | undefined;
+
+/**
+ * Render a UI inside a `TamboProvider` that talks to a `MockTamboBackend`, so
+ * that registered components and tools can be tested against the streamed
+ * responses of a script.
+ * @example
+ * ```tsx
+ * renderWithTambo(<Chat />, {
+ *   components: [weatherCard],
+ *   tools: [weatherTool],
+ *   script: { turns: [simulateToolCall("getWeather", { city: "Paris" })] },
+ * });
+ * ```
+ * @param ui - The UI to render
+ * @param options - The registry, the script and the options of `render`
+ * @param options.components - The components to register
+ * @param options.tools - The tools to register
+ * @param options.script - The conversation the mock backend answers from
+ * @param options.backendOptions - Options for the mock backend
+ * @param options.streaming - Whether responses are streamed
+ * @param options.userToken - A token of the user to sign in with
+ * @returns The result of `render`, with the mock backend
+ */
+export const renderWithTambo = (
+  ui: React.ReactElement,
+  {
+    components,
+    tools,
+    script = { turns: [] },
+    backendOptions,
+    streaming,
+    userToken,
+    ...renderOptions
+  }: RenderWithTamboOptions = {},
+): RenderWithTamboResult => {
+  const state: RenderState = { toolCalls: [] };
+  latestRender = state;
+  const backend = new MockTamboBackend(script, backendOptions);
+  const recordedTools = tools?.map((tool) => recordToolCalls(tool, state));
+
+  const Wrapper: React.FC<PropsWithChildren> = ({ children }) => (
+    <TamboProvider
+      apiKey="test"
+      client={backend.client}
+      components={components}
+      tools={recordedTools}
+      streaming={streaming}
+      userToken={userToken}
+    >
+      <SimulatedGenerationStageProvider state={state}>
+        {children}
+      </SimulatedGenerationStageProvider>
+    </TamboProvider>
+  );
+
+  return { ...render(ui, { ...renderOptions, wrapper: Wrapper }), backend };
+};
+
+/**
+ * Check that a tool of the latest `renderWithTambo` was called.
+ * @param name - The name of the tool
+ * @param args - The expected positional arguments, or the input of a tool
+ * with an `inputSchema`. Any arguments match when omitted.
+ * @throws {Error} If no call of the tool matches, listing the calls
+ */
+export const expectToolCalled = (name: string, args?: unknown): void => {
+  const calls = getLatestRender().toolCalls.filter(
+    (call) => call.name === name,
+  );
+  if (calls.length === 0) {
+    throw new Error(`Expected the tool ${name} to be called, but it was not`);
+  }
+  if (args !== undefined && !calls.some((call) => isEqual(call.args, args))) {
+    throw new Error(
+      `Expected the tool ${name} to be called with ${JSON.stringify(args)}, but it was called with:\n${calls
+        .map((call) => JSON.stringify(call.args))
+        .join("\n")}`,
+    );
+  }
+};
+
+/**
+ * Show a generation stage to the components of the latest `renderWithTambo`,
+ * as if the current thread were in it, e.g. to test loading states. It is
+ * seen by `useTambo`, `useTamboThread` and `useTamboGenerationStage`.
+ * @param generationStage - The stage to show. The real stage of the thread is
+ * shown again when omitted.
+ * @param statusMessage - The status message to show with the stage
+ */
+export const simulateGenerationStage = async (
+  generationStage?: GenerationStage,
+  statusMessage = "",
+): Promise<void> => {
+  const { setSimulatedStage } = getLatestRender();
+  await act(async () => {
+    setSimulatedStage?.(generationStage && { generationStage, statusMessage });
+  });
+};
+
+/**
+ * Get the state of the latest `renderWithTambo`.
+ * @returns The state
+ * @throws {Error} If nothing was rendered with `renderWithTambo`
+ */
+const getLatestRender = (): RenderState => {
+  if (!latestRender) {
+    throw new Error("Render the UI with renderWithTambo first");
+  }
+  return latestRender;
+};
+
+/**
+ * Wrap a tool so that its calls are recorded, without the call context.
+ * @param tool - The tool to wrap
+ * @param state - The state of the render to record the calls in
+ * @returns The wrapped tool
+ */
+const recordToolCalls = (
+  tool: TamboAnyTool,
+  state: RenderState,
+): TamboAnyTool => {
+  const objectTool = isObjectTool(tool);
+  return {
+    ...tool,
+    tool: (...args: unknown[]) => {
+      const toolArgs = args.slice(0, -1);
+      state.toolCalls.push({
+        name: tool.name,
+        args: objectTool ? toolArgs[0] : toolArgs,
+      });
+      return (tool.tool as (...args: unknown[]) => unknown)(...args);
+    },
+  } as TamboAnyTool;
+};
+
+/**
+ * Provides the simulated generation stage, if any, in place of the stage of
+ * the current thread. The providers are rendered either way, so that the
+ * children keep their state when the stage is simulated.
+ * @param props - The props for the SimulatedGenerationStageProvider
+ * @param props.children - The children to wrap
+ * @param props.state - The state of the render to register the setter in
+ * @returns The SimulatedGenerationStageProvider component
+ */
+const SimulatedGenerationStageProvider: React.FC<
+  PropsWithChildren<{ state: RenderState }>
+> = ({ children, state }) => {
+  const [simulatedStage, setSimulatedStage] =
+    useState<SimulatedGenerationStage>();
+  const threadContext = useContext(TamboThreadContext);
+  const { generationStage, generationStatusMessage } =
+    useTamboGenerationStage();
+
+  useEffect(() => {
+    state.setSimulatedStage = setSimulatedStage;
+    return () => {
+      state.setSimulatedStage = undefined;
+    };
+  }, [state]);
+
+  const simulatedThreadContext = useMemo(
+    () =>
+      simulatedStage
+        ? {
+            ...threadContext,
+            thread: {
+              ...threadContext.thread,
+              generationStage:
+                simulatedStage.generationStage as TamboThread["generationStage"],
+              statusMessage: simulatedStage.statusMessage,
+            },
+          }
+        : threadContext,
+    [simulatedStage, threadContext],
+  );
+
+  return (
+    <TamboThreadContext.Provider value={simulatedThreadContext}>
+      <TamboGenerationStageProvider
+        generationStage={simulatedStage?.generationStage ?? generationStage}
+        statusMessage={simulatedStage?.statusMessage ?? generationStatusMessage}
+      >
+        {/* `useTambo` reads the thread from the composite provider */}
+        <TamboCompositeProvider>{children}</TamboCompositeProvider>
+      </TamboGenerationStageProvider>
+    </TamboThreadContext.Provider>
+  );
+};
@@ -0,0 +1,138 @@
+import TamboAI, { advanceStream } from "@tambo-ai/typescript-sdk";
+import { TamboStreamingThreads } from "../util/advance-stream";
+import { TamboFixture, TamboFixtureTurn } from "./mock-tambo-backend";
+
+export interface TamboFixtureRecorder {
+  /**
+   * The conversation recorded so far. Save it as JSON to replay it with a
+   * `MockTamboBackend`.
+   * @returns The fixture
+   */
+  getFixture: () => TamboFixture;
+  /**
+   * Stop recording and restore the client.
+   * @returns The recorded fixture
+   */
+  stop: () => TamboFixture;
+}
+
+/**
+ * Record the responses a real Tambo client receives, including every chunk
+ * of streamed responses, into a fixture for the `MockTamboBackend`. Only the
+ * messages and responses are recorded, the rest of the requests is not.
+ * @example
+ * ```ts
+ * const recorder = recordTamboFixture(client);
+ * await controller.sendThreadMessage("What is the weather in Paris?");
+ * await writeFile("weather.json", JSON.stringify(recorder.stop(), null, 2));
+ * ```
+ * @param client - The client to record, which is changed until `stop` is called
+ * @returns The recorder
+ */
+export const recordTamboFixture = (client: TamboAI): TamboFixtureRecorder => {
+  const turns: TamboFixtureTurn[] = [];
+  const threads: TamboAI["beta"]["threads"] & Partial<TamboStreamingThreads> =
+    client.beta.threads;
+  const { advance, advanceById } = threads;
+
+  // Keep the turns in the order the messages were sent
+  const startTurn = ({
+    messageToAppend,
+  }: TamboAI.Beta.Threads.ThreadAdvanceParams) => {
+    const turn: TamboFixtureTurn = {
+      request: { role: messageToAppend.role, content: messageToAppend.content },
+      responses: [],
+    };
+    turns.push(turn);
+    return {
+      addResponse: (response: TamboAI.Beta.Threads.ThreadAdvanceResponse) => {
+        turn.responses.push(JSON.parse(JSON.stringify(response)));
+      },
+      remove: () => {
+        turns.splice(turns.indexOf(turn), 1);
+      },
+    };
+  };
+  const recordResponse = async (
+    body: TamboAI.Beta.Threads.ThreadAdvanceParams,
+    request: () => Promise<TamboAI.Beta.Threads.ThreadAdvanceResponse>,
+  ) => {
+    const turn = startTurn(body);
+    try {
+      const response = await request();
+      turn.addResponse(response);
+      return response;
+    } catch (error) {
+      turn.remove();
+      throw error;
+    }
+  };
+  const recordStream = async (
+    body: TamboAI.Beta.Threads.ThreadAdvanceParams,
+    threadId?: string,
+    options?: TamboAI.RequestOptions,
+  ) => {
+    const turn = startTurn(body);
+    let stream: AsyncIterable<TamboAI.Beta.Threads.ThreadAdvanceResponse>;
+    try {
+      stream = await advanceStream(client, body, threadId, options);
+    } catch (error) {
+      turn.remove();
+      throw error;
+    }
+    return recordChunks(stream, turn.addResponse, turn.remove);
+  };
+
+  // The controller only awaits the responses, so the wrapped methods return
+  // plain promises instead of the `APIPromise` of the SDK
+  threads.advance = (async (body, options) =>
+    await recordResponse(
+      body,
+      async () => await advance.call(threads, body, options),
+    )) as typeof advance;
+  threads.advanceById = (async (threadId, body, options) =>
+    await recordResponse(
+      body,
+      async () => await advanceById.call(threads, threadId, body, options),
+    )) as typeof advanceById;
+  threads.advanceStream = async (body, options) =>
+    await recordStream(body, undefined, options);
+  threads.advanceStreamById = async (threadId, body, options) =>
+    await recordStream(body, threadId, options);
+
+  const getFixture = (): TamboFixture => JSON.parse(JSON.stringify({ turns }));
+  return {
+    getFixture,
+    stop: () => {
+      threads.advance = advance;
+      threads.advanceById = advanceById;
+      delete threads.advanceStream;
+      delete threads.advanceStreamById;
+      return getFixture();
+    },
+  };
+};
+
+/**
+ * Pass on the chunks of a streamed response, recording each one as it is
+ * read. A response that fails is not recorded.
+ * @param stream - The chunks of the response
+ * @param onChunk - Called with each chunk
+ * @param onError - Called when the response fails
+ * @yields The chunks
+ */
+async function* recordChunks(
+  stream: AsyncIterable<TamboAI.Beta.Threads.ThreadAdvanceResponse>,
+  onChunk: (chunk: TamboAI.Beta.Threads.ThreadAdvanceResponse) => void,
+  onError: () => void,
+): AsyncIterable<TamboAI.Beta.Threads.ThreadAdvanceResponse> {
+  try {
+    for await (const chunk of stream) {
+      onChunk(chunk);
+      yield chunk;
+    }
+  } catch (error) {
+    onError();
+    throw error;
+  }
+}
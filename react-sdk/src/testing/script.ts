@@ -0,0 +1,118 @@
+import TamboAI from "@tambo-ai/typescript-sdk";
+import { GenerationStage } from "../model/generate-component-response";
+import { TamboFixtureTurn } from "./mock-tambo-backend";
+
+/** A chunk of a simulated streamed response */
+export interface TamboStreamChunk {
+  /** Text to add to the text of the response */
+  text?: string;
+  /** The component to render. Defaults to the component of the last chunk. */
+  componentName?: string;
+  /** Props to add to the props of the component, streamed so far */
+  props?: Record<string, unknown>;
+}
+
+let nextResponseId = 0;
+
+/**
+ * Create a turn of a fixture whose response streams in the given chunks. Each
+ * chunk adds to the text and props of the previous chunks, and the response
+ * is complete after the last chunk.
+ * @example
+ * ```ts
+ * const turn = simulateStream([
+ *   { text: "It is", componentName: "WeatherCard", props: { city: "Paris" } },
+ *   { text: " sunny", props: { temperature: 21 } },
+ * ]);
+ * ```
+ * @param chunks - The chunks to stream
+ * @returns The turn
+ */
+export const simulateStream = (
+  chunks: TamboStreamChunk[],
+): TamboFixtureTurn => {
+  const id = createResponseId();
+  let text = "";
+  let componentName: string | undefined;
+  let props: Record<string, unknown> = {};
+
+  const responses = chunks.map((chunk, index) => {
+    text += chunk.text ?? "";
+    componentName = chunk.componentName ?? componentName;
+    props = { ...props, ...chunk.props };
+    return createResponse(
+      {
+        id,
+        content: [{ type: "text", text }],
+        component: componentName
+          ? {
+              componentName,
+              props: { ...props },
+              message: "",
+              reasoning: "",
+              componentState: {},
+            }
+          : undefined,
+      },
+      index === chunks.length - 1
+        ? GenerationStage.COMPLETE
+        : GenerationStage.STREAMING_RESPONSE,
+    );
+  });
+  return { responses };
+};
+
+/**
+ * Create a turn of a fixture whose response calls a tool. The next turn
+ * answers the result of the tool.
+ * @param toolName - The name of the tool to call
+ * @param parameters - The arguments, by parameter name. Tools with positional
+ * arguments receive the values in order.
+ * @returns The turn
+ */
+export const simulateToolCall = (
+  toolName: string,
+  parameters: Record<string, unknown>,
+): TamboFixtureTurn => ({
+  responses: [
+    createResponse(
+      {
+        id: createResponseId(),
+        content: [],
+        toolCallRequest: {
+          toolName,
+          parameters: Object.entries(parameters).map(
+            ([parameterName, parameterValue]) => ({
+              parameterName,
+              parameterValue,
+            }),
+          ),
+        },
+      },
+      GenerationStage.FETCHING_CONTEXT,
+    ),
+  ],
+});
+
+/**
+ * The backend stores the responses by id, so every simulated response needs
+ * its own.
+ * @returns A new response id
+ */
+const createResponseId = (): string => `simulated-response-${++nextResponseId}`;
+
+const createResponse = (
+  message: Pick<TamboAI.Beta.Threads.ThreadMessage, "id" | "content"> &
+    Partial<TamboAI.Beta.Threads.ThreadMessage>,
+  generationStage: TamboAI.Beta.Threads.ThreadAdvanceResponse["generationStage"],
+): TamboAI.Beta.Threads.ThreadAdvanceResponse => ({
+  responseMessageDto: {
+    threadId: "",
+    role: "assistant",
+    componentState: {},
+    createdAt: new Date().toISOString(),
+    ...message,
+  },
+  generationStage,
+  mcpAccessToken: "",
+});
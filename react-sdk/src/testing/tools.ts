@@ -1,9 +1,11 @@
 import { z } from "zod";
 import zodToJsonSchema from "zod-to-json-schema";
 import { TamboComponent } from "../providers";
+import { isJsonSchema, mapTamboToolToContextTool } from "../util/registry";
 
 /**
- * Serializes the registry for testing purposes
+ * Serializes the registry for testing purposes, the way it is sent to the
+ * Tambo API
  * @param mockRegistry - The registry to serialize
  * @returns The serialized registry
  */
@@ -16,21 +18,10 @@ export function serializeRegistry(mockRegistry: TamboComponent[]) {
       ...componentEntry
     }) => ({
       ...componentEntry,
-      props: zodToJsonSchema(propsSchema as z.ZodTypeAny),
-      contextTools: associatedTools?.map(
-        ({ toolSchema, tool: _tool, ...toolEntry }) => ({
-          ...toolEntry,
-          parameters: (toolSchema as z.ZodFunction<any, any>)
-            .parameters()
-            .items.map((p: z.ZodTypeAny, index: number) => ({
-              name: `param${index + 1}`,
-              schema: zodToJsonSchema(p),
-              isRequired: true,
-              description: p.description,
-              type: (zodToJsonSchema(p) as any).type,
-            })),
-        }),
-      ),
+      props: isJsonSchema(propsSchema)
+        ? propsSchema
+        : zodToJsonSchema(propsSchema as z.ZodTypeAny),
+      contextTools: associatedTools?.map(mapTamboToolToContextTool),
     }),
   );
 }
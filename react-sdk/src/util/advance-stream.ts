@@ -0,0 +1,62 @@
+import TamboAI, { advanceStream } from "@tambo-ai/typescript-sdk";
+
+/**
+ * Streaming methods a client can provide in place of the `advanceStream` of
+ * the SDK, like the client of a `MockTamboBackend`.
+ */
+export interface TamboStreamingThreads {
+  /**
+   * Send a message to a new thread and stream the response.
+   * @param body - The message and the options of the response
+   * @param options - The options of the request
+   * @returns The chunks of the response
+   */
+  advanceStream: (
+    body: TamboAI.Beta.Threads.ThreadAdvanceParams,
+    options?: TamboAI.RequestOptions,
+  ) => Promise<AsyncIterable<TamboAI.Beta.Threads.ThreadAdvanceResponse>>;
+  /**
+   * Send a message to a thread and stream the response.
+   * @param threadId - The thread to send the message to
+   * @param body - The message and the options of the response
+   * @param options - The options of the request
+   * @returns The chunks of the response
+   */
+  advanceStreamById: (
+    threadId: string,
+    body: TamboAI.Beta.Threads.ThreadAdvanceParams,
+    options?: TamboAI.RequestOptions,
+  ) => Promise<AsyncIterable<TamboAI.Beta.Threads.ThreadAdvanceResponse>>;
+}
+
+/**
+ * Send a message and stream the response, with the streaming methods of the
+ * client's threads when it has them, or with the `advanceStream` of the SDK.
+ * @param client - The client to send the message with
+ * @param body - The message and the options of the response
+ * @param threadId - The thread to send the message to, undefined for a new thread
+ * @param requestOptions - The options of the request
+ * @returns The chunks of the response
+ */
+export const advanceThreadStream = async (
+  client: TamboAI,
+  body: TamboAI.Beta.Threads.ThreadAdvanceParams,
+  threadId?: string,
+  ...requestOptions: [] | [TamboAI.RequestOptions]
+): Promise<AsyncIterable<TamboAI.Beta.Threads.ThreadAdvanceResponse>> => {
+  const threads: object = client.beta.threads;
+  if (!isStreamingThreads(threads)) {
+    return await advanceStream(client, body, threadId, ...requestOptions);
+  }
+  return threadId === undefined
+    ? await threads.advanceStream(body, ...requestOptions)
+    : await threads.advanceStreamById(threadId, body, ...requestOptions);
+};
+
+const isStreamingThreads = (
+  threads: object,
+): threads is TamboStreamingThreads =>
+  "advanceStream" in threads &&
+  typeof threads.advanceStream === "function" &&
+  "advanceStreamById" in threads &&
+  typeof threads.advanceStreamById === "function";
@@ -0,0 +1,316 @@
+import TamboAI from "@tambo-ai/typescript-sdk";
+import { TamboThreadMessage } from "../model/generate-component-response";
+import {
+  AttachmentError,
+  DEFAULT_ATTACHMENT_TYPES,
+  DEFAULT_MAX_ATTACHMENT_SIZE,
+  TamboAttachment,
+  TamboAttachmentMetadata,
+  TamboAttachmentOptions,
+} from "../model/tambo-attachment";
+
+type ContentPart = TamboAI.Beta.Threads.ChatCompletionContentPart;
+
+// Files that are sent to the model as text rather than as a link
+const TEXT_ATTACHMENT_TYPES = [
+  "text/csv",
+  "text/plain",
+  "text/markdown",
+  "application/json",
+];
+
+// Some platforms leave `File.type` empty for these, so fall back to the
+// file extension
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  csv: "text/csv",
+  txt: "text/plain",
+  md: "text/markdown",
+  json: "application/json",
+  pdf: "application/pdf",
+};
+
+/**
+ * Get the MIME type of a file, from its type or its extension.
+ * @param file - The file
+ * @returns The MIME type, or an empty string if it is unknown
+ */
+export const getAttachmentMimeType = (file: File): string => {
+  if (file.type) {
+    return file.type;
+  }
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return MIME_TYPES_BY_EXTENSION[extension] ?? "";
+};
+
+/**
+ * Check that a file can be attached to a message.
+ * @param file - The file to check
+ * @param options - Which files can be attached
+ * @throws {AttachmentError} When the file's type or size is not allowed
+ */
+export const validateAttachment = (
+  file: File,
+  options: TamboAttachmentOptions = {},
+): void => {
+  const {
+    accept = DEFAULT_ATTACHMENT_TYPES,
+    maxSize = DEFAULT_MAX_ATTACHMENT_SIZE,
+    uploadAttachment,
+  } = options;
+  const mimeType = getAttachmentMimeType(file);
+
+  const isAccepted = accept.some((type) =>
+    type.endsWith("/*")
+      ? mimeType.startsWith(type.slice(0, -1))
+      : mimeType === type,
+  );
+  if (!isAccepted) {
+    throw new AttachmentError(
+      file.name,
+      `${file.name} cannot be attached, ${mimeType || "this file type"} is not supported`,
+    );
+  }
+  if (file.size > maxSize) {
+    throw new AttachmentError(
+      file.name,
+      `${file.name} is too large (max ${formatFileSize(maxSize)})`,
+    );
+  }
+  if (
+    !mimeType.startsWith("image/") &&
+    !TEXT_ATTACHMENT_TYPES.includes(mimeType) &&
+    !uploadAttachment
+  ) {
+    throw new AttachmentError(
+      file.name,
+      `${file.name} cannot be attached, ${mimeType} files must be uploaded with uploadAttachment`,
+    );
+  }
+};
+
+/**
+ * Validate a file and prepare it to be sent with a message. Text files are
+ * read as text, other files are uploaded with `uploadAttachment` when it is
+ * set, and images are read as data URLs otherwise.
+ * @param file - The file to attach
+ * @param options - Which files can be attached, and how they are uploaded
+ * @param progress - Progress reporting and cancellation
+ * @param progress.onProgress - Called with the fraction of the file that has been read or uploaded
+ * @param progress.signal - Aborts reading or uploading the file
+ * @returns The attachment
+ * @throws {AttachmentError} When the file's type or size is not allowed
+ */
+export const readAttachment = async (
+  file: File,
+  options: TamboAttachmentOptions = {},
+  {
+    onProgress = () => {},
+    signal = new AbortController().signal,
+  }: { onProgress?: (fraction: number) => void; signal?: AbortSignal } = {},
+): Promise<TamboAttachment> => {
+  validateAttachment(file, options);
+  const attachment: TamboAttachment = {
+    name: file.name,
+    mimeType: getAttachmentMimeType(file),
+    size: file.size,
+  };
+
+  if (TEXT_ATTACHMENT_TYPES.includes(attachment.mimeType)) {
+    attachment.text = await readFile(file, "text", onProgress, signal);
+  } else if (options.uploadAttachment) {
+    attachment.url = await options.uploadAttachment(file, {
+      onProgress,
+      signal,
+    });
+  } else {
+    attachment.url = await readFile(file, "dataURL", onProgress, signal);
+  }
+  onProgress(1);
+  return attachment;
+};
+
+/**
+ * Build the content of a user message from its text and attachments.
+ * @param text - The text the user typed
+ * @param attachments - The attached files
+ * @returns The content parts of the message
+ */
+export const getMessageContent = (
+  text: string,
+  attachments: TamboAttachment[] = [],
+): ContentPart[] => [
+  ...(hasTextPart(text, attachments) ? [{ type: "text" as const, text }] : []),
+  ...attachments.map((attachment): ContentPart => {
+    if (attachment.mimeType.startsWith("image/") && attachment.url) {
+      return { type: "image_url", image_url: { url: attachment.url } };
+    }
+    const attributes = `name="${escapeAttribute(attachment.name)}" type="${escapeAttribute(attachment.mimeType)}"`;
+    if (attachment.text !== undefined) {
+      return {
+        type: "text",
+        text: `<attachment ${attributes}>\n${escapeAttachmentText(attachment.text)}\n</attachment>`,
+      };
+    }
+    return {
+      type: "text",
+      text: `<attachment ${attributes} url="${escapeAttribute(attachment.url ?? "")}" />`,
+    };
+  }),
+];
+
+/**
+ * Build the metadata that records the attachments of a user message, and the
+ * content part each of them is sent as.
+ * @param text - The text the user typed
+ * @param attachments - The attached files
+ * @returns The message metadata, or undefined if there are no attachments
+ */
+export const getAttachmentMetadata = (
+  text: string,
+  attachments: TamboAttachment[] = [],
+): { attachments: TamboAttachmentMetadata[] } | undefined => {
+  if (attachments.length === 0) {
+    return undefined;
+  }
+  const firstIndex = hasTextPart(text, attachments) ? 1 : 0;
+  return {
+    attachments: attachments.map(({ name, mimeType, size }, index) => ({
+      name,
+      mimeType,
+      size,
+      contentIndex: firstIndex + index,
+    })),
+  };
+};
+
+/**
+ * Check whether a content part of a user message was created from an
+ * attachment, rather than typed by the user, as recorded in its metadata.
+ * @param message - The message
+ * @param index - The index of the content part
+ * @returns True if the part is an attached image or file
+ */
+export const isAttachmentContentPart = (
+  message: Pick<TamboThreadMessage, "metadata">,
+  index: number,
+): boolean =>
+  getMessageAttachments(message).some(
+    ({ contentIndex }) => contentIndex === index,
+  );
+
+/**
+ * Get the content of a message without the parts of its attachments, e.g.
+ * to show the text the user typed.
+ * @param message - The message
+ * @returns The content parts that were not created from attachments
+ */
+export const getContentWithoutAttachments = (
+  message: Pick<TamboThreadMessage, "content" | "metadata">,
+): ContentPart[] =>
+  message.content.filter(
+    (_, index) => !isAttachmentContentPart(message, index),
+  );
+
+/**
+ * Replace the text of a user message, keeping its attachments.
+ * @param message - The message
+ * @param text - The new text
+ * @returns The content and metadata of the message with the new text
+ */
+export const replaceMessageText = (
+  message: Pick<TamboThreadMessage, "content" | "metadata">,
+  text: string,
+): Pick<TamboThreadMessage, "content" | "metadata"> => {
+  const attachments = getMessageAttachments(message);
+  return {
+    content: [
+      { type: "text", text },
+      ...attachments.map(({ contentIndex }) => message.content[contentIndex]),
+    ],
+    metadata: {
+      ...message.metadata,
+      attachments: attachments.map((attachment, index) => ({
+        ...attachment,
+        contentIndex: index + 1,
+      })),
+    },
+  };
+};
+
+/**
+ * Get the attachments of a message, as recorded in its metadata.
+ * @param message - The message
+ * @returns The name, type, size and content part of each attachment
+ */
+export const getMessageAttachments = (
+  message: Pick<TamboThreadMessage, "metadata">,
+): TamboAttachmentMetadata[] => {
+  const attachments = message.metadata?.attachments;
+  return Array.isArray(attachments)
+    ? (attachments as TamboAttachmentMetadata[])
+    : [];
+};
+
+/**
+ * Format a number of bytes for display, e.g. `1.5 MB`.
+ * @param bytes - The number of bytes
+ * @returns The formatted size
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${Number((bytes / 1024).toFixed(1))} KB`;
+  }
+  return `${Number((bytes / (1024 * 1024)).toFixed(1))} MB`;
+};
+
+// The typed text is left out of messages that only send attachments
+const hasTextPart = (text: string, attachments: TamboAttachment[]) =>
+  Boolean(text) || attachments.length === 0;
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+
+// A file that contains a closing tag must not end its attachment early
+const escapeAttachmentText = (text: string) =>
+  text.replace(/<\/attachment/gi, "&lt;/attachment");
+
+const readFile = async (
+  file: File,
+  as: "text" | "dataURL",
+  onProgress: (fraction: number) => void,
+  signal: AbortSignal,
+): Promise<string> =>
+  await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    const onAbort = () => {
+      reader.abort();
+    };
+    reader.onprogress = (event) => {
+      if (event.lengthComputable && event.total > 0) {
+        onProgress(event.loaded / event.total);
+      }
+    };
+    reader.onload = () => {
+      signal.removeEventListener("abort", onAbort);
+      resolve(reader.result as string);
+    };
+    reader.onerror = () => {
+      signal.removeEventListener("abort", onAbort);
+      reject(reader.error ?? new Error(`Failed to read ${file.name}`));
+    };
+    reader.onabort = () => {
+      signal.removeEventListener("abort", onAbort);
+      reject(
+        new AttachmentError(file.name, `Reading ${file.name} was aborted`),
+      );
+    };
+    signal.addEventListener("abort", onAbort);
+    if (as === "text") {
+      reader.readAsText(file);
+    } else {
+      reader.readAsDataURL(file);
+    }
+  });
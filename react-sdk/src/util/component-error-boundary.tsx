@@ -0,0 +1,82 @@
+import React, { ComponentType, PropsWithChildren } from "react";
+import {
+  TamboComponentError,
+  TamboComponentErrorProps,
+} from "../model/component-error";
+
+interface ComponentErrorBoundaryProps {
+  componentName: string;
+  /** The props the component was rendered with */
+  props: Record<string, unknown>;
+  errorComponent?: ComponentType<TamboComponentErrorProps>;
+  /** Called with the error when the component throws */
+  onError?: (error: TamboComponentError) => void;
+}
+
+interface ComponentErrorBoundaryState {
+  error?: TamboComponentError;
+}
+
+/**
+ * Catches the errors a rendered component throws, so that they only replace
+ * the component of that message with its `errorComponent`, rather than
+ * unmounting the whole thread.
+ */
+export class ComponentErrorBoundary extends React.Component<
+  PropsWithChildren<ComponentErrorBoundaryProps>,
+  ComponentErrorBoundaryState
+> {
+  state: ComponentErrorBoundaryState = {};
+
+  /**
+   * @param error - The error the component threw
+   * @returns The state with the error to show
+   */
+  static getDerivedStateFromError(error: unknown): ComponentErrorBoundaryState {
+    return { error: toRenderError("", error) };
+  }
+
+  componentDidCatch(error: unknown) {
+    const { componentName, onError } = this.props;
+    console.error(`Component ${componentName} failed to render: `, error);
+    onError?.(toRenderError(componentName, error));
+  }
+
+  componentDidUpdate(previousProps: ComponentErrorBoundaryProps) {
+    // Streamed props may fix what the component failed on
+    if (this.state.error && previousProps.props !== this.props.props) {
+      this.setState({ error: undefined });
+    }
+  }
+
+  render() {
+    const { componentName, props, errorComponent: ErrorComponent } = this.props;
+    if (!this.state.error) {
+      return this.props.children;
+    }
+    if (!ErrorComponent) {
+      return null;
+    }
+    return (
+      <ErrorComponent
+        error={{ ...this.state.error, componentName }}
+        props={props}
+      />
+    );
+  }
+}
+
+/**
+ * @param componentName - The component that threw
+ * @param error - What it threw
+ * @returns The error of the component
+ */
+const toRenderError = (
+  componentName: string,
+  error: unknown,
+): TamboComponentError => ({
+  reason: "render_error",
+  componentName,
+  message: error instanceof Error ? error.message : String(error),
+  issues: [],
+});
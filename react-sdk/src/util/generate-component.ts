@@ -3,38 +3,138 @@ import { parse } from "partial-json";
 import React from "react";
 import { z } from "zod";
 import { wrapWithTamboMessageProvider } from "../hooks/use-current-message";
-import { ComponentRegistry } from "../model/component-metadata";
+import {
+  ComponentPropIssue,
+  TamboComponentError,
+  TamboComponentErrorProps,
+} from "../model/component-error";
+import {
+  ComponentRegistry,
+  RegisteredComponent,
+} from "../model/component-metadata";
 import { TamboThreadMessage } from "../model/generate-component-response";
-import { getComponentFromRegistry } from "../util/registry";
+import { ComponentErrorBoundary } from "./component-error-boundary";
+
+/**
+ * The key of the component state that records the version of the component
+ * the props of a message were generated for
+ */
+export const COMPONENT_VERSION_STATE_KEY = "_tamboComponentVersion";
+
+export interface ComponentRenderOptions {
+  /** Rendered for components that have no `errorComponent` of their own */
+  errorComponent?: React.ComponentType<TamboComponentErrorProps>;
+  /** Called when the component throws while rendering its complete props */
+  onRenderError?: (error: TamboComponentError) => void;
+}
 
 /**
  * Generate a message that has a component rendered into it, if the message
- * came with one.
+ * came with one. Unknown components and props that do not match the
+ * component's schema do not throw: the message gets a `componentError`, and
+ * the component's `errorComponent` is rendered instead, or else the default
+ * `errorComponent` of the render options, if there is one. Props of older
+ * versions of the component are migrated before they are validated.
  * @param message - The message that may contain a component
  * @param componentList - the list of available components
+ * @param isPartial - Whether the props are still streaming in, in which case
+ * they are not validated yet, and errors the component throws are not reported
+ * @param renderOptions - The default error component, and where to report
+ * the errors the component throws
  * @returns The updated message with the component rendered into it
  */
 export function renderComponentIntoMessage(
   message: TamboAI.Beta.Threads.ThreadMessage,
   componentList: ComponentRegistry,
+  isPartial = false,
+  renderOptions: ComponentRenderOptions = {},
 ): TamboThreadMessage {
   if (!message.component?.componentName) {
     throw new Error("Component not found");
   }
+  const componentName = message.component.componentName;
   const parsedProps = parse(JSON.stringify(message.component.props));
-  const registeredComponent = getComponentFromRegistry(
-    message.component.componentName,
-    componentList,
-  );
+  const registeredComponent = componentList[componentName] as
+    | RegisteredComponent
+    | undefined;
+  if (!registeredComponent) {
+    return renderComponentError(
+      message,
+      parsedProps,
+      {
+        reason: "unknown_component",
+        componentName,
+        message: `Tambo tried to use Component ${componentName}, but it was not found.`,
+        issues: [],
+      },
+      renderOptions.errorComponent,
+    );
+  }
+  const errorComponent =
+    registeredComponent.errorComponent ?? renderOptions.errorComponent;
+
+  let migratedProps: Record<string, unknown>;
+  try {
+    migratedProps = migrateProps(parsedProps, message, registeredComponent);
+  } catch (error) {
+    const issue: ComponentPropIssue = {
+      path: "props",
+      message: error instanceof Error ? error.message : String(error),
+    };
+    return renderComponentError(
+      message,
+      parsedProps,
+      {
+        reason: "invalid_props",
+        componentName,
+        message: `Invalid props for component ${componentName}: ${issue.message}`,
+        issues: [issue],
+      },
+      errorComponent,
+    );
+  }
 
-  const validatedProps =
+  const propsSchema =
     registeredComponent.props instanceof z.ZodType
-      ? registeredComponent.props.parse(parsedProps)
-      : parsedProps;
+      ? registeredComponent.props
+      : registeredComponent.propsSchema;
+  let validatedProps = migratedProps;
+  if (propsSchema && !isPartial) {
+    const result = propsSchema.safeParse(migratedProps);
+    if (!result.success) {
+      const issues = result.error.issues.map(
+        (issue): ComponentPropIssue => ({
+          path: issue.path.length > 0 ? issue.path.join(".") : "props",
+          message: issue.message,
+        }),
+      );
+      return renderComponentError(
+        message,
+        migratedProps,
+        {
+          reason: "invalid_props",
+          componentName,
+          message: `Invalid props for component ${componentName}: ${issues
+            .map((issue) => `${issue.path}: ${issue.message}`)
+            .join("; ")}`,
+          issues,
+        },
+        errorComponent,
+      );
+    }
+    validatedProps = result.data;
+  }
 
   const renderedComponent = React.createElement(
-    registeredComponent.component,
-    validatedProps,
+    ComponentErrorBoundary,
+    {
+      componentName,
+      props: validatedProps,
+      errorComponent,
+      // Partial props may throw until the rest of them have streamed in
+      onError: isPartial ? undefined : renderOptions.onRenderError,
+    },
+    renderRegisteredComponent(registeredComponent, validatedProps),
   );
 
   // Create the full message object first so we can pass it to the provider
@@ -44,6 +144,15 @@ export function renderComponentIntoMessage(
       ...message.component,
       props: validatedProps,
     },
+    // The props are now those of the current version
+    componentState:
+      registeredComponent.version === undefined
+        ? message.componentState
+        : {
+            ...message.componentState,
+            [COMPONENT_VERSION_STATE_KEY]: registeredComponent.version,
+          },
+    componentError: undefined,
   };
 
   const wrappedComponent = wrapWithTamboMessageProvider(
@@ -56,3 +165,127 @@ export function renderComponentIntoMessage(
     renderedComponent: wrappedComponent,
   };
 }
+
+/**
+ * Create the element of a registered component. Lazy components render the
+ * loading component until they are loaded.
+ * @param registeredComponent - The component
+ * @param props - The props to render it with
+ * @returns The element
+ */
+const renderRegisteredComponent = (
+  registeredComponent: RegisteredComponent,
+  props: Record<string, unknown>,
+): React.ReactElement => {
+  const element = React.createElement(registeredComponent.component, props);
+  if (!registeredComponent.preload) {
+    return element;
+  }
+  const { loadingComponent } = registeredComponent;
+  return React.createElement(
+    React.Suspense,
+    {
+      fallback: loadingComponent
+        ? React.createElement(loadingComponent, props)
+        : null,
+    },
+    element,
+  );
+};
+
+/**
+ * Record the version of its component in a message the model just generated,
+ * so that its props can be migrated once the component changes.
+ * @param message - The generated message
+ * @param componentList - the list of available components
+ * @returns The message with the version of its component, if it has one
+ */
+export function recordComponentVersion(
+  message: TamboAI.Beta.Threads.ThreadMessage,
+  componentList: ComponentRegistry,
+): TamboAI.Beta.Threads.ThreadMessage {
+  const componentName = message.component?.componentName;
+  const version = componentName
+    ? componentList[componentName]?.version
+    : undefined;
+  if (
+    version === undefined ||
+    message.componentState?.[COMPONENT_VERSION_STATE_KEY] !== undefined
+  ) {
+    return message;
+  }
+  return {
+    ...message,
+    componentState: {
+      ...message.componentState,
+      [COMPONENT_VERSION_STATE_KEY]: version,
+    },
+  };
+}
+
+/**
+ * Upgrade the props of a message to the current version of its component,
+ * one version at a time. Messages without a recorded version are version 1.
+ * @param props - The props of the message
+ * @param message - The message, with the version it was generated for
+ * @param registeredComponent - The component
+ * @param registeredComponent.version - The current version of the props
+ * @param registeredComponent.migrations - The migrations to the current version
+ * @returns The props of the current version
+ * @throws {Error} If a migration throws
+ */
+const migrateProps = (
+  props: Record<string, unknown>,
+  message: TamboAI.Beta.Threads.ThreadMessage,
+  { version = 1, migrations = {} }: RegisteredComponent,
+): Record<string, unknown> => {
+  const propsVersion = Number(
+    message.componentState?.[COMPONENT_VERSION_STATE_KEY] ?? 1,
+  );
+  let migratedProps = props;
+  for (
+    let nextVersion = propsVersion + 1;
+    nextVersion <= version;
+    nextVersion++
+  ) {
+    const migration = migrations[nextVersion];
+    if (!migration) {
+      continue;
+    }
+    try {
+      migratedProps = migration(migratedProps);
+    } catch (error) {
+      throw new Error(
+        `The migration to version ${nextVersion} failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+  return migratedProps;
+};
+
+/**
+ * Attach the error to the message, and render the error component in place
+ * of the component, if there is one.
+ * @param message - The message with the component
+ * @param props - The props the model picked
+ * @param error - Why the component could not be rendered
+ * @param errorComponent - The error component to render
+ * @returns The message with the error
+ */
+const renderComponentError = (
+  message: TamboAI.Beta.Threads.ThreadMessage,
+  props: Record<string, unknown>,
+  error: TamboComponentError,
+  errorComponent?: React.ComponentType<TamboComponentErrorProps>,
+): TamboThreadMessage => {
+  const fullMessage: TamboThreadMessage = { ...message, componentError: error };
+  return {
+    ...fullMessage,
+    renderedComponent: errorComponent
+      ? wrapWithTamboMessageProvider(
+          React.createElement(errorComponent, { error, props }),
+          fullMessage,
+        )
+      : null,
+  };
+};
@@ -0,0 +1,55 @@
+import React from "react";
+import {
+  RegisteredComponent,
+  TamboComponentLoader,
+} from "../model/component-metadata";
+
+// Components are registered again when the list of components changes, so
+// the lazy component of a loader is kept to keep rendered components mounted
+const lazyComponents = new WeakMap<
+  TamboComponentLoader,
+  Pick<RegisteredComponent, "component" | "preload">
+>();
+
+/**
+ * Create the component that renders a lazy component once it is loaded, and
+ * a function to start loading it early. `React.lazy` keeps a failed load, so
+ * after a failure the next preload, e.g. when the model chooses a component
+ * again, loads the component with a new lazy component.
+ * @param load - Loads the module of the component
+ * @returns The lazy component and the function to preload it
+ */
+export const createLazyComponent = (
+  load: TamboComponentLoader,
+): Pick<RegisteredComponent, "component" | "preload"> => {
+  const existing = lazyComponents.get(load);
+  if (existing) {
+    return existing;
+  }
+
+  let loading: ReturnType<TamboComponentLoader> | undefined;
+  let hasFailed = false;
+  const loadOnce = async () => {
+    loading ??= load().catch((error: unknown) => {
+      loading = undefined;
+      hasFailed = true;
+      throw error;
+    });
+    return await loading;
+  };
+  let lazy = React.lazy(loadOnce);
+  const preload = async () => {
+    if (hasFailed) {
+      hasFailed = false;
+      lazy = React.lazy(loadOnce);
+    }
+    return await loadOnce();
+  };
+  // Renders the latest lazy component, so that the registered component
+  // stays the same when a failed load is tried again
+  const component = (props: Record<string, unknown>) =>
+    React.createElement(lazy, props);
+  const lazyComponent = { component, preload };
+  lazyComponents.set(load, lazyComponent);
+  return lazyComponent;
+};
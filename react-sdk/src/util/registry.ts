@@ -7,7 +7,8 @@ import {
   JSONSchemaLite,
   ParameterSpec,
   RegisteredComponent,
-  TamboTool,
+  TamboAnyTool,
+  TamboObjectTool,
   TamboToolAssociations,
   TamboToolRegistry,
 } from "../model/component-metadata";
@@ -57,7 +58,7 @@ export const getAvailableComponents = (
 export const getUnassociatedTools = (
   toolRegistry: TamboToolRegistry,
   toolAssociations: TamboToolAssociations,
-): TamboTool[] => {
+): TamboAnyTool[] => {
   return Object.values(toolRegistry).filter((tool) => {
     // Check if the tool's name appears in any of the tool association arrays
     return !Object.values(toolAssociations).flat().includes(tool.name);
@@ -112,9 +113,11 @@ export const getComponentFromRegistry = (
  * @returns The context tool
  */
 export const mapTamboToolToContextTool = (
-  tool: TamboTool,
+  tool: TamboAnyTool,
 ): ComponentContextToolMetadata => {
-  const parameters = getParametersFromZodFunction(tool.toolSchema);
+  const parameters = isObjectTool(tool)
+    ? getParametersFromZodObject(tool.inputSchema)
+    : getParametersFromZodFunction(tool.toolSchema);
 
   return {
     name: tool.name,
@@ -123,7 +126,21 @@ export const mapTamboToolToContextTool = (
   };
 };
 
-function isJsonSchema(
+/**
+ * Check whether a tool is called with a single object described by an
+ * `inputSchema`, rather than with positional arguments
+ * @param tool - The tool to check
+ * @returns True if the tool is an object tool
+ */
+export const isObjectTool = (tool: TamboAnyTool): tool is TamboObjectTool =>
+  "inputSchema" in tool && tool.inputSchema !== undefined;
+
+/**
+ * Check whether a tool schema is a JSON Schema rather than a Zod function
+ * @param schema - The tool schema to check
+ * @returns True if the schema is a JSON Schema object
+ */
+export function isJsonSchema(
   schema: unknown,
 ): schema is ReturnType<typeof zodToJsonSchema> {
   return (
@@ -151,21 +168,29 @@ const getParametersFromZodFunction = (
   }
 
   const parameters: z.ZodTuple = schema.parameters();
-  return parameters.items.map((param, index): ParameterSpec => {
-    const name = `param${index + 1}`;
-    const type = getZodBaseType(param);
-    const description = param.description ?? "";
-    const isRequired = !param.isOptional();
-    const schema = zodToJsonSchema(param);
-
-    return {
-      name,
-      type,
-      description,
-      isRequired,
-      schema,
-    };
-  });
+  return parameters.items.map((param, index) =>
+    getParameterSpec(`param${index + 1}`, param),
+  );
+};
+
+const getParametersFromZodObject = (schema: z.AnyZodObject): ParameterSpec[] =>
+  Object.entries(schema.shape as z.ZodRawShape).map(([name, param]) =>
+    getParameterSpec(name, param),
+  );
+
+const getParameterSpec = (name: string, param: z.ZodTypeAny): ParameterSpec => {
+  const type = getZodBaseType(param);
+  const description = param.description ?? "";
+  const isRequired = !param.isOptional();
+  const schema = zodToJsonSchema(param);
+
+  return {
+    name,
+    type,
+    description,
+    isRequired,
+    schema,
+  };
 };
 
 const getZodBaseType = (schema: z.ZodTypeAny): string => {
@@ -185,6 +210,10 @@ const getZodBaseType = (schema: z.ZodTypeAny): string => {
       return "date";
     case "ZodObject":
       return "object";
+    case "ZodOptional":
+    case "ZodNullable":
+    case "ZodDefault":
+      return getZodBaseType(schema._def.innerType);
     default:
       console.warn("falling back to string for", typeName);
       return "string";
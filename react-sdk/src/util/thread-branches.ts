@@ -0,0 +1,138 @@
+import { TamboThread } from "../model/tambo-thread";
+
+/** The key of a forked thread's metadata that records where it was forked */
+export const THREAD_BRANCH_METADATA_KEY = "tamboBranch";
+
+/**
+ * The key of a thread's metadata that records the forks made from it, as
+ * thread ids by message index, so that they are found after a reload
+ */
+export const THREAD_FORKS_METADATA_KEY = "tamboForks";
+
+/** Where a thread was forked from */
+export interface TamboThreadBranch {
+  /** The thread the fork was created from */
+  sourceThreadId: string;
+  /** The index of the first message that differs from the source thread */
+  messageIndex: number;
+}
+
+/** The sibling branches of a message */
+export interface TamboMessageBranches {
+  /** The ids of the threads that are branches at this message, oldest first */
+  threadIds: string[];
+  /** The index in `threadIds` of the branch that is currently shown */
+  currentIndex: number;
+}
+
+/**
+ * Get where a thread was forked from, if it is a fork.
+ * @param thread - The thread to check
+ * @returns The branch information, or undefined if the thread is not a fork
+ */
+export const getThreadBranch = (
+  thread: TamboThread | undefined,
+): TamboThreadBranch | undefined => {
+  const branch = thread?.metadata?.[THREAD_BRANCH_METADATA_KEY];
+  if (
+    typeof branch === "object" &&
+    branch !== null &&
+    typeof (branch as TamboThreadBranch).sourceThreadId === "string" &&
+    typeof (branch as TamboThreadBranch).messageIndex === "number"
+  ) {
+    return branch as TamboThreadBranch;
+  }
+  return undefined;
+};
+
+/**
+ * Get the forks of a thread that its metadata records, by message index.
+ * @param thread - The thread the forks were made from
+ * @returns The ids of the forks, oldest first, by message index
+ */
+export const getRecordedForks = (
+  thread: TamboThread | undefined,
+): Record<string, string[]> => {
+  const forks = thread?.metadata?.[THREAD_FORKS_METADATA_KEY];
+  if (typeof forks !== "object" || forks === null) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(forks).filter(
+      (entry): entry is [string, string[]] =>
+        Array.isArray(entry[1]) &&
+        entry[1].every((threadId) => typeof threadId === "string"),
+    ),
+  );
+};
+
+/**
+ * Find the thread that owns the message at an index of a thread. Messages
+ * before the point a thread was forked are copies of the source thread's
+ * messages, so this follows the forks back to the original thread.
+ * @param threadMap - The known threads, by id
+ * @param threadId - The thread the message is shown in
+ * @param messageIndex - The index of the message in that thread
+ * @returns The id of the thread whose branches are the siblings at that index
+ */
+export const getBranchRootThreadId = (
+  threadMap: Record<string, TamboThread>,
+  threadId: string,
+  messageIndex: number,
+): string => {
+  let rootThreadId = threadId;
+  let branch = getThreadBranch(threadMap[rootThreadId]);
+  while (branch && branch.messageIndex >= messageIndex) {
+    rootThreadId = branch.sourceThreadId;
+    branch = getThreadBranch(threadMap[rootThreadId]);
+  }
+  return rootThreadId;
+};
+
+/**
+ * Get the sibling branches of the message at an index of a thread: the
+ * original thread, and every fork of it made at that message.
+ * @param threadMap - The known threads, by id
+ * @param threadId - The thread the message is shown in
+ * @param messageIndex - The index of the message in that thread
+ * @returns The branches, and which of them is shown in the thread
+ */
+export const getMessageBranches = (
+  threadMap: Record<string, TamboThread>,
+  threadId: string,
+  messageIndex: number,
+): TamboMessageBranches => {
+  const rootThreadId = getBranchRootThreadId(threadMap, threadId, messageIndex);
+  // Forks recorded on the server come first, in the order they were made,
+  // followed by loaded forks that are not recorded yet
+  const recordedForkIds =
+    getRecordedForks(threadMap[rootThreadId])[messageIndex] ?? [];
+  const loadedForks = Object.values(threadMap)
+    .filter((thread) => {
+      const branch = getThreadBranch(thread);
+      return (
+        branch?.sourceThreadId === rootThreadId &&
+        branch.messageIndex === messageIndex &&
+        !recordedForkIds.includes(thread.id)
+      );
+    })
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const threadIds = [
+    rootThreadId,
+    ...recordedForkIds,
+    ...loadedForks.map((thread) => thread.id),
+  ];
+
+  // Walk back from the shown thread to the branch it descends from
+  let shownThreadId = threadId;
+  let branch = getThreadBranch(threadMap[shownThreadId]);
+  while (branch && branch.messageIndex > messageIndex) {
+    shownThreadId = branch.sourceThreadId;
+    branch = getThreadBranch(threadMap[shownThreadId]);
+  }
+
+  return {
+    threadIds,
+    currentIndex: Math.max(threadIds.indexOf(shownThreadId), 0),
+  };
+};
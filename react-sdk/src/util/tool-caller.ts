@@ -1,41 +1,289 @@
 import TamboAI from "@tambo-ai/typescript-sdk";
 import {
   ComponentContextTool,
+  TamboAnyTool,
+  TamboToolCallContext,
+  TamboToolProgress,
   TamboToolRegistry,
 } from "../model/component-metadata";
-import { mapTamboToolToContextTool } from "./registry";
+import { TamboTracer } from "../model/tambo-tracer";
+import { ToolArgumentsError } from "../model/tool-arguments-error";
+import { isObjectTool, mapTamboToolToContextTool } from "./registry";
+import { traceSpan } from "./tracing";
+import { validateToolArgs } from "./validate-tool-args";
+
+/** The default number of tool calls that are run at the same time */
+export const DEFAULT_MAX_CONCURRENT_TOOL_CALLS = 4;
+
+export interface ToolCallResult {
+  result: string;
+  error?: string;
+  /** The content of the tool response, from the tool's `transformToContent` */
+  content?: TamboAI.Beta.Threads.ChatCompletionContentPart[];
+}
 
 /**
  * Process a message from the thread, invoking the appropriate tool and returning the result.
  * @param message - The message to handle
  * @param toolRegistry - The tool registry
+ * @param signal - Aborts the tool call, e.g. when the user cancels the generation
+ * @param onProgress - Called with each progress update the tool reports
+ * @param tracer - Creates a span for the tool call
  * @returns The result of the tool call
  */
 export const handleToolCall = async (
   message: TamboAI.Beta.Threads.ThreadMessage,
   toolRegistry: TamboToolRegistry,
-): Promise<{
-  result: string;
-  error?: string;
-}> => {
-  if (!message?.toolCallRequest?.toolName) {
-    throw new Error("Tool name is required");
+  signal?: AbortSignal,
+  onProgress?: (progress: TamboToolProgress) => void,
+  tracer?: TamboTracer,
+): Promise<ToolCallResult> => {
+  const toolCallRequest = message?.toolCallRequest;
+  if (!toolCallRequest?.toolName) {
+    // Fail this call only, so the other calls of its batch still get results
+    return {
+      result:
+        "The tool call did not name a tool, so no tool was run. Call a tool by its name.",
+      error: "Tool name is required",
+    };
   }
 
+  return await traceSpan(
+    tracer,
+    "tambo.tool_call",
+    {
+      "tambo.thread_id": message.threadId,
+      "tambo.tool_name": toolCallRequest.toolName,
+    },
+    async (span) => {
+      const result = await runToolCall(
+        toolCallRequest,
+        toolRegistry,
+        signal,
+        onProgress,
+      );
+      if (result.error) {
+        span.setError(result.error);
+      }
+      return result;
+    },
+  );
+};
+
+const runToolCall = async (
+  toolCallRequest: TamboAI.ToolCallRequest,
+  toolRegistry: TamboToolRegistry,
+  signal?: AbortSignal,
+  onProgress?: (progress: TamboToolProgress) => void,
+): Promise<ToolCallResult> => {
   try {
-    const tool = findTool(message.toolCallRequest.toolName, toolRegistry);
+    const registryTool = findTool(toolCallRequest.toolName, toolRegistry);
+    const args = validateToolArgs(
+      registryTool,
+      getToolCallArgs(toolCallRequest, registryTool),
+    );
+    const result = await runToolChoice(
+      args,
+      getComponentContextTool(registryTool),
+      signal,
+      onProgress,
+    );
     return {
-      result: await runToolChoice(message.toolCallRequest, tool),
+      result,
+      ...(registryTool.transformToContent && {
+        content: await registryTool.transformToContent(result),
+      }),
     };
   } catch (error) {
+    if (error instanceof ToolArgumentsError) {
+      console.warn(error.message);
+      return getInvalidArgumentsToolCallResult(error);
+    }
     console.error("Error in calling tool: ", error);
     return {
-      result: `When attempting to call tool ${message.toolCallRequest.toolName} the following error occurred: ${error}. Explain to the user that the tool call failed and try again if needed.`,
+      result: `When attempting to call tool ${toolCallRequest.toolName} the following error occurred: ${error}. Explain to the user that the tool call failed and try again if needed.`,
       error: error instanceof Error ? error.message : "Unknown error",
     };
   }
 };
 
+/** Called when each tool call of a batch starts and finishes running */
+export interface ToolCallListener {
+  onStart?: (message: TamboAI.Beta.Threads.ThreadMessage) => void;
+  onFinish?: (
+    message: TamboAI.Beta.Threads.ThreadMessage,
+    result: ToolCallResult,
+    durationMs: number,
+  ) => void;
+}
+
+/**
+ * Process a batch of tool call messages, running up to `maxConcurrency` tools
+ * at the same time.
+ * @param messages - The tool call messages to handle
+ * @param toolRegistry - The tool registry
+ * @param maxConcurrency - The maximum number of tools to run at the same time
+ * @param signal - Aborts all of the tool calls
+ * @param onProgress - Called with each progress update a tool reports
+ * @param listener - Called when each tool call starts and finishes
+ * @param tracer - Creates a span for each tool call
+ * @returns The results of the tool calls, in the same order as the messages
+ */
+export const handleToolCalls = async (
+  messages: TamboAI.Beta.Threads.ThreadMessage[],
+  toolRegistry: TamboToolRegistry,
+  maxConcurrency: number = DEFAULT_MAX_CONCURRENT_TOOL_CALLS,
+  signal?: AbortSignal,
+  onProgress?: (
+    message: TamboAI.Beta.Threads.ThreadMessage,
+    progress: TamboToolProgress,
+  ) => void,
+  listener?: ToolCallListener,
+  tracer?: TamboTracer,
+): Promise<ToolCallResult[]> => {
+  const results: ToolCallResult[] = new Array(messages.length);
+  let nextIndex = 0;
+
+  // Each worker keeps pulling the next pending tool call until none are left
+  const runWorker = async () => {
+    while (nextIndex < messages.length) {
+      const index = nextIndex++;
+      const message = messages[index];
+      listener?.onStart?.(message);
+      const startedAt = Date.now();
+      results[index] = await handleToolCall(
+        message,
+        toolRegistry,
+        signal,
+        onProgress && ((progress) => onProgress(message, progress)),
+        tracer,
+      );
+      listener?.onFinish?.(message, results[index], Date.now() - startedAt);
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, maxConcurrency), messages.length);
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+  return results;
+};
+
+/**
+ * Check whether the user has to approve a tool call before it runs.
+ * @param message - The tool call message
+ * @param toolRegistry - The tool registry
+ * @returns True if the tool call needs the user's approval
+ */
+export const toolCallRequiresApproval = async (
+  message: TamboAI.Beta.Threads.ThreadMessage,
+  toolRegistry: TamboToolRegistry,
+): Promise<boolean> => {
+  const toolCallRequest = message.toolCallRequest;
+  if (!toolCallRequest) {
+    return false;
+  }
+  const registryTool = toolRegistry[toolCallRequest.toolName];
+  if (!registryTool?.requiresApproval) {
+    return false;
+  }
+  if (typeof registryTool.requiresApproval === "boolean") {
+    return registryTool.requiresApproval;
+  }
+
+  let args: unknown[];
+  try {
+    args = validateToolArgs(
+      registryTool,
+      getToolCallArgs(toolCallRequest, registryTool),
+    );
+  } catch (error) {
+    if (error instanceof ToolArgumentsError) {
+      // The tool does not run with invalid arguments, the issues are sent
+      // back to the model instead
+      return false;
+    }
+    throw error;
+  }
+  try {
+    return isObjectTool(registryTool)
+      ? await registryTool.requiresApproval(args[0] as Record<string, unknown>)
+      : await registryTool.requiresApproval(...args);
+  } catch (error) {
+    // Err on the side of asking the user
+    console.error("Error in checking if tool requires approval: ", error);
+    return true;
+  }
+};
+
+/**
+ * Build the result that is sent back to the model when the user denies a tool call.
+ * @param toolName - The name of the denied tool
+ * @param reason - The reason the user gave for denying the tool call, if any
+ * @returns The tool call result
+ */
+export const getDeniedToolCallResult = (
+  toolName: string,
+  reason?: string,
+): ToolCallResult => {
+  const error = reason
+    ? `The user denied the tool call: ${reason}`
+    : "The user denied the tool call";
+  return {
+    result: `The user did not allow tool ${toolName} to run. ${error}. Do not call the tool again unless the user asks for it.`,
+    error,
+  };
+};
+
+/**
+ * Build the result that is sent back to the model when it called a tool with
+ * invalid arguments, listing each problem so the model can fix the call.
+ * @param error - The validation error
+ * @returns The tool call result
+ */
+const getInvalidArgumentsToolCallResult = (
+  error: ToolArgumentsError,
+): ToolCallResult => ({
+  result: JSON.stringify({
+    error: "invalid_arguments",
+    toolName: error.toolName,
+    issues: error.issues,
+    instructions:
+      "The tool was not run. Call it again with arguments that match its parameters.",
+  }),
+  error: error.message,
+});
+
+/**
+ * Get the arguments for a tool call. Object tools receive a single object
+ * keyed by parameter name. For other tools, missing optional parameters are
+ * padded, so that anything passed after the arguments always lands after the
+ * last declared parameter.
+ * @param toolCallRequest - The tool call request
+ * @param registryTool - The tool being called
+ * @returns The arguments to call the tool with
+ */
+const getToolCallArgs = (
+  toolCallRequest: TamboAI.ToolCallRequest,
+  registryTool: TamboAnyTool,
+): unknown[] => {
+  const parameters = toolCallRequest.parameters ?? [];
+  if (isObjectTool(registryTool)) {
+    return [
+      Object.fromEntries(
+        parameters.map((param) => [param.parameterName, param.parameterValue]),
+      ),
+    ];
+  }
+
+  // Assumes parameters are in the order they are defined in the tool
+  const parameterValues = parameters.map((param) => param.parameterValue);
+  const parameterCount =
+    mapTamboToolToContextTool(registryTool).parameters.length;
+  return Array.from(
+    { length: Math.max(parameterValues.length, parameterCount) },
+    (_, index) => parameterValues[index],
+  );
+};
+
 const findTool = (toolName: string, toolRegistry: TamboToolRegistry) => {
   const registryTool = toolRegistry[toolName];
 
@@ -43,20 +291,152 @@ const findTool = (toolName: string, toolRegistry: TamboToolRegistry) => {
     throw new Error(`Tool ${toolName} not found in registry`);
   }
 
-  const contextTool = mapTamboToolToContextTool(registryTool);
-  return {
-    getComponentContext: registryTool.tool,
-    definition: contextTool,
-  };
+  return registryTool;
 };
 
+const getComponentContextTool = (
+  registryTool: TamboAnyTool,
+): ComponentContextTool => ({
+  getComponentContext: registryTool.tool,
+  definition: mapTamboToolToContextTool(registryTool),
+  timeoutMs: registryTool.timeoutMs,
+  retry: registryTool.retry,
+});
+
 const runToolChoice = async (
-  toolCallRequest: TamboAI.ToolCallRequest,
+  args: unknown[],
   tool: ComponentContextTool,
+  signal?: AbortSignal,
+  onProgress?: (progress: TamboToolProgress) => void,
 ): Promise<any> => {
-  // Assumes parameters are in the order they are defined in the tool
-  const parameterValues =
-    toolCallRequest.parameters?.map((param) => param.parameterValue) ?? [];
+  const { maxRetries = 0, delayMs = 0 } = tool.retry ?? {};
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await runWithTimeout(
+        async (attemptSignal) => {
+          // Progress from an attempt that timed out or was cancelled is stale
+          const reportProgress = (message: string, fraction?: number) => {
+            if (!attemptSignal.aborted) {
+              onProgress?.({ message, fraction });
+            }
+          };
+          const result = await tool.getComponentContext(...args, {
+            signal: attemptSignal,
+            reportProgress,
+          } satisfies TamboToolCallContext);
+          return isAsyncGenerator(result)
+            ? await drainToolGenerator(result, reportProgress, attemptSignal)
+            : result;
+        },
+        tool.definition.name,
+        tool.timeoutMs,
+        signal,
+      );
+    } catch (error) {
+      if (signal?.aborted || attempt >= maxRetries) {
+        throw error;
+      }
+      await wait(delayMs * 2 ** attempt, signal);
+    }
+  }
+};
+
+const isAsyncGenerator = (
+  value: unknown,
+): value is AsyncGenerator<TamboToolProgress, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as AsyncGenerator)[Symbol.asyncIterator] === "function" &&
+  typeof (value as AsyncGenerator).next === "function";
+
+/**
+ * Runs a tool that is an async generator, reporting each yielded value as
+ * progress. The generator's return value is the result of the tool.
+ * @param generator - The generator returned by the tool
+ * @param reportProgress - Reports a progress update
+ * @param signal - Stops the generator when aborted
+ * @returns The result of the tool
+ */
+const drainToolGenerator = async (
+  generator: AsyncGenerator<TamboToolProgress, unknown>,
+  reportProgress: (message: string, fraction?: number) => void,
+  signal: AbortSignal,
+): Promise<unknown> => {
+  for (;;) {
+    const step = await generator.next();
+    if (step.done) {
+      return step.value;
+    }
+    if (signal.aborted) {
+      await generator.return(undefined);
+      return undefined;
+    }
+    reportProgress(step.value?.message ?? "", step.value?.fraction);
+  }
+};
+
+/**
+ * Runs a single tool attempt with its own signal, rejecting as soon as the
+ * attempt times out or the parent signal is aborted, even if the tool itself
+ * ignores its signal. The signal of an attempt that fails is aborted, so a
+ * retry never runs alongside the attempt it replaces.
+ * @param run - The tool attempt to run
+ * @param toolName - The name of the tool, used in error messages
+ * @param timeoutMs - The maximum time the attempt may take
+ * @param parentSignal - Aborts the attempt
+ * @returns The result of the attempt
+ */
+const runWithTimeout = async <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  toolName: string,
+  timeoutMs: number | undefined,
+  parentSignal: AbortSignal | undefined,
+): Promise<T> => {
+  if (parentSignal?.aborted) {
+    throw new Error(`Tool call ${toolName} was cancelled`);
+  }
+
+  const controller = new AbortController();
+  const onParentAbort = () => {
+    controller.abort(new Error(`Tool call ${toolName} was cancelled`));
+  };
+  parentSignal?.addEventListener("abort", onParentAbort, { once: true });
+  const timeoutId =
+    timeoutMs === undefined
+      ? undefined
+      : setTimeout(() => {
+          controller.abort(
+            new Error(`Tool ${toolName} timed out after ${timeoutMs}ms`),
+          );
+        }, timeoutMs);
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      controller.signal.addEventListener(
+        "abort",
+        () => reject(controller.signal.reason),
+        { once: true },
+      );
+      run(controller.signal).then(resolve, reject);
+    });
+  } catch (error) {
+    // Stop what is left of a failed attempt before the next one starts
+    controller.abort(error);
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    parentSignal?.removeEventListener("abort", onParentAbort);
+  }
+};
 
-  return await tool.getComponentContext(...parameterValues);
+const wait = async (ms: number, signal?: AbortSignal) => {
+  await new Promise<void>((resolve) => {
+    const timeoutId = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
 };
@@ -0,0 +1,79 @@
+import {
+  TamboSpan,
+  TamboSpanAttributes,
+  TamboTracer,
+} from "../model/tambo-tracer";
+
+const noopSpan: TamboSpan = {
+  setAttributes: () => {},
+  setError: () => {},
+};
+
+/**
+ * Run `fn` in a span of the tracer, or just run it when there is no tracer.
+ * @param tracer - The tracer, if tracing is enabled
+ * @param name - The name of the span
+ * @param attributes - The attributes of the span
+ * @param fn - The work the span measures
+ * @returns The result of `fn`
+ */
+export const traceSpan = async <T>(
+  tracer: TamboTracer | undefined,
+  name: string,
+  attributes: TamboSpanAttributes,
+  fn: (span: TamboSpan) => Promise<T>,
+): Promise<T> =>
+  tracer ? await tracer.startSpan(name, attributes, fn) : await fn(noopSpan);
+
+/**
+ * The key of an MCP request's `_meta` that carries the trace headers of the
+ * span the request was made in, for `createTracingFetch`.
+ */
+export const TRACE_HEADERS_META_KEY = "tambo.co/traceHeaders";
+
+/**
+ * Wrap `fetch` so that requests carry the trace headers of the span they were
+ * made in. The headers are read at the start of the span and travel in the
+ * `_meta` of the request, under `TRACE_HEADERS_META_KEY`, because the
+ * request may be sent after the span is no longer the active one.
+ * @param fetchFn - The fetch to wrap, the global fetch by default
+ * @returns The wrapped fetch
+ */
+export const createTracingFetch =
+  (fetchFn: typeof fetch = fetch): typeof fetch =>
+  async (input, init) => {
+    const traceHeaders = getRequestTraceHeaders(init?.body);
+    if (!traceHeaders) {
+      return await fetchFn(input, init);
+    }
+    const headers = new Headers(init?.headers);
+    Object.entries(traceHeaders).forEach(([name, value]) => {
+      headers.set(name, value);
+    });
+    return await fetchFn(input, { ...init, headers });
+  };
+
+const getRequestTraceHeaders = (
+  body: BodyInit | null | undefined,
+): Record<string, string> | undefined => {
+  if (typeof body !== "string" || !body.includes(TRACE_HEADERS_META_KEY)) {
+    return undefined;
+  }
+  try {
+    const message: unknown = JSON.parse(body);
+    // Only single requests are traced, batches are sent as they are
+    const traceHeaders = (
+      message as { params?: { _meta?: Record<string, unknown> } }
+    ).params?._meta?.[TRACE_HEADERS_META_KEY];
+    if (typeof traceHeaders !== "object" || traceHeaders === null) {
+      return undefined;
+    }
+    return Object.fromEntries(
+      Object.entries(traceHeaders).filter(
+        (entry): entry is [string, string] => typeof entry[1] === "string",
+      ),
+    );
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,192 @@
+import Ajv from "ajv";
+import { z, ZodFirstPartyTypeKind, ZodTypeAny } from "zod";
+import { JSONSchemaLite, TamboAnyTool } from "../model/component-metadata";
+import {
+  ToolArgumentIssue,
+  ToolArgumentsError,
+} from "../model/tool-arguments-error";
+import { isJsonSchema, isObjectTool } from "./registry";
+
+// Tool schemas come from users and MCP servers, so unknown formats and
+// newer `$schema` drafts are tolerated rather than rejected
+const ajv = new Ajv({
+  allErrors: true,
+  coerceTypes: true,
+  unknownFormats: "ignore",
+  validateSchema: false,
+});
+
+/**
+ * Validate the arguments of a tool call against the tool's schema. Zod tools
+ * are parsed with their argument tuple or input object, after top-level
+ * strings are coerced to the numbers and booleans the schema expects. JSON
+ * Schema tools are checked with a JSON Schema validator, which applies the
+ * same coercion.
+ * @param tool - The tool being called
+ * @param args - The arguments from the tool call request
+ * @returns The parsed arguments to call the tool with
+ * @throws {ToolArgumentsError} When the arguments do not match the schema
+ */
+export const validateToolArgs = (
+  tool: TamboAnyTool,
+  args: unknown[],
+): unknown[] => {
+  if (isObjectTool(tool)) {
+    return validateZodObjectArgs(tool.name, tool.inputSchema, args);
+  }
+  if (isJsonSchema(tool.toolSchema)) {
+    return validateJsonSchemaArgs(tool.name, tool.toolSchema, args);
+  }
+  return validateZodArgs(tool.name, tool.toolSchema.parameters(), args);
+};
+
+const validateZodArgs = (
+  toolName: string,
+  parameters: z.ZodTuple<any, any>,
+  args: unknown[],
+): unknown[] => {
+  const items: ZodTypeAny[] = parameters.items;
+  const parsed = parameters.safeParse(
+    args.map((arg, index) => coercePrimitive(items[index], arg)),
+  );
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  throw new ToolArgumentsError(
+    toolName,
+    parsed.error.issues.map(
+      (issue): ToolArgumentIssue => ({
+        path: formatTuplePath(issue.path),
+        message: issue.message,
+      }),
+    ),
+  );
+};
+
+const validateZodObjectArgs = (
+  toolName: string,
+  inputSchema: z.AnyZodObject,
+  args: unknown[],
+): unknown[] => {
+  const [input, ...rest] = args;
+  const shape: z.ZodRawShape = inputSchema.shape;
+  const coerced =
+    typeof input === "object" && input !== null
+      ? Object.fromEntries(
+          Object.entries(input).map(([key, value]) => [
+            key,
+            coercePrimitive(shape[key], value),
+          ]),
+        )
+      : input;
+  const parsed = inputSchema.safeParse(coerced);
+  if (parsed.success) {
+    return [parsed.data, ...rest];
+  }
+
+  throw new ToolArgumentsError(
+    toolName,
+    parsed.error.issues.map(
+      (issue): ToolArgumentIssue => ({
+        path: issue.path.length > 0 ? issue.path.join(".") : "input",
+        message: issue.message,
+      }),
+    ),
+  );
+};
+
+const validateJsonSchemaArgs = (
+  toolName: string,
+  schema: JSONSchemaLite,
+  args: unknown[],
+): unknown[] => {
+  let validate: Ajv.ValidateFunction;
+  try {
+    validate = ajv.compile(schema);
+  } catch (error) {
+    console.warn(
+      `Could not compile the schema of tool ${toolName}, skipping argument validation`,
+      error,
+    );
+    return args;
+  }
+
+  // JSON Schema tools take a single object argument. The validator coerces in
+  // place, so work on a copy to leave the thread message untouched.
+  const [input, ...rest] = args;
+  const data = input === undefined ? input : JSON.parse(JSON.stringify(input));
+  if (validate(data)) {
+    return [data, ...rest];
+  }
+
+  throw new ToolArgumentsError(
+    toolName,
+    (validate.errors ?? []).map(
+      (error): ToolArgumentIssue => ({
+        path: `args${error.dataPath}`,
+        message: error.message ?? `failed the ${error.keyword} check`,
+      }),
+    ),
+  );
+};
+
+/**
+ * Convert the path of a Zod issue on the argument tuple to the parameter
+ * names the model sees, e.g. `[0, "city"]` becomes `param1.city`.
+ * @param path - The path of the issue
+ * @returns The readable path
+ */
+const formatTuplePath = (path: (string | number)[]): string => {
+  if (path.length === 0) {
+    return "arguments";
+  }
+  const [index, ...rest] = path;
+  return [`param${Number(index) + 1}`, ...rest].join(".");
+};
+
+/**
+ * Models sometimes send numbers and booleans as strings, convert them when
+ * the parameter's schema expects a number or boolean and the conversion is
+ * lossless.
+ * @param schema - The schema of the parameter, if declared
+ * @param value - The value sent by the model
+ * @returns The coerced value, or the original value
+ */
+const coercePrimitive = (
+  schema: ZodTypeAny | undefined,
+  value: unknown,
+): unknown => {
+  let baseSchema = schema;
+  while (
+    baseSchema?._def.typeName === ZodFirstPartyTypeKind.ZodOptional ||
+    baseSchema?._def.typeName === ZodFirstPartyTypeKind.ZodNullable ||
+    baseSchema?._def.typeName === ZodFirstPartyTypeKind.ZodDefault
+  ) {
+    baseSchema = baseSchema._def.innerType;
+  }
+
+  switch (baseSchema?._def.typeName) {
+    case ZodFirstPartyTypeKind.ZodNumber:
+      if (
+        typeof value === "string" &&
+        value.trim() !== "" &&
+        Number.isFinite(Number(value))
+      ) {
+        return Number(value);
+      }
+      return value;
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      if (value === "true" || value === "false") {
+        return value === "true";
+      }
+      return value;
+    case ZodFirstPartyTypeKind.ZodString:
+      if (typeof value === "number" || typeof value === "boolean") {
+        return String(value);
+      }
+      return value;
+    default:
+      return value;
+  }
+};
@@ -34,6 +34,7 @@ export function MessageGenerationStage({
     IDLE: "Idle",
     CHOOSING_COMPONENT: "Choosing component",
     FETCHING_CONTEXT: "Fetching context",
+    AWAITING_APPROVAL: "Waiting for approval",
     HYDRATING_COMPONENT: "Preparing component",
     STREAMING_RESPONSE: "Generating response",
     COMPLETE: "Complete",